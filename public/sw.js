@@ -1,10 +1,9 @@
 // Service Worker for offline support
-const CACHE_NAME = 'stock-opname-pro-v1'
+const CACHE_NAME = 'stock-opname-pro-v2'
 const urlsToCache = [
   '/',
   '/index.html',
-  '/manifest.json',
-  '/vite.svg'
+  '/manifest.json'
 ]
 
 // Install event
@@ -33,6 +32,12 @@ self.addEventListener('activate', event => {
 
 // Fetch event
 self.addEventListener('fetch', event => {
+  // API calls go straight to the network; a cached page in their place would
+  // hide the failure the offline outbox relies on
+  if (event.request.method !== 'GET' || new URL(event.request.url).origin !== self.location.origin) {
+    return
+  }
+
   event.respondWith(
     caches.match(event.request)
       .then(response => {
@@ -77,7 +82,8 @@ self.addEventListener('sync', event => {
   }
 })
 
+// The outbox is replayed by the page, which holds the session token
 async function syncData() {
-  // Implement background sync logic here
-  console.log('Background sync triggered')
+  const clientList = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  clientList.forEach(client => client.postMessage({ type: 'SYNC_OUTBOX' }))
 }
\ No newline at end of file
@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import axios from 'axios';
 import { AudioPresets, setupAudioOnFirstInteraction } from './services/audioService';
+import api, { opnameApi, userApi, importApi, exportApi, reportApi, authStorage, AUTH_LOGOUT_EVENT } from './services/apiService';
+import { findCachedItem, cacheItems, syncCatalog } from './services/catalogCache';
+import { enqueue, getOutbox, isNetworkError, isScanQueued, replayOutbox, OUTBOX_CHANGED_EVENT, SYNC_MESSAGE } from './services/offlineQueue';
+import { OpnameSession, OpnameVariance, InventoryStats, AuthUser, Permission, ImportPreview, ImportJob, OutboxEntry, hasPermission } from './types/index.ts';
 
 // Components
 import ScannerInput from './components/ScannerInput';
@@ -11,6 +14,16 @@ import CameraScanner from './components/CameraScanner';
 import LoanSystem from './components/LoanSystem';
 import ReturnSystem from './components/ReturnSystem';
 import BorrowerManagement from './components/BorrowerManagement';
+import MaintenancePanel from './components/MaintenancePanel';
+import ReservationManagement from './components/ReservationManagement';
+import LiabilityReport from './components/LiabilityReport';
+import ImportPreviewDialog from './components/ImportPreviewDialog';
+import ImportHistory from './components/ImportHistory';
+import LabelPrintDialog from './components/LabelPrintDialog';
+import UserManagement from './components/UserManagement';
+import OpnameSessionPanel from './components/OpnameSessionPanel';
+import LoginScreen from './components/LoginScreen';
+import OutboxPanel from './components/OutboxPanel';
 
 // Types
 interface InventoryItem {
@@ -26,21 +39,26 @@ interface InventoryItem {
   receive_date: string;
   updated_at: string;
   created_at: string;
+  last_scanned?: string | null;
+  scan_count?: number;
+  is_scanned?: boolean;
+  scan_timestamp?: string | null;
 }
 
+// How often the server is probed while logged in, so queued work syncs soon after it is back
+const CONNECTION_CHECK_INTERVAL = 15000;
+
 interface ScanFeedback {
   status: 'IDLE' | 'PROCESSING' | 'FOUND' | 'NOT_FOUND' | 'DUPLICATE' | 'ERROR' | 'SUCCESS';
   message: string;
   item: InventoryItem | null;
 }
 
-// API Configuration
-const API_BASE_URL = 'http://10.5.28.10:5000/api';
-
 const App: React.FC = () => {
   // State Management
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(authStorage.getUser());
   const [tableData, setTableData] = useState<InventoryItem[]>([]);
-  const [stats, setStats] = useState({ 
+  const [stats, setStats] = useState<InventoryStats>({ 
     total: 0, 
     scanned: 0,
     on_loan: 0,
@@ -53,25 +71,37 @@ const App: React.FC = () => {
   });
   const [isLoading, setIsLoading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [importPhase, setImportPhase] = useState('');
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showCamera, setShowCamera] = useState(false);
   const [showLoanSystem, setShowLoanSystem] = useState(false);
   const [showReturnSystem, setShowReturnSystem] = useState(false);
   const [showBorrowerManagement, setShowBorrowerManagement] = useState(false);
-  const [lastScanTime, setLastScanTime] = useState<number>(0);
+  const [showMaintenance, setShowMaintenance] = useState(false);
+  const [showLiabilities, setShowLiabilities] = useState(false);
+  const [showImportHistory, setShowImportHistory] = useState(false);
+  // Label printing: for picked items, or for every item of an import batch
+  const [labelPrint, setLabelPrint] = useState<{ batch?: { id: number; file_name: string | null } } | null>(null);
+  const [showReservations, setShowReservations] = useState(false);
+  const [showUserManagement, setShowUserManagement] = useState(false);
   const [audioInitialized, setAudioInitialized] = useState(false);
   const [serverStatus, setServerStatus] = useState<'connected' | 'disconnected' | 'checking'>('checking');
   const [activeMenu, setActiveMenu] = useState<'inventory' | 'loans' | 'returns' | 'borrowers'>('inventory');
   const [searchQuery, setSearchQuery] = useState('');
+  const [activeSession, setActiveSession] = useState<OpnameSession | null>(null);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [showOutbox, setShowOutbox] = useState(false);
 
   // Refs
   const scanTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const uploadProgressIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Last barcode read, to drop the scanner firing the same code twice
+  const lastScanRef = useRef({ barcode: '', time: 0 });
 
   // Check server connection
   const checkServerConnection = async () => {
     try {
-      const response = await axios.get(`${API_BASE_URL}/health`, { timeout: 5000 });
+      const response = await api.get('/health', { timeout: 5000 });
       setServerStatus('connected');
       console.log('✅ Server connected:', response.data);
       return true;
@@ -103,7 +133,12 @@ const App: React.FC = () => {
     const initializeApp = async () => {
       const connected = await checkServerConnection();
       if (connected) {
-        await refreshData();
+        if (authStorage.getToken()) {
+          // Refresh role & permissions in case they changed since last login
+          const me = await userApi.getCurrentUser().catch(() => null);
+          if (me?.success) setCurrentUser(me.user);
+          await refreshData();
+        }
       } else {
         setLastScanFeedback({
           status: 'ERROR',
@@ -115,18 +150,72 @@ const App: React.FC = () => {
     
     initializeApp();
 
+    // Session rejected by the server (expired / revoked token)
+    const handleLogout = () => setCurrentUser(null);
+    window.addEventListener(AUTH_LOGOUT_EVENT, handleLogout);
+
     // Cleanup
     return () => {
       if (scanTimeoutRef.current) clearTimeout(scanTimeoutRef.current);
-      if (uploadProgressIntervalRef.current) clearInterval(uploadProgressIntervalRef.current);
       document.removeEventListener('click', handleFirstInteraction);
+      window.removeEventListener(AUTH_LOGOUT_EVENT, handleLogout);
     };
   }, []);
 
+  // Watch the connection while logged in. Whenever the server answers, replay
+  // the outbox and pull catalogue changes; keep the outbox count current
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const loadOutbox = () => getOutbox().then(setOutboxEntries).catch(error => {
+      console.error('Failed to load outbox:', error);
+    });
+    const checkAndSync = async () => {
+      if (!(await checkServerConnection())) return;
+      await syncOutbox();
+      await syncCatalog().catch(error => console.error('Catalogue sync error:', error));
+    };
+    const handleOffline = () => setServerStatus('disconnected');
+    // Background sync fired in the service worker
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === SYNC_MESSAGE) checkAndSync();
+    };
+
+    loadOutbox();
+    checkAndSync();
+    const timer = setInterval(checkAndSync, CONNECTION_CHECK_INTERVAL);
+    window.addEventListener(OUTBOX_CHANGED_EVENT, loadOutbox);
+    window.addEventListener('online', checkAndSync);
+    window.addEventListener('offline', handleOffline);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener(OUTBOX_CHANGED_EVENT, loadOutbox);
+      window.removeEventListener('online', checkAndSync);
+      window.removeEventListener('offline', handleOffline);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, [currentUser]);
+
+  // Handle login / logout
+  const can = (permission: Permission) => hasPermission(currentUser, permission);
+
+  const handleLogin = async (user: AuthUser) => {
+    setCurrentUser(user);
+    await refreshData();
+  };
+
+  const handleLogoutClick = async () => {
+    if (!window.confirm('Log out?')) return;
+    await userApi.logout().catch(error => console.error('Logout error:', error));
+    setCurrentUser(null);
+  };
+
   // API Functions
   const getInventoryStats = async () => {
     try {
-      const response = await axios.get(`${API_BASE_URL}/stats`);
+      const response = await api.get('/stats');
       if (response.data.success) {
         return response.data.data;
       }
@@ -139,7 +228,7 @@ const App: React.FC = () => {
 
   const fetchRecentInventory = async () => {
     try {
-      const response = await axios.get(`${API_BASE_URL}/items`, {
+      const response = await api.get('/items', {
         params: { limit: 100 }
       });
       if (response.data.success) {
@@ -154,7 +243,7 @@ const App: React.FC = () => {
 
   const getItemByBarcode = async (barcode: string) => {
     try {
-      const response = await axios.get(`${API_BASE_URL}/items/${barcode}`);
+      const response = await api.get(`/items/${barcode}`);
       if (response.data.success && response.data.found) {
         return response.data.data;
       }
@@ -165,20 +254,15 @@ const App: React.FC = () => {
     }
   };
 
-  const markItemAsScanned = async (barcode: string) => {
+  const fetchActiveSession = async () => {
     try {
-      // Update item status to scanned
-      const response = await axios.put(`${API_BASE_URL}/items/${barcode}/status`, {
-        status: 'Scanned',
-        user: 'Admin'
-      });
-      
-      if (response.data.success) {
-        return response.data.data;
+      const response = await opnameApi.getActiveSession();
+      if (response.success) {
+        return response.data as OpnameSession | null;
       }
-      throw new Error('Failed to mark item as scanned');
+      throw new Error(response.error);
     } catch (error) {
-      console.error('Mark scanned error:', error);
+      console.error('Fetch opname session error:', error);
       throw error;
     }
   };
@@ -186,12 +270,14 @@ const App: React.FC = () => {
   // Refresh inventory data
   const refreshData = async () => {
     try {
-      const [statData, recentData] = await Promise.all([
+      const [statData, recentData, sessionData] = await Promise.all([
         getInventoryStats(),
-        fetchRecentInventory()
+        fetchRecentInventory(),
+        fetchActiveSession()
       ]);
       setStats(statData);
       setTableData(recentData);
+      setActiveSession(sessionData);
       
     } catch (error) {
       console.error("Sync Error", error);
@@ -203,6 +289,27 @@ const App: React.FC = () => {
     }
   };
 
+  // Send the outbox; anything the server refuses stays there for a decision
+  const syncOutbox = async () => {
+    try {
+      const summary = await replayOutbox();
+      if (summary.synced > 0) {
+        await refreshData();
+        setLastScanFeedback({
+          status: 'SUCCESS',
+          message: `${summary.synced} QUEUED CHANGE(S) SYNCED`,
+          item: null
+        });
+      }
+      if (summary.conflicts > 0 || summary.failed > 0) {
+        AudioPresets.ITEM_NOT_FOUND();
+        setShowOutbox(true);
+      }
+    } catch (error) {
+      console.error('Outbox sync error:', error);
+    }
+  };
+
   // Handle file upload
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -221,32 +328,14 @@ const App: React.FC = () => {
       return;
     }
 
-    const confirmUpload = window.confirm(
-      `Upload Data Stok?\n\nFile: ${file.name}\nSize: ${(file.size / 1024 / 1024).toFixed(2)} MB\n\nRequired columns in Excel:\n- Barcode (required)\n- Item Name\n- Brand\n- Size\n- Color\n- Price\n- Receive No\n- Receive Date`
-    );
-
-    if (!confirmUpload) {
-      event.target.value = '';
-      return;
-    }
-
     setIsLoading(true);
     setUploadProgress(0);
     setLastScanFeedback({ 
       status: 'PROCESSING', 
-      message: 'Processing Excel file...',
+      message: 'Reading Excel file...',
       item: null
     });
 
-    // Simulate progress
-    let progress = 0;
-    uploadProgressIntervalRef.current = setInterval(() => {
-      progress += 5;
-      if (progress <= 90) {
-        setUploadProgress(progress);
-      }
-    }, 100);
-
     try {
       // Check server
       const connected = await checkServerConnection();
@@ -254,60 +343,23 @@ const App: React.FC = () => {
         throw new Error('Server is not connected. Please start the server.');
       }
 
-      // Create FormData
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('user', 'Admin User');
-
-      // Upload file
-      const response = await axios.post(`${API_BASE_URL}/upload-excel`, formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-        onUploadProgress: (progressEvent) => {
-          if (progressEvent.total) {
-            const percentCompleted = Math.round((progressEvent.loaded * 90) / progressEvent.total);
-            setUploadProgress(percentCompleted);
-          }
-        },
-        timeout: 300000, // 5 minutes
-      });
-
-      // Clear progress interval
-      if (uploadProgressIntervalRef.current) {
-        clearInterval(uploadProgressIntervalRef.current);
-      }
-      setUploadProgress(100);
+      // Phase one: nothing is written until the mapping is confirmed in the preview
+      const response = await importApi.preview(file, undefined, setUploadProgress);
 
-      if (response.data.success) {
-        AudioPresets.UPLOAD_COMPLETE();
+      if (response.success) {
+        setImportPreview(response.data);
         setLastScanFeedback({
-          status: 'SUCCESS',
-          message: response.data.message || 'Upload successful!',
+          status: 'IDLE',
+          message: `Check the column mapping of ${file.name}`,
           item: null
         });
-
-        // Show success message with details
-        setTimeout(() => {
-          if (response.data.stats) {
-            const { added, updated, skipped } = response.data.stats;
-            alert(`✅ Upload Summary:\n\n📥 Added: ${added} items\n📝 Updated: ${updated} items\n⏭️ Skipped: ${skipped} items`);
-          }
-        }, 500);
-
-        // Refresh data
-        await refreshData();
       } else {
-        throw new Error(response.data.message || 'Upload failed');
+        throw new Error(response.message || 'Upload failed');
       }
 
     } catch (error: any) {
       console.error('Upload error:', error);
       
-      if (uploadProgressIntervalRef.current) {
-        clearInterval(uploadProgressIntervalRef.current);
-      }
-      
       AudioPresets.ITEM_NOT_FOUND();
       
       let errorMessage = 'Upload failed. ';
@@ -333,96 +385,263 @@ const App: React.FC = () => {
     }
   };
 
-  // Handle export data
-  const handleExport = async (filterType: 'ALL' | 'SCANNED' | 'PENDING' | 'ON_LOAN') => {
-    if (tableData.length === 0) {
-      alert("No data available for export.");
-      return;
+  // Follows a background import until it completed or failed
+  const pollImportJob = async (jobId: string): Promise<ImportJob> => {
+    while (true) {
+      const response = await importApi.getJob(jobId);
+      const job: ImportJob = response.data;
+      setUploadProgress(job.progress);
+      // One-shot uploads do not know their row count up front
+      setImportPhase(job.total > 0
+        ? `${job.phase} (${job.processed} / ${job.total})`
+        : job.processed > 0 ? `${job.phase} (${job.processed} rows)` : job.phase);
+      if (job.status === 'completed' || job.status === 'failed') {
+        return job;
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+  };
+
+  // Phase two confirmed in ImportPreviewDialog: the server imports in the background
+  const handleImportStarted = async (jobId: string) => {
+    setImportPreview(null);
+    setIsLoading(true);
+    setUploadProgress(0);
+    setLastScanFeedback({ status: 'PROCESSING', message: 'Importing items...', item: null });
+
+    try {
+      const job = await pollImportJob(jobId);
+      if (job.status === 'failed' || !job.result) {
+        throw new Error(job.error || 'Import failed');
+      }
+      await handleImportCompleted(job.result, job.file_name);
+    } catch (error: any) {
+      console.error('Import error:', error);
+      AudioPresets.ITEM_NOT_FOUND();
+      const errorMessage = error.response?.data?.message || error.message || 'Import failed.';
+      setLastScanFeedback({ status: 'ERROR', message: errorMessage, item: null });
+      alert(`❌ Import Error:\n\n${errorMessage}`);
+    } finally {
+      setIsLoading(false);
+      setImportPhase('');
+      setTimeout(() => setUploadProgress(0), 1000);
+    }
+  };
+
+  const handleImportCompleted = async (result: any, fileName: string | null = null) => {
+    AudioPresets.UPLOAD_COMPLETE();
+    setLastScanFeedback({
+      status: 'SUCCESS',
+      message: result.message || 'Upload successful!',
+      item: null
+    });
+
+    if (result.stats) {
+      const { added, updated, skipped, errors } = result.stats;
+      const errorLines: string[] = result.errors || [];
+      alert(`✅ Upload Summary:\n\n📥 Added: ${added} items\n📝 Updated: ${updated} items\n⏭️ Skipped: ${skipped} items${
+        errors ? `\n❌ Errors: ${errors}\n\n${errorLines.slice(0, 10).join('\n')}${
+          errorLines.length > 10 ? `\n...and ${errorLines.length - 10} more` : ''
+        }` : ''
+      }`);
+    }
+
+    await refreshData();
+
+    // New items usually arrive without a physical label
+    if (result.batch_id && result.stats?.added > 0 && can('print_labels') && window.confirm(
+      `Print labels for this import now?${result.stats.generated ? `\n\n${result.stats.generated} items got an internal barcode.` : ''}`
+    )) {
+      setLabelPrint({ batch: { id: result.batch_id, file_name: fileName } });
+    }
+  };
+
+  const handleImportCancelled = () => {
+    if (importPreview) {
+      importApi.discard(importPreview.token).catch(error => console.error('Failed to discard import:', error));
     }
+    setImportPreview(null);
+    setLastScanFeedback({ status: 'IDLE', message: 'Import cancelled', item: null });
+  };
+
+  // Handle export data (XLSX built by the server: summary sheet plus one sheet per filter)
+  const handleExport = async (filterType: 'ALL' | 'SCANNED' | 'PENDING' | 'ON_LOAN') => {
+    await runServerExport(() => exportApi.inventory(filterType), 'Inventory report downloaded');
+  };
 
+  const runServerExport = async (download: () => Promise<void>, successMessage: string) => {
     const button = document.getElementById('export-btn-text');
     const originalText = button?.textContent || 'DOWNLOAD REPORT';
     
     if (button) button.textContent = "Processing...";
 
     try {
-      let dataToExport = [...tableData];
-      
-      // Filter data
-      if (filterType === 'SCANNED') {
-        dataToExport = dataToExport.filter(item => 
-          item.status === 'Scanned'
-        );
-      } else if (filterType === 'ON_LOAN') {
-        dataToExport = dataToExport.filter(item => 
-          item.status === 'On Loan'
-        );
-      } else if (filterType === 'PENDING') {
-        dataToExport = dataToExport.filter(item => 
-          item.status === 'Available'
-        );
+      await download();
+
+      // Success feedback
+      AudioPresets.EXPORT_COMPLETE();
+      setLastScanFeedback({
+        status: 'SUCCESS',
+        message: successMessage,
+        item: null
+      });
+
+    } catch (error) {
+      console.error('Export error:', error);
+      AudioPresets.ITEM_NOT_FOUND();
+      alert("Error during export. Please try again.");
+    } finally {
+      if (button) button.textContent = originalText;
+    }
+  };
+
+  // Use the running session, otherwise the most recently closed one
+  const findReportSession = async () => {
+    if (activeSession) return activeSession;
+    const sessions = await opnameApi.getSessions('Closed');
+    return sessions.success && sessions.data.length > 0 ? sessions.data[0] : null;
+  };
+
+  // Signed-off PDF reports; the supervisor name is optional and printed under the approval line
+  const handlePdfReport = async (report: 'OPNAME' | 'MONTHLY_LOANS' | 'OVERDUE') => {
+    let month = '';
+    let sessionId = 0;
+    if (report === 'OPNAME') {
+      const session = await findReportSession();
+      if (!session) {
+        alert("No stock opname session available for a report.");
+        return;
+      }
+      sessionId = session.id;
+    } else if (report === 'MONTHLY_LOANS') {
+      month = prompt("Report month (YYYY-MM):", new Date().toISOString().slice(0, 7))?.trim() || '';
+      if (!month) return;
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+        alert("Month must be in YYYY-MM format.");
+        return;
       }
+    }
+
+    const supervisor = prompt("Supervisor name for the approval signature (leave empty to sign by hand):");
+    if (supervisor === null) return;
+
+    await runServerExport(async () => {
+      if (report === 'OPNAME') {
+        await reportApi.opname(sessionId, supervisor.trim() || undefined);
+      } else if (report === 'MONTHLY_LOANS') {
+        await reportApi.monthlyLoans(month, supervisor.trim() || undefined);
+      } else {
+        await reportApi.overdue(supervisor.trim() || undefined);
+      }
+    }, 'PDF report generated');
+  };
+
+  // Handle export of the stock opname variance report
+  const handleExportVariance = async () => {
+    const button = document.getElementById('export-btn-text');
+    const originalText = button?.textContent || 'DOWNLOAD REPORT';
+    
+    if (button) button.textContent = "Processing...";
 
-      if (dataToExport.length === 0) {
-        alert("No data matches the selected filter.");
+    try {
+      const session = await findReportSession();
+      if (!session) {
+        alert("No stock opname session available for a variance report.");
         return;
       }
 
-      // Prepare CSV content
+      const response = await opnameApi.getVariance(session.id);
+      if (!response.success) {
+        throw new Error(response.error);
+      }
+
+      const variance: OpnameVariance = response.data;
+      const quote = (value: string | null | undefined) => `"${(value || '').replace(/"/g, '""')}"`;
+
       const headers = [
+        "Variance",
         "Barcode",
         "Item Name",
         "Brand",
-        "Size", 
-        "Color",
+        "Category",
         "Price",
         "Status",
-        "Receive No",
-        "Receive Date",
-        "Last Updated"
+        "Scanned By",
+        "Scanned At"
       ];
 
-      const rows = dataToExport.map(item => [
+      const itemRow = (type: string, item: OpnameVariance['missing'][number]) => [
+        type,
         item.barcode,
-        `"${(item.item_name || '').replace(/"/g, '""')}"`,
-        item.brand || '',
-        item.size || '',
-        item.color || '',
+        quote(item.item_name),
+        quote(item.brand),
+        quote(item.category || 'Uncategorized'),
         Number(item.price || 0).toFixed(2),
-        item.status || 'Available',
-        item.receive_no || '',
-        item.receive_date || '',
-        item.updated_at ? new Date(item.updated_at).toLocaleString('id-ID') : '-'
+        item.item_status || '',
+        item.scanned_by || '',
+        item.scanned_at ? new Date(item.scanned_at).toLocaleString('id-ID') : ''
+      ];
+
+      const rows = [
+        ...variance.missing.map(item => itemRow('MISSING', item)),
+        ...variance.unknown.map(scan => [
+          'UNKNOWN BARCODE', scan.barcode, '', '', '', '', '', scan.scanned_by,
+          new Date(scan.scanned_at).toLocaleString('id-ID')
+        ]),
+        ...variance.scanned_on_loan.map(item => itemRow('SCANNED WHILE ON LOAN', item))
+      ];
+
+      const categoryHeaders = [
+        "Category",
+        "Expected Items",
+        "Expected Value",
+        "Counted Items",
+        "Counted Value",
+        "Missing Items",
+        "Missing Value"
+      ];
+
+      const categoryRows = variance.categories.map(total => [
+        quote(total.category),
+        total.expected_items,
+        total.expected_value.toFixed(2),
+        total.counted_items,
+        total.counted_value.toFixed(2),
+        total.missing_items,
+        total.missing_value.toFixed(2)
       ]);
 
       const csvContent = [
+        `${quote(`Variance Report - ${variance.session.session_name}`)},${variance.session.status}`,
+        '',
         headers.join(','),
-        ...rows.map(row => row.join(','))
+        ...rows.map(row => row.join(',')),
+        '',
+        categoryHeaders.join(','),
+        ...categoryRows.map(row => row.join(','))
       ].join('\n');
 
-      // Create and download CSV file
       const blob = new Blob(['\ufeff' + csvContent], { type: 'text/csv;charset=utf-8;' });
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.setAttribute('download', `Inventory_${filterType}_${new Date().toISOString().split('T')[0]}.csv`);
+      link.setAttribute('download', `Variance_${variance.session.session_name.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.csv`);
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
       URL.revokeObjectURL(url);
 
-      // Success feedback
       AudioPresets.EXPORT_COMPLETE();
       setLastScanFeedback({
         status: 'SUCCESS',
-        message: `Exported ${dataToExport.length} items successfully`,
+        message: `Variance: ${variance.summary.missing_items} missing, ${variance.summary.unknown_barcodes} unknown, ${variance.summary.scanned_on_loan} on loan`,
         item: null
       });
 
     } catch (error) {
-      console.error('Export error:', error);
+      console.error('Variance export error:', error);
       AudioPresets.ITEM_NOT_FOUND();
-      alert("Error during export. Please try again.");
+      alert("Error during variance export. Please try again.");
     } finally {
       if (button) button.textContent = originalText;
     }
@@ -444,10 +663,9 @@ const App: React.FC = () => {
 
     setIsLoading(true);
     try {
-      const response = await axios.delete(`${API_BASE_URL}/clear/all`, {
+      const response = await api.delete('/clear/all', {
         data: {
-          password: 'DELETE_CONFIRM',
-          user: 'Admin'
+          password: 'DELETE_CONFIRM'
         }
       });
       
@@ -478,63 +696,142 @@ const App: React.FC = () => {
     }
   };
 
+  // Keep an opname scan on this device until the server is reachable again
+  const queueScan = async (session: OpnameSession, barcode: string) => {
+    if (await isScanQueued(session.id, barcode)) {
+      AudioPresets.ITEM_DUPLICATE();
+      setLastScanFeedback({
+        status: 'DUPLICATE',
+        message: 'ALREADY QUEUED (OFFLINE)',
+        item: null
+      });
+      return;
+    }
+
+    const item = await findCachedItem(barcode);
+    await enqueue({
+      kind: 'opname_scan',
+      label: `Scan ${barcode}${item ? ` (${item.item_name})` : ''} • ${session.session_name}`,
+      payload: { session_id: session.id, barcode, scanned_at: new Date().toISOString() }
+    });
+    AudioPresets.ITEM_FOUND();
+    setLastScanFeedback({
+      status: 'SUCCESS',
+      message: `OFFLINE - ${item?.item_name || barcode} QUEUED FOR SYNC`,
+      item
+    });
+  };
+
+  // Catalogue cache first; the server is only asked for barcodes the cache does not know
+  const lookupItem = async (barcode: string) => {
+    const cached = await findCachedItem(barcode);
+    if (cached || serverStatus === 'disconnected') return cached;
+
+    const item = await getItemByBarcode(barcode);
+    if (item) cacheItems([item]);
+    return item;
+  };
+
   // Handle barcode scan
   const handleScan = useCallback(async (barcode: string) => {
-    // Debounce
+    const searchCode = barcode.trim();
+
+    // Debounce repeats of the same barcode only, so different items can be scanned back to back
     const now = Date.now();
-    if (now - lastScanTime < 500) return;
-    setLastScanTime(now);
+    if (searchCode === lastScanRef.current.barcode && now - lastScanRef.current.time < 500) return;
+    lastScanRef.current = { barcode: searchCode, time: now };
 
-    if (!barcode.trim() || isProcessing) return;
+    if (!searchCode || isProcessing) return;
 
     setIsProcessing(true);
-    const searchCode = barcode.trim();
 
     // Clear previous feedback timeout
     if (scanTimeoutRef.current) clearTimeout(scanTimeoutRef.current);
 
     try {
-      const item = await getItemByBarcode(searchCode);
+      // Record the scan in the running stock opname session
+      if (activeSession) {
+        if (activeSession.status !== 'Open') {
+          AudioPresets.ITEM_DUPLICATE();
+          setLastScanFeedback({
+            status: 'ERROR',
+            message: 'OPNAME SESSION IS PAUSED',
+            item: null
+          });
+          return;
+        }
+
+        if (serverStatus === 'disconnected') {
+          await queueScan(activeSession, searchCode);
+          return;
+        }
+
+        let result;
+        try {
+          result = await opnameApi.recordScan(activeSession.id, searchCode);
+          if (result.found) cacheItems([result.data]);
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          setServerStatus('disconnected');
+          await queueScan(activeSession, searchCode);
+          return;
+        }
+
+        if (!result.found) {
+          AudioPresets.ITEM_NOT_FOUND();
+          setLastScanFeedback({
+            status: 'NOT_FOUND',
+            message: result.duplicate ? 'UNKNOWN BARCODE (ALREADY RECORDED)' : 'BARCODE NOT FOUND - RECORDED AS UNKNOWN',
+            item: null
+          });
+        } else if (result.duplicate) {
+          AudioPresets.ITEM_DUPLICATE();
+          setLastScanFeedback({
+            status: 'DUPLICATE',
+            message: `ALREADY SCANNED BY ${String(result.scan?.scanned_by || '').toUpperCase()}`,
+            item: result.data
+          });
+        } else {
+          AudioPresets.ITEM_FOUND();
+          setLastScanFeedback({
+            status: 'FOUND',
+            message: result.data.status === 'On Loan'
+              ? `${result.data.item_name || 'ITEM'} SCANNED - STATUS SAYS ON LOAN`
+              : `${result.data.item_name || 'ITEM'} SCANNED SUCCESSFULLY`,
+            item: result.data
+          });
+          
+          // Refresh data after successful scan, without holding up the next one
+          refreshData();
+        }
+        return;
+      }
+
+      // No running count: look the item up without recording anything
+      const item = await lookupItem(searchCode);
       
       if (!item) {
         AudioPresets.ITEM_NOT_FOUND();
         setLastScanFeedback({
           status: 'NOT_FOUND',
-          message: 'BARCODE NOT FOUND',
+          message: serverStatus === 'disconnected' ? 'BARCODE NOT IN OFFLINE CATALOGUE' : 'BARCODE NOT FOUND',
           item: null
         });
-      } else if (item.status === 'Scanned') {
+      } else {
         AudioPresets.ITEM_DUPLICATE();
-        setLastScanFeedback({
-          status: 'DUPLICATE',
-          message: 'ALREADY SCANNED',
-          item: item
-        });
-      } else if (item.status === 'On Loan') {
-        AudioPresets.ITEM_NOT_FOUND();
         setLastScanFeedback({
           status: 'ERROR',
-          message: 'ITEM IS ON LOAN',
+          message: `${item.item_name || 'ITEM'} (${String(item.status).toUpperCase()}) - OPEN AN OPNAME SESSION TO COUNT`,
           item: item
         });
-      } else {
-        const scannedItem = await markItemAsScanned(searchCode);
-        AudioPresets.ITEM_FOUND();
-        setLastScanFeedback({
-          status: 'FOUND',
-          message: `${scannedItem.item_name || 'ITEM'} SCANNED SUCCESSFULLY`,
-          item: scannedItem
-        });
-        
-        // Refresh data after successful scan
-        await refreshData();
       }
     } catch (error) {
       console.error('Scan error:', error);
       AudioPresets.ITEM_NOT_FOUND();
+      if (isNetworkError(error)) setServerStatus('disconnected');
       setLastScanFeedback({
         status: 'ERROR',
-        message: 'SERVER ERROR',
+        message: isNetworkError(error) ? 'SERVER UNREACHABLE' : 'SERVER ERROR',
         item: null
       });
     } finally {
@@ -549,7 +846,7 @@ const App: React.FC = () => {
         });
       }, 3000);
     }
-  }, [isProcessing, lastScanTime]);
+  }, [isProcessing, activeSession, serverStatus]);
 
   // Handle camera scan success
   const handleCameraScanSuccess = useCallback((barcode: string) => {
@@ -560,10 +857,6 @@ const App: React.FC = () => {
 
   // Handle camera scan start
   const handleCameraStart = () => {
-    if (serverStatus !== 'connected') {
-      alert('Please connect to server first');
-      return;
-    }
     AudioPresets.CAMERA_SCAN_START();
     setShowCamera(true);
   };
@@ -584,7 +877,7 @@ const App: React.FC = () => {
   const testServerConnection = async () => {
     setIsLoading(true);
     try {
-      const response = await axios.get(`${API_BASE_URL}/test`, { timeout: 5000 });
+      const response = await api.get('/test', { timeout: 5000 });
       alert(`✅ Server is running!\n\n${JSON.stringify(response.data, null, 2)}`);
       setServerStatus('connected');
     } catch (error) {
@@ -604,7 +897,7 @@ const App: React.FC = () => {
 
     setIsLoading(true);
     try {
-      const response = await axios.get(`${API_BASE_URL}/items`, {
+      const response = await api.get('/items', {
         params: { search: searchQuery }
       });
       
@@ -618,6 +911,14 @@ const App: React.FC = () => {
     }
   };
 
+  // Outbox entries waiting to sync vs. refused by the server
+  const queuedCount = outboxEntries.filter(entry => entry.status === 'pending').length;
+  const attentionCount = outboxEntries.length - queuedCount;
+
+  if (!currentUser) {
+    return <LoginScreen onLogin={handleLogin} />;
+  }
+
   return (
     <div className="fixed inset-0 bg-gray-50 flex flex-col font-sans overflow-hidden">
       {/* Loading Overlay */}
@@ -630,8 +931,9 @@ const App: React.FC = () => {
             </div>
           </div>
           <h2 className="text-xl font-bold mt-4 mb-2">
-            {uploadProgress > 0 ? 'Uploading Data...' : 'Processing...'}
+            {importPhase ? 'Importing Data...' : uploadProgress > 0 ? 'Uploading Data...' : 'Processing...'}
           </h2>
+          {importPhase && <p className="text-sm text-gray-300">{importPhase}</p>}
           {uploadProgress > 0 && (
             <>
               <div className="w-64 bg-gray-700 rounded-full h-3 overflow-hidden mt-2">
@@ -668,6 +970,16 @@ const App: React.FC = () => {
                   {serverStatus === 'connected' ? 'Connected' : 
                    serverStatus === 'disconnected' ? 'Disconnected' : 'Checking...'}
                 </span>
+                {outboxEntries.length > 0 && (
+                  <button
+                    onClick={() => setShowOutbox(true)}
+                    className={`text-xs px-2 rounded-full ${
+                      attentionCount > 0 ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                    }`}
+                  >
+                    {queuedCount} queued{attentionCount > 0 && ` • ${attentionCount} need attention`}
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -692,6 +1004,7 @@ const App: React.FC = () => {
             </div>
 
             {/* Upload Button */}
+            {can('upload_stock') && (
             <label className="cursor-pointer bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-all shadow hover:shadow-md">
               <i className="fa-solid fa-upload"></i>
               Upload Excel
@@ -703,8 +1016,10 @@ const App: React.FC = () => {
                 disabled={isLoading}
               />
             </label>
+            )}
 
             {/* Loan System Button */}
+            {can('create_loan') && (
             <button
               onClick={() => setShowLoanSystem(true)}
               className="bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-all shadow hover:shadow-md"
@@ -712,8 +1027,10 @@ const App: React.FC = () => {
               <i className="fa-solid fa-handshake"></i>
               Loan System
             </button>
+            )}
 
             {/* Return System Button */}
+            {can('return_item') && (
             <button
               onClick={() => setShowReturnSystem(true)}
               className="bg-gradient-to-r from-orange-600 to-orange-700 hover:from-orange-700 hover:to-orange-800 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-all shadow hover:shadow-md"
@@ -721,6 +1038,7 @@ const App: React.FC = () => {
               <i className="fa-solid fa-arrow-right-to-bracket"></i>
               Return System
             </button>
+            )}
 
             {/* Export Dropdown */}
             <div className="relative group">
@@ -755,11 +1073,69 @@ const App: React.FC = () => {
                   </button>
                   <button 
                     onClick={() => handleExport('ALL')}
-                    className="w-full text-left p-2 hover:bg-blue-50 text-sm text-blue-700 font-medium rounded transition-colors flex items-center gap-2 border-b border-gray-100"
+                    className="w-full text-left p-2 hover:bg-blue-50 text-sm text-blue-700 font-medium rounded transition-colors flex items-center gap-2"
                   >
                     <i className="fa-solid fa-list text-blue-500"></i>
                     All Data
                   </button>
+                  <button 
+                    onClick={() => runServerExport(() => exportApi.activeLoans(), 'Active loans report downloaded')}
+                    className="w-full text-left p-2 hover:bg-orange-50 text-sm text-orange-700 font-medium rounded transition-colors flex items-center gap-2"
+                  >
+                    <i className="fa-solid fa-hourglass-half text-orange-500"></i>
+                    Active Loans
+                  </button>
+                  <button 
+                    onClick={() => runServerExport(() => exportApi.loanHistory(), 'Loan history downloaded')}
+                    className="w-full text-left p-2 hover:bg-green-50 text-sm text-green-700 font-medium rounded transition-colors flex items-center gap-2"
+                  >
+                    <i className="fa-solid fa-clock-rotate-left text-green-500"></i>
+                    Loan History
+                  </button>
+                  {can('view_logs') && (
+                  <button 
+                    onClick={() => runServerExport(() => exportApi.activityLogs(), 'Activity log downloaded')}
+                    className="w-full text-left p-2 hover:bg-gray-50 text-sm text-gray-700 font-medium rounded transition-colors flex items-center gap-2"
+                  >
+                    <i className="fa-solid fa-clipboard-list text-gray-500"></i>
+                    Activity Log
+                  </button>
+                  )}
+                  <button 
+                    onClick={handleExportVariance}
+                    className="w-full text-left p-2 hover:bg-indigo-50 text-sm text-indigo-700 font-medium rounded transition-colors flex items-center gap-2"
+                  >
+                    <i className="fa-solid fa-scale-unbalanced text-indigo-500"></i>
+                    Opname Variance
+                  </button>
+                  {can('manage_opname') && (
+                  <button 
+                    onClick={() => handlePdfReport('OPNAME')}
+                    className="w-full text-left p-2 hover:bg-red-50 text-sm text-red-700 font-medium rounded transition-colors flex items-center gap-2"
+                  >
+                    <i className="fa-solid fa-file-pdf text-red-500"></i>
+                    Opname Report (PDF)
+                  </button>
+                  )}
+                  {can('manage_loans') && (
+                  <>
+                  <button 
+                    onClick={() => handlePdfReport('MONTHLY_LOANS')}
+                    className="w-full text-left p-2 hover:bg-red-50 text-sm text-red-700 font-medium rounded transition-colors flex items-center gap-2"
+                  >
+                    <i className="fa-solid fa-file-pdf text-red-500"></i>
+                    Monthly Loan Report (PDF)
+                  </button>
+                  <button 
+                    onClick={() => handlePdfReport('OVERDUE')}
+                    className="w-full text-left p-2 hover:bg-red-50 text-sm text-red-700 font-medium rounded transition-colors flex items-center gap-2 border-b border-gray-100"
+                  >
+                    <i className="fa-solid fa-file-pdf text-red-500"></i>
+                    Overdue Report (PDF)
+                  </button>
+                  </>
+                  )}
+                  {can('clear_data') && (
                   <button 
                     onClick={handleClearData}
                     className="w-full text-left p-2 hover:bg-red-50 text-sm text-red-600 font-medium rounded transition-colors flex items-center gap-2 mt-1"
@@ -767,9 +1143,25 @@ const App: React.FC = () => {
                     <i className="fa-solid fa-trash-alt text-red-500"></i>
                     Clear All Data
                   </button>
+                  )}
                 </div>
               </div>
             </div>
+
+            {/* Current User */}
+            <div className="flex items-center gap-2 pl-3 border-l border-gray-200">
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-800">{currentUser.fullname || currentUser.username}</p>
+                <p className="text-xs text-gray-500 capitalize">{currentUser.role}</p>
+              </div>
+              <button
+                onClick={handleLogoutClick}
+                title="Log out"
+                className="bg-gray-100 hover:bg-red-50 hover:text-red-600 p-2.5 rounded-lg text-gray-600 transition-colors"
+              >
+                <i className="fa-solid fa-right-from-bracket"></i>
+              </button>
+            </div>
           </div>
         </div>
 
@@ -788,6 +1180,7 @@ const App: React.FC = () => {
                 <i className="fa-solid fa-boxes-stacked mr-2"></i>
                 Inventory Management
               </button>
+              {can('manage_borrowers') && (
               <button
                 onClick={() => setShowBorrowerManagement(true)}
                 className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
@@ -799,6 +1192,17 @@ const App: React.FC = () => {
                 <i className="fa-solid fa-users mr-2"></i>
                 Borrower Management
               </button>
+              )}
+              {can('manage_users') && (
+              <button
+                onClick={() => setShowUserManagement(true)}
+                className="py-3 px-1 border-b-2 font-medium text-sm transition-colors border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              >
+                <i className="fa-solid fa-user-shield mr-2"></i>
+                User Management
+              </button>
+              )}
+              {can('create_loan') && (
               <button
                 onClick={() => setShowLoanSystem(true)}
                 className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
@@ -810,6 +1214,8 @@ const App: React.FC = () => {
                 <i className="fa-solid fa-handshake mr-2"></i>
                 Loan Management
               </button>
+              )}
+              {can('return_item') && (
               <button
                 onClick={() => setShowReturnSystem(true)}
                 className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
@@ -821,6 +1227,52 @@ const App: React.FC = () => {
                 <i className="fa-solid fa-arrow-right-to-bracket mr-2"></i>
                 Return Management
               </button>
+              )}
+              {can('manage_reservations') && (
+              <button
+                onClick={() => setShowReservations(true)}
+                className="py-3 px-1 border-b-2 font-medium text-sm transition-colors border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              >
+                <i className="fa-solid fa-calendar-check mr-2"></i>
+                Reservations
+              </button>
+              )}
+              {can('manage_maintenance') && (
+              <button
+                onClick={() => setShowMaintenance(true)}
+                className="py-3 px-1 border-b-2 font-medium text-sm transition-colors border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              >
+                <i className="fa-solid fa-soap mr-2"></i>
+                Laundry & Repair
+              </button>
+              )}
+              {can('manage_loans') && (
+              <button
+                onClick={() => setShowLiabilities(true)}
+                className="py-3 px-1 border-b-2 font-medium text-sm transition-colors border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              >
+                <i className="fa-solid fa-file-invoice-dollar mr-2"></i>
+                Lost Items
+              </button>
+              )}
+              {can('upload_stock') && (
+              <button
+                onClick={() => setShowImportHistory(true)}
+                className="py-3 px-1 border-b-2 font-medium text-sm transition-colors border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              >
+                <i className="fa-solid fa-clock-rotate-left mr-2"></i>
+                Import History
+              </button>
+              )}
+              {can('print_labels') && (
+              <button
+                onClick={() => setLabelPrint({})}
+                className="py-3 px-1 border-b-2 font-medium text-sm transition-colors border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              >
+                <i className="fa-solid fa-barcode mr-2"></i>
+                Print Labels
+              </button>
+              )}
             </div>
           </div>
         </div>
@@ -836,10 +1288,21 @@ const App: React.FC = () => {
             scanned={stats.scanned} 
             onLoan={stats.on_loan}
             available={stats.available}
+            sessionName={stats.opname_session?.session_name}
           />
           
           {/* Feedback Display */}
           <FeedbackDisplay feedback={lastScanFeedback} />
+
+          {/* Stock Opname Session */}
+          <OpnameSessionPanel 
+            session={activeSession}
+            onSessionChange={(session) => {
+              setActiveSession(session);
+              refreshData();
+            }}
+            canManage={can('manage_opname')}
+          />
           
           {/* Scanner Controls */}
           <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 space-y-4">
@@ -853,9 +1316,9 @@ const App: React.FC = () => {
             {/* Camera Scanner Button */}
             <button 
               onClick={handleCameraStart}
-              disabled={isProcessing || serverStatus !== 'connected'}
+              disabled={isProcessing}
               className={`w-full py-4 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 active:scale-[0.98] text-white rounded-xl shadow-md font-bold flex justify-center items-center gap-3 text-lg transition-all duration-200 ${
-                (isProcessing || serverStatus !== 'connected') ? 'opacity-50 cursor-not-allowed' : ''
+                isProcessing ? 'opacity-50 cursor-not-allowed' : ''
               }`}
             >
               <i className="fa-solid fa-camera text-2xl"></i>
@@ -878,7 +1341,7 @@ const App: React.FC = () => {
                   'fa-exclamation-circle text-yellow-500'
                 }`}></i>
                 Server: {serverStatus === 'connected' ? 'Connected' : 
-                        serverStatus === 'disconnected' ? 'Disconnected - Please start server' : 
+                        serverStatus === 'disconnected' ? 'Disconnected - work is queued on this device' : 
                         'Checking...'}
               </p>
               <button 
@@ -887,6 +1350,15 @@ const App: React.FC = () => {
               >
                 Test Connection
               </button>
+              {outboxEntries.length > 0 && (
+                <button 
+                  onClick={() => setShowOutbox(true)}
+                  className="mt-2 ml-4 text-xs text-amber-700 hover:text-amber-900 font-medium"
+                >
+                  <i className="fa-solid fa-inbox mr-1"></i>
+                  Offline Queue ({outboxEntries.length})
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -947,19 +1419,91 @@ const App: React.FC = () => {
         />
       )}
 
+      {/* Excel Import Preview */}
+      {importPreview && can('upload_stock') && (
+        <ImportPreviewDialog
+          preview={importPreview}
+          onImportStarted={handleImportStarted}
+          onCancel={handleImportCancelled}
+        />
+      )}
+
+      {/* Import History Modal */}
+      {showImportHistory && can('upload_stock') && (
+        <ImportHistory 
+          onClose={() => setShowImportHistory(false)} 
+          onRolledBack={refreshData}
+          onPrintLabels={can('print_labels') ? (batch) => setLabelPrint({ batch }) : undefined}
+        />
+      )}
+
+      {/* Label Printing Modal */}
+      {labelPrint && can('print_labels') && (
+        <LabelPrintDialog 
+          batch={labelPrint.batch} 
+          onClose={() => setLabelPrint(null)} 
+        />
+      )}
+
       {/* Loan System Modal */}
-      {showLoanSystem && (
-        <LoanSystem onClose={() => setShowLoanSystem(false)} />
+      {showLoanSystem && can('create_loan') && (
+        <LoanSystem onClose={() => setShowLoanSystem(false)} offline={serverStatus === 'disconnected'} />
       )}
 
       {/* Return System Modal */}
-      {showReturnSystem && (
-        <ReturnSystem onClose={() => setShowReturnSystem(false)} />
+      {showReturnSystem && can('return_item') && (
+        <ReturnSystem 
+          onClose={() => setShowReturnSystem(false)} 
+          canManageLoans={can('manage_loans')} 
+          offline={serverStatus === 'disconnected'}
+        />
+      )}
+
+      {/* Offline Queue Modal */}
+      {showOutbox && (
+        <OutboxPanel 
+          isOnline={serverStatus === 'connected'}
+          onSync={syncOutbox}
+          onClose={() => setShowOutbox(false)} 
+        />
+      )}
+
+      {/* Reservations Modal */}
+      {showReservations && can('manage_reservations') && (
+        <ReservationManagement 
+          onClose={() => setShowReservations(false)} 
+          canCheckout={can('create_loan')}
+        />
+      )}
+
+      {/* Laundry & Repair Modal */}
+      {showMaintenance && can('manage_maintenance') && (
+        <MaintenancePanel onClose={() => setShowMaintenance(false)} />
+      )}
+
+      {/* Lost Items & Liabilities Modal */}
+      {showLiabilities && can('manage_loans') && (
+        <LiabilityReport 
+          onClose={() => setShowLiabilities(false)} 
+          canResolve={can('manage_liabilities')}
+        />
       )}
 
       {/* Borrower Management Modal */}
-      {showBorrowerManagement && (
-        <BorrowerManagement onClose={() => setShowBorrowerManagement(false)} />
+      {showBorrowerManagement && can('manage_borrowers') && (
+        <BorrowerManagement 
+          onClose={() => setShowBorrowerManagement(false)} 
+          canBlock={can('block_borrower')}
+          canDelete={can('delete_borrower')}
+        />
+      )}
+
+      {/* User Management Modal */}
+      {showUserManagement && can('manage_users') && (
+        <UserManagement 
+          onClose={() => setShowUserManagement(false)} 
+          currentUserId={currentUser.id}
+        />
       )}
 
       {/* Footer */}
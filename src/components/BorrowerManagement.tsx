@@ -0,0 +1,548 @@
+// components/BorrowerManagement.tsx
+import React, { useState, useEffect } from 'react';
+import { AudioPresets } from '../services/audioService';
+import { borrowerApi, loanApi } from '../services/apiService';
+import { Borrower, BorrowerLoan, formatDate, formatCurrency } from '../types/index.ts';
+
+interface BorrowerManagementProps {
+  onClose?: () => void;
+  canBlock?: boolean;
+  canDelete?: boolean;
+}
+
+type ActiveFilter = 'all' | 'active' | 'inactive';
+
+const emptyForm = {
+  nik: '',
+  name: '',
+  phone: '',
+  position: '',
+  department: '',
+  email: '',
+  address: ''
+};
+
+const BorrowerManagement: React.FC<BorrowerManagementProps> = ({ onClose, canBlock = false, canDelete = false }) => {
+  const [borrowers, setBorrowers] = useState<Borrower[]>([]);
+  const [selectedBorrower, setSelectedBorrower] = useState<Borrower | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [activeTab, setActiveTab] = useState<'profile' | 'history'>('profile');
+  const [form, setForm] = useState(emptyForm);
+  const [loanHistory, setLoanHistory] = useState<BorrowerLoan[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeFilter, setActiveFilter] = useState<ActiveFilter>('active');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    loadBorrowers();
+  }, [activeFilter]);
+
+  useEffect(() => {
+    if (selectedBorrower && activeTab === 'history') {
+      loadLoanHistory(selectedBorrower.id);
+    }
+  }, [selectedBorrower?.id, activeTab]);
+
+  const loadBorrowers = async () => {
+    try {
+      const response = await borrowerApi.getBorrowers({
+        search: searchQuery.trim() || undefined,
+        active: activeFilter === 'all' ? undefined : activeFilter === 'active'
+      });
+      if (response.success) {
+        setBorrowers(response.data);
+        // Keep the detail panel in sync with the refreshed row
+        if (selectedBorrower) {
+          const refreshed = response.data.find((b: Borrower) => b.id === selectedBorrower.id);
+          if (refreshed) setSelectedBorrower(refreshed);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load borrowers:', error);
+    }
+  };
+
+  const loadLoanHistory = async (borrowerId: number) => {
+    try {
+      const response = await borrowerApi.getBorrowerLoans(borrowerId);
+      if (response.success) {
+        setLoanHistory(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load loan history:', error);
+    }
+  };
+
+  const handleSelect = (borrower: Borrower) => {
+    AudioPresets.BUTTON_CLICK();
+    setIsCreating(false);
+    setSelectedBorrower(borrower);
+    setLoanHistory([]);
+    setForm({
+      nik: borrower.nik,
+      name: borrower.name,
+      phone: borrower.phone || '',
+      position: borrower.position || '',
+      department: borrower.department || '',
+      email: borrower.email || '',
+      address: borrower.address || ''
+    });
+  };
+
+  const handleNew = () => {
+    AudioPresets.BUTTON_CLICK();
+    setSelectedBorrower(null);
+    setIsCreating(true);
+    setActiveTab('profile');
+    setForm(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.nik.trim() || !form.name.trim()) return;
+
+    setIsLoading(true);
+    try {
+      const response = selectedBorrower
+        ? await borrowerApi.updateBorrower(selectedBorrower.id, form)
+        : await borrowerApi.upsertBorrower(form);
+
+      if (response.success) {
+        AudioPresets.UPLOAD_COMPLETE();
+        setIsCreating(false);
+        setSelectedBorrower(response.data);
+        await loadBorrowers();
+      }
+    } catch (error: any) {
+      console.error('Failed to save borrower:', error);
+      AudioPresets.ITEM_NOT_FOUND();
+      alert(error.response?.data?.message || 'Failed to save borrower.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleActive = async () => {
+    if (!selectedBorrower) return;
+    const action = selectedBorrower.is_active ? 'Deactivate' : 'Activate';
+    if (!window.confirm(`${action} ${selectedBorrower.name}?`)) return;
+
+    try {
+      const response = await borrowerApi.setBorrowerActive(selectedBorrower.id, !selectedBorrower.is_active);
+      if (response.success) {
+        AudioPresets.BUTTON_CLICK();
+        setSelectedBorrower({ ...selectedBorrower, ...response.data });
+        await loadBorrowers();
+      }
+    } catch (error: any) {
+      console.error('Failed to update borrower:', error);
+      alert(error.response?.data?.message || `Failed to ${action.toLowerCase()} borrower.`);
+    }
+  };
+
+  const handleToggleBlock = async () => {
+    if (!selectedBorrower) return;
+
+    try {
+      let response;
+      if (selectedBorrower.is_blocked) {
+        if (!window.confirm(`Allow ${selectedBorrower.name} to borrow again?`)) return;
+        response = await borrowerApi.unblockBorrower(selectedBorrower.id);
+      } else {
+        const overdue = selectedBorrower.overdue_items || 0;
+        const reason = prompt(
+          `Block ${selectedBorrower.name} from new loans?\n\nOverdue items: ${overdue}\n\nReason:`,
+          overdue > 0 ? `${overdue} overdue item(s)` : ''
+        );
+        if (!reason) return;
+        response = await borrowerApi.blockBorrower(selectedBorrower.id, reason);
+      }
+
+      if (response.success) {
+        AudioPresets.BUTTON_CLICK();
+        setSelectedBorrower({ ...selectedBorrower, ...response.data });
+        await loadBorrowers();
+      }
+    } catch (error: any) {
+      console.error('Failed to update block:', error);
+      alert(error.response?.data?.message || 'Failed to update borrower block.');
+    }
+  };
+
+  const handlePrintDocument = async (loanId: number, format: 'html' | 'pdf' = 'html') => {
+    try {
+      await loanApi.openDocument(loanId, format);
+    } catch (error) {
+      console.error('Failed to open loan document:', error);
+      alert('Failed to open loan document.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedBorrower) return;
+    if (!window.confirm(`Delete ${selectedBorrower.name}? This cannot be undone.`)) return;
+
+    try {
+      const response = await borrowerApi.deleteBorrower(selectedBorrower.id);
+      if (response.success) {
+        AudioPresets.BUTTON_CLICK();
+        setSelectedBorrower(null);
+        await loadBorrowers();
+      }
+    } catch (error: any) {
+      console.error('Failed to delete borrower:', error);
+      alert(error.response?.data?.message || 'Failed to delete borrower.');
+    }
+  };
+
+  const showDetail = isCreating || selectedBorrower !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-teal-600 to-teal-800 text-white p-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-bold">Borrower Management</h2>
+              <p className="text-teal-100">Borrower directory, loan history and loan blocks</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-teal-700 rounded-full transition-colors"
+            >
+              <i className="fa-solid fa-times text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6">
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+            {/* Borrower Directory */}
+            <div className="lg:col-span-2 space-y-3">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyPress={(e) => e.key === 'Enter' && loadBorrowers()}
+                  placeholder="Search name, NIK, department, email..."
+                  className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+                />
+                <button
+                  onClick={loadBorrowers}
+                  className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg"
+                >
+                  <i className="fa-solid fa-search"></i>
+                </button>
+              </div>
+
+              <div className="flex gap-2">
+                {(['active', 'inactive', 'all'] as ActiveFilter[]).map(filter => (
+                  <button
+                    key={filter}
+                    onClick={() => setActiveFilter(filter)}
+                    className={`px-3 py-1 text-xs font-medium rounded-full capitalize ${
+                      activeFilter === filter ? 'bg-teal-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {filter}
+                  </button>
+                ))}
+                <button
+                  onClick={handleNew}
+                  className="ml-auto px-3 py-1 text-xs font-medium rounded-full bg-green-600 hover:bg-green-700 text-white"
+                >
+                  <i className="fa-solid fa-plus mr-1"></i>
+                  New Borrower
+                </button>
+              </div>
+
+              <div className="space-y-2 max-h-[55vh] overflow-y-auto">
+                {borrowers.map(borrower => (
+                  <div
+                    key={borrower.id}
+                    onClick={() => handleSelect(borrower)}
+                    className={`p-3 rounded-lg border cursor-pointer transition-all ${
+                      selectedBorrower?.id === borrower.id
+                        ? 'border-teal-500 bg-teal-50'
+                        : 'border-gray-200 hover:border-teal-300 hover:bg-teal-50/50'
+                    } ${borrower.is_active === false ? 'opacity-60' : ''}`}
+                  >
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <h4 className="font-bold text-gray-800">{borrower.name}</h4>
+                        <p className="text-xs text-gray-600">
+                          NIK: {borrower.nik}{borrower.department ? ` • ${borrower.department}` : ''}
+                        </p>
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        {borrower.is_blocked && (
+                          <span className="px-2 py-0.5 text-xs font-bold rounded bg-red-100 text-red-800">Blocked</span>
+                        )}
+                        {Number(borrower.open_liability || 0) > 0 && (
+                          <span className="px-2 py-0.5 text-xs font-bold rounded bg-rose-100 text-rose-800">
+                            Owes {formatCurrency(Number(borrower.open_liability))}
+                          </span>
+                        )}
+                        {(borrower.overdue_items || 0) > 0 && (
+                          <span className="px-2 py-0.5 text-xs font-bold rounded bg-orange-100 text-orange-800">
+                            {borrower.overdue_items} overdue
+                          </span>
+                        )}
+                        {borrower.is_active === false && (
+                          <span className="px-2 py-0.5 text-xs font-bold rounded bg-gray-200 text-gray-700">Inactive</span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                {borrowers.length === 0 && (
+                  <p className="text-center text-gray-500 text-sm py-6">No borrowers found</p>
+                )}
+              </div>
+            </div>
+
+            {/* Borrower Detail */}
+            <div className="lg:col-span-3">
+              {!showDetail ? (
+                <div className="h-full flex flex-col items-center justify-center text-gray-400 py-16">
+                  <i className="fa-solid fa-address-card text-5xl mb-3"></i>
+                  <p>Select a borrower or create a new one</p>
+                </div>
+              ) : (
+                <div className="border border-gray-200 rounded-xl overflow-hidden">
+                  {/* Tabs */}
+                  <div className="flex border-b border-gray-200 bg-gray-50">
+                    <button
+                      onClick={() => setActiveTab('profile')}
+                      className={`px-4 py-3 text-sm font-medium border-b-2 ${
+                        activeTab === 'profile' ? 'border-teal-500 text-teal-700' : 'border-transparent text-gray-500'
+                      }`}
+                    >
+                      <i className="fa-solid fa-id-card mr-2"></i>
+                      Profile
+                    </button>
+                    {selectedBorrower && (
+                      <button
+                        onClick={() => setActiveTab('history')}
+                        className={`px-4 py-3 text-sm font-medium border-b-2 ${
+                          activeTab === 'history' ? 'border-teal-500 text-teal-700' : 'border-transparent text-gray-500'
+                        }`}
+                      >
+                        <i className="fa-solid fa-clock-rotate-left mr-2"></i>
+                        Loan History
+                      </button>
+                    )}
+                  </div>
+
+                  {/* Block Notice */}
+                  {selectedBorrower?.is_blocked && (
+                    <div className="m-4 mb-0 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                      <i className="fa-solid fa-ban mr-2"></i>
+                      Blocked from new loans: {selectedBorrower.blocked_reason || '-'}
+                      {selectedBorrower.blocked_by && (
+                        <span className="text-red-500"> ({selectedBorrower.blocked_by}, {formatDate(selectedBorrower.blocked_at || '')})</span>
+                      )}
+                    </div>
+                  )}
+
+                  {activeTab === 'profile' || !selectedBorrower ? (
+                    <form onSubmit={handleSubmit} className="p-4 space-y-3">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">NIK *</label>
+                          <input
+                            type="text"
+                            value={form.nik}
+                            onChange={(e) => setForm({ ...form, nik: e.target.value })}
+                            className="w-full p-2 border border-gray-300 rounded-lg"
+                            required
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                          <input
+                            type="text"
+                            value={form.name}
+                            onChange={(e) => setForm({ ...form, name: e.target.value })}
+                            className="w-full p-2 border border-gray-300 rounded-lg"
+                            required
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Position</label>
+                          <input
+                            type="text"
+                            value={form.position}
+                            onChange={(e) => setForm({ ...form, position: e.target.value })}
+                            className="w-full p-2 border border-gray-300 rounded-lg"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Department</label>
+                          <input
+                            type="text"
+                            value={form.department}
+                            onChange={(e) => setForm({ ...form, department: e.target.value })}
+                            className="w-full p-2 border border-gray-300 rounded-lg"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                          <input
+                            type="tel"
+                            value={form.phone}
+                            onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                            className="w-full p-2 border border-gray-300 rounded-lg"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                          <input
+                            type="email"
+                            value={form.email}
+                            onChange={(e) => setForm({ ...form, email: e.target.value })}
+                            className="w-full p-2 border border-gray-300 rounded-lg"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+                        <textarea
+                          value={form.address}
+                          onChange={(e) => setForm({ ...form, address: e.target.value })}
+                          className="w-full p-2 border border-gray-300 rounded-lg"
+                          rows={2}
+                        />
+                      </div>
+
+                      <div className="flex flex-wrap gap-2 pt-2">
+                        <button
+                          type="submit"
+                          disabled={isLoading}
+                          className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-lg font-medium"
+                        >
+                          {isLoading ? 'Saving...' : selectedBorrower ? 'Save Changes' : 'Create Borrower'}
+                        </button>
+                        {selectedBorrower && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={handleToggleActive}
+                              className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 rounded-lg font-medium"
+                            >
+                              <i className={`fa-solid ${selectedBorrower.is_active ? 'fa-user-slash' : 'fa-user-check'} mr-1`}></i>
+                              {selectedBorrower.is_active ? 'Deactivate' : 'Activate'}
+                            </button>
+                            {canBlock && (
+                              <button
+                                type="button"
+                                onClick={handleToggleBlock}
+                                className={`px-4 py-2 rounded-lg font-medium ${
+                                  selectedBorrower.is_blocked
+                                    ? 'bg-green-100 hover:bg-green-200 text-green-800'
+                                    : 'bg-red-100 hover:bg-red-200 text-red-800'
+                                }`}
+                              >
+                                <i className={`fa-solid ${selectedBorrower.is_blocked ? 'fa-unlock' : 'fa-ban'} mr-1`}></i>
+                                {selectedBorrower.is_blocked ? 'Unblock' : 'Block Loans'}
+                              </button>
+                            )}
+                            {canDelete && (
+                              <button
+                                type="button"
+                                onClick={handleDelete}
+                                className="ml-auto px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium"
+                              >
+                                <i className="fa-solid fa-trash-alt mr-1"></i>
+                                Delete
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </form>
+                  ) : (
+                    <div className="p-4 space-y-3">
+                      <div className="grid grid-cols-3 gap-2 text-center">
+                        <div className="p-2 bg-gray-50 rounded-lg">
+                          <div className="text-lg font-bold text-gray-800">{loanHistory.length}</div>
+                          <div className="text-xs text-gray-500">Loans</div>
+                        </div>
+                        <div className="p-2 bg-blue-50 rounded-lg">
+                          <div className="text-lg font-bold text-blue-700">{selectedBorrower.active_loans || 0}</div>
+                          <div className="text-xs text-blue-600">Active</div>
+                        </div>
+                        <div className="p-2 bg-orange-50 rounded-lg">
+                          <div className="text-lg font-bold text-orange-700">{selectedBorrower.overdue_items || 0}</div>
+                          <div className="text-xs text-orange-600">Overdue items</div>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2 max-h-[45vh] overflow-y-auto">
+                        {loanHistory.map(loan => (
+                          <div key={loan.id} className={`p-3 rounded-lg border ${
+                            loan.is_overdue ? 'border-orange-300 bg-orange-50' : 'border-gray-200'
+                          }`}>
+                            <div className="flex justify-between items-start">
+                              <div>
+                                <p className="font-bold text-gray-800">{loan.invoice_no}</p>
+                                <p className="text-xs text-gray-600">
+                                  {formatDate(loan.created_at)} • {loan.program_name || '-'}
+                                </p>
+                              </div>
+                              <span className={`px-2 py-1 text-xs font-bold rounded ${
+                                loan.is_overdue
+                                  ? 'bg-orange-100 text-orange-800'
+                                  : loan.status === 'Completed'
+                                  ? 'bg-green-100 text-green-800'
+                                  : 'bg-blue-100 text-blue-800'
+                              }`}>
+                                {loan.is_overdue ? 'Overdue' : loan.status}
+                              </span>
+                            </div>
+                            <div className="flex justify-between text-xs text-gray-600 mt-2">
+                              <span>
+                                {loan.item_count} items
+                                {loan.outstanding_items > 0 && ` • ${loan.outstanding_items} outstanding`}
+                              </span>
+                              <span>Due {loan.due_date ? new Date(loan.due_date).toLocaleDateString('id-ID') : '-'}</span>
+                              <span>{formatCurrency(Number(loan.total_value))}</span>
+                            </div>
+                            <div className="flex justify-end gap-3 mt-2 text-xs">
+                              <button
+                                onClick={() => handlePrintDocument(loan.id)}
+                                className="text-gray-600 hover:text-gray-900"
+                              >
+                                <i className="fa-solid fa-print mr-1"></i>
+                                Print
+                              </button>
+                              <button
+                                onClick={() => handlePrintDocument(loan.id, 'pdf')}
+                                className="text-gray-600 hover:text-gray-900"
+                              >
+                                <i className="fa-solid fa-file-pdf mr-1"></i>
+                                PDF
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                        {loanHistory.length === 0 && (
+                          <p className="text-center text-gray-500 text-sm py-6">No loans yet</p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BorrowerManagement;
@@ -7,16 +7,20 @@ interface DashboardStatsProps {
   scanned: number;
   onLoan?: number;
   available?: number;
+  sessionName?: string;
 }
 
 const DashboardStats: React.FC<DashboardStatsProps> = ({ 
   total, 
   scanned, 
   onLoan = 0, 
-  available = 0 
+  available = 0,
+  sessionName
 }) => {
+  // Count dimension (stock opname) and status dimension (loan lifecycle) are independent
   const accuracy = calculateAccuracy(scanned, total);
   const pending = total - scanned;
+  const otherStatus = Math.max(0, total - available - onLoan);
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
@@ -49,7 +53,7 @@ const DashboardStats: React.FC<DashboardStatsProps> = ({
         <div className="bg-green-50 border border-green-100 rounded-xl p-4">
           <div className="flex justify-between items-start">
             <div>
-              <p className="text-green-600 text-sm font-medium">Scanned</p>
+              <p className="text-green-600 text-sm font-medium">Counted</p>
               <p className="text-2xl font-bold text-green-800 mt-1">
                 {formatNumber(scanned)}
               </p>
@@ -75,7 +79,7 @@ const DashboardStats: React.FC<DashboardStatsProps> = ({
         <div className="bg-yellow-50 border border-yellow-100 rounded-xl p-4">
           <div className="flex justify-between items-start">
             <div>
-              <p className="text-yellow-600 text-sm font-medium">Pending</p>
+              <p className="text-yellow-600 text-sm font-medium">Not Counted</p>
               <p className="text-2xl font-bold text-yellow-800 mt-1">
                 {formatNumber(pending)}
               </p>
@@ -103,14 +107,15 @@ const DashboardStats: React.FC<DashboardStatsProps> = ({
             <div>
               <p className="text-purple-600 text-sm font-medium">Status</p>
               <div className="flex flex-col mt-1">
-                {available > 0 && (
-                  <span className="text-purple-800 font-semibold">
-                    Available: {formatNumber(available)}
-                  </span>
-                )}
-                {onLoan > 0 && (
-                  <span className="text-orange-600 font-semibold">
-                    On Loan: {formatNumber(onLoan)}
+                <span className="text-purple-800 font-semibold">
+                  Available: {formatNumber(available)}
+                </span>
+                <span className="text-orange-600 font-semibold">
+                  On Loan: {formatNumber(onLoan)}
+                </span>
+                {otherStatus > 0 && (
+                  <span className="text-gray-600 font-semibold">
+                    Other: {formatNumber(otherStatus)}
                   </span>
                 )}
               </div>
@@ -121,7 +126,7 @@ const DashboardStats: React.FC<DashboardStatsProps> = ({
           </div>
           <div className="mt-3 text-xs text-purple-500">
             <i className="fa-solid fa-info-circle mr-1"></i>
-            Inventory status breakdown
+            Loan status breakdown
           </div>
         </div>
       </div>
@@ -129,7 +134,9 @@ const DashboardStats: React.FC<DashboardStatsProps> = ({
       {/* Progress Summary */}
       <div className="mt-6 pt-6 border-t border-gray-100">
         <div className="flex justify-between items-center mb-2">
-          <span className="text-sm font-medium text-gray-700">Scan Progress</span>
+          <span className="text-sm font-medium text-gray-700">
+            Scan Progress {sessionName ? `• ${sessionName}` : '• No active count'}
+          </span>
           <span className="text-sm font-bold text-blue-600">{accuracy}%</span>
         </div>
         <div className="w-full bg-gray-200 rounded-full h-3">
@@ -139,7 +146,7 @@ const DashboardStats: React.FC<DashboardStatsProps> = ({
           ></div>
         </div>
         <div className="flex justify-between text-xs text-gray-500 mt-2">
-          <span>{formatNumber(scanned)} scanned</span>
+          <span>{formatNumber(scanned)} counted</span>
           <span>{formatNumber(pending)} remaining</span>
         </div>
       </div>
@@ -178,7 +178,7 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ feedback }) => {
             <li>• Point barcode scanner at item barcode</li>
             <li>• Press scanner trigger button</li>
             <li>• Scanner will beep on successful read</li>
-            <li>• Item status updates automatically</li>
+            <li>• Scans are recorded in the open opname session</li>
           </ul>
         </div>
       )}
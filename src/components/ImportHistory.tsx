@@ -0,0 +1,223 @@
+// components/ImportHistory.tsx
+import React, { useState, useEffect } from 'react';
+import { importApi } from '../services/apiService';
+import { ImportBatch, ImportBatchItem, ImportBatchStatus, formatDate } from '../types/index.ts';
+
+interface ImportHistoryProps {
+  onClose?: () => void;
+  onRolledBack?: () => void;
+  onPrintLabels?: (batch: ImportBatch) => void;
+}
+
+const statusStyles: Record<ImportBatchStatus, string> = {
+  Running: 'bg-blue-100 text-blue-800',
+  Completed: 'bg-green-100 text-green-800',
+  Failed: 'bg-red-100 text-red-800',
+  'Rolled Back': 'bg-gray-200 text-gray-700'
+};
+
+const ImportHistory: React.FC<ImportHistoryProps> = ({ onClose, onRolledBack, onPrintLabels }) => {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [selected, setSelected] = useState<ImportBatch | null>(null);
+  const [items, setItems] = useState<ImportBatchItem[]>([]);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  const loadBatches = async () => {
+    try {
+      const response = await importApi.getBatches();
+      if (response.success) {
+        setBatches(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load import batches:', error);
+    }
+  };
+
+  const handleSelect = async (batch: ImportBatch) => {
+    setSelected(batch);
+    setItems([]);
+    try {
+      const response = await importApi.getBatch(batch.id);
+      if (response.success) {
+        setItems(response.data.items);
+      }
+    } catch (error) {
+      console.error('Failed to load import batch:', error);
+    }
+  };
+
+  const handleRollback = async (batch: ImportBatch) => {
+    if (!window.confirm(
+      `Undo import "${batch.file_name}"?\n\n${batch.updated} items get their previous values back and ${batch.added} added items are removed.`
+    )) {
+      return;
+    }
+
+    setIsRollingBack(true);
+    try {
+      const response = await importApi.rollbackBatch(batch.id);
+      if (response.success) {
+        alert(response.message);
+        setSelected(null);
+        await loadBatches();
+        onRolledBack?.();
+      }
+    } catch (error: any) {
+      console.error('Failed to roll back import:', error);
+      alert(error.response?.data?.message || 'Failed to roll back import.');
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  const rollbackBlocker = (batch: ImportBatch) => {
+    if (!batch.conflicts) return null;
+    if (batch.conflicts.loaned.length > 0) {
+      return `Loaned since import: ${batch.conflicts.loaned.join(', ')}`;
+    }
+    if (batch.conflicts.in_use.length > 0) {
+      return `Reserved or in maintenance: ${batch.conflicts.in_use.join(', ')}`;
+    }
+    if (batch.conflicts.later_batches.length > 0) {
+      return `Changed again by import ${batch.conflicts.later_batches.map(b => `#${b.id}`).join(', ')}`;
+    }
+    return null;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-600 to-indigo-800 text-white p-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-bold">Import History</h2>
+              <p className="text-indigo-100">Excel imports into the item master and their previous values</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-indigo-700 rounded-full transition-colors"
+            >
+              <i className="fa-solid fa-times text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Left Column - Batches */}
+            <div className="space-y-2 max-h-[65vh] overflow-y-auto">
+              {batches.length === 0 ? (
+                <p className="text-center text-gray-500 py-4">No imports yet</p>
+              ) : (
+                batches.map(batch => {
+                  const blocker = rollbackBlocker(batch);
+                  return (
+                    <div
+                      key={batch.id}
+                      onClick={() => handleSelect(batch)}
+                      className={`p-3 rounded-lg border cursor-pointer hover:bg-indigo-50 ${
+                        selected?.id === batch.id ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200 bg-white'
+                      }`}
+                    >
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <p className="font-medium">#{batch.id} {batch.file_name || '-'}</p>
+                          <p className="text-xs text-gray-600">
+                            {formatDate(batch.created_at)} • {batch.created_by || '-'}
+                          </p>
+                          <p className="text-xs text-gray-600 mt-1">
+                            {batch.added} added • {batch.updated} updated • {batch.skipped} skipped
+                          </p>
+                        </div>
+                        <span className={`inline-block px-2 py-1 text-xs font-medium rounded ${statusStyles[batch.status]}`}>
+                          {batch.status}
+                        </span>
+                      </div>
+                      {batch.status === 'Rolled Back' && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Undone {batch.rolled_back_at ? formatDate(batch.rolled_back_at) : ''} by {batch.rolled_back_by}
+                        </p>
+                      )}
+                      {(batch.status === 'Completed' || batch.status === 'Failed') && (
+                        <div className="flex items-center gap-2 mt-2">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleRollback(batch);
+                            }}
+                            disabled={!batch.can_rollback || isRollingBack}
+                            className={`px-3 py-1 text-xs rounded text-white ${
+                              batch.can_rollback && !isRollingBack
+                                ? 'bg-red-600 hover:bg-red-700'
+                                : 'bg-gray-400 cursor-not-allowed'
+                            }`}
+                          >
+                            <i className="fa-solid fa-rotate-left mr-1"></i>
+                            Undo Import
+                          </button>
+                          {onPrintLabels && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onPrintLabels(batch);
+                              }}
+                              className="px-3 py-1 text-xs rounded text-white bg-teal-600 hover:bg-teal-700"
+                            >
+                              <i className="fa-solid fa-barcode mr-1"></i>
+                              Print Labels
+                            </button>
+                          )}
+                          {blocker && <span className="text-xs text-red-600">{blocker}</span>}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            {/* Right Column - Items of the selected batch */}
+            <div className="bg-gray-50 border border-gray-300 rounded-xl p-4">
+              {!selected ? (
+                <p className="text-center text-gray-500 py-8">Select an import to see the items it changed</p>
+              ) : (
+                <>
+                  <h3 className="text-lg font-bold text-gray-800 mb-3">
+                    #{selected.id} {selected.file_name} • {items.length} items
+                  </h3>
+                  <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+                    {items.map(item => (
+                      <div key={item.barcode} className="bg-white p-3 rounded-lg border text-sm">
+                        <div className="flex justify-between">
+                          <span className="font-medium">{item.barcode} • {item.item_name || '(removed)'}</span>
+                          <span className={`text-xs font-medium ${item.action === 'Added' ? 'text-green-700' : 'text-yellow-700'}`}>
+                            {item.action}
+                          </span>
+                        </div>
+                        {item.before_data && (
+                          <p className="text-xs text-gray-600 mt-1">
+                            Before: {Object.entries(item.before_data)
+                              .map(([field, value]) => `${field}: ${value === null || value === '' ? '-' : value}`)
+                              .join(', ')}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportHistory;
@@ -0,0 +1,492 @@
+// components/ImportPreviewDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { importApi } from '../services/apiService';
+import { ImportMapping, ImportPreview, ImportProfile, ImportCommitResult, ImportValidation } from '../types/index.ts';
+
+interface ImportPreviewDialogProps {
+  preview: ImportPreview;
+  onImportStarted: (jobId: string) => void;
+  onCancel: () => void;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({ preview, onImportStarted, onCancel }) => {
+  const [mapping, setMapping] = useState<ImportMapping>(preview.mapping);
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [profileId, setProfileId] = useState<number | null>(preview.profile_id);
+  const [profileName, setProfileName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [validation, setValidation] = useState<ImportValidation | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [dryRun, setDryRun] = useState<ImportCommitResult | null>(null);
+  const [isDryRunning, setIsDryRunning] = useState(false);
+  // Rows without a barcode become new items with an internal barcode
+  const [generateBarcodes, setGenerateBarcodes] = useState(false);
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const loadProfiles = async () => {
+    try {
+      const response = await importApi.getProfiles();
+      if (response.success) {
+        setProfiles(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load import profiles:', error);
+    }
+  };
+
+  const headerIndex = (header: string | null | undefined) =>
+    header ? preview.headers.findIndex(h => normalizeHeader(h) === normalizeHeader(header)) : -1;
+
+  // Saved headers are matched like the server does; ones missing from this file are dropped
+  const handleApplyProfile = (id: number | null) => {
+    setProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) {
+      setMapping(preview.mapping);
+      return;
+    }
+
+    const applied: ImportMapping = {};
+    const missing: string[] = [];
+    for (const [field, header] of Object.entries(profile.mapping)) {
+      const index = headerIndex(header);
+      if (index >= 0) applied[field] = preview.headers[index];
+      else if (header) missing.push(header);
+    }
+    setMapping(applied);
+    setProfileName(profile.name);
+    if (missing.length > 0) {
+      alert(`These columns of "${profile.name}" are not in this file:\n\n${missing.join('\n')}`);
+    }
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) {
+      alert('Please enter a profile name');
+      return;
+    }
+    try {
+      const response = await importApi.saveProfile(profileName.trim(), mapping);
+      if (response.success) {
+        await loadProfiles();
+        setProfileId(response.data.id);
+        alert(response.message);
+      }
+    } catch (error: any) {
+      console.error('Failed to save import profile:', error);
+      alert(error.response?.data?.message || 'Failed to save profile.');
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile || !window.confirm(`Delete profile "${profile.name}"?`)) return;
+    try {
+      await importApi.deleteProfile(profile.id);
+      setProfileId(null);
+      await loadProfiles();
+    } catch (error: any) {
+      console.error('Failed to delete import profile:', error);
+      alert(error.response?.data?.message || 'Failed to delete profile.');
+    }
+  };
+
+  const usedHeaders = Object.values(mapping).filter(Boolean) as string[];
+  const duplicateHeaders = usedHeaders.filter((header, i) => usedHeaders.indexOf(header) !== i);
+  const missingRequired = preview.fields.filter(field =>
+    field.required && !mapping[field.key] && !(field.key === 'barcode' && generateBarcodes)
+  );
+  const mappedFields = preview.fields.filter(field => mapping[field.key]);
+  const mappingValid = missingRequired.length === 0 && duplicateHeaders.length === 0;
+  const validRows = validation ? validation.valid : preview.total_rows;
+  const canImport = mappingValid && !isSubmitting && !isValidating && !isDryRunning && validRows > 0;
+
+  // Re-check every row on the server whenever the mapping settles
+  useEffect(() => {
+    setDryRun(null);
+    if (!mappingValid) {
+      setValidation(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsValidating(true);
+      try {
+        const response = await importApi.validate(preview.token, mapping, generateBarcodes);
+        if (!cancelled && response.success) {
+          setValidation(response.data);
+        }
+      } catch (error) {
+        console.error('Import validation failed:', error);
+        if (!cancelled) setValidation(null);
+      } finally {
+        if (!cancelled) setIsValidating(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mapping, mappingValid, generateBarcodes, preview.token]);
+
+  const issuesByRow = new Map((validation?.issues || []).map(issue => [issue.row, issue.errors]));
+
+  const handleDownloadReport = async () => {
+    setIsDownloading(true);
+    try {
+      await importApi.downloadReport(preview.token, mapping, preview.file_name, generateBarcodes);
+    } catch (error: any) {
+      console.error('Failed to download error report:', error);
+      alert('Failed to download error report.');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleDryRun = async () => {
+    setIsDryRunning(true);
+    try {
+      const response = await importApi.commit(preview.token, mapping, true, generateBarcodes);
+      if (response.success) {
+        setDryRun(response);
+      }
+    } catch (error: any) {
+      console.error('Dry run failed:', error);
+      alert(error.response?.data?.message || 'Dry run failed.');
+    } finally {
+      setIsDryRunning(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (validation && validation.invalid > 0 && !window.confirm(
+      `${validation.invalid} rows have errors and will be skipped. Import the other ${validation.valid} rows?`
+    )) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await importApi.commit(preview.token, mapping, false, generateBarcodes);
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      onImportStarted(response.job_id);
+    } catch (error: any) {
+      console.error('Import failed:', error);
+      alert(error.response?.data?.message || error.message || 'Import failed.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-blue-800 text-white p-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-bold">Import Preview</h2>
+              <p className="text-blue-100">
+                {preview.file_name} • {preview.total_rows} rows • check the column mapping before importing
+              </p>
+            </div>
+            <button
+              onClick={onCancel}
+              disabled={isSubmitting}
+              className="p-2 hover:bg-blue-700 rounded-full transition-colors"
+            >
+              <i className="fa-solid fa-times text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          {/* Profiles */}
+          <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Mapping profile</label>
+              <select
+                value={profileId ?? ''}
+                onChange={(e) => handleApplyProfile(e.target.value ? parseInt(e.target.value) : null)}
+                className="p-2 border border-gray-300 rounded-lg min-w-[200px]"
+              >
+                <option value="">Detected from headers</option>
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            </div>
+            {profileId && (
+              <button
+                onClick={handleDeleteProfile}
+                className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg"
+              >
+                <i className="fa-solid fa-trash mr-1"></i>
+                Delete
+              </button>
+            )}
+            <div className="ml-auto flex gap-2">
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Profile name, e.g. supplier"
+                className="p-2 border border-gray-300 rounded-lg"
+              />
+              <button
+                onClick={handleSaveProfile}
+                className="px-4 py-2 bg-white hover:bg-gray-100 border border-gray-300 text-gray-700 text-sm rounded-lg"
+              >
+                <i className="fa-solid fa-floppy-disk mr-1"></i>
+                Save Mapping
+              </button>
+            </div>
+          </div>
+
+          {/* Mapping */}
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 mb-3">Column Mapping</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {preview.fields.map(field => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {field.label}{field.required && <span className="text-red-600"> *</span>}
+                  </label>
+                  <select
+                    value={mapping[field.key] || ''}
+                    onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: e.target.value || null }))}
+                    className={`w-full p-2 border rounded-lg text-sm ${
+                      mapping[field.key] && duplicateHeaders.includes(mapping[field.key] as string)
+                        ? 'border-red-400 bg-red-50'
+                        : 'border-gray-300'
+                    }`}
+                  >
+                    <option value="">— not imported —</option>
+                    {preview.headers.map((header, index) => (
+                      <option key={index} value={header}>{header || `(column ${index + 1})`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-red-600 mt-2">
+                Map a column to {missingRequired.map(field => field.label).join(', ')} to import.
+              </p>
+            )}
+            {duplicateHeaders.length > 0 && (
+              <p className="text-sm text-red-600 mt-2">
+                Each column can only be used once: {[...new Set(duplicateHeaders)].join(', ')}
+              </p>
+            )}
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-3">
+              <input
+                type="checkbox"
+                checked={generateBarcodes}
+                onChange={(e) => setGenerateBarcodes(e.target.checked)}
+              />
+              Generate an internal barcode for rows without one (they are added as new items)
+            </label>
+            <p className="text-xs text-gray-500 mt-2">
+              Fields that are not imported keep their current value on existing items.
+            </p>
+          </div>
+
+          {/* Validation */}
+          {mappingValid && (
+            <div className={`border rounded-xl p-4 ${
+              validation && validation.invalid > 0 ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'
+            }`}>
+              <div className="flex flex-wrap justify-between items-center gap-3">
+                <div>
+                  <h3 className="text-lg font-bold text-gray-800">Validation</h3>
+                  {isValidating || !validation ? (
+                    <p className="text-sm text-gray-600">
+                      <i className="fa-solid fa-spinner fa-spin mr-2"></i>
+                      Checking all {preview.total_rows} rows...
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-700">
+                      <span className="text-green-700 font-medium">{validation.valid} valid</span>
+                      {' • '}
+                      <span className={validation.invalid > 0 ? 'text-red-700 font-medium' : ''}>
+                        {validation.invalid} with errors
+                      </span>
+                    </p>
+                  )}
+                </div>
+                {validation && validation.invalid > 0 && (
+                  <button
+                    onClick={handleDownloadReport}
+                    disabled={isDownloading}
+                    className="px-4 py-2 bg-white hover:bg-gray-100 border border-gray-300 text-gray-700 text-sm rounded-lg"
+                  >
+                    <i className={`fa-solid ${isDownloading ? 'fa-spinner fa-spin' : 'fa-file-excel'} mr-1`}></i>
+                    Download Error Report
+                  </button>
+                )}
+              </div>
+              {validation && validation.invalid > 0 && (
+                <div className="mt-3 max-h-48 overflow-y-auto text-sm divide-y divide-red-100">
+                  {validation.issues.map(issue => (
+                    <div key={issue.row} className="py-1">
+                      <span className="font-medium text-red-800">
+                        Row {issue.row}{issue.barcode ? ` (${issue.barcode})` : ''}:
+                      </span>{' '}
+                      <span className="text-gray-700">{issue.errors.join('; ')}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {validation && validation.invalid > 0 && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Rows with errors are skipped. Fix them in the error report and upload it again.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Dry run */}
+          {dryRun && (
+            <div className="bg-blue-50 border border-blue-200 rounded-xl p-4">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-lg font-bold text-gray-800">Dry Run</h3>
+                <button onClick={() => setDryRun(null)} className="text-gray-500 hover:text-gray-700">
+                  <i className="fa-solid fa-times"></i>
+                </button>
+              </div>
+              <p className="text-sm text-gray-700 mb-3">
+                Nothing was written. This import would add <strong>{dryRun.stats.added}</strong> items
+                {dryRun.stats.generated > 0 && ` (${dryRun.stats.generated} with an internal barcode)`},
+                update <strong>{dryRun.stats.updated}</strong> and skip <strong>{dryRun.stats.skipped}</strong> rows.
+              </p>
+              {(dryRun.changes || []).length > 0 && (
+                <div className="max-h-60 overflow-y-auto text-sm divide-y divide-blue-100">
+                  {(dryRun.changes || []).map(change => (
+                    <div key={change.row} className="py-1">
+                      <span className={`inline-block px-2 mr-2 text-xs font-medium rounded ${
+                        change.action === 'Added' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {change.action}
+                      </span>
+                      <span className="font-medium">{change.barcode || '(internal barcode)'}</span>
+                      {change.fields.length > 0 && (
+                        <span className="text-gray-600">
+                          {' '}• {change.fields.map(f => `${f.field}: ${f.from === '' ? '(empty)' : f.from} → ${f.to === '' ? '(empty)' : f.to}`).join(', ')}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {dryRun.stats.updated > 0 && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Updated values are kept with the import batch, so it can be undone from Import History.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Rows */}
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 mb-3">
+              First {preview.rows.length} of {preview.total_rows} rows
+            </h3>
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    {mappedFields.map(field => (
+                      <th key={field.key} className="px-3 py-2 text-left font-medium text-gray-700 whitespace-nowrap">
+                        {field.label}
+                        <span className="block text-xs font-normal text-gray-500">{mapping[field.key]}</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row, rowIndex) => (
+                    <tr
+                      key={rowIndex}
+                      title={issuesByRow.get(rowIndex + 2)?.join('; ')}
+                      className={`border-t ${issuesByRow.has(rowIndex + 2) ? 'bg-red-50' : ''}`}
+                    >
+                      {mappedFields.map(field => {
+                        const value = row[headerIndex(mapping[field.key])];
+                        return (
+                          <td key={field.key} className="px-3 py-2 whitespace-nowrap">
+                            {value === null || value === undefined || value === '' ? (
+                              field.key === 'barcode' && generateBarcodes ? (
+                                <span className="text-teal-600">generated</span>
+                              ) : (
+                                <span className={field.required ? 'text-red-600' : 'text-gray-300'}>
+                                  {field.required ? 'missing' : '-'}
+                                </span>
+                              )
+                            ) : String(value)}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="p-4 border-t border-gray-200 flex gap-2">
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            className={`flex-1 py-3 rounded-lg font-bold text-white ${
+              canImport ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-400 cursor-not-allowed'
+            }`}
+          >
+            {isSubmitting ? (
+              <>
+                <i className="fa-solid fa-spinner fa-spin mr-2"></i>
+                Starting import...
+              </>
+            ) : (
+              `Import ${validRows} Valid Rows`
+            )}
+          </button>
+          <button
+            onClick={handleDryRun}
+            disabled={!canImport}
+            className="px-6 py-3 bg-white hover:bg-gray-100 border border-gray-300 text-gray-700 rounded-lg font-medium disabled:opacity-50"
+          >
+            {isDryRunning ? (
+              <i className="fa-solid fa-spinner fa-spin mr-2"></i>
+            ) : (
+              <i className="fa-solid fa-flask mr-2"></i>
+            )}
+            Dry Run
+          </button>
+          <button
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="px-6 py-3 bg-gray-300 hover:bg-gray-400 text-gray-800 rounded-lg font-medium"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewDialog;
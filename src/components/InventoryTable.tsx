@@ -22,10 +22,15 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ items, onItemClick }) =
         return 'bg-green-100 text-green-800';
       case 'On Loan':
         return 'bg-orange-100 text-orange-800';
-      case 'Scanned':
-        return 'bg-blue-100 text-blue-800';
       case 'Pending':
         return 'bg-yellow-100 text-yellow-800';
+      case 'In Laundry':
+      case 'In Repair':
+        return 'bg-indigo-100 text-indigo-800';
+      case 'Damaged':
+      case 'Lost':
+      case 'Written Off':
+        return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -109,7 +114,7 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ items, onItemClick }) =
                 key={item.id} 
                 onClick={() => handleRowClick(item)}
                 className={`hover:bg-gray-50 transition-colors cursor-pointer ${
-                  item.status === 'Scanned' ? 'bg-green-50/30' : ''
+                  item.is_scanned ? 'bg-green-50/30' : ''
                 }`}
               >
                 {/* Barcode */}
@@ -185,14 +190,17 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ items, onItemClick }) =
                 {/* Status */}
                 <td className="py-3 px-4">
                   <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${getStatusBadge(item.status)}`}>
-                    {item.status === 'Scanned' && (
-                      <i className="fa-solid fa-check mr-1"></i>
-                    )}
                     {item.status === 'On Loan' && (
                       <i className="fa-solid fa-handshake mr-1"></i>
                     )}
                     {item.status}
                   </span>
+                  {item.is_scanned && (
+                    <span className="inline-flex items-center ml-1 px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      <i className="fa-solid fa-check mr-1"></i>
+                      Counted
+                    </span>
+                  )}
                 </td>
                 
                 {/* Last Updated */}
@@ -222,7 +230,7 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ items, onItemClick }) =
               </div>
               <div className="flex items-center gap-1">
                 <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-                <span>Scanned: {items.filter(i => i.status === 'Scanned').length}</span>
+                <span>Counted: {items.filter(i => i.is_scanned).length}</span>
               </div>
               <div className="flex items-center gap-1">
                 <div className="w-3 h-3 rounded-full bg-orange-500"></div>
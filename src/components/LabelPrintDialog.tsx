@@ -0,0 +1,288 @@
+// components/LabelPrintDialog.tsx
+import React, { useState, useEffect } from 'react';
+import { inventoryApi, labelApi } from '../services/apiService';
+import { InventoryItem, LabelOptions, LabelSettings } from '../types/index.ts';
+
+interface LabelPrintDialogProps {
+  // Print every item of an import batch instead of picking items
+  batch?: { id: number; file_name: string | null };
+  onClose?: () => void;
+}
+
+const LabelPrintDialog: React.FC<LabelPrintDialogProps> = ({ batch, onClose }) => {
+  const [settings, setSettings] = useState<LabelSettings | null>(null);
+  const [options, setOptions] = useState<LabelOptions>({ template: 'a4_3x8', symbology: 'code128', copies: 1, skip: 0 });
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<InventoryItem[]>([]);
+  const [selected, setSelected] = useState<InventoryItem[]>([]);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  useEffect(() => {
+    if (batch || search.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await inventoryApi.getItems(search.trim(), 20);
+        if (!cancelled && response.success) {
+          setResults(response.data);
+        }
+      } catch (error) {
+        console.error('Failed to search items:', error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search, batch]);
+
+  const loadSettings = async () => {
+    try {
+      const response = await labelApi.getTemplates();
+      if (response.success) {
+        setSettings(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load label templates:', error);
+    }
+  };
+
+  const addItem = (item: InventoryItem) => {
+    setSelected(prev => (prev.some(i => i.barcode === item.barcode) ? prev : [...prev, item]));
+  };
+
+  const removeItem = (barcode: string) => {
+    setSelected(prev => prev.filter(item => item.barcode !== barcode));
+  };
+
+  // Enter adds an exact barcode match, so a handheld scanner can fill the list
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    const match = results.find(item => item.barcode.toLowerCase() === search.trim().toLowerCase());
+    if (match) {
+      addItem(match);
+      setSearch('');
+    }
+  };
+
+  const template = settings?.templates.find(t => t.key === options.template);
+  const labelCount = (batch ? 0 : selected.length) * options.copies;
+  const canPrint = !isPrinting && (!!batch || selected.length > 0);
+
+  const handlePrint = async () => {
+    setIsPrinting(true);
+    try {
+      await labelApi.print(
+        batch ? { batch_id: batch.id } : { barcodes: selected.map(item => item.barcode) },
+        options
+      );
+    } catch (error) {
+      console.error('Failed to print labels:', error);
+      alert('Failed to generate labels. Please try again.');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-teal-600 to-teal-800 text-white p-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-bold">Print Labels</h2>
+              <p className="text-teal-100">
+                {batch
+                  ? `All items of import #${batch.id} ${batch.file_name || ''}`
+                  : 'Barcode labels with item name, brand, size and color'}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-teal-700 rounded-full transition-colors"
+            >
+              <i className="fa-solid fa-times text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Left Column - Items */}
+            <div className="space-y-4">
+              {batch ? (
+                <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 text-sm text-gray-700">
+                  <i className="fa-solid fa-file-import text-teal-600 mr-2"></i>
+                  Every item this import added or updated is printed, in file order.
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Find items</label>
+                    <input
+                      type="text"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      onKeyDown={handleSearchKeyDown}
+                      placeholder="Barcode, name or brand"
+                      className="w-full p-2 border border-gray-300 rounded-lg"
+                      autoFocus
+                    />
+                  </div>
+                  {results.length > 0 && (
+                    <div className="border border-gray-200 rounded-lg divide-y max-h-60 overflow-y-auto">
+                      {results.map(item => (
+                        <button
+                          key={item.barcode}
+                          onClick={() => addItem(item)}
+                          className="w-full text-left p-2 hover:bg-teal-50 text-sm flex justify-between"
+                        >
+                          <span>
+                            <span className="font-medium">{item.barcode}</span> • {item.item_name}
+                          </span>
+                          <i className="fa-solid fa-plus text-teal-600"></i>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <h3 className="text-lg font-bold text-gray-800">Selected ({selected.length})</h3>
+                      {selected.length > 0 && (
+                        <button onClick={() => setSelected([])} className="text-sm text-red-600 hover:underline">
+                          Clear
+                        </button>
+                      )}
+                    </div>
+                    {selected.length === 0 ? (
+                      <p className="text-center text-gray-500 py-4">Search or scan items to add them</p>
+                    ) : (
+                      <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+                        {selected.map(item => (
+                          <div key={item.barcode} className="bg-white p-2 rounded-lg border text-sm flex justify-between items-center">
+                            <div>
+                              <p className="font-medium">{item.barcode} • {item.item_name}</p>
+                              <p className="text-xs text-gray-600">
+                                {[item.brand, item.size, item.color].filter(Boolean).join(' • ') || '-'}
+                              </p>
+                            </div>
+                            <button
+                              onClick={() => removeItem(item.barcode)}
+                              className="p-1 text-gray-400 hover:text-red-600"
+                            >
+                              <i className="fa-solid fa-times"></i>
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Right Column - Label options */}
+            <div className="bg-gray-50 border border-gray-300 rounded-xl p-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Label template</label>
+                <select
+                  value={options.template}
+                  onChange={(e) => setOptions(prev => ({ ...prev, template: e.target.value, skip: 0 }))}
+                  className="w-full p-2 border border-gray-300 rounded-lg"
+                >
+                  {(settings?.templates || []).map(t => (
+                    <option key={t.key} value={t.key}>{t.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Barcode type</label>
+                <div className="flex gap-4">
+                  {(settings?.symbologies || []).map(symbology => (
+                    <label key={symbology.key} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="radio"
+                        checked={options.symbology === symbology.key}
+                        onChange={() => setOptions(prev => ({ ...prev, symbology: symbology.key }))}
+                      />
+                      {symbology.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Copies per item</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={settings?.max_copies || 50}
+                    value={options.copies}
+                    onChange={(e) => setOptions(prev => ({ ...prev, copies: Math.max(1, parseInt(e.target.value) || 1) }))}
+                    className="w-full p-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+                {template && template.per_page > 1 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Skip used labels</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={template.per_page - 1}
+                      value={options.skip}
+                      onChange={(e) => setOptions(prev => ({
+                        ...prev,
+                        skip: Math.min(template.per_page - 1, Math.max(0, parseInt(e.target.value) || 0))
+                      }))}
+                      className="w-full p-2 border border-gray-300 rounded-lg"
+                    />
+                  </div>
+                )}
+              </div>
+              {template && template.per_page > 1 && (
+                <p className="text-xs text-gray-500">
+                  {template.per_page} labels per sheet. Skipped positions on the first sheet stay empty, so a partly used sheet can be printed again.
+                </p>
+              )}
+
+              <button
+                onClick={handlePrint}
+                disabled={!canPrint}
+                className={`w-full py-3 rounded-lg font-bold text-white ${
+                  canPrint ? 'bg-teal-600 hover:bg-teal-700' : 'bg-gray-400 cursor-not-allowed'
+                }`}
+              >
+                {isPrinting ? (
+                  <>
+                    <i className="fa-solid fa-spinner fa-spin mr-2"></i>
+                    Generating labels...
+                  </>
+                ) : (
+                  <>
+                    <i className="fa-solid fa-print mr-2"></i>
+                    {batch ? 'Print Labels for Import' : `Print ${labelCount} Labels`}
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabelPrintDialog;
@@ -0,0 +1,266 @@
+// components/LiabilityReport.tsx
+import React, { useState, useEffect } from 'react';
+import { liabilityApi } from '../services/apiService';
+import { BorrowerLiability, LiabilityReport as LiabilityReportData, LiabilityStatus, formatCurrency } from '../types/index.ts';
+
+interface LiabilityReportProps {
+  onClose?: () => void;
+  canResolve?: boolean;
+}
+
+type StatusFilter = LiabilityStatus | 'all';
+
+const statusStyles: Record<LiabilityStatus, string> = {
+  Open: 'bg-red-100 text-red-800',
+  Paid: 'bg-green-100 text-green-800',
+  'Written Off': 'bg-gray-200 text-gray-700'
+};
+
+const LiabilityReport: React.FC<LiabilityReportProps> = ({ onClose, canResolve = false }) => {
+  const [report, setReport] = useState<LiabilityReportData | null>(null);
+  const [liabilities, setLiabilities] = useState<BorrowerLiability[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('Open');
+  const [borrowerFilter, setBorrowerFilter] = useState<number | null>(null);
+  const [view, setView] = useState<'borrower' | 'department'>('borrower');
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  useEffect(() => {
+    loadLiabilities();
+  }, [statusFilter, borrowerFilter]);
+
+  const loadReport = async () => {
+    try {
+      const response = await liabilityApi.getReport();
+      if (response.success) {
+        setReport(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load liability report:', error);
+    }
+  };
+
+  const loadLiabilities = async () => {
+    try {
+      const response = await liabilityApi.getLiabilities({
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        borrower_id: borrowerFilter ?? undefined
+      });
+      if (response.success) {
+        setLiabilities(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load liabilities:', error);
+    }
+  };
+
+  const handleResolve = async (liability: BorrowerLiability, status: 'Paid' | 'Written Off') => {
+    const notes = window.prompt(
+      status === 'Paid'
+        ? `Record payment of ${formatCurrency(Number(liability.amount))} for ${liability.barcode}. Notes (optional):`
+        : `Write off ${formatCurrency(Number(liability.amount))} for ${liability.barcode}. Reason:`
+    );
+    if (notes === null) return;
+
+    try {
+      const response = await liabilityApi.resolve(liability.id, status, notes.trim() || undefined);
+      if (response.success) {
+        await Promise.all([loadReport(), loadLiabilities()]);
+      }
+    } catch (error: any) {
+      console.error('Failed to resolve liability:', error);
+      alert(error.response?.data?.message || 'Failed to update liability.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-rose-600 to-rose-800 text-white p-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-bold">Lost Items & Liabilities</h2>
+              <p className="text-rose-100">
+                Open liabilities: {formatCurrency(Number(report?.total || 0))}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-rose-700 rounded-full transition-colors"
+            >
+              <i className="fa-solid fa-times text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Left Column - Open liabilities report */}
+            <div className="bg-rose-50 border border-rose-200 rounded-xl p-4">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-bold text-rose-800">Open Liabilities</h3>
+                <div className="flex gap-1">
+                  {(['borrower', 'department'] as const).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      className={`px-3 py-1 text-xs font-medium rounded-full ${
+                        view === option ? 'bg-rose-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                      }`}
+                    >
+                      Per {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {view === 'borrower' ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-2">Borrower</th>
+                      <th className="py-2">Department</th>
+                      <th className="py-2 text-right">Items</th>
+                      <th className="py-2 text-right">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(report?.borrowers || []).map(row => (
+                      <tr
+                        key={row.borrower_id ?? row.borrower_name}
+                        onClick={() => {
+                          setBorrowerFilter(borrowerFilter === row.borrower_id ? null : row.borrower_id);
+                          setStatusFilter('all');
+                        }}
+                        className={`border-b cursor-pointer hover:bg-rose-100 ${
+                          borrowerFilter !== null && borrowerFilter === row.borrower_id ? 'bg-rose-100' : ''
+                        }`}
+                      >
+                        <td className="py-2">
+                          <p className="font-medium">{row.borrower_name}</p>
+                          <p className="text-xs text-gray-500">{row.nik || '-'}</p>
+                        </td>
+                        <td className="py-2">{row.department}</td>
+                        <td className="py-2 text-right">{row.item_count}</td>
+                        <td className="py-2 text-right font-bold text-rose-700">{formatCurrency(Number(row.amount))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-2">Department</th>
+                      <th className="py-2 text-right">Borrowers</th>
+                      <th className="py-2 text-right">Items</th>
+                      <th className="py-2 text-right">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(report?.departments || []).map(row => (
+                      <tr key={row.department} className="border-b">
+                        <td className="py-2 font-medium">{row.department}</td>
+                        <td className="py-2 text-right">{row.borrower_count}</td>
+                        <td className="py-2 text-right">{row.item_count}</td>
+                        <td className="py-2 text-right font-bold text-rose-700">{formatCurrency(Number(row.amount))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {report && report.borrowers.length === 0 && (
+                <p className="text-center text-gray-500 py-4">No open liabilities</p>
+              )}
+            </div>
+
+            {/* Right Column - Liability records */}
+            <div className="bg-gray-50 border border-gray-300 rounded-xl p-4">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-bold text-gray-800">Records</h3>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                  className="p-1 border border-gray-300 rounded text-sm"
+                >
+                  <option value="Open">Open</option>
+                  <option value="Paid">Paid</option>
+                  <option value="Written Off">Written Off</option>
+                  <option value="all">All</option>
+                </select>
+              </div>
+
+              {borrowerFilter !== null && (
+                <button
+                  onClick={() => setBorrowerFilter(null)}
+                  className="mb-3 px-3 py-1 text-xs bg-rose-100 text-rose-800 rounded-full"
+                >
+                  {report?.borrowers.find(row => row.borrower_id === borrowerFilter)?.borrower_name || 'Borrower'}
+                  <i className="fa-solid fa-times ml-2"></i>
+                </button>
+              )}
+
+              <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+                {liabilities.length === 0 ? (
+                  <p className="text-center text-gray-500 py-4">No liabilities found</p>
+                ) : (
+                  liabilities.map(liability => (
+                    <div key={liability.id} className="bg-white p-3 rounded-lg border">
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <p className="font-medium">{liability.item_name}</p>
+                          <p className="text-xs text-gray-600">
+                            {liability.barcode} • {liability.borrower_name} • {liability.invoice_no || '-'}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {new Date(liability.created_at).toLocaleDateString('id-ID')}
+                            {liability.created_by ? ` • ${liability.created_by}` : ''}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="font-bold text-rose-700">{formatCurrency(Number(liability.amount))}</p>
+                          <span className={`inline-block px-2 py-1 text-xs font-medium rounded ${statusStyles[liability.status]}`}>
+                            {liability.status}
+                          </span>
+                        </div>
+                      </div>
+                      {liability.notes && <p className="text-sm text-gray-700 mt-2">{liability.notes}</p>}
+                      {liability.resolution_notes && (
+                        <p className="text-xs text-gray-600 mt-1">
+                          {liability.resolved_by}: {liability.resolution_notes}
+                        </p>
+                      )}
+                      {canResolve && liability.status === 'Open' && (
+                        <div className="flex gap-2 mt-2">
+                          <button
+                            onClick={() => handleResolve(liability, 'Paid')}
+                            className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white text-xs rounded"
+                          >
+                            Mark Paid
+                          </button>
+                          <button
+                            onClick={() => handleResolve(liability, 'Written Off')}
+                            className="px-3 py-1 bg-gray-600 hover:bg-gray-700 text-white text-xs rounded"
+                          >
+                            Write Off
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiabilityReport;
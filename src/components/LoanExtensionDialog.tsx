@@ -0,0 +1,232 @@
+// components/LoanExtensionDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { loanApi } from '../services/apiService';
+import { LoanExtension, LoanTransaction } from '../types/index.ts';
+
+interface LoanExtensionDialogProps {
+  loan: LoanTransaction;
+  canExtend?: boolean;
+  onExtended: () => void;
+  onCancel: () => void;
+}
+
+// Date inputs need YYYY-MM-DD in local time; DATE columns arrive as midnight timestamps
+const toInputDate = (value: string | Date) => {
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const formatDay = (value: string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString('id-ID') : '-';
+
+const LoanExtensionDialog: React.FC<LoanExtensionDialogProps> = ({
+  loan,
+  canExtend = true,
+  onExtended,
+  onCancel
+}) => {
+  const onLoanItems = (loan.items || []).filter(item => item.status === 'On Loan');
+  const [wholeLoan, setWholeLoan] = useState(true);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [newDueDate, setNewDueDate] = useState(toInputDate(loan.due_date));
+  const [reason, setReason] = useState('');
+  const [history, setHistory] = useState<LoanExtension[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const response = await loanApi.getExtensions(loan.id);
+        if (response.success) {
+          setHistory(response.data);
+        }
+      } catch (error) {
+        console.error('Failed to load extension history:', error);
+      }
+    };
+    loadHistory();
+  }, [loan.id]);
+
+  const toggleItem = (barcode: string) => {
+    setSelected(prev => (prev.includes(barcode) ? prev.filter(b => b !== barcode) : [...prev, barcode]));
+  };
+
+  const handleSubmit = async () => {
+    if (!newDueDate) {
+      alert('Please choose the new due date');
+      return;
+    }
+    if (newDueDate < toInputDate(new Date())) {
+      alert('The new due date cannot be in the past');
+      return;
+    }
+    if (!reason.trim()) {
+      alert('Please enter a reason for the extension');
+      return;
+    }
+    if (!wholeLoan && selected.length === 0) {
+      alert('Select the items to extend');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await loanApi.extendLoan(loan.id, {
+        new_due_date: newDueDate,
+        reason: reason.trim(),
+        barcodes: wholeLoan ? undefined : selected
+      });
+      if (response.success) {
+        alert(response.message || 'Loan extended');
+        onExtended();
+      }
+    } catch (error: any) {
+      console.error('Failed to extend loan:', error);
+      alert(error.response?.data?.message || 'Failed to extend loan.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-purple-600 to-purple-800 text-white p-5">
+          <h2 className="text-xl font-bold">Extend Loan</h2>
+          <p className="text-purple-100 text-sm">
+            {loan.invoice_no} • {loan.borrower_name} • Due {formatDay(loan.due_date)}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-auto p-5 space-y-5">
+          {canExtend && (
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setWholeLoan(true)}
+                  className={`flex-1 py-2 rounded-lg text-sm font-medium ${
+                    wholeLoan ? 'bg-purple-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                  }`}
+                >
+                  Whole loan ({onLoanItems.length} items)
+                </button>
+                <button
+                  onClick={() => setWholeLoan(false)}
+                  className={`flex-1 py-2 rounded-lg text-sm font-medium ${
+                    !wholeLoan ? 'bg-purple-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                  }`}
+                >
+                  Selected items
+                </button>
+              </div>
+
+              {!wholeLoan && (
+                <div className="border border-gray-200 rounded-lg divide-y max-h-48 overflow-y-auto">
+                  {onLoanItems.map(item => (
+                    <label key={item.barcode} className="flex items-center gap-3 p-2 text-sm cursor-pointer hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(item.barcode)}
+                        onChange={() => toggleItem(item.barcode)}
+                      />
+                      <span className="flex-1">
+                        <span className="font-medium">{item.item_name || item.barcode}</span>
+                        <span className="text-gray-500"> • {item.barcode}</span>
+                      </span>
+                      <span className="text-xs text-gray-600">Due {formatDay(item.due_date || loan.due_date)}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">New Due Date</label>
+                  <input
+                    type="date"
+                    value={newDueDate}
+                    min={toInputDate(new Date())}
+                    onChange={(e) => setNewDueDate(e.target.value)}
+                    className="w-full p-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                  <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="e.g. Shooting schedule moved"
+                    className="w-full p-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* History */}
+          <div>
+            <h3 className="font-bold text-gray-800 mb-2">Extension History</h3>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">This loan has not been extended yet</p>
+            ) : (
+              <div className="space-y-2">
+                {history.map(extension => (
+                  <div key={extension.id} className="p-3 bg-purple-50 border border-purple-200 rounded-lg text-sm">
+                    <div className="flex justify-between">
+                      <span className="font-medium text-purple-800">
+                        Due {formatDay(extension.new_due_date)} • {extension.whole_loan ? 'Whole loan' : `${extension.items.length} items`}
+                      </span>
+                      <span className="text-xs text-gray-600">
+                        {new Date(extension.created_at).toLocaleString('id-ID')} • {extension.extended_by}
+                      </span>
+                    </div>
+                    <p className="text-gray-700">{extension.reason}</p>
+                    {!extension.whole_loan && (
+                      <p className="text-xs text-gray-600 mt-1">
+                        {extension.items.map(item => `${item.barcode} (was ${formatDay(item.previous_due_date)})`).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="p-4 border-t border-gray-200 flex gap-2">
+          {canExtend && (
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className={`flex-1 py-3 rounded-lg font-bold text-white ${
+                isSubmitting ? 'bg-gray-400 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700'
+              }`}
+            >
+              {isSubmitting ? (
+                <>
+                  <i className="fa-solid fa-spinner fa-spin mr-2"></i>
+                  Saving...
+                </>
+              ) : (
+                'Extend Due Date'
+              )}
+            </button>
+          )}
+          <button
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="px-6 py-3 bg-gray-300 hover:bg-gray-400 text-gray-800 rounded-lg font-medium"
+          >
+            {canExtend ? 'Cancel' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LoanExtensionDialog;
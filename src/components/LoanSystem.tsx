@@ -1,13 +1,17 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { AudioPresets } from '../services/audioService';
 import { apiService, inventoryApi, loanApi, borrowerApi } from '../services/apiService';
-import { InventoryItem, Borrower, LoanTransaction } from '../types/index.ts';
+import { enqueue, isNetworkError } from '../services/offlineQueue';
+import { InventoryItem, Borrower, LoanTransaction, LoanRequest } from '../types/index.ts';
+import OverduePanel from './OverduePanel';
+import SignaturePad from './SignaturePad';
 
 interface LoanSystemProps {
   onClose?: () => void;
+  offline?: boolean; // save loans as drafts in the outbox instead of creating them
 }
 
-const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
+const LoanSystem: React.FC<LoanSystemProps> = ({ onClose, offline = false }) => {
   // State Management
   const [step, setStep] = useState<'select-borrower' | 'select-items' | 'confirm'>('select-borrower');
   const [borrowers, setBorrowers] = useState<Borrower[]>([]);
@@ -29,10 +33,6 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
     position: ''
   });
 
-  // Refs
-  const signatureCanvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
-
   // Load initial data
   useEffect(() => {
     loadBorrowers();
@@ -43,7 +43,7 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
   // Load borrowers
   const loadBorrowers = async () => {
     try {
-      const response = await borrowerApi.getBorrowers();
+      const response = await borrowerApi.getBorrowers({ active: true });
       if (response.success) {
         setBorrowers(response.data);
       }
@@ -52,16 +52,21 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
     }
   };
 
+  // Reload the picker once the due date is known so reservations in the loan period are flagged
+  useEffect(() => {
+    if (dueDate) loadAvailableItems();
+  }, [dueDate]);
+
   // Load available items
   const loadAvailableItems = async () => {
     try {
-      const response = await inventoryApi.getItems('', 100);
+      const today = new Date().toISOString().split('T')[0];
+      const response = await inventoryApi.getAvailableItems('', 100, {
+        start_date: today,
+        end_date: dueDate || today
+      });
       if (response.success) {
-        // Filter only available items
-        const available = response.data.filter((item: InventoryItem) => 
-          item.status === 'Available'
-        );
-        setAvailableItems(available);
+        setAvailableItems(response.data);
       }
     } catch (error) {
       console.error('Failed to load items:', error);
@@ -82,6 +87,11 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
 
   // Handle borrower selection
   const handleSelectBorrower = (borrower: Borrower) => {
+    if (borrower.is_blocked) {
+      AudioPresets.ITEM_NOT_FOUND();
+      alert(`${borrower.name} is blocked from new loans.\n\nReason: ${borrower.blocked_reason || '-'}`);
+      return;
+    }
     setSelectedBorrower(borrower);
     AudioPresets.BUTTON_CLICK();
   };
@@ -93,6 +103,13 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
     if (isSelected) {
       setSelectedItems(selectedItems.filter(selected => selected.barcode !== item.barcode));
     } else {
+      if (item.reserved_no) {
+        const loanAnyway = window.confirm(
+          `${item.item_name} is reserved for ${item.reserved_for} (${item.reserved_no})\n` +
+          `${new Date(item.reserved_from || '').toLocaleDateString('id-ID')} - ${new Date(item.reserved_until || '').toLocaleDateString('id-ID')}\n\nLoan it anyway?`
+        );
+        if (!loanAnyway) return;
+      }
       setSelectedItems([...selectedItems, item]);
     }
     
@@ -123,57 +140,41 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
     }
   };
 
-  // Handle signature drawing
-  const startDrawing = (e: React.MouseEvent) => {
-    const canvas = signatureCanvasRef.current;
-    if (!canvas) return;
-
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.beginPath();
-    ctx.moveTo(x, y);
-    setIsDrawing(true);
-  };
-
-  const draw = (e: React.MouseEvent) => {
-    if (!isDrawing) return;
-
-    const canvas = signatureCanvasRef.current;
-    if (!canvas) return;
-
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.lineTo(x, y);
-    ctx.stroke();
+  const resetForm = () => {
+    setSelectedBorrower(null);
+    setSelectedItems([]);
+    setProgramName('');
+    setLoanReason('');
+    setDueDate('');
+    setSignature('');
+    setStep('select-borrower');
   };
 
-  const stopDrawing = () => {
-    setIsDrawing(false);
-    const canvas = signatureCanvasRef.current;
-    if (!canvas) return;
-
-    setSignature(canvas.toDataURL());
+  // The server checks availability again when the draft is sent, and refuses
+  // items that were loaned out in the meantime
+  const queueLoan = async (loanData: LoanRequest) => {
+    await enqueue({
+      kind: 'loan',
+      label: `Loan for ${loanData.borrower_name} • ${loanData.program_name} (${loanData.items.length} items)`,
+      payload: loanData
+    });
+    AudioPresets.UPLOAD_COMPLETE();
+    resetForm();
+    alert('Server unreachable. The loan is saved as a draft on this device and created when the connection is back.\n\nPrint the handover document from the loan history once it has synced.');
+    if (onClose) onClose();
   };
 
-  const clearSignature = () => {
-    const canvas = signatureCanvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    setSignature('');
+  // The server refuses items reserved during the loan period until the user
+  // has confirmed it, e.g. for reservations made after the picker was loaded
+  const createLoanConfirmingReservations = async (loanData: LoanRequest) => {
+    try {
+      return await loanApi.createLoan(loanData);
+    } catch (error: any) {
+      const data = error.response?.data;
+      if (error.response?.status !== 409 || !data?.reserved?.length) throw error;
+      if (!window.confirm(`${data.message}\n\nLoan them anyway?`)) return null;
+      return loanApi.createLoan({ ...loanData, allow_reserved: true });
+    }
   };
 
   // Handle loan submission
@@ -203,6 +204,20 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
       return;
     }
 
+    // Due date may have been set after picking; re-check against the refreshed picker
+    const reserved = selectedItems
+      .map(item => availableItems.find(available => available.barcode === item.barcode))
+      .filter((item): item is InventoryItem => !!item?.reserved_no);
+
+    if (reserved.length > 0) {
+      const loanAnyway = window.confirm(
+        `${reserved.length} selected items are reserved before the due date:\n\n` +
+        reserved.map(item => `${item.barcode} - ${item.reserved_for} (${item.reserved_no})`).join('\n') +
+        '\n\nLoan them anyway?'
+      );
+      if (!loanAnyway) return;
+    }
+
     const confirmLoan = window.confirm(
       `Create loan for ${selectedBorrower.name}?\n\nItems: ${selectedItems.length}\nDue Date: ${new Date(dueDate).toLocaleDateString('id-ID')}`
     );
@@ -211,45 +226,53 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
 
     setIsLoading(true);
 
+    const loanData: LoanRequest = {
+      borrower_id: selectedBorrower.id,
+      borrower_name: selectedBorrower.name,
+      program_name: programName,
+      loan_reason: loanReason,
+      due_date: dueDate,
+      signature_base64: signature,
+      items: selectedItems.map(item => item.barcode),
+      allow_reserved: reserved.length > 0
+    };
+
     try {
-      const loanData = {
-        borrower_id: selectedBorrower.id,
-        borrower_name: selectedBorrower.name,
-        inputter_name: 'Admin', // Change this to actual user
-        program_name: programName,
-        loan_reason: loanReason,
-        due_date: dueDate,
-        signature_base64: signature,
-        items: selectedItems.map(item => item.barcode)
-      };
-
-      const response = await loanApi.createLoan(loanData);
+      if (offline) {
+        await queueLoan(loanData);
+        return;
+      }
+
+      const response = await createLoanConfirmingReservations(loanData);
       
-      if (response.success) {
+      if (response?.success) {
         AudioPresets.UPLOAD_COMPLETE();
-        
-        // Reset form
-        setSelectedBorrower(null);
-        setSelectedItems([]);
-        setProgramName('');
-        setLoanReason('');
-        setDueDate('');
-        setSignature('');
-        clearSignature();
-        setStep('select-borrower');
+        resetForm();
         
         // Reload data
         await loadAvailableItems();
         await loadActiveLoans();
         
-        alert(`Loan created successfully!\nInvoice Number: ${response.invoice_no}`);
+        const print = window.confirm(
+          `Loan created successfully!\nInvoice Number: ${response.invoice_no}\n\nPrint the handover document now?`
+        );
+        if (print) {
+          await loanApi.openDocument(response.transaction_id).catch(error => {
+            console.error('Failed to open loan document:', error);
+            alert('Loan saved, but the document could not be opened. Reprint it from the loan history.');
+          });
+        }
         
         if (onClose) onClose();
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to create loan:', error);
+      if (isNetworkError(error)) {
+        await queueLoan(loanData);
+        return;
+      }
       AudioPresets.ITEM_NOT_FOUND();
-      alert('Failed to create loan. Please try again.');
+      alert(error.response?.data?.message || 'Failed to create loan. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -261,7 +284,7 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
     if (!confirmReturn) return;
 
     try {
-      const response = await loanApi.returnItem(barcode, 'Admin');
+      const response = await loanApi.returnItem(barcode);
       
       if (response.success) {
         AudioPresets.ITEM_FOUND();
@@ -337,14 +360,21 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
                         key={borrower.id}
                         onClick={() => handleSelectBorrower(borrower)}
                         className={`p-4 rounded-lg border cursor-pointer transition-all ${
-                          selectedBorrower?.id === borrower.id
+                          borrower.is_blocked
+                            ? 'border-red-200 bg-red-50 opacity-60 cursor-not-allowed'
+                            : selectedBorrower?.id === borrower.id
                             ? 'border-blue-500 bg-blue-50'
                             : 'border-gray-300 hover:border-blue-300 hover:bg-blue-50/50'
                         }`}
                       >
                         <div className="flex justify-between items-center">
                           <div>
-                            <h4 className="font-bold text-gray-800">{borrower.name}</h4>
+                            <h4 className="font-bold text-gray-800">
+                              {borrower.name}
+                              {borrower.is_blocked && (
+                                <span className="ml-2 px-2 py-0.5 text-xs font-bold rounded bg-red-100 text-red-800">Blocked</span>
+                              )}
+                            </h4>
                             <p className="text-sm text-gray-600">NIK: {borrower.nik}</p>
                           </div>
                           <div className="text-right">
@@ -458,8 +488,9 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
                             <p className="font-bold text-gray-800">
                               {loan.borrower_name} - {loan.invoice_no}
                             </p>
-                            <p className="text-sm text-gray-600">
+                            <p className={`text-sm ${loan.is_overdue ? 'text-red-600 font-bold' : 'text-gray-600'}`}>
                               Due: {new Date(loan.due_date).toLocaleDateString('id-ID')}
+                              {loan.is_overdue && ' (Overdue)'}
                             </p>
                           </div>
                           <button
@@ -478,6 +509,9 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
                   </div>
                 </div>
               )}
+
+              {/* Overdue Loans */}
+              <OverduePanel refreshKey={activeLoans} />
             </div>
           )}
 
@@ -519,6 +553,15 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
                             <h4 className="font-bold text-gray-800">{item.item_name}</h4>
                             <p className="text-sm text-gray-600">Barcode: {item.barcode}</p>
                             <p className="text-sm text-gray-600">Brand: {item.brand || '-'}</p>
+                            {item.reserved_no && (
+                              <span
+                                className="inline-block mt-1 px-2 py-0.5 text-xs font-medium rounded bg-amber-100 text-amber-800"
+                                title={`${item.reserved_no}: ${new Date(item.reserved_from || '').toLocaleDateString('id-ID')} - ${new Date(item.reserved_until || '').toLocaleDateString('id-ID')}`}
+                              >
+                                <i className="fa-solid fa-calendar-check mr-1"></i>
+                                Reserved: {item.reserved_for}
+                              </span>
+                            )}
                           </div>
                           <div className="text-right">
                             <p className="font-bold text-blue-600">
@@ -648,31 +691,7 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
                   {/* Signature */}
                   <div className="bg-white border border-gray-300 rounded-xl p-4">
                     <h3 className="text-lg font-bold text-gray-800 mb-4">Digital Signature *</h3>
-                    
-                    <div className="border-2 border-dashed border-gray-300 rounded-lg p-4">
-                      <canvas
-                        ref={signatureCanvasRef}
-                        width={500}
-                        height={200}
-                        className="w-full h-48 bg-gray-50 rounded border"
-                        onMouseDown={startDrawing}
-                        onMouseMove={draw}
-                        onMouseUp={stopDrawing}
-                        onMouseLeave={stopDrawing}
-                      />
-                    </div>
-                    
-                    <div className="flex gap-2 mt-3">
-                      <button
-                        onClick={clearSignature}
-                        className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg"
-                      >
-                        Clear Signature
-                      </button>
-                      <div className="text-sm text-gray-600 ml-auto">
-                        Click and drag to sign above
-                      </div>
-                    </div>
+                    <SignaturePad onChange={setSignature} />
                   </div>
                 </div>
 
@@ -757,6 +776,11 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
                           <i className="fa-solid fa-spinner fa-spin mr-2"></i>
                           Processing Loan...
                         </>
+                      ) : offline ? (
+                        <>
+                          <i className="fa-solid fa-floppy-disk mr-2"></i>
+                          SAVE LOAN DRAFT (OFFLINE)
+                        </>
                       ) : (
                         <>
                           <i className="fa-solid fa-check-circle mr-2"></i>
@@ -764,6 +788,11 @@ const LoanSystem: React.FC<LoanSystemProps> = ({ onClose }) => {
                         </>
                       )}
                     </button>
+                    {offline && (
+                      <p className="text-sm text-amber-700 text-center">
+                        The server is unreachable. The draft is created as a loan when it is back.
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
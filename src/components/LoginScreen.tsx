@@ -0,0 +1,108 @@
+// components/LoginScreen.tsx
+import React, { useState } from 'react';
+import { AudioPresets } from '../services/audioService';
+import { userApi } from '../services/apiService';
+import { AuthUser } from '../types/index.ts';
+
+interface LoginScreenProps {
+  onLogin: (user: AuthUser) => void;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await userApi.login(username.trim(), password);
+
+      if (response.success) {
+        AudioPresets.UPLOAD_COMPLETE();
+        setPassword('');
+        onLogin(response.user);
+      } else {
+        setError(response.message || 'Login failed');
+      }
+    } catch (error: any) {
+      console.error('Login failed:', error);
+      AudioPresets.ITEM_NOT_FOUND();
+      setError(error.response?.data?.message || 'Cannot connect to server. Please check server is running.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gradient-to-br from-blue-700 to-blue-900 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm p-8">
+        <div className="flex flex-col items-center mb-6">
+          <div className="bg-gradient-to-br from-blue-600 to-blue-800 text-white p-3 rounded-lg shadow mb-3">
+            <i className="fa-solid fa-boxes-stacked text-2xl"></i>
+          </div>
+          <h1 className="text-xl font-bold text-gray-800">Wardrobe Inventory Pro</h1>
+          <p className="text-sm text-gray-500">Sign in to continue</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoComplete="username"
+              autoFocus
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoComplete="current-password"
+              required
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center gap-2">
+              <i className="fa-solid fa-exclamation-triangle"></i>
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className={`w-full py-3 rounded-lg font-bold text-white ${
+              isLoading ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {isLoading ? (
+              <>
+                <i className="fa-solid fa-spinner fa-spin mr-2"></i>
+                Signing in...
+              </>
+            ) : (
+              'Sign In'
+            )}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,451 @@
+// components/MaintenancePanel.tsx
+import React, { useState, useEffect } from 'react';
+import { AudioPresets } from '../services/audioService';
+import { maintenanceApi } from '../services/apiService';
+import { MaintenanceTicket, MaintenanceType, ReceiveCondition, formatDate, formatCurrency } from '../types/index.ts';
+
+interface MaintenancePanelProps {
+  onClose?: () => void;
+}
+
+type StatusFilter = 'Open' | 'Closed' | 'all';
+
+const RECEIVE_CONDITIONS: ReceiveCondition[] = ['Good', 'Damaged', 'Written Off'];
+
+const emptyForm = {
+  vendor: '',
+  expected_date: '',
+  cost: '',
+  notes: ''
+};
+
+const MaintenancePanel: React.FC<MaintenancePanelProps> = ({ onClose }) => {
+  const [tickets, setTickets] = useState<MaintenanceTicket[]>([]);
+  const [selectedTicket, setSelectedTicket] = useState<MaintenanceTicket | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('Open');
+  const [mode, setMode] = useState<'send' | 'receive'>('send');
+  const [type, setType] = useState<MaintenanceType>('Laundry');
+  const [form, setForm] = useState(emptyForm);
+  const [barcodeInput, setBarcodeInput] = useState('');
+  const [scannedBarcodes, setScannedBarcodes] = useState<string[]>([]);
+  // Receive mode: condition per scanned barcode (Good unless changed)
+  const [receiveConditions, setReceiveConditions] = useState<Record<string, ReceiveCondition>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    loadTickets();
+  }, [statusFilter]);
+
+  const loadTickets = async () => {
+    try {
+      const response = await maintenanceApi.getTickets({
+        status: statusFilter === 'all' ? undefined : statusFilter
+      });
+      if (response.success) {
+        setTickets(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load maintenance tickets:', error);
+    }
+  };
+
+  const loadTicket = async (id: number) => {
+    try {
+      const response = await maintenanceApi.getTicket(id);
+      if (response.success) {
+        setSelectedTicket(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load maintenance ticket:', error);
+    }
+  };
+
+  const handleModeChange = (newMode: 'send' | 'receive') => {
+    setMode(newMode);
+    setScannedBarcodes([]);
+    setReceiveConditions({});
+    setBarcodeInput('');
+  };
+
+  const handleScan = () => {
+    const barcode = barcodeInput.trim();
+    if (!barcode) return;
+
+    if (scannedBarcodes.includes(barcode)) {
+      AudioPresets.ITEM_DUPLICATE();
+    } else {
+      AudioPresets.ITEM_FOUND();
+      setScannedBarcodes(prev => [barcode, ...prev]);
+    }
+    setBarcodeInput('');
+  };
+
+  const handleRemoveBarcode = (barcode: string) => {
+    setScannedBarcodes(prev => prev.filter(b => b !== barcode));
+  };
+
+  const handleSendOut = async () => {
+    if (scannedBarcodes.length === 0) {
+      alert('Scan at least one item');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await maintenanceApi.sendOut({
+        type,
+        vendor: form.vendor.trim() || undefined,
+        expected_date: form.expected_date || undefined,
+        cost: form.cost ? Number(form.cost) : undefined,
+        notes: form.notes.trim() || undefined,
+        barcodes: scannedBarcodes
+      });
+
+      if (response.success) {
+        AudioPresets.UPLOAD_COMPLETE();
+        setScannedBarcodes([]);
+        setForm(emptyForm);
+        await loadTickets();
+        await loadTicket(response.data.id);
+        alert(response.message);
+      }
+    } catch (error: any) {
+      console.error('Send out failed:', error);
+      AudioPresets.ITEM_NOT_FOUND();
+      const data = error.response?.data;
+      alert(`${data?.message || 'Failed to send items out.'}${
+        data?.rejected?.length ? `\n\n${data.rejected.join('\n')}` : ''
+      }`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReceive = async () => {
+    if (scannedBarcodes.length === 0) {
+      alert('Scan at least one item');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await maintenanceApi.receive(scannedBarcodes.map(barcode => ({
+        barcode,
+        condition: receiveConditions[barcode] || 'Good'
+      })));
+
+      if (response.success) {
+        AudioPresets.UPLOAD_COMPLETE();
+        setScannedBarcodes([]);
+        setReceiveConditions({});
+        await loadTickets();
+        if (selectedTicket) await loadTicket(selectedTicket.id);
+
+        const { not_out_barcodes, closed_tickets } = response.details;
+        alert(`${response.message}${
+          not_out_barcodes.length ? `\n\nNot out for maintenance: ${not_out_barcodes.join(', ')}` : ''
+        }${
+          closed_tickets.length ? `\n\nClosed: ${closed_tickets.join(', ')}` : ''
+        }`);
+      }
+    } catch (error: any) {
+      console.error('Receive failed:', error);
+      AudioPresets.ITEM_NOT_FOUND();
+      alert(error.response?.data?.message || 'Failed to receive items.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUpdateCost = async (ticket: MaintenanceTicket) => {
+    const value = prompt(`Cost for ${ticket.ticket_no} (Rp):`, String(Number(ticket.cost) || ''));
+    if (value === null) return;
+
+    const cost = Number(value.replace(/[^0-9.]/g, ''));
+    if (isNaN(cost)) {
+      alert('Invalid amount');
+      return;
+    }
+
+    try {
+      const response = await maintenanceApi.updateTicket(ticket.id, { cost });
+      if (response.success) {
+        await loadTickets();
+        await loadTicket(ticket.id);
+      }
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Failed to update ticket.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-600 to-indigo-800 text-white p-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-bold">Laundry & Repair</h2>
+              <p className="text-indigo-100">Send items out and receive them back before they can be loaned again</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-indigo-700 rounded-full transition-colors"
+            >
+              <i className="fa-solid fa-times text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Send / Receive */}
+            <div className="space-y-4">
+              <div className="flex bg-gray-100 rounded-lg p-1">
+                <button
+                  onClick={() => handleModeChange('send')}
+                  className={`flex-1 py-2 rounded-md text-sm font-medium ${
+                    mode === 'send' ? 'bg-white shadow text-indigo-700' : 'text-gray-600'
+                  }`}
+                >
+                  <i className="fa-solid fa-truck-fast mr-2"></i>
+                  Send Out
+                </button>
+                <button
+                  onClick={() => handleModeChange('receive')}
+                  className={`flex-1 py-2 rounded-md text-sm font-medium ${
+                    mode === 'receive' ? 'bg-white shadow text-indigo-700' : 'text-gray-600'
+                  }`}
+                >
+                  <i className="fa-solid fa-box-open mr-2"></i>
+                  Receive Back
+                </button>
+              </div>
+
+              {mode === 'send' && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['Laundry', 'Repair'] as MaintenanceType[]).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setType(option)}
+                        className={`py-2 rounded-lg text-sm font-medium ${
+                          type === option ? 'bg-indigo-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                        }`}
+                      >
+                        <i className={`fa-solid ${option === 'Laundry' ? 'fa-soap' : 'fa-scissors'} mr-2`}></i>
+                        {option}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    type="text"
+                    value={form.vendor}
+                    onChange={(e) => setForm({ ...form, vendor: e.target.value })}
+                    placeholder={type === 'Laundry' ? 'Laundry vendor' : 'Tailor / repair vendor'}
+                    className="w-full p-2 border border-gray-300 rounded-lg"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Expected back</label>
+                      <input
+                        type="date"
+                        value={form.expected_date}
+                        onChange={(e) => setForm({ ...form, expected_date: e.target.value })}
+                        className="w-full p-2 border border-gray-300 rounded-lg"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Cost (Rp)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={form.cost}
+                        onChange={(e) => setForm({ ...form, cost: e.target.value })}
+                        className="w-full p-2 border border-gray-300 rounded-lg"
+                      />
+                    </div>
+                  </div>
+                  <textarea
+                    value={form.notes}
+                    onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                    placeholder="Notes (optional)"
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                    rows={2}
+                  />
+                </div>
+              )}
+
+              {/* Scanner */}
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={barcodeInput}
+                  onChange={(e) => setBarcodeInput(e.target.value)}
+                  onKeyPress={(e) => e.key === 'Enter' && handleScan()}
+                  placeholder="Scan barcode..."
+                  className="flex-1 p-3 border border-gray-300 rounded-lg font-mono"
+                  autoFocus
+                />
+                <button
+                  onClick={handleScan}
+                  className="px-4 bg-gray-200 hover:bg-gray-300 rounded-lg"
+                >
+                  <i className="fa-solid fa-plus"></i>
+                </button>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg max-h-48 overflow-y-auto">
+                {scannedBarcodes.length === 0 ? (
+                  <p className="text-center text-gray-500 text-sm py-4">No items scanned</p>
+                ) : (
+                  scannedBarcodes.map(barcode => (
+                    <div key={barcode} className="flex justify-between items-center px-3 py-2 border-b border-gray-100 last:border-b-0">
+                      <span className="font-mono text-sm">{barcode}</span>
+                      <div className="flex items-center gap-2">
+                        {mode === 'receive' && (
+                          <select
+                            value={receiveConditions[barcode] || 'Good'}
+                            onChange={(e) => setReceiveConditions(prev => ({ ...prev, [barcode]: e.target.value as ReceiveCondition }))}
+                            className="p-1 border border-gray-300 rounded text-xs"
+                          >
+                            {RECEIVE_CONDITIONS.map(condition => (
+                              <option key={condition} value={condition}>{condition}</option>
+                            ))}
+                          </select>
+                        )}
+                        <button
+                          onClick={() => handleRemoveBarcode(barcode)}
+                          className="text-gray-400 hover:text-red-600"
+                        >
+                          <i className="fa-solid fa-times"></i>
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <button
+                onClick={mode === 'send' ? handleSendOut : handleReceive}
+                disabled={isLoading || scannedBarcodes.length === 0}
+                className={`w-full py-3 rounded-lg font-bold text-white ${
+                  isLoading || scannedBarcodes.length === 0 ? 'bg-gray-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'
+                }`}
+              >
+                {isLoading ? (
+                  <i className="fa-solid fa-spinner fa-spin"></i>
+                ) : mode === 'send' ? (
+                  `Send ${scannedBarcodes.length} items to ${type.toLowerCase()}`
+                ) : (
+                  `Receive ${scannedBarcodes.length} items`
+                )}
+              </button>
+            </div>
+
+            {/* Tickets */}
+            <div className="space-y-4">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-bold text-gray-800">Tickets</h3>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                  className="p-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="Open">Open</option>
+                  <option value="Closed">Closed</option>
+                  <option value="all">All</option>
+                </select>
+              </div>
+
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {tickets.length === 0 ? (
+                  <p className="text-center text-gray-500 text-sm py-4">No tickets</p>
+                ) : (
+                  tickets.map(ticket => (
+                    <div
+                      key={ticket.id}
+                      onClick={() => loadTicket(ticket.id)}
+                      className={`p-3 rounded-lg border cursor-pointer hover:bg-gray-50 ${
+                        selectedTicket?.id === ticket.id ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <p className="font-bold text-gray-800">{ticket.ticket_no}</p>
+                          <p className="text-xs text-gray-600">
+                            {ticket.type}{ticket.vendor ? ` • ${ticket.vendor}` : ''}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <span className={`px-2 py-1 text-xs font-medium rounded ${
+                            ticket.status === 'Open' ? 'bg-indigo-100 text-indigo-800' : 'bg-gray-100 text-gray-700'
+                          }`}>
+                            {ticket.status === 'Open' ? `${ticket.outstanding_items}/${ticket.item_count} out` : 'Closed'}
+                          </span>
+                          {ticket.is_late && (
+                            <p className="text-xs text-red-600 font-medium mt-1">Late</p>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              {selectedTicket && (
+                <div className="border border-gray-200 rounded-xl p-4">
+                  <div className="flex justify-between items-start mb-3">
+                    <div>
+                      <p className="font-bold text-gray-800">{selectedTicket.ticket_no}</p>
+                      <p className="text-xs text-gray-600">
+                        Sent {formatDate(selectedTicket.created_at)} by {selectedTicket.created_by}
+                        {selectedTicket.expected_date ? ` • expected ${new Date(selectedTicket.expected_date).toLocaleDateString('id-ID')}` : ''}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleUpdateCost(selectedTicket)}
+                      className="text-sm text-indigo-600 hover:text-indigo-800"
+                      title="Update cost"
+                    >
+                      {formatCurrency(Number(selectedTicket.cost))}
+                      <i className="fa-solid fa-pen ml-1 text-xs"></i>
+                    </button>
+                  </div>
+                  {selectedTicket.notes && (
+                    <p className="text-sm text-gray-600 mb-3">{selectedTicket.notes}</p>
+                  )}
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {selectedTicket.items?.map(item => (
+                      <div key={item.id} className="flex justify-between items-center text-sm py-1 border-b border-gray-100 last:border-b-0">
+                        <div>
+                          <p className="text-gray-800">{item.item_name}</p>
+                          <p className="text-xs text-gray-500 font-mono">{item.barcode}</p>
+                        </div>
+                        <span className={`px-2 py-1 text-xs font-medium rounded ${
+                          item.status === 'Out'
+                            ? 'bg-yellow-100 text-yellow-800'
+                            : item.received_condition && item.received_condition !== 'Good'
+                              ? 'bg-red-100 text-red-800'
+                              : 'bg-green-100 text-green-800'
+                        }`}>
+                          {item.status === 'Out'
+                            ? 'Out'
+                            : `Received ${formatDate(item.received_at || '')}${
+                                item.received_condition && item.received_condition !== 'Good' ? ` • ${item.received_condition}` : ''
+                              }`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaintenancePanel;
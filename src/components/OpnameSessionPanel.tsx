@@ -0,0 +1,289 @@
+// components/OpnameSessionPanel.tsx
+import React, { useState, useEffect } from 'react';
+import { AudioPresets } from '../services/audioService';
+import { opnameApi } from '../services/apiService';
+import { OpnameSession, OpnameComparison, formatDate, formatNumber } from '../types/index.ts';
+
+interface OpnameSessionPanelProps {
+  session: OpnameSession | null;
+  onSessionChange: (session: OpnameSession | null) => void;
+  canManage: boolean;
+}
+
+const OpnameSessionPanel: React.FC<OpnameSessionPanelProps> = ({ session, onSessionChange, canManage }) => {
+  const [showOpenForm, setShowOpenForm] = useState(false);
+  const [sessionName, setSessionName] = useState('');
+  const [location, setLocation] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [closedSessions, setClosedSessions] = useState<OpnameSession[]>([]);
+  const [baseId, setBaseId] = useState('');
+  const [targetId, setTargetId] = useState('');
+  const [comparison, setComparison] = useState<OpnameComparison | null>(null);
+
+  useEffect(() => {
+    loadClosedSessions();
+  }, [session?.status]);
+
+  const loadClosedSessions = async () => {
+    try {
+      const response = await opnameApi.getSessions('Closed');
+      if (response.success) {
+        setClosedSessions(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load opname sessions:', error);
+    }
+  };
+
+  const handleOpenSession = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sessionName.trim()) return;
+
+    setIsLoading(true);
+    try {
+      const response = await opnameApi.openSession({
+        session_name: sessionName,
+        location
+      });
+
+      if (response.success) {
+        AudioPresets.UPLOAD_COMPLETE();
+        setSessionName('');
+        setLocation('');
+        setShowOpenForm(false);
+        onSessionChange(response.data);
+      }
+    } catch (error: any) {
+      console.error('Failed to open session:', error);
+      AudioPresets.ITEM_NOT_FOUND();
+      alert(error.response?.data?.message || 'Failed to open stock opname session.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTogglePause = async () => {
+    if (!session) return;
+
+    setIsLoading(true);
+    try {
+      const response = session.status === 'Open'
+        ? await opnameApi.pauseSession(session.id)
+        : await opnameApi.resumeSession(session.id);
+
+      if (response.success) {
+        AudioPresets.BUTTON_CLICK();
+        onSessionChange({ ...session, ...response.data });
+      }
+    } catch (error: any) {
+      console.error('Failed to update session:', error);
+      alert(error.response?.data?.message || 'Failed to update session.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCloseSession = async () => {
+    if (!session) return;
+
+    const confirmed = window.confirm(
+      `Close stock opname "${session.session_name}"?\n\nResults will be frozen and no more scans can be recorded.`
+    );
+    if (!confirmed) return;
+
+    setIsLoading(true);
+    try {
+      const response = await opnameApi.closeSession(session.id);
+
+      if (response.success) {
+        AudioPresets.UPLOAD_COMPLETE();
+        const closed: OpnameSession = response.data;
+        alert(`✅ Session closed\n\nScanned: ${closed.scanned_items} of ${closed.total_items} items`);
+        onSessionChange(null);
+      }
+    } catch (error: any) {
+      console.error('Failed to close session:', error);
+      alert(error.response?.data?.message || 'Failed to close session.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!baseId || !targetId) return;
+
+    setIsLoading(true);
+    try {
+      const response = await opnameApi.compareSessions(Number(baseId), Number(targetId));
+      if (response.success) {
+        setComparison(response.data);
+      }
+    } catch (error: any) {
+      console.error('Failed to compare sessions:', error);
+      alert(error.response?.data?.message || 'Failed to compare sessions.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <i className="fa-solid fa-clipboard-list text-indigo-500"></i>
+          Stock Opname
+        </h2>
+        {!session && !showOpenForm && canManage && (
+          <button
+            onClick={() => setShowOpenForm(true)}
+            className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm rounded-lg font-medium"
+          >
+            <i className="fa-solid fa-play mr-1"></i>
+            Open Session
+          </button>
+        )}
+      </div>
+
+      {/* Active Session */}
+      {session ? (
+        <div className={`p-3 rounded-lg border ${
+          session.status === 'Open' ? 'bg-indigo-50 border-indigo-200' : 'bg-yellow-50 border-yellow-200'
+        }`}>
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="font-bold text-gray-800">{session.session_name}</p>
+              <p className="text-xs text-gray-600">
+                {session.location || 'All locations'} • Opened {formatDate(session.opened_at)} by {session.opened_by}
+              </p>
+            </div>
+            <span className={`px-2 py-1 text-xs font-bold rounded ${
+              session.status === 'Open' ? 'bg-indigo-100 text-indigo-800' : 'bg-yellow-100 text-yellow-800'
+            }`}>
+              {session.status}
+            </span>
+          </div>
+          <p className="text-sm text-gray-700 mt-2">
+            Scans recorded: <span className="font-bold">{formatNumber(Number(session.scan_count || 0))}</span>
+          </p>
+          {canManage && (
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={handleTogglePause}
+              disabled={isLoading}
+              className="flex-1 py-2 bg-yellow-500 hover:bg-yellow-600 text-white text-sm rounded-lg font-medium"
+            >
+              <i className={`fa-solid ${session.status === 'Open' ? 'fa-pause' : 'fa-play'} mr-1`}></i>
+              {session.status === 'Open' ? 'Pause' : 'Resume'}
+            </button>
+            <button
+              onClick={handleCloseSession}
+              disabled={isLoading}
+              className="flex-1 py-2 bg-red-600 hover:bg-red-700 text-white text-sm rounded-lg font-medium"
+            >
+              <i className="fa-solid fa-lock mr-1"></i>
+              Close & Freeze
+            </button>
+          </div>
+          )}
+        </div>
+      ) : showOpenForm ? (
+        <form onSubmit={handleOpenSession} className="space-y-3">
+          <input
+            type="text"
+            placeholder="Session name (e.g. Opname Oktober 2026)"
+            value={sessionName}
+            onChange={(e) => setSessionName(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+            required
+          />
+          <input
+            type="text"
+            placeholder="Location (optional)"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm rounded-lg font-medium"
+            >
+              {isLoading ? 'Opening...' : 'Start Counting'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowOpenForm(false)}
+              className="px-4 py-2 bg-gray-300 hover:bg-gray-400 text-gray-800 text-sm rounded-lg font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <p className="text-sm text-gray-500">
+          No stock opname session is running. {canManage ? 'Open a session to start counting.' : 'Ask a supervisor to open one.'}
+        </p>
+      )}
+
+      {/* Compare Closed Sessions */}
+      {closedSessions.length >= 2 && (
+        <div className="pt-3 border-t border-gray-100 space-y-2">
+          <p className="text-xs font-bold text-gray-400 uppercase tracking-wide">Compare Counts</p>
+          <div className="flex gap-2">
+            <select
+              value={baseId}
+              onChange={(e) => setBaseId(e.target.value)}
+              className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">Previous...</option>
+              {closedSessions.map(s => (
+                <option key={s.id} value={s.id}>{s.session_name}</option>
+              ))}
+            </select>
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">Current...</option>
+              {closedSessions.map(s => (
+                <option key={s.id} value={s.id}>{s.session_name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleCompare}
+              disabled={isLoading || !baseId || !targetId}
+              className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm rounded-lg"
+            >
+              <i className="fa-solid fa-code-compare"></i>
+            </button>
+          </div>
+
+          {comparison && (
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="p-2 bg-gray-50 rounded-lg">
+                <div className="text-sm font-bold text-gray-800">
+                  {comparison.summary.base_scanned}/{comparison.summary.base_total}
+                </div>
+                <div className="text-xs text-gray-500">{comparison.base.session_name}</div>
+              </div>
+              <div className="p-2 bg-gray-50 rounded-lg">
+                <div className="text-sm font-bold text-gray-800">
+                  {comparison.summary.target_scanned}/{comparison.summary.target_total}
+                </div>
+                <div className="text-xs text-gray-500">{comparison.target.session_name}</div>
+              </div>
+              <div className="p-2 bg-orange-50 rounded-lg">
+                <div className="text-sm font-bold text-orange-700">{comparison.summary.changed_items}</div>
+                <div className="text-xs text-orange-600">Changed items</div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OpnameSessionPanel;
@@ -0,0 +1,139 @@
+// components/OutboxPanel.tsx
+import React, { useState, useEffect } from 'react';
+import { getOutbox, discardEntry, retryEntry, OUTBOX_CHANGED_EVENT } from '../services/offlineQueue';
+import { OutboxEntry, OutboxKind, OutboxStatus } from '../types/index.ts';
+
+interface OutboxPanelProps {
+  isOnline: boolean;
+  onSync: () => void;
+  onClose?: () => void;
+}
+
+const KIND_ICONS: Record<OutboxKind, string> = {
+  opname_scan: 'fa-barcode text-blue-500',
+  return: 'fa-arrow-right-to-bracket text-orange-500',
+  loan: 'fa-handshake text-green-500'
+};
+
+const STATUS_STYLES: Record<OutboxStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  conflict: 'bg-red-100 text-red-800',
+  failed: 'bg-gray-200 text-gray-800'
+};
+
+const OutboxPanel: React.FC<OutboxPanelProps> = ({ isOnline, onSync, onClose }) => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => {
+    const loadEntries = () => getOutbox().then(setEntries).catch(error => {
+      console.error('Failed to load outbox:', error);
+    });
+
+    loadEntries();
+    window.addEventListener(OUTBOX_CHANGED_EVENT, loadEntries);
+    return () => window.removeEventListener(OUTBOX_CHANGED_EVENT, loadEntries);
+  }, []);
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    if (!window.confirm(`Discard "${entry.label}"?\n\nIt will not be sent to the server.`)) return;
+    await discardEntry(entry.id!);
+  };
+
+  const handleRetry = async (entry: OutboxEntry) => {
+    await retryEntry(entry.id!);
+    if (isOnline) onSync();
+  };
+
+  const pending = entries.filter(entry => entry.status === 'pending').length;
+  const needsAttention = entries.length - pending;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-amber-500 to-amber-700 text-white p-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-bold">Offline Queue</h2>
+              <p className="text-amber-100">
+                {pending} waiting to sync • {needsAttention} need attention
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-amber-600 rounded-full transition-colors"
+            >
+              <i className="fa-solid fa-times text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <p className="text-sm text-gray-600">
+              {isOnline
+                ? 'Queued work is sent in the order it was made.'
+                : 'The server is unreachable. Work made now stays on this device until it is back.'}
+            </p>
+            <button
+              onClick={onSync}
+              disabled={!isOnline || pending === 0}
+              className={`px-4 py-2 rounded-lg text-sm font-bold text-white ${
+                isOnline && pending > 0 ? 'bg-amber-600 hover:bg-amber-700' : 'bg-gray-400 cursor-not-allowed'
+              }`}
+            >
+              <i className="fa-solid fa-rotate mr-2"></i>
+              Sync Now
+            </button>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">Nothing queued on this device</p>
+          ) : (
+            <div className="border border-gray-200 rounded-xl divide-y">
+              {entries.map(entry => (
+                <div key={entry.id} className="p-3 flex justify-between items-start gap-4">
+                  <div className="flex gap-3">
+                    <i className={`fa-solid ${KIND_ICONS[entry.kind]} mt-1`}></i>
+                    <div>
+                      <p className="font-medium text-gray-800">{entry.label}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(entry.created_at).toLocaleString('id-ID')} • {entry.created_by}
+                        {entry.attempts > 0 && ` • ${entry.attempts} attempt(s)`}
+                      </p>
+                      {entry.error && (
+                        <p className="text-sm text-red-700 mt-1">{entry.error}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className={`px-2 py-1 rounded text-xs font-medium capitalize ${STATUS_STYLES[entry.status]}`}>
+                      {entry.status}
+                    </span>
+                    {entry.status !== 'pending' && (
+                      <button
+                        onClick={() => handleRetry(entry)}
+                        className="text-sm text-blue-600 hover:underline"
+                      >
+                        Retry
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDiscard(entry)}
+                      className="text-sm text-red-600 hover:underline"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OutboxPanel;
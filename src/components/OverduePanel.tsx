@@ -0,0 +1,111 @@
+// components/OverduePanel.tsx
+import React, { useState, useEffect } from 'react';
+import { loanApi } from '../services/apiService';
+import { OverdueLoan, OverdueBucket, formatCurrency } from '../types/index.ts';
+
+interface OverduePanelProps {
+  onSelectLoan?: (loanId: number) => void;
+  refreshKey?: unknown; // reloads whenever this value changes
+}
+
+const bucketStyles: Record<number, { box: string; badge: string }> = {
+  1: { box: 'bg-yellow-50 border-yellow-300 text-yellow-800', badge: 'bg-yellow-100 text-yellow-800' },
+  2: { box: 'bg-orange-50 border-orange-300 text-orange-800', badge: 'bg-orange-100 text-orange-800' },
+  3: { box: 'bg-red-50 border-red-300 text-red-800', badge: 'bg-red-100 text-red-800' }
+};
+
+const levelOf = (days: number) => (days >= 8 ? 3 : days >= 4 ? 2 : 1);
+
+const OverduePanel: React.FC<OverduePanelProps> = ({ onSelectLoan, refreshKey }) => {
+  const [loans, setLoans] = useState<OverdueLoan[]>([]);
+  const [buckets, setBuckets] = useState<OverdueBucket[]>([]);
+  const [selectedLevel, setSelectedLevel] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadOverdue();
+  }, [refreshKey]);
+
+  const loadOverdue = async () => {
+    try {
+      const response = await loanApi.getOverdueLoans();
+      if (response.success) {
+        setLoans(response.data);
+        setBuckets(response.buckets);
+      }
+    } catch (error) {
+      console.error('Failed to load overdue loans:', error);
+    }
+  };
+
+  if (loans.length === 0) return null;
+
+  const visibleLoans = selectedLevel
+    ? loans.filter(loan => levelOf(loan.days_overdue) === selectedLevel)
+    : loans;
+
+  return (
+    <div className="bg-white border border-red-200 rounded-xl p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-bold text-red-800">
+          <i className="fa-solid fa-triangle-exclamation mr-2"></i>
+          Overdue Loans ({loans.length})
+        </h3>
+        <button
+          onClick={loadOverdue}
+          className="p-2 hover:bg-gray-100 text-gray-500 rounded"
+          title="Refresh"
+        >
+          <i className="fa-solid fa-rotate"></i>
+        </button>
+      </div>
+
+      {/* Aging Buckets */}
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        {buckets.map(bucket => (
+          <button
+            key={bucket.level}
+            onClick={() => setSelectedLevel(selectedLevel === bucket.level ? null : bucket.level)}
+            className={`p-2 rounded-lg border text-center transition-all ${bucketStyles[bucket.level].box} ${
+              selectedLevel === bucket.level ? 'ring-2 ring-offset-1 ring-current' : ''
+            }`}
+          >
+            <div className="text-xl font-bold">{bucket.loans}</div>
+            <div className="text-xs font-medium">{bucket.label} days</div>
+            <div className="text-xs opacity-75">{bucket.items} items</div>
+          </button>
+        ))}
+      </div>
+
+      {/* Loans */}
+      <div className="space-y-2 max-h-60 overflow-y-auto">
+        {visibleLoans.map(loan => (
+          <div
+            key={loan.id}
+            onClick={() => onSelectLoan?.(loan.id)}
+            className={`p-3 rounded-lg border border-gray-200 ${onSelectLoan ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+          >
+            <div className="flex justify-between items-start">
+              <div>
+                <p className="font-bold text-gray-800">{loan.borrower_name}</p>
+                <p className="text-xs text-gray-600">
+                  {loan.invoice_no}
+                  {loan.borrower_department ? ` • ${loan.borrower_department}` : ''}
+                  {loan.borrower_phone ? ` • ${loan.borrower_phone}` : ''}
+                </p>
+              </div>
+              <span className={`px-2 py-1 text-xs font-bold rounded ${bucketStyles[levelOf(loan.days_overdue)].badge}`}>
+                {loan.days_overdue} days
+              </span>
+            </div>
+            <div className="flex justify-between text-xs text-gray-600 mt-1">
+              <span>Due {new Date(loan.due_date).toLocaleDateString('id-ID')}</span>
+              <span>{loan.overdue_items} items • {formatCurrency(Number(loan.overdue_value))}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OverduePanel;
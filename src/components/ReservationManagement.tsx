@@ -0,0 +1,586 @@
+// components/ReservationManagement.tsx
+import React, { useState, useEffect } from 'react';
+import { AudioPresets } from '../services/audioService';
+import { reservationApi, borrowerApi, inventoryApi, loanApi } from '../services/apiService';
+import { Reservation, ReservationConflict, Borrower, InventoryItem, formatCurrency } from '../types/index.ts';
+import SignaturePad from './SignaturePad';
+
+interface ReservationManagementProps {
+  onClose?: () => void;
+  canCheckout?: boolean;
+}
+
+type StatusFilter = Reservation['status'] | 'all';
+
+const emptyForm = {
+  borrower_id: '',
+  program_name: '',
+  start_date: '',
+  end_date: '',
+  notes: ''
+};
+
+const formatDay = (value: string | null) => (value ? new Date(value).toLocaleDateString('id-ID') : '-');
+
+// DATE columns arrive as timestamps; convert back to a local yyyy-mm-dd for date inputs
+const toInputDate = (value: string) => {
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const describeConflict = (conflict: ReservationConflict): string => {
+  switch (conflict.type) {
+    case 'reservation':
+      return `Reserved for ${conflict.program_name} (${conflict.reference_no}), ${formatDay(conflict.start_date)} - ${formatDay(conflict.end_date)}`;
+    case 'loan':
+      return `On loan ${conflict.reference_no}, due ${formatDay(conflict.end_date)}`;
+    case 'maintenance':
+      return `In ${conflict.program_name?.toLowerCase()} ${conflict.reference_no}, expected back ${formatDay(conflict.end_date)}`;
+    default:
+      return `Item is ${conflict.reference_no}`;
+  }
+};
+
+const statusStyles: Record<Reservation['status'], string> = {
+  'Reserved': 'bg-amber-100 text-amber-800',
+  'Checked Out': 'bg-green-100 text-green-800',
+  'Cancelled': 'bg-gray-100 text-gray-700'
+};
+
+const ReservationManagement: React.FC<ReservationManagementProps> = ({ onClose, canCheckout = false }) => {
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [selectedReservation, setSelectedReservation] = useState<Reservation | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('Reserved');
+  const [isCreating, setIsCreating] = useState(false);
+  const [borrowers, setBorrowers] = useState<Borrower[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [conflicts, setConflicts] = useState<ReservationConflict[]>([]);
+  const [barcodeInput, setBarcodeInput] = useState('');
+  const [checkout, setCheckout] = useState({ due_date: '', loan_reason: '', signature: '' });
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    loadReservations();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadBorrowers();
+  }, []);
+
+  // Re-check the draft whenever items or dates change
+  useEffect(() => {
+    if (!isCreating || items.length === 0 || !form.start_date || !form.end_date || form.end_date < form.start_date) {
+      setConflicts([]);
+      return;
+    }
+    reservationApi.checkConflicts(items.map(item => item.barcode), form.start_date, form.end_date)
+      .then(response => setConflicts(response.data))
+      .catch(error => console.error('Failed to check conflicts:', error));
+  }, [isCreating, items, form.start_date, form.end_date]);
+
+  const loadReservations = async () => {
+    try {
+      const response = await reservationApi.getReservations({
+        status: statusFilter === 'all' ? undefined : statusFilter
+      });
+      if (response.success) {
+        setReservations(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load reservations:', error);
+    }
+  };
+
+  const loadBorrowers = async () => {
+    try {
+      const response = await borrowerApi.getBorrowers({ active: true });
+      if (response.success) {
+        setBorrowers(response.data.filter((borrower: Borrower) => !borrower.is_blocked));
+      }
+    } catch (error) {
+      console.error('Failed to load borrowers:', error);
+    }
+  };
+
+  const loadReservation = async (id: number) => {
+    try {
+      const response = await reservationApi.getReservation(id);
+      if (response.success) {
+        setSelectedReservation(response.data);
+        setCheckout({ due_date: toInputDate(response.data.end_date), loan_reason: '', signature: '' });
+      }
+    } catch (error) {
+      console.error('Failed to load reservation:', error);
+    }
+  };
+
+  const handleSelect = (reservation: Reservation) => {
+    AudioPresets.BUTTON_CLICK();
+    setIsCreating(false);
+    loadReservation(reservation.id);
+  };
+
+  const handleNew = () => {
+    setSelectedReservation(null);
+    setIsCreating(true);
+    setForm(emptyForm);
+    setItems([]);
+    setConflicts([]);
+  };
+
+  const handleAddItem = async () => {
+    const barcode = barcodeInput.trim();
+    if (!barcode) return;
+    setBarcodeInput('');
+
+    if (items.some(item => item.barcode === barcode)) {
+      AudioPresets.ITEM_DUPLICATE();
+      return;
+    }
+
+    try {
+      const response = await inventoryApi.getItemByBarcode(barcode);
+      if (response.found) {
+        AudioPresets.ITEM_FOUND();
+        setItems(prev => [...prev, response.data]);
+      } else {
+        AudioPresets.ITEM_NOT_FOUND();
+        alert(`Item ${barcode} not found`);
+      }
+    } catch (error) {
+      console.error('Item lookup failed:', error);
+      AudioPresets.ITEM_NOT_FOUND();
+    }
+  };
+
+  const handleRemoveItem = (barcode: string) => {
+    setItems(prev => prev.filter(item => item.barcode !== barcode));
+  };
+
+  const handleCreate = async () => {
+    if (!form.borrower_id || !form.program_name.trim() || !form.start_date || !form.end_date) {
+      alert('Borrower, program and dates are required');
+      return;
+    }
+    if (form.end_date < form.start_date) {
+      alert('End date must be on or after the start date');
+      return;
+    }
+    if (items.length === 0) {
+      alert('Add at least one item');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await reservationApi.createReservation({
+        borrower_id: Number(form.borrower_id),
+        program_name: form.program_name.trim(),
+        start_date: form.start_date,
+        end_date: form.end_date,
+        notes: form.notes.trim() || undefined,
+        barcodes: items.map(item => item.barcode)
+      });
+
+      if (response.success) {
+        AudioPresets.UPLOAD_COMPLETE();
+        setIsCreating(false);
+        await loadReservations();
+        await loadReservation(response.data.id);
+        alert(response.message);
+      }
+    } catch (error: any) {
+      console.error('Failed to create reservation:', error);
+      AudioPresets.ITEM_NOT_FOUND();
+      if (error.response?.data?.conflicts) {
+        setConflicts(error.response.data.conflicts);
+      }
+      alert(error.response?.data?.message || 'Failed to create reservation.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = async (reservation: Reservation) => {
+    if (!window.confirm(`Cancel reservation ${reservation.reservation_no}?`)) return;
+
+    try {
+      const response = await reservationApi.cancelReservation(reservation.id);
+      if (response.success) {
+        await loadReservations();
+        await loadReservation(reservation.id);
+      }
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Failed to cancel reservation.');
+    }
+  };
+
+  const handleCheckout = async (reservation: Reservation) => {
+    if (!checkout.due_date) {
+      alert('Please select due date');
+      return;
+    }
+    if (!checkout.signature) {
+      alert('Please provide signature');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await reservationApi.checkout(reservation.id, {
+        due_date: checkout.due_date,
+        loan_reason: checkout.loan_reason.trim() || undefined,
+        signature_base64: checkout.signature
+      });
+
+      if (response.success) {
+        AudioPresets.UPLOAD_COMPLETE();
+        await loadReservations();
+        await loadReservation(reservation.id);
+
+        const print = window.confirm(`${response.message}\n\nPrint the handover document now?`);
+        if (print) {
+          await loanApi.openDocument(response.transaction_id).catch(error => {
+            console.error('Failed to open loan document:', error);
+            alert('Loan saved, but the document could not be opened. Reprint it from the loan history.');
+          });
+        }
+      }
+    } catch (error: any) {
+      console.error('Checkout failed:', error);
+      AudioPresets.ITEM_NOT_FOUND();
+      alert(error.response?.data?.message || error.response?.data?.error || 'Failed to check out reservation.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const conflictsFor = (list: ReservationConflict[], barcode: string) =>
+    list.filter(conflict => conflict.barcode === barcode);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-amber-500 to-amber-700 text-white p-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-bold">Reservations</h2>
+              <p className="text-amber-100">Book wardrobe for upcoming productions and check it out at pickup</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-amber-600 rounded-full transition-colors"
+            >
+              <i className="fa-solid fa-times text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6">
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+            {/* Reservation List */}
+            <div className="lg:col-span-2 space-y-3">
+              <div className="flex gap-2">
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                  className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="Reserved">Reserved</option>
+                  <option value="Checked Out">Checked Out</option>
+                  <option value="Cancelled">Cancelled</option>
+                  <option value="all">All</option>
+                </select>
+                <button
+                  onClick={handleNew}
+                  className="px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-lg text-sm font-medium"
+                >
+                  <i className="fa-solid fa-plus mr-2"></i>
+                  New
+                </button>
+              </div>
+
+              <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+                {reservations.length === 0 ? (
+                  <p className="text-center text-gray-500 text-sm py-4">No reservations</p>
+                ) : (
+                  reservations.map(reservation => (
+                    <div
+                      key={reservation.id}
+                      onClick={() => handleSelect(reservation)}
+                      className={`p-3 rounded-lg border cursor-pointer hover:bg-gray-50 ${
+                        selectedReservation?.id === reservation.id ? 'border-amber-500 bg-amber-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <p className="font-bold text-gray-800">{reservation.program_name}</p>
+                          <p className="text-xs text-gray-600">
+                            {reservation.reservation_no} • {reservation.borrower_name}
+                          </p>
+                          <p className="text-xs text-gray-600">
+                            {formatDay(reservation.start_date)} - {formatDay(reservation.end_date)} • {reservation.item_count} items
+                          </p>
+                        </div>
+                        <span className={`px-2 py-1 text-xs font-medium rounded ${statusStyles[reservation.status]}`}>
+                          {reservation.status}
+                        </span>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+
+            {/* Detail / Create */}
+            <div className="lg:col-span-3">
+              {isCreating && (
+                <div className="border border-gray-200 rounded-xl p-4 space-y-3">
+                  <h3 className="text-lg font-bold text-gray-800">New Reservation</h3>
+                  <select
+                    value={form.borrower_id}
+                    onChange={(e) => setForm({ ...form, borrower_id: e.target.value })}
+                    className="w-full p-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="">Select borrower / producer...</option>
+                    {borrowers.map(borrower => (
+                      <option key={borrower.id} value={borrower.id}>
+                        {borrower.name}{borrower.department ? ` (${borrower.department})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={form.program_name}
+                    onChange={(e) => setForm({ ...form, program_name: e.target.value })}
+                    placeholder="Program / production name"
+                    className="w-full p-2 border border-gray-300 rounded-lg"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Pickup</label>
+                      <input
+                        type="date"
+                        value={form.start_date}
+                        min={new Date().toISOString().split('T')[0]}
+                        onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                        className="w-full p-2 border border-gray-300 rounded-lg"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Return</label>
+                      <input
+                        type="date"
+                        value={form.end_date}
+                        min={form.start_date || new Date().toISOString().split('T')[0]}
+                        onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                        className="w-full p-2 border border-gray-300 rounded-lg"
+                      />
+                    </div>
+                  </div>
+                  <textarea
+                    value={form.notes}
+                    onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                    placeholder="Notes (optional)"
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                    rows={2}
+                  />
+
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={barcodeInput}
+                      onChange={(e) => setBarcodeInput(e.target.value)}
+                      onKeyPress={(e) => e.key === 'Enter' && handleAddItem()}
+                      placeholder="Scan barcode to add item..."
+                      className="flex-1 p-2 border border-gray-300 rounded-lg font-mono"
+                    />
+                    <button
+                      onClick={handleAddItem}
+                      className="px-4 bg-gray-200 hover:bg-gray-300 rounded-lg"
+                    >
+                      <i className="fa-solid fa-plus"></i>
+                    </button>
+                  </div>
+
+                  <div className="border border-gray-200 rounded-lg max-h-64 overflow-y-auto">
+                    {items.length === 0 ? (
+                      <p className="text-center text-gray-500 text-sm py-4">No items added</p>
+                    ) : (
+                      items.map(item => {
+                        const itemConflicts = conflictsFor(conflicts, item.barcode);
+                        return (
+                          <div
+                            key={item.barcode}
+                            className={`px-3 py-2 border-b border-gray-100 last:border-b-0 ${itemConflicts.length ? 'bg-red-50' : ''}`}
+                          >
+                            <div className="flex justify-between items-center">
+                              <div>
+                                <p className="text-sm font-medium text-gray-800">{item.item_name}</p>
+                                <p className="text-xs text-gray-500 font-mono">{item.barcode}</p>
+                              </div>
+                              <button
+                                onClick={() => handleRemoveItem(item.barcode)}
+                                className="text-gray-400 hover:text-red-600"
+                              >
+                                <i className="fa-solid fa-times"></i>
+                              </button>
+                            </div>
+                            {itemConflicts.map((conflict, index) => (
+                              <p key={index} className="text-xs text-red-700 mt-1">
+                                <i className="fa-solid fa-triangle-exclamation mr-1"></i>
+                                {describeConflict(conflict)}
+                              </p>
+                            ))}
+                          </div>
+                        );
+                      })
+                    )}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleCreate}
+                      disabled={isLoading || conflicts.length > 0}
+                      className={`flex-1 py-3 rounded-lg font-bold text-white ${
+                        isLoading || conflicts.length > 0 ? 'bg-gray-400 cursor-not-allowed' : 'bg-amber-600 hover:bg-amber-700'
+                      }`}
+                    >
+                      {conflicts.length > 0
+                        ? `${new Set(conflicts.map(c => c.barcode)).size} items not free`
+                        : `Reserve ${items.length} items`}
+                    </button>
+                    <button
+                      onClick={() => setIsCreating(false)}
+                      className="px-6 py-3 bg-gray-300 hover:bg-gray-400 text-gray-800 rounded-lg font-medium"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {!isCreating && selectedReservation && (
+                <div className="border border-gray-200 rounded-xl p-4 space-y-4">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <h3 className="text-lg font-bold text-gray-800">{selectedReservation.program_name}</h3>
+                      <p className="text-sm text-gray-600">
+                        {selectedReservation.reservation_no} • {selectedReservation.borrower_name}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {formatDay(selectedReservation.start_date)} - {formatDay(selectedReservation.end_date)}
+                      </p>
+                      {selectedReservation.loan_invoice_no && (
+                        <p className="text-sm text-green-700 font-medium">Loan {selectedReservation.loan_invoice_no}</p>
+                      )}
+                    </div>
+                    <span className={`px-2 py-1 text-xs font-medium rounded ${statusStyles[selectedReservation.status]}`}>
+                      {selectedReservation.status}
+                    </span>
+                  </div>
+                  {selectedReservation.notes && (
+                    <p className="text-sm text-gray-600">{selectedReservation.notes}</p>
+                  )}
+
+                  <div className="border border-gray-200 rounded-lg max-h-64 overflow-y-auto">
+                    {selectedReservation.items?.map(item => {
+                      const itemConflicts = conflictsFor(selectedReservation.conflicts || [], item.barcode);
+                      return (
+                        <div key={item.barcode} className="px-3 py-2 border-b border-gray-100 last:border-b-0">
+                          <div className="flex justify-between items-center">
+                            <div>
+                              <p className="text-sm font-medium text-gray-800">{item.item_name}</p>
+                              <p className="text-xs text-gray-500">
+                                <span className="font-mono">{item.barcode}</span> • {item.size} • {formatCurrency(Number(item.price))}
+                              </p>
+                            </div>
+                            <span className={`px-2 py-1 text-xs font-medium rounded ${
+                              item.status === 'Available' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                            }`}>
+                              {item.status}
+                            </span>
+                          </div>
+                          {itemConflicts.map((conflict, index) => (
+                            <p key={index} className="text-xs text-red-700 mt-1">
+                              <i className="fa-solid fa-triangle-exclamation mr-1"></i>
+                              {describeConflict(conflict)}
+                            </p>
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {selectedReservation.status === 'Reserved' && (
+                    <>
+                      {canCheckout && (
+                        <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+                          <h4 className="font-bold text-gray-800">Check Out at Pickup</h4>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div>
+                              <label className="block text-xs text-gray-600 mb-1">Due Date</label>
+                              <input
+                                type="date"
+                                value={checkout.due_date}
+                                min={new Date().toISOString().split('T')[0]}
+                                onChange={(e) => setCheckout({ ...checkout, due_date: e.target.value })}
+                                className="w-full p-2 border border-gray-300 rounded-lg"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs text-gray-600 mb-1">Loan Reason</label>
+                              <input
+                                type="text"
+                                value={checkout.loan_reason}
+                                onChange={(e) => setCheckout({ ...checkout, loan_reason: e.target.value })}
+                                placeholder={`Reservation ${selectedReservation.reservation_no}`}
+                                className="w-full p-2 border border-gray-300 rounded-lg"
+                              />
+                            </div>
+                          </div>
+                          <SignaturePad
+                            key={selectedReservation.id}
+                            onChange={(signature) => setCheckout(prev => ({ ...prev, signature }))}
+                          />
+                          <button
+                            onClick={() => handleCheckout(selectedReservation)}
+                            disabled={isLoading}
+                            className={`w-full py-3 rounded-lg font-bold text-white ${
+                              isLoading ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-600 hover:bg-green-700'
+                            }`}
+                          >
+                            <i className="fa-solid fa-handshake mr-2"></i>
+                            Check Out {selectedReservation.items?.length} Items
+                          </button>
+                        </div>
+                      )}
+                      <button
+                        onClick={() => handleCancel(selectedReservation)}
+                        className="w-full py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 rounded-lg font-medium"
+                      >
+                        Cancel Reservation
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {!isCreating && !selectedReservation && (
+                <div className="bg-gray-100 border border-gray-300 rounded-xl p-8 text-center text-gray-500">
+                  <i className="fa-solid fa-calendar-days text-4xl mb-3"></i>
+                  <p>Select a reservation or create a new one</p>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReservationManagement;
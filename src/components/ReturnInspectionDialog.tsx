@@ -0,0 +1,241 @@
+// components/ReturnInspectionDialog.tsx
+import React, { useState } from 'react';
+import { ReturnCondition, ReturnInspection } from '../types/index.ts';
+
+interface InspectedItem {
+  barcode: string;
+  item_name?: string;
+  brand?: string;
+}
+
+interface ReturnInspectionDialogProps {
+  title: string;
+  items: InspectedItem[];
+  isSubmitting?: boolean;
+  onConfirm: (inspections: ReturnInspection[]) => void;
+  onCancel: () => void;
+}
+
+const MAX_PHOTOS = 5;
+const PHOTO_MAX_SIZE = 1024;
+
+const conditions: { value: ReturnCondition; label: string; icon: string; style: string }[] = [
+  { value: 'Good', label: 'Good', icon: 'fa-circle-check', style: 'bg-green-600 text-white' },
+  { value: 'Dirty', label: 'Dirty', icon: 'fa-soap', style: 'bg-yellow-500 text-white' },
+  { value: 'Damaged', label: 'Damaged', icon: 'fa-scissors', style: 'bg-orange-600 text-white' },
+  { value: 'Lost', label: 'Lost', icon: 'fa-question', style: 'bg-red-600 text-white' }
+];
+
+// Downscale phone camera photos before they are sent as data URLs
+const readPhoto = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => {
+      const img = new Image();
+      img.onerror = reject;
+      img.onload = () => {
+        const scale = Math.min(1, PHOTO_MAX_SIZE / Math.max(img.width, img.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.width * scale);
+        canvas.height = Math.round(img.height * scale);
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.75));
+      };
+      img.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+
+const ReturnInspectionDialog: React.FC<ReturnInspectionDialogProps> = ({
+  title,
+  items,
+  isSubmitting = false,
+  onConfirm,
+  onCancel
+}) => {
+  const [inspections, setInspections] = useState<ReturnInspection[]>(
+    items.map(item => ({ barcode: item.barcode, condition: 'Good', notes: '', photos: [] }))
+  );
+
+  const updateInspection = (index: number, changes: Partial<ReturnInspection>) => {
+    setInspections(prev => prev.map((inspection, i) => (i === index ? { ...inspection, ...changes } : inspection)));
+  };
+
+  const handleApplyToAll = (condition: ReturnCondition) => {
+    setInspections(prev => prev.map(inspection => ({ ...inspection, condition })));
+  };
+
+  const handleAddPhotos = async (index: number, files: FileList | null) => {
+    if (!files) return;
+    const current = inspections[index].photos || [];
+    const selected = Array.from(files).slice(0, MAX_PHOTOS - current.length);
+
+    try {
+      const photos = await Promise.all(selected.map(readPhoto));
+      updateInspection(index, { photos: [...current, ...photos] });
+    } catch (error) {
+      console.error('Failed to read photo:', error);
+      alert('Failed to read photo. Please try another image.');
+    }
+  };
+
+  const handleRemovePhoto = (index: number, photoIndex: number) => {
+    const photos = (inspections[index].photos || []).filter((_, i) => i !== photoIndex);
+    updateInspection(index, { photos });
+  };
+
+  const handleConfirm = () => {
+    const missingNotes = inspections.find(inspection =>
+      (inspection.condition === 'Damaged' || inspection.condition === 'Lost') && !inspection.notes?.trim()
+    );
+    if (missingNotes) {
+      alert(`Please describe the damage / loss for ${missingNotes.barcode}`);
+      return;
+    }
+    onConfirm(inspections.map(inspection => ({ ...inspection, notes: inspection.notes?.trim() })));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-green-600 to-green-800 text-white p-5">
+          <h2 className="text-xl font-bold">Return Inspection</h2>
+          <p className="text-green-100 text-sm">{title}</p>
+        </div>
+
+        {/* Apply to all */}
+        {items.length > 1 && (
+          <div className="px-5 pt-4 flex items-center gap-2 flex-wrap">
+            <span className="text-sm text-gray-600">Set all to:</span>
+            {conditions.map(condition => (
+              <button
+                key={condition.value}
+                onClick={() => handleApplyToAll(condition.value)}
+                className="px-3 py-1 text-xs font-medium rounded-full bg-gray-100 hover:bg-gray-200 text-gray-700"
+              >
+                {condition.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Items */}
+        <div className="flex-1 overflow-auto p-5 space-y-4">
+          {items.map((item, index) => {
+            const inspection = inspections[index];
+            const needsNotes = inspection.condition === 'Damaged' || inspection.condition === 'Lost';
+
+            return (
+              <div key={item.barcode} className="border border-gray-200 rounded-xl p-4 space-y-3">
+                <div>
+                  <p className="font-bold text-gray-800">{item.item_name || item.barcode}</p>
+                  <p className="text-xs text-gray-600">{item.barcode}{item.brand ? ` • ${item.brand}` : ''}</p>
+                </div>
+
+                <div className="grid grid-cols-4 gap-2">
+                  {conditions.map(condition => (
+                    <button
+                      key={condition.value}
+                      onClick={() => updateInspection(index, { condition: condition.value })}
+                      className={`py-2 rounded-lg text-sm font-medium transition-all ${
+                        inspection.condition === condition.value
+                          ? condition.style
+                          : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      <i className={`fa-solid ${condition.icon} mr-1`}></i>
+                      {condition.label}
+                    </button>
+                  ))}
+                </div>
+
+                {inspection.condition === 'Damaged' && (
+                  <p className="text-xs text-orange-700">
+                    <i className="fa-solid fa-circle-info mr-1"></i>
+                    Damaged items are set to "Damaged" and cannot be loaned until repaired.
+                  </p>
+                )}
+                {inspection.condition === 'Lost' && (
+                  <p className="text-xs text-red-700">
+                    <i className="fa-solid fa-circle-info mr-1"></i>
+                    Lost items are written off stock and charged to the borrower at the item price.
+                  </p>
+                )}
+
+                <textarea
+                  value={inspection.notes}
+                  onChange={(e) => updateInspection(index, { notes: e.target.value })}
+                  placeholder={needsNotes ? 'Describe the damage / missing parts (required)' : 'Notes (optional)'}
+                  className={`w-full p-2 border rounded-lg text-sm ${needsNotes ? 'border-orange-300' : 'border-gray-300'}`}
+                  rows={2}
+                />
+
+                <div className="flex items-center gap-2 flex-wrap">
+                  {(inspection.photos || []).map((photo, photoIndex) => (
+                    <div key={photoIndex} className="relative">
+                      <img src={photo} alt="Return photo" className="w-16 h-16 object-cover rounded border" />
+                      <button
+                        onClick={() => handleRemovePhoto(index, photoIndex)}
+                        className="absolute -top-2 -right-2 w-5 h-5 bg-red-600 text-white rounded-full text-xs"
+                      >
+                        <i className="fa-solid fa-times"></i>
+                      </button>
+                    </div>
+                  ))}
+                  {(inspection.photos || []).length < MAX_PHOTOS && (
+                    <label className="w-16 h-16 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded text-gray-400 hover:text-gray-600 cursor-pointer text-xs">
+                      <i className="fa-solid fa-camera text-lg"></i>
+                      Photo
+                      <input
+                        type="file"
+                        accept="image/*"
+                        capture="environment"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                          handleAddPhotos(index, e.target.files);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Actions */}
+        <div className="p-4 border-t border-gray-200 flex gap-2">
+          <button
+            onClick={handleConfirm}
+            disabled={isSubmitting}
+            className={`flex-1 py-3 rounded-lg font-bold text-white ${
+              isSubmitting ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-600 hover:bg-green-700'
+            }`}
+          >
+            {isSubmitting ? (
+              <>
+                <i className="fa-solid fa-spinner fa-spin mr-2"></i>
+                Saving...
+              </>
+            ) : (
+              `Confirm Return (${items.length})`
+            )}
+          </button>
+          <button
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="px-6 py-3 bg-gray-300 hover:bg-gray-400 text-gray-800 rounded-lg font-medium"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReturnInspectionDialog;
@@ -1,18 +1,39 @@
 import React, { useState, useEffect } from 'react';
 import { AudioPresets } from '../services/audioService';
 import { loanApi } from '../services/apiService';
-import { LoanTransaction } from '../types/index.ts';
+import { enqueue, isNetworkError } from '../services/offlineQueue';
+import { LoanTransaction, LoanItem, ReturnInspection } from '../types/index.ts';
+import OverduePanel from './OverduePanel';
+import ReturnInspectionDialog from './ReturnInspectionDialog';
+import LoanExtensionDialog from './LoanExtensionDialog';
 
 interface ReturnSystemProps {
   onClose?: () => void;
+  canManageLoans?: boolean; // extend loans, mark items lost
+  offline?: boolean; // queue returns in the outbox instead of sending them
 }
 
-const ReturnSystem: React.FC<ReturnSystemProps> = ({ onClose }) => {
+// Returned / outstanding / extended counts of a loan, from the active loans query
+const loanProgress = (loan: LoanTransaction) => {
+  const total = loan.total_item_count || loan.items?.length || 0;
+  const returned = loan.returned_item_count || 0;
+  const lost = loan.lost_item_count || 0;
+  const outstanding = loan.items?.length ?? total - returned - lost;
+  return { total, returned, lost, outstanding, extended: loan.extended_items || 0 };
+};
+
+const ReturnSystem: React.FC<ReturnSystemProps> = ({ onClose, canManageLoans = false, offline = false }) => {
   const [activeLoans, setActiveLoans] = useState<LoanTransaction[]>([]);
   const [selectedLoan, setSelectedLoan] = useState<LoanTransaction | null>(null);
   const [barcodeInput, setBarcodeInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [returnHistory, setReturnHistory] = useState<any[]>([]);
+  const [pendingReturn, setPendingReturn] = useState<{
+    title: string;
+    items: { barcode: string; item_name?: string; brand?: string }[];
+    bulk?: boolean;
+  } | null>(null);
+  const [extendingLoan, setExtendingLoan] = useState<LoanTransaction | null>(null);
 
   // Load data
   useEffect(() => {
@@ -25,10 +46,12 @@ const ReturnSystem: React.FC<ReturnSystemProps> = ({ onClose }) => {
       const response = await loanApi.getActiveLoans();
       if (response.success) {
         setActiveLoans(response.data);
+        return response.data as LoanTransaction[];
       }
     } catch (error) {
       console.error('Failed to load active loans:', error);
     }
+    return null;
   };
 
   const loadReturnHistory = async () => {
@@ -46,111 +69,158 @@ const ReturnSystem: React.FC<ReturnSystemProps> = ({ onClose }) => {
     }
   };
 
+  const handlePrintDocument = async (loanId: number, format: 'html' | 'pdf' = 'html') => {
+    try {
+      await loanApi.openDocument(loanId, format);
+    } catch (error) {
+      console.error('Failed to open loan document:', error);
+      alert('Failed to open loan document.');
+    }
+  };
+
   const handleSelectLoan = (loan: LoanTransaction) => {
     setSelectedLoan(loan);
     AudioPresets.BUTTON_CLICK();
   };
 
-  const handleReturnByBarcode = async () => {
-    if (!barcodeInput.trim()) {
+  // Resolves item details for the inspection dialog from the loaded active loans
+  const findLoanItem = (barcode: string) => {
+    for (const loan of activeLoans) {
+      const item = loan.items?.find(loanItem => loanItem.barcode === barcode);
+      if (item) return item;
+    }
+    return null;
+  };
+
+  const handleReturnByBarcode = () => {
+    const barcode = barcodeInput.trim();
+    if (!barcode) {
       alert('Please enter a barcode');
       return;
     }
 
-    const confirmReturn = window.confirm(`Return item with barcode: ${barcodeInput}?`);
-    if (!confirmReturn) return;
+    const item = findLoanItem(barcode);
+    setPendingReturn({
+      title: `Return item ${barcode}`,
+      items: [{ barcode, item_name: item?.item_name, brand: item?.brand }]
+    });
+  };
 
-    setIsLoading(true);
+  const handleIndividualReturn = (item: LoanItem) => {
+    setPendingReturn({
+      title: `Return item ${item.barcode}`,
+      items: [{ barcode: item.barcode, item_name: item.item_name, brand: item.brand }]
+    });
+  };
+
+  const handleMarkLost = async (item: LoanItem) => {
+    const notes = window.prompt(
+      `Mark ${item.barcode} (${item.item_name}) as lost?\n\nThe borrower will be charged the item price.\n\nHow was it lost?`
+    );
+    if (!notes || !notes.trim()) return;
 
+    setIsLoading(true);
     try {
-      const response = await loanApi.returnItem(barcodeInput, 'Admin');
-      
+      const response = await loanApi.markItemLost(item.id, notes.trim());
       if (response.success) {
-        AudioPresets.ITEM_FOUND();
-        setBarcodeInput('');
-        
-        // Reload data
-        await loadActiveLoans();
-        await loadReturnHistory();
-        
-        alert('Item returned successfully!');
+        await refreshAfterReturn();
+        alert(response.message);
       }
     } catch (error: any) {
-      console.error('Return failed:', error);
-      AudioPresets.ITEM_NOT_FOUND();
-      alert(error.message || 'Failed to return item. Please try again.');
+      console.error('Mark lost failed:', error);
+      alert(error.response?.data?.message || 'Failed to mark item as lost.');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleBulkReturn = async (loan: LoanTransaction) => {
-    if (!loan.items || loan.items.length === 0) {
+  const handleBulkReturn = (loan: LoanTransaction) => {
+    const items = (loan.items || []).filter(item => item.status === 'On Loan');
+    if (items.length === 0) {
       alert('No items to return');
       return;
     }
 
-    const confirmBulk = window.confirm(
-      `Return ALL ${loan.items.length} items for ${loan.borrower_name}?\n\nInvoice: ${loan.invoice_no}`
-    );
+    setPendingReturn({
+      title: `Return ALL ${items.length} items for ${loan.borrower_name} • ${loan.invoice_no}`,
+      items: items.map(item => ({ barcode: item.barcode, item_name: item.item_name, brand: item.brand })),
+      bulk: true
+    });
+  };
 
-    if (!confirmBulk) return;
+  const refreshAfterReturn = async () => {
+    const loans = await loadActiveLoans();
+    await loadReturnHistory();
+    // Keep the open loan in sync; it drops out of the list once fully returned
+    if (selectedLoan && loans) {
+      setSelectedLoan(loans.find(loan => loan.id === selectedLoan.id) || null);
+    }
+  };
 
+  // One outbox entry per item, so a conflict on one item does not hold back the rest
+  const queueReturns = async (inspections: ReturnInspection[]) => {
+    for (const inspection of inspections) {
+      const item = findLoanItem(inspection.barcode);
+      await enqueue({
+        kind: 'return',
+        label: `Return ${inspection.barcode}${item ? ` • ${item.item_name}` : ''} (${inspection.condition})`,
+        payload: inspection
+      });
+    }
+
+    AudioPresets.ITEM_FOUND();
+    setBarcodeInput('');
+    setPendingReturn(null);
+    alert(`Server unreachable. ${inspections.length} return(s) saved on this device and sent when the connection is back.`);
+  };
+
+  const handleConfirmReturn = async (inspections: ReturnInspection[]) => {
+    if (!pendingReturn) return;
     setIsLoading(true);
 
     try {
-      const barcodes = loan.items.map(item => item.barcode);
-      const response = await fetch('http://10.5.28.10:5000/api/return/bulk', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          barcodes,
-          user: 'Admin'
-        })
-      });
+      if (offline) {
+        await queueReturns(inspections);
+      } else if (pendingReturn.bulk) {
+        const result = await loanApi.bulkReturn(inspections);
+
+        if (!result.success) {
+          throw new Error(result.message);
+        }
 
-      const result = await response.json();
-      
-      if (result.success) {
         AudioPresets.UPLOAD_COMPLETE();
-        
-        // Reload data
-        await loadActiveLoans();
-        await loadReturnHistory();
-        
-        alert(`Bulk return completed!\n\nReturned: ${result.stats.returned} items\nNot found: ${result.stats.not_found} items`);
+        setPendingReturn(null);
+        await refreshAfterReturn();
+
+        const conditionSummary = Object.entries(result.stats.conditions || {})
+          .map(([condition, count]) => `${condition}: ${count}`)
+          .join('\n');
+        alert(`Bulk return completed!${result.return_no ? ` (${result.return_no})` : ''}\n\nReturned: ${result.stats.returned} items\nNot found: ${result.stats.not_found} items${
+          conditionSummary ? `\n\n${conditionSummary}` : ''
+        }`);
       } else {
-        throw new Error(result.message);
-      }
-    } catch (error: any) {
-      console.error('Bulk return failed:', error);
-      AudioPresets.ITEM_NOT_FOUND();
-      alert('Bulk return failed. Please try again.');
-    } finally {
-      setIsLoading(false);
-    }
-  };
+        const { barcode, ...inspection } = inspections[0];
+        const response = await loanApi.returnItem(barcode, inspection);
 
-  const handleIndividualReturn = async (barcode: string) => {
-    const confirm = window.confirm(`Return item ${barcode}?`);
-    if (!confirm) return;
+        if (response.success) {
+          AudioPresets.ITEM_FOUND();
+          setBarcodeInput('');
+          setPendingReturn(null);
+          await refreshAfterReturn();
 
-    try {
-      const response = await loanApi.returnItem(barcode, 'Admin');
-      
-      if (response.success) {
-        AudioPresets.ITEM_FOUND();
-        
-        // Reload data
-        await loadActiveLoans();
-        await loadReturnHistory();
-        
-        alert('Item returned successfully!');
+          alert(response.message || 'Item returned successfully!');
+        }
       }
     } catch (error: any) {
       console.error('Return failed:', error);
+      if (isNetworkError(error)) {
+        await queueReturns(inspections);
+        return;
+      }
       AudioPresets.ITEM_NOT_FOUND();
-      alert(error.message || 'Failed to return item.');
+      alert(error.response?.data?.message || error.message || 'Failed to return item. Please try again.');
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -211,8 +281,23 @@ const ReturnSystem: React.FC<ReturnSystemProps> = ({ onClose }) => {
                 <p className="text-sm text-blue-600 mt-2">
                   Scan barcode or enter manually, then press Enter or click Return
                 </p>
+                {offline && (
+                  <p className="text-sm text-amber-700 mt-2">
+                    <i className="fa-solid fa-wifi mr-1"></i>
+                    Offline: returns are saved on this device and synced when the server is back
+                  </p>
+                )}
               </div>
 
+              {/* Overdue Loans */}
+              <OverduePanel
+                refreshKey={activeLoans}
+                onSelectLoan={(loanId) => {
+                  const loan = activeLoans.find(l => l.id === loanId);
+                  if (loan) handleSelectLoan(loan);
+                }}
+              />
+
               {/* Active Loans */}
               <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
                 <h3 className="text-lg font-bold text-yellow-800 mb-4">Active Loans</h3>
@@ -236,16 +321,41 @@ const ReturnSystem: React.FC<ReturnSystemProps> = ({ onClose }) => {
                             <h4 className="font-bold text-gray-800">{loan.borrower_name}</h4>
                             <p className="text-sm text-gray-600">{loan.invoice_no}</p>
                             <p className="text-sm text-gray-600">
-                              Due: {new Date(loan.due_date).toLocaleDateString('id-ID')}
+                              Due: {new Date(loan.next_due_date || loan.due_date).toLocaleDateString('id-ID')}
                             </p>
                           </div>
                           <div className="text-right">
+                            {loan.is_overdue && (
+                              <span className="inline-block px-2 py-1 mr-1 bg-red-100 text-red-800 text-xs font-bold rounded">
+                                Overdue
+                              </span>
+                            )}
                             <span className="inline-block px-2 py-1 bg-yellow-100 text-yellow-800 text-xs font-bold rounded">
                               {loan.item_count || 0} items
                             </span>
                             <p className="text-sm text-gray-600 mt-1">{loan.program_name}</p>
                           </div>
                         </div>
+
+                        {/* Progress */}
+                        {(() => {
+                          const progress = loanProgress(loan);
+                          return (
+                            <div className="mt-3">
+                              <div className="w-full h-2 bg-yellow-200 rounded-full overflow-hidden">
+                                <div
+                                  className="h-2 bg-green-500"
+                                  style={{ width: `${progress.total ? ((progress.returned + progress.lost) / progress.total) * 100 : 0}%` }}
+                                ></div>
+                              </div>
+                              <p className="text-xs text-gray-600 mt-1">
+                                {progress.returned} of {progress.total} returned • {progress.outstanding} outstanding
+                                {progress.lost > 0 && ` • ${progress.lost} lost`}
+                                {progress.extended > 0 && ` • ${progress.extended} extended`}
+                              </p>
+                            </div>
+                          );
+                        })()}
                         
                         {/* Bulk Return Button */}
                         <button
@@ -279,7 +389,34 @@ const ReturnSystem: React.FC<ReturnSystemProps> = ({ onClose }) => {
                     <p><strong>Program:</strong> {selectedLoan.program_name}</p>
                     <p><strong>Loan Date:</strong> {new Date(selectedLoan.created_at).toLocaleDateString('id-ID')}</p>
                     <p><strong>Due Date:</strong> {new Date(selectedLoan.due_date).toLocaleDateString('id-ID')}</p>
+                    <p>
+                      <strong>Progress:</strong> {loanProgress(selectedLoan).returned} returned •{' '}
+                      {loanProgress(selectedLoan).outstanding} outstanding • {loanProgress(selectedLoan).extended} extended
+                    </p>
                     <p><strong>Reason:</strong> {selectedLoan.loan_reason || '-'}</p>
+                    <div className="flex gap-2 mt-3">
+                      <button
+                        onClick={() => handlePrintDocument(selectedLoan.id)}
+                        className="px-3 py-1 bg-white hover:bg-gray-100 border border-gray-300 text-gray-700 text-sm rounded"
+                      >
+                        <i className="fa-solid fa-print mr-1"></i>
+                        Print Handover
+                      </button>
+                      <button
+                        onClick={() => handlePrintDocument(selectedLoan.id, 'pdf')}
+                        className="px-3 py-1 bg-white hover:bg-gray-100 border border-gray-300 text-gray-700 text-sm rounded"
+                      >
+                        <i className="fa-solid fa-file-pdf mr-1"></i>
+                        PDF
+                      </button>
+                      <button
+                        onClick={() => setExtendingLoan(selectedLoan)}
+                        className="px-3 py-1 bg-white hover:bg-gray-100 border border-gray-300 text-gray-700 text-sm rounded"
+                      >
+                        <i className="fa-solid fa-calendar-plus mr-1"></i>
+                        {canManageLoans ? 'Extend' : 'Extensions'}
+                      </button>
+                    </div>
                   </div>
                   
                   {/* Items in Loan */}
@@ -305,11 +442,20 @@ const ReturnSystem: React.FC<ReturnSystemProps> = ({ onClose }) => {
                                 }).format(item.price)}
                               </p>
                               <button
-                                onClick={() => handleIndividualReturn(item.barcode)}
+                                onClick={() => handleIndividualReturn(item)}
                                 className="mt-2 px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded"
                               >
                                 Return
                               </button>
+                              {canManageLoans && item.status === 'On Loan' && (
+                                <button
+                                  onClick={() => handleMarkLost(item)}
+                                  disabled={isLoading}
+                                  className="mt-2 ml-1 px-3 py-1 bg-red-600 hover:bg-red-700 text-white text-sm rounded"
+                                >
+                                  Lost
+                                </button>
+                              )}
                             </div>
                           </div>
                           
@@ -318,10 +464,22 @@ const ReturnSystem: React.FC<ReturnSystemProps> = ({ onClose }) => {
                             <span className={`inline-block px-2 py-1 text-xs font-medium rounded ${
                               item.status === 'On Loan'
                                 ? 'bg-yellow-100 text-yellow-800'
-                                : 'bg-green-100 text-green-800'
+                                : item.status === 'Lost'
+                                  ? 'bg-red-100 text-red-800'
+                                  : 'bg-green-100 text-green-800'
                             }`}>
                               {item.status}
                             </span>
+                            {item.status === 'On Loan' && (
+                              <span className="text-xs text-gray-600 ml-2">
+                                Due: {new Date(item.due_date || selectedLoan.due_date).toLocaleDateString('id-ID')}
+                              </span>
+                            )}
+                            {item.is_extended && (
+                              <span className="inline-block px-2 py-1 ml-2 bg-purple-100 text-purple-800 text-xs font-medium rounded">
+                                Extended
+                              </span>
+                            )}
                             {item.returned_at && (
                               <span className="text-xs text-gray-600 ml-2">
                                 Returned: {new Date(item.returned_at).toLocaleString('id-ID')}
@@ -367,6 +525,13 @@ const ReturnSystem: React.FC<ReturnSystemProps> = ({ onClose }) => {
                             <span className="inline-block px-2 py-1 bg-green-100 text-green-800 text-xs font-bold rounded">
                               Completed
                             </span>
+                            <button
+                              onClick={() => handlePrintDocument(loan.id)}
+                              title="Reprint handover document"
+                              className="ml-2 text-gray-500 hover:text-gray-800"
+                            >
+                              <i className="fa-solid fa-print"></i>
+                            </button>
                           </div>
                         </div>
                       </div>
@@ -393,6 +558,28 @@ const ReturnSystem: React.FC<ReturnSystemProps> = ({ onClose }) => {
           </div>
         </div>
       </div>
+
+      {pendingReturn && (
+        <ReturnInspectionDialog
+          title={pendingReturn.title}
+          items={pendingReturn.items}
+          isSubmitting={isLoading}
+          onConfirm={handleConfirmReturn}
+          onCancel={() => setPendingReturn(null)}
+        />
+      )}
+
+      {extendingLoan && (
+        <LoanExtensionDialog
+          loan={extendingLoan}
+          canExtend={canManageLoans}
+          onExtended={async () => {
+            setExtendingLoan(null);
+            await refreshAfterReturn();
+          }}
+          onCancel={() => setExtendingLoan(null)}
+        />
+      )}
     </div>
   );
 };
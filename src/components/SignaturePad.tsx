@@ -0,0 +1,79 @@
+// components/SignaturePad.tsx
+import React, { useRef, useState } from 'react';
+
+interface SignaturePadProps {
+  onChange: (signature: string) => void;
+}
+
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+
+  const pointFor = (e: React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const startDrawing = (e: React.MouseEvent) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const { x, y } = pointFor(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    setIsDrawing(true);
+  };
+
+  const draw = (e: React.MouseEvent) => {
+    if (!isDrawing) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const { x, y } = pointFor(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const stopDrawing = () => {
+    if (!isDrawing) return;
+    setIsDrawing(false);
+    if (canvasRef.current) onChange(canvasRef.current.toDataURL());
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    onChange('');
+  };
+
+  return (
+    <div>
+      <div className="border-2 border-dashed border-gray-300 rounded-lg p-2">
+        <canvas
+          ref={canvasRef}
+          width={500}
+          height={160}
+          className="w-full h-40 bg-gray-50 rounded border"
+          onMouseDown={startDrawing}
+          onMouseMove={draw}
+          onMouseUp={stopDrawing}
+          onMouseLeave={stopDrawing}
+        />
+      </div>
+      <div className="flex items-center mt-2">
+        <button
+          onClick={clear}
+          className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white text-sm rounded-lg"
+        >
+          Clear Signature
+        </button>
+        <span className="text-xs text-gray-600 ml-auto">Click and drag to sign above</span>
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePad;
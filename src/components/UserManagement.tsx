@@ -0,0 +1,368 @@
+// components/UserManagement.tsx
+import React, { useState, useEffect } from 'react';
+import { AudioPresets } from '../services/audioService';
+import { userApi } from '../services/apiService';
+import { User, formatDate } from '../types/index.ts';
+
+interface UserManagementProps {
+  onClose?: () => void;
+  currentUserId: number;
+}
+
+type UserRole = User['role'];
+
+const emptyForm = {
+  username: '',
+  fullname: '',
+  nik: '',
+  role: 'staff' as UserRole,
+  password: ''
+};
+
+const roleBadge: Record<UserRole, string> = {
+  admin: 'bg-purple-100 text-purple-800',
+  staff: 'bg-blue-100 text-blue-800',
+  user: 'bg-gray-100 text-gray-800'
+};
+
+const UserManagement: React.FC<UserManagementProps> = ({ onClose, currentUserId }) => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      const response = await userApi.getUsers();
+      if (response.success) {
+        setUsers(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load users:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingUser(null);
+  };
+
+  const handleEdit = (user: User) => {
+    AudioPresets.BUTTON_CLICK();
+    setEditingUser(user);
+    setForm({
+      username: user.username,
+      fullname: user.fullname || '',
+      nik: user.nik || '',
+      role: user.role,
+      password: ''
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.username.trim()) return;
+
+    setIsLoading(true);
+    try {
+      const userData = {
+        username: form.username.trim(),
+        fullname: form.fullname.trim(),
+        nik: form.nik.trim(),
+        role: form.role
+      };
+
+      const response = editingUser
+        ? await userApi.updateUser(editingUser.id, userData)
+        : await userApi.createUser({ ...userData, password: form.password });
+
+      if (response.success) {
+        AudioPresets.UPLOAD_COMPLETE();
+        resetForm();
+        await loadUsers();
+      }
+    } catch (error: any) {
+      console.error('Failed to save user:', error);
+      AudioPresets.ITEM_NOT_FOUND();
+      alert(error.response?.data?.message || 'Failed to save user.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (user: User) => {
+    const action = user.is_active ? 'Deactivate' : 'Activate';
+    if (!window.confirm(`${action} ${user.fullname || user.username}?`)) return;
+
+    try {
+      const response = await userApi.setUserActive(user.id, !user.is_active);
+      if (response.success) {
+        AudioPresets.BUTTON_CLICK();
+        await loadUsers();
+      }
+    } catch (error: any) {
+      console.error('Failed to update user:', error);
+      alert(error.response?.data?.message || `Failed to ${action.toLowerCase()} user.`);
+    }
+  };
+
+  const handleResetPassword = async (user: User) => {
+    const password = prompt(`New password for ${user.username} (min. 8 characters):`);
+    if (!password) return;
+
+    try {
+      const response = await userApi.resetPassword(user.id, password);
+      if (response.success) {
+        AudioPresets.UPLOAD_COMPLETE();
+        alert(response.message);
+      }
+    } catch (error: any) {
+      console.error('Failed to reset password:', error);
+      alert(error.response?.data?.message || 'Failed to reset password.');
+    }
+  };
+
+  const handleDelete = async (user: User) => {
+    const confirmed = window.confirm(
+      `Delete user ${user.username}?\n\nConsider deactivating instead to keep the account history.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const response = await userApi.deleteUser(user.id);
+      if (response.success) {
+        AudioPresets.BUTTON_CLICK();
+        if (editingUser?.id === user.id) resetForm();
+        await loadUsers();
+      }
+    } catch (error: any) {
+      console.error('Failed to delete user:', error);
+      alert(error.response?.data?.message || 'Failed to delete user.');
+    }
+  };
+
+  const filteredUsers = users.filter(user => {
+    const query = searchQuery.toLowerCase();
+    return !query ||
+      user.username.toLowerCase().includes(query) ||
+      (user.fullname || '').toLowerCase().includes(query) ||
+      (user.nik || '').toLowerCase().includes(query);
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-purple-600 to-purple-800 text-white p-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-bold">User Management</h2>
+              <p className="text-purple-100">Manage staff accounts, roles and access</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-purple-700 rounded-full transition-colors"
+            >
+              <i className="fa-solid fa-times text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* User Form */}
+            <form onSubmit={handleSubmit} className="bg-gray-50 border border-gray-200 rounded-xl p-4 space-y-3 h-fit">
+              <h3 className="text-lg font-bold text-gray-800">
+                {editingUser ? `Edit ${editingUser.username}` : 'New User'}
+              </h3>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Username *</label>
+                <input
+                  type="text"
+                  value={form.username}
+                  onChange={(e) => setForm({ ...form, username: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Full Name</label>
+                <input
+                  type="text"
+                  value={form.fullname}
+                  onChange={(e) => setForm({ ...form, fullname: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">NIK</label>
+                <input
+                  type="text"
+                  value={form.nik}
+                  onChange={(e) => setForm({ ...form, nik: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                <select
+                  value={form.role}
+                  onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+                  disabled={editingUser?.id === currentUserId}
+                  className="w-full p-2 border border-gray-300 rounded-lg"
+                >
+                  <option value="admin">Admin</option>
+                  <option value="staff">Staff</option>
+                  <option value="user">User (scan only)</option>
+                </select>
+              </div>
+              {!editingUser && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Password *</label>
+                  <input
+                    type="password"
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                    className="w-full p-2 border border-gray-300 rounded-lg"
+                    minLength={8}
+                    autoComplete="new-password"
+                    required
+                  />
+                </div>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="flex-1 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium"
+                >
+                  {isLoading ? 'Saving...' : editingUser ? 'Save Changes' : 'Create User'}
+                </button>
+                {editingUser && (
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="px-4 py-2 bg-gray-300 hover:bg-gray-400 text-gray-800 rounded-lg font-medium"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </form>
+
+            {/* User List */}
+            <div className="lg:col-span-2 space-y-3">
+              <div className="flex justify-between items-center gap-4">
+                <h3 className="text-lg font-bold text-gray-800">Users ({users.length})</h3>
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search username, name or NIK..."
+                  className="w-64 p-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-xl">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="text-left p-3">User</th>
+                      <th className="text-left p-3">Role</th>
+                      <th className="text-left p-3">Status</th>
+                      <th className="text-left p-3">Last Login</th>
+                      <th className="text-right p-3">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {filteredUsers.map(user => (
+                      <tr key={user.id} className={user.is_active ? '' : 'bg-gray-50 text-gray-400'}>
+                        <td className="p-3">
+                          <p className="font-medium">
+                            {user.fullname || user.username}
+                            {user.id === currentUserId && (
+                              <span className="ml-2 text-xs text-purple-600">(you)</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500">@{user.username}{user.nik ? ` • ${user.nik}` : ''}</p>
+                        </td>
+                        <td className="p-3">
+                          <span className={`px-2 py-1 text-xs font-bold rounded capitalize ${roleBadge[user.role] || roleBadge.user}`}>
+                            {user.role}
+                          </span>
+                        </td>
+                        <td className="p-3">
+                          <span className={`px-2 py-1 text-xs font-bold rounded ${
+                            user.is_active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                          }`}>
+                            {user.is_active ? 'Active' : 'Inactive'}
+                          </span>
+                        </td>
+                        <td className="p-3 text-xs">
+                          {user.last_login ? formatDate(user.last_login) : 'Never'}
+                        </td>
+                        <td className="p-3">
+                          <div className="flex justify-end gap-1">
+                            <button
+                              onClick={() => handleEdit(user)}
+                              title="Edit"
+                              className="p-2 hover:bg-blue-50 text-blue-600 rounded"
+                            >
+                              <i className="fa-solid fa-pen"></i>
+                            </button>
+                            <button
+                              onClick={() => handleResetPassword(user)}
+                              title="Reset password"
+                              className="p-2 hover:bg-yellow-50 text-yellow-600 rounded"
+                            >
+                              <i className="fa-solid fa-key"></i>
+                            </button>
+                            {user.id !== currentUserId && (
+                              <>
+                                <button
+                                  onClick={() => handleToggleActive(user)}
+                                  title={user.is_active ? 'Deactivate' : 'Activate'}
+                                  className="p-2 hover:bg-gray-100 text-gray-600 rounded"
+                                >
+                                  <i className={`fa-solid ${user.is_active ? 'fa-user-slash' : 'fa-user-check'}`}></i>
+                                </button>
+                                <button
+                                  onClick={() => handleDelete(user)}
+                                  title="Delete"
+                                  className="p-2 hover:bg-red-50 text-red-600 rounded"
+                                >
+                                  <i className="fa-solid fa-trash-alt"></i>
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                    {filteredUsers.length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="p-6 text-center text-gray-500">
+                          No users found
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserManagement;
@@ -1,9 +1,17 @@
 // src/lib/dbLocal.ts
 import Dexie, { Table } from 'dexie';
-import { InventoryItem } from '../types';
+import { InventoryItem, OutboxEntry } from '../types';
+
+export interface SyncState {
+  key: string;
+  value: string;
+}
 
 class LocalDatabase extends Dexie {
   inventory!: Table<InventoryItem>;
+  outbox!: Table<OutboxEntry, number>;
+  items!: Table<InventoryItem, string>;
+  sync_state!: Table<SyncState, string>;
 
   constructor() {
     super('StockOpnameLocalDB');
@@ -14,6 +22,17 @@ class LocalDatabase extends Dexie {
     this.version(1).stores({
       inventory: '++id, &barcode, item_name, is_scanned, created_at'
     });
+
+    // Outbox: scan, pengembalian dan draft peminjaman yang dibuat saat server tidak terjangkau
+    this.version(2).stores({
+      outbox: '++id, kind, status, created_at'
+    });
+
+    // Salinan katalog items dari server untuk lookup barcode tanpa round trip
+    this.version(3).stores({
+      items: '&barcode, updated_at',
+      sync_state: '&key'
+    });
   }
 }
 
@@ -1,6 +1,6 @@
 // services/apiService.ts
 import axios from 'axios';
-import { InventoryItem, LoanTransaction, User, Borrower, ActivityLog, InventoryStats, ApiResponse } from '../types/index.ts';
+import { AuthUser, ItemDelta, LoanRequest, ReturnInspection, MaintenanceType, ReceiveCondition, LiabilityStatus, ImportMapping, LabelOptions } from '../types/index.ts';
 
 const API_BASE_URL = 'http://10.5.28.10:5000/api';
 
@@ -13,10 +13,45 @@ const api = axios.create({
   },
 });
 
+// Session storage
+const TOKEN_KEY = 'wardrobe_token';
+const USER_KEY = 'wardrobe_user';
+
+// Fired when the server rejects the session token; App shows the login screen
+export const AUTH_LOGOUT_EVENT = 'wardrobe:logout';
+
+export const authStorage = {
+  getToken: (): string | null => localStorage.getItem(TOKEN_KEY),
+
+  getUser: (): AuthUser | null => {
+    const raw = localStorage.getItem(USER_KEY);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  },
+
+  save: (token: string, user: AuthUser) => {
+    localStorage.setItem(TOKEN_KEY, token);
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+  },
+
+  clear: () => {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
+  }
+};
+
 // Request interceptor
 api.interceptors.request.use(
   (config) => {
     console.log(`🚀 ${config.method?.toUpperCase()} ${config.url}`);
+    const token = authStorage.getToken();
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
     return config;
   },
   (error) => {
@@ -34,7 +69,10 @@ api.interceptors.response.use(
   (error) => {
     console.error('❌ Response Error:', error.response?.status, error.config?.url);
     
-    if (error.response?.status === 404) {
+    if (error.response?.status === 401 && !error.config?.url?.endsWith('/login')) {
+      authStorage.clear();
+      window.dispatchEvent(new Event(AUTH_LOGOUT_EVENT));
+    } else if (error.response?.status === 404) {
       console.error('Endpoint not found. Check server routes.');
     } else if (error.code === 'ECONNREFUSED') {
       console.error('Server is not running or not accessible.');
@@ -54,12 +92,29 @@ export const inventoryApi = {
     return response.data;
   },
 
+  // Get items that can be loaned right now
+  // Pass a date window to flag items reserved in it
+  getAvailableItems: async (search?: string, limit?: number, window?: { start_date?: string; end_date?: string }) => {
+    const response = await api.get('/items/available/search', {
+      params: { search, limit, ...window }
+    });
+    return response.data;
+  },
+
   // Get item by barcode
   getItemByBarcode: async (barcode: string) => {
     const response = await api.get(`/items/${barcode}`);
     return response.data;
   },
 
+  // Items changed since a previous sync (all items without updatedSince), paged by id
+  getDelta: async (updatedSince: string | null, afterId = 0, limit?: number): Promise<ItemDelta> => {
+    const response = await api.get('/items/delta', {
+      params: { updated_since: updatedSince || undefined, after_id: afterId, limit }
+    });
+    return response.data;
+  },
+
   // Get inventory stats
   getStats: async () => {
     const response = await api.get('/stats');
@@ -67,10 +122,10 @@ export const inventoryApi = {
   },
 
   // Upload Excel file
-  uploadExcel: async (file: File, user: string) => {
+  // Starts a background import with the suggested mapping; follow it with importApi.getJob
+  uploadExcel: async (file: File) => {
     const formData = new FormData();
     formData.append('file', file);
-    formData.append('user', user);
 
     const response = await api.post('/upload-excel', formData, {
       headers: {
@@ -109,14 +164,20 @@ export const loanApi = {
   },
 
   // Create loan
-  createLoan: async (loanData: any) => {
+  createLoan: async (loanData: LoanRequest) => {
     const response = await api.post('/loan', loanData);
     return response.data;
   },
 
   // Return item
-  returnItem: async (barcode: string, user: string) => {
-    const response = await api.post('/return', { barcode, user });
+  returnItem: async (barcode: string, inspection?: Omit<ReturnInspection, 'barcode'>) => {
+    const response = await api.post('/return', { barcode, ...inspection });
+    return response.data;
+  },
+
+  // Return several items at once, each with its own inspection
+  bulkReturn: async (items: ReturnInspection[]) => {
+    const response = await api.post('/return/bulk', { items });
     return response.data;
   },
 
@@ -124,6 +185,62 @@ export const loanApi = {
   getActiveLoans: async () => {
     const response = await api.get('/loans/active');
     return response.data;
+  },
+
+  // Open the loan handover document (HTML print view or PDF) in a new tab.
+  // Fetched as a blob because the route needs the bearer token.
+  openDocument: async (id: number, format: 'html' | 'pdf' = 'html') => {
+    const win = window.open('', '_blank');
+    try {
+      const response = await api.get(`/loans/${id}/document`, {
+        params: { format, print: format === 'html' ? 1 : undefined },
+        responseType: 'blob'
+      });
+      const url = URL.createObjectURL(response.data);
+      if (win) {
+        win.location.href = url;
+      } else {
+        // Popup blocked: fall back to a download
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `loan-${id}.${format}`;
+        link.click();
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      win?.close();
+      throw error;
+    }
+  },
+
+  // Get overdue loans with aging buckets
+  getOverdueLoans: async () => {
+    const response = await api.get('/loans/overdue');
+    return response.data;
+  },
+
+  // Recompute overdue status now instead of waiting for the daily run
+  refreshOverdue: async () => {
+    const response = await api.post('/loans/overdue/refresh');
+    return response.data;
+  },
+
+  // Extend the due date of a loan; pass barcodes to extend only those items
+  extendLoan: async (id: number, data: { new_due_date: string; reason: string; barcodes?: string[] }) => {
+    const response = await api.post(`/loans/${id}/extend`, data);
+    return response.data;
+  },
+
+  // Get the extension history of a loan
+  getExtensions: async (id: number) => {
+    const response = await api.get(`/loans/${id}/extensions`);
+    return response.data;
+  },
+
+  // Mark a loan item as lost; records a liability against the borrower
+  markItemLost: async (loanItemId: number, notes: string) => {
+    const response = await api.post(`/loan-items/${loanItemId}/lost`, { notes });
+    return response.data;
   }
 };
 
@@ -132,6 +249,28 @@ export const userApi = {
   // Login
   login: async (username: string, password: string) => {
     const response = await api.post('/login', { username, password });
+    if (response.data.success) {
+      authStorage.save(response.data.token, response.data.user);
+    }
+    return response.data;
+  },
+
+  // Logout (revokes the session token on the server)
+  logout: async () => {
+    try {
+      await api.post('/logout');
+    } finally {
+      authStorage.clear();
+    }
+  },
+
+  // Get the user behind the current token
+  getCurrentUser: async () => {
+    const response = await api.get('/auth/me');
+    const token = authStorage.getToken();
+    if (response.data.success && token) {
+      authStorage.save(token, response.data.user);
+    }
     return response.data;
   },
 
@@ -153,6 +292,18 @@ export const userApi = {
     return response.data;
   },
 
+  // Activate or deactivate user (deactivation signs the user out)
+  setUserActive: async (id: number, active: boolean) => {
+    const response = await api.put(`/users/${id}/${active ? 'activate' : 'deactivate'}`);
+    return response.data;
+  },
+
+  // Reset user password
+  resetPassword: async (id: number, password: string) => {
+    const response = await api.put(`/users/${id}/password`, { password });
+    return response.data;
+  },
+
   // Delete user
   deleteUser: async (id: number) => {
     const response = await api.delete(`/users/${id}`);
@@ -163,17 +314,47 @@ export const userApi = {
 // Borrower API
 export const borrowerApi = {
   // Get all borrowers
-  getBorrowers: async () => {
-    const response = await api.get('/borrowers');
+  getBorrowers: async (params?: { search?: string; active?: boolean }) => {
+    const response = await api.get('/borrowers', { params });
     return response.data;
   },
 
-  // Create or update borrower
+  // Create or update borrower (matched by NIK)
   upsertBorrower: async (borrowerData: any) => {
     const response = await api.post('/borrowers', borrowerData);
     return response.data;
   },
 
+  // Update borrower by id (allows changing NIK)
+  updateBorrower: async (id: number, borrowerData: any) => {
+    const response = await api.put(`/borrowers/${id}`, borrowerData);
+    return response.data;
+  },
+
+  // Activate or deactivate borrower
+  setBorrowerActive: async (id: number, active: boolean) => {
+    const response = await api.put(`/borrowers/${id}/${active ? 'activate' : 'deactivate'}`);
+    return response.data;
+  },
+
+  // Block borrower from new loans
+  blockBorrower: async (id: number, reason: string) => {
+    const response = await api.put(`/borrowers/${id}/block`, { reason });
+    return response.data;
+  },
+
+  // Lift a loan block
+  unblockBorrower: async (id: number) => {
+    const response = await api.put(`/borrowers/${id}/unblock`);
+    return response.data;
+  },
+
+  // Loan history of a borrower
+  getBorrowerLoans: async (id: number) => {
+    const response = await api.get(`/borrowers/${id}/loans`);
+    return response.data;
+  },
+
   // Delete borrower
   deleteBorrower: async (id: number) => {
     const response = await api.delete(`/borrowers/${id}`);
@@ -181,6 +362,273 @@ export const borrowerApi = {
   }
 };
 
+// Stock Opname API
+export const opnameApi = {
+  // Get opname sessions
+  getSessions: async (status?: string) => {
+    const response = await api.get('/opname/sessions', { params: { status } });
+    return response.data;
+  },
+
+  // Get the currently open or paused session
+  getActiveSession: async () => {
+    const response = await api.get('/opname/sessions/active');
+    return response.data;
+  },
+
+  // Open a new session
+  openSession: async (sessionData: { session_name: string; location?: string; notes?: string }) => {
+    const response = await api.post('/opname/sessions', sessionData);
+    return response.data;
+  },
+
+  // Pause session
+  pauseSession: async (id: number) => {
+    const response = await api.put(`/opname/sessions/${id}/pause`);
+    return response.data;
+  },
+
+  // Resume session
+  resumeSession: async (id: number) => {
+    const response = await api.put(`/opname/sessions/${id}/resume`);
+    return response.data;
+  },
+
+  // Close session and freeze its results
+  closeSession: async (id: number) => {
+    const response = await api.put(`/opname/sessions/${id}/close`);
+    return response.data;
+  },
+
+  // Record a scan in the session ledger
+  // scannedAt is only sent for scans replayed from the offline outbox
+  recordScan: async (id: number, barcode: string, scannedAt?: string) => {
+    const response = await api.post(`/opname/sessions/${id}/scans`, { barcode, scanned_at: scannedAt });
+    return response.data;
+  },
+
+  // Get the scan ledger of a session
+  getScans: async (id: number, limit?: number) => {
+    const response = await api.get(`/opname/sessions/${id}/scans`, { params: { limit } });
+    return response.data;
+  },
+
+  // Variance report (missing, unknown and on-loan scans)
+  getVariance: async (id: number) => {
+    const response = await api.get(`/opname/sessions/${id}/variance`);
+    return response.data;
+  },
+
+  // Compare two closed sessions
+  compareSessions: async (base: number, target: number) => {
+    const response = await api.get('/opname/compare', { params: { base, target } });
+    return response.data;
+  }
+};
+
+// Reservation API
+export const reservationApi = {
+  // List reservations
+  getReservations: async (params?: { status?: string; from?: string; to?: string }) => {
+    const response = await api.get('/reservations', { params });
+    return response.data;
+  },
+
+  // Reservation with items and current conflicts
+  getReservation: async (id: number) => {
+    const response = await api.get(`/reservations/${id}`);
+    return response.data;
+  },
+
+  // Check barcodes against a date window
+  checkConflicts: async (barcodes: string[], start_date: string, end_date: string, exclude_id?: number) => {
+    const response = await api.post('/reservations/conflicts', { barcodes, start_date, end_date, exclude_id });
+    return response.data;
+  },
+
+  // Create reservation
+  createReservation: async (reservationData: {
+    borrower_id: number;
+    program_name: string;
+    start_date: string;
+    end_date: string;
+    notes?: string;
+    barcodes: string[];
+  }) => {
+    const response = await api.post('/reservations', reservationData);
+    return response.data;
+  },
+
+  // Cancel reservation
+  cancelReservation: async (id: number) => {
+    const response = await api.put(`/reservations/${id}/cancel`);
+    return response.data;
+  },
+
+  // Turn the reservation into a loan at pickup
+  checkout: async (id: number, checkoutData: { due_date?: string; loan_reason?: string; signature_base64?: string }) => {
+    const response = await api.post(`/reservations/${id}/checkout`, checkoutData);
+    return response.data;
+  }
+};
+
+// Excel import API (preview -> confirm mapping -> commit)
+export const importApi = {
+  // Upload a file and get headers, suggested mapping and the first rows
+  preview: async (file: File, profileId?: number, onUploadProgress?: (percent: number) => void) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (profileId) formData.append('profile_id', String(profileId));
+
+    const response = await api.post('/import/preview', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      onUploadProgress: (progressEvent) => {
+        if (onUploadProgress && progressEvent.total) {
+          onUploadProgress(Math.round((progressEvent.loaded * 100) / progressEvent.total));
+        }
+      },
+      timeout: 300000, // 5 minutes for large files
+    });
+    return response.data;
+  },
+
+  // Start importing the previewed file with the confirmed mapping (returns a job id);
+  // a dry run answers directly with the changes it would make.
+  // `generateBarcodes` gives rows without a barcode an internal one.
+  commit: async (token: string, mapping: ImportMapping, dryRun: boolean = false, generateBarcodes: boolean = false) => {
+    const response = await api.post('/import/commit', {
+      token, mapping, dry_run: dryRun, generate_barcodes: generateBarcodes
+    }, { timeout: 300000 });
+    return response.data;
+  },
+
+  // Progress of a background import; `result` is set once it completed
+  getJob: async (jobId: string) => {
+    const response = await api.get(`/import/jobs/${jobId}`);
+    return response.data;
+  },
+
+  // Check every row against the mapping without importing
+  validate: async (token: string, mapping: ImportMapping, generateBarcodes: boolean = false) => {
+    const response = await api.post('/import/validate', {
+      token, mapping, generate_barcodes: generateBarcodes
+    }, { timeout: 300000 });
+    return response.data;
+  },
+
+  // Download the uploaded file with an error column per row
+  downloadReport: async (token: string, mapping: ImportMapping, fileName: string, generateBarcodes: boolean = false) => {
+    const response = await api.post('/import/report', { token, mapping, generate_barcodes: generateBarcodes }, {
+      responseType: 'blob',
+      timeout: 300000
+    });
+    saveBlob(response.data, `${fileName.replace(/\.[^.]+$/, '')}-errors.xlsx`);
+  },
+
+  // Drop an upload that was not confirmed
+  discard: async (token: string) => {
+    const response = await api.delete(`/import/${token}`);
+    return response.data;
+  },
+
+  // Saved mapping profiles
+  getProfiles: async () => {
+    const response = await api.get('/import/profiles');
+    return response.data;
+  },
+
+  saveProfile: async (name: string, mapping: ImportMapping) => {
+    const response = await api.post('/import/profiles', { name, mapping });
+    return response.data;
+  },
+
+  deleteProfile: async (id: number) => {
+    const response = await api.delete(`/import/profiles/${id}`);
+    return response.data;
+  },
+
+  // Completed imports, newest first
+  getBatches: async () => {
+    const response = await api.get('/import/batches');
+    return response.data;
+  },
+
+  // Items of a batch with their values before the import
+  getBatch: async (id: number) => {
+    const response = await api.get(`/import/batches/${id}`);
+    return response.data;
+  },
+
+  // Undo an import (fails while its items were loaned since)
+  rollbackBatch: async (id: number) => {
+    const response = await api.post(`/import/batches/${id}/rollback`);
+    return response.data;
+  }
+};
+
+// Borrower liability (lost items) API
+export const liabilityApi = {
+  // List liabilities
+  getLiabilities: async (params?: { status?: LiabilityStatus; borrower_id?: number }) => {
+    const response = await api.get('/liabilities', { params });
+    return response.data;
+  },
+
+  // Open liabilities per borrower and department
+  getReport: async () => {
+    const response = await api.get('/liabilities/report');
+    return response.data;
+  },
+
+  // Record payment or write-off
+  resolve: async (id: number, status: Exclude<LiabilityStatus, 'Open'>, resolution_notes?: string) => {
+    const response = await api.put(`/liabilities/${id}/resolve`, { status, resolution_notes });
+    return response.data;
+  }
+};
+
+// Maintenance (laundry / repair) API
+export const maintenanceApi = {
+  // List tickets
+  getTickets: async (params?: { status?: string; type?: MaintenanceType }) => {
+    const response = await api.get('/maintenance', { params });
+    return response.data;
+  },
+
+  // Ticket with its items
+  getTicket: async (id: number) => {
+    const response = await api.get(`/maintenance/${id}`);
+    return response.data;
+  },
+
+  // Send items out (creates a ticket)
+  sendOut: async (ticketData: {
+    type: MaintenanceType;
+    vendor?: string;
+    cost?: number;
+    expected_date?: string;
+    notes?: string;
+    barcodes: string[];
+  }) => {
+    const response = await api.post('/maintenance', ticketData);
+    return response.data;
+  },
+
+  // Receive items back by barcode, with the condition each came back in
+  receive: async (items: { barcode: string; condition: ReceiveCondition }[]) => {
+    const response = await api.post('/maintenance/receive', { items });
+    return response.data;
+  },
+
+  // Update vendor, cost, expected date or notes
+  updateTicket: async (id: number, ticketData: { vendor?: string; cost?: number; expected_date?: string; notes?: string }) => {
+    const response = await api.put(`/maintenance/${id}`, ticketData);
+    return response.data;
+  }
+};
+
 // Activity Log API
 export const logApi = {
   // Get activity logs
@@ -211,6 +659,96 @@ export const systemApi = {
   }
 };
 
+// Saves a downloaded file through a temporary object URL
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
+
+const downloadXlsx = async (path: string, fileName: string, params?: Record<string, string | undefined>) => {
+  const response = await api.get(path, { params, responseType: 'blob', timeout: 300000 });
+  saveBlob(response.data, fileName);
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Server-generated XLSX reports (typed columns, frozen headers, summary sheet)
+export const exportApi = {
+  // Summary plus one sheet per filter; the chosen filter's sheet opens first
+  inventory: (filter: 'ALL' | 'SCANNED' | 'PENDING' | 'ON_LOAN' = 'ALL') =>
+    downloadXlsx('/export/inventory', `Inventory_${filter}_${today()}.xlsx`, { filter }),
+
+  // Loans and loaned items, optionally limited to a YYYY-MM-DD range
+  loanHistory: (from?: string, to?: string) =>
+    downloadXlsx('/export/loan-history', `Loan_History_${today()}.xlsx`, { from, to }),
+
+  // Items currently on loan with days overdue
+  activeLoans: () =>
+    downloadXlsx('/export/active-loans', `Active_Loans_${today()}.xlsx`),
+
+  // Activity log, optionally limited to a YYYY-MM-DD range
+  activityLogs: (from?: string, to?: string) =>
+    downloadXlsx('/export/activity-logs', `Activity_Log_${today()}.xlsx`, { from, to })
+};
+
+// Opens a server-generated PDF in a new tab (download if popups are blocked).
+// The tab is opened before the request so the browser keeps the user gesture.
+// With a `body` the PDF is requested by POST.
+const openPdf = async (path: string, fileName: string, params?: Record<string, string | undefined>, body?: object) => {
+  const win = window.open('', '_blank');
+  try {
+    const config = { params, responseType: 'blob' as const, timeout: 300000 };
+    const response = body ? await api.post(path, body, config) : await api.get(path, config);
+    if (win) {
+      const url = URL.createObjectURL(response.data);
+      win.location.href = url;
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } else {
+      saveBlob(response.data, fileName);
+    }
+  } catch (error) {
+    win?.close();
+    throw error;
+  }
+};
+
+// Signed-off PDF reports; `supervisor` is printed under the approval signature line
+export const reportApi = {
+  // Totals, accuracy, per category and missing items of an opname session
+  opname: (sessionId: number, supervisor?: string) =>
+    openPdf(`/reports/opname/${sessionId}/pdf`, `Opname_Report_${sessionId}_${today()}.pdf`, { supervisor }),
+
+  // Loans of a month (YYYY-MM) per program and per borrower
+  monthlyLoans: (month: string, supervisor?: string) =>
+    openPdf('/reports/loans/monthly/pdf', `Loan_Report_${month}.pdf`, { month, supervisor }),
+
+  // Loans past their due date, grouped by escalation level
+  overdue: (supervisor?: string) =>
+    openPdf('/reports/overdue/pdf', `Overdue_Report_${today()}.pdf`, { supervisor })
+};
+
+// Printable barcode labels (CODE_128 or QR) on sticker sheets or thermal rolls
+export const labelApi = {
+  // Label templates, barcode types and the copy limit
+  getTemplates: async () => {
+    const response = await api.get('/labels/templates');
+    return response.data;
+  },
+
+  // Labels for the given items, or for every item of an import batch
+  print: (target: { barcodes?: string[]; batch_id?: number }, options: LabelOptions) =>
+    openPdf('/labels/pdf', `Labels_${target.batch_id ? `Import_${target.batch_id}` : today()}.pdf`, undefined, {
+      ...target,
+      ...options
+    })
+};
+
 // Helper function untuk export data
 export const exportData = {
   // Export to CSV
@@ -248,14 +786,9 @@ export const exportData = {
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
-  },
-
-  // Export to Excel (simplified)
-  toExcel: (data: any[], filename: string) => {
-    // This would require a library like xlsx
-    console.warn('Excel export requires xlsx library');
-    exportData.toCSV(data, filename.replace('.xlsx', '.csv'));
   }
+
+  // Excel files are generated by the server, see exportApi
 };
 
 export default api;
\ No newline at end of file
@@ -0,0 +1,76 @@
+// services/catalogCache.ts
+import { dbLocal } from '../lib/dbLocal';
+import { inventoryApi } from './apiService';
+import { InventoryItem } from '../types/index.ts';
+
+// Local copy of the items catalogue for barcode lookups without a round trip.
+// Status changes (scans, loans, returns) still go through the server; the
+// items it returns are written back here until the next delta arrives.
+
+const SINCE_KEY = 'items_since';
+const PAGE_SIZE = 2000;
+
+// Scan flags belong to the running opname session, not to the item
+const toCached = (item: InventoryItem): InventoryItem => {
+  const cached = { ...item };
+  delete cached.is_scanned;
+  delete cached.scan_timestamp;
+  return cached;
+};
+
+export const findCachedItem = async (barcode: string) => {
+  try {
+    return (await dbLocal.items.get(barcode)) || null;
+  } catch (error) {
+    console.warn('Catalogue cache unavailable:', error);
+    return null;
+  }
+};
+
+export const cacheItems = async (items: InventoryItem[]) => {
+  try {
+    await dbLocal.items.bulkPut(items.map(toCached));
+  } catch (error) {
+    console.warn('Failed to update catalogue cache:', error);
+  }
+};
+
+const runSync = async () => {
+  const state = await dbLocal.sync_state.get(SINCE_KEY);
+  const since = state?.value || null;
+  let nextSince: string | null = null;
+  let afterId = 0;
+  let hasMore = true;
+  let changed = 0;
+
+  while (hasMore) {
+    const page = await inventoryApi.getDelta(since, afterId, PAGE_SIZE);
+    // The first page's cursor covers everything paged after it
+    nextSince = nextSince || page.next_since;
+
+    await dbLocal.transaction('rw', dbLocal.items, async () => {
+      if (page.deleted.length > 0) await dbLocal.items.bulkDelete(page.deleted);
+      await dbLocal.items.bulkPut(page.data.map(toCached));
+    });
+
+    changed += page.data.length + page.deleted.length;
+    afterId = page.last_id;
+    hasMore = page.has_more;
+  }
+
+  // Saved last, so an interrupted sync starts again from the same point
+  if (nextSince) await dbLocal.sync_state.put({ key: SINCE_KEY, value: nextSince });
+  return changed;
+};
+
+// One sync at a time; resolves to the number of items added, changed or removed
+let syncing: Promise<number> | null = null;
+
+export const syncCatalog = () => {
+  if (!syncing) {
+    syncing = runSync().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+};
@@ -0,0 +1,142 @@
+// services/offlineQueue.ts
+import { dbLocal } from '../lib/dbLocal';
+import { opnameApi, loanApi, authStorage } from './apiService';
+import { OutboxEntry, OutboxStatus } from '../types/index.ts';
+
+// Fired whenever the outbox changes, so the status badge and panel can reload
+export const OUTBOX_CHANGED_EVENT = 'wardrobe:outbox-changed';
+
+// Tag of the background sync registered with public/sw.js, and the message it
+// posts back to the page (only the page holds the session token)
+const SYNC_TAG = 'sync-data';
+export const SYNC_MESSAGE = 'SYNC_OUTBOX';
+
+export interface ReplaySummary {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  remaining: number; // still pending because the server went away mid-replay
+}
+
+// What callers queue; the bookkeeping fields are filled in here
+type NewOutboxEntry = OutboxEntry extends infer E
+  ? E extends OutboxEntry ? Pick<E, 'kind' | 'payload' | 'label'> : never
+  : never;
+
+const notify = () => window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+
+// No response at all: offline, DNS, timeout, server down
+export const isNetworkError = (error: any) => !!error?.isAxiosError && !error.response;
+
+const requestBackgroundSync = async () => {
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    await (registration as any)?.sync?.register(SYNC_TAG);
+  } catch (error) {
+    console.warn('Background sync not available:', error);
+  }
+};
+
+export const enqueue = async (entry: NewOutboxEntry) => {
+  const user = authStorage.getUser();
+  const id = await dbLocal.outbox.add({
+    ...entry,
+    status: 'pending',
+    attempts: 0,
+    error: null,
+    created_by: user?.username || '-',
+    created_at: new Date().toISOString()
+  } as OutboxEntry);
+  notify();
+  requestBackgroundSync();
+  return id;
+};
+
+export const getOutbox = () => dbLocal.outbox.orderBy('id').toArray();
+
+export const isScanQueued = async (sessionId: number, barcode: string) => {
+  const count = await dbLocal.outbox
+    .where('kind').equals('opname_scan')
+    .filter(entry => entry.kind === 'opname_scan' && entry.payload.session_id === sessionId && entry.payload.barcode === barcode)
+    .count();
+  return count > 0;
+};
+
+export const discardEntry = async (id: number) => {
+  await dbLocal.outbox.delete(id);
+  notify();
+};
+
+// Puts a conflicting or failed entry back in line, e.g. after fixing the cause on the server
+export const retryEntry = async (id: number) => {
+  await dbLocal.outbox.update(id, { status: 'pending', error: null });
+  notify();
+};
+
+const send = async (entry: OutboxEntry) => {
+  switch (entry.kind) {
+    case 'opname_scan':
+      return opnameApi.recordScan(entry.payload.session_id, entry.payload.barcode, entry.payload.scanned_at);
+    case 'return': {
+      const { barcode, ...inspection } = entry.payload;
+      return loanApi.returnItem(barcode, inspection);
+    }
+    case 'loan':
+      return loanApi.createLoan(entry.payload);
+  }
+};
+
+const markFailed = async (entry: OutboxEntry, status: OutboxStatus, error: string) => {
+  await dbLocal.outbox.update(entry.id!, { status, error, attempts: entry.attempts + 1 });
+};
+
+const runReplay = async (): Promise<ReplaySummary> => {
+  const summary: ReplaySummary = { synced: 0, conflicts: 0, failed: 0, remaining: 0 };
+  const entries = await dbLocal.outbox.where('status').equals('pending').sortBy('id');
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    try {
+      const result = await send(entry);
+      if (result && result.success === false) {
+        throw new Error(result.message || result.error || 'Rejected by server');
+      }
+      await dbLocal.outbox.delete(entry.id!);
+      summary.synced++;
+    } catch (error: any) {
+      const status = error.response?.status;
+
+      // Offline again or logged out: keep this and the rest in order for the next replay
+      if (isNetworkError(error) || status === 401) {
+        summary.remaining = entries.length - index;
+        break;
+      }
+
+      const message = error.response?.data?.message || error.response?.data?.error || error.message;
+      // 4xx means the server said no (item loaned elsewhere, already returned,
+      // session closed...), which needs a person to decide
+      if (status >= 400 && status < 500) {
+        await markFailed(entry, 'conflict', message);
+        summary.conflicts++;
+      } else {
+        await markFailed(entry, 'failed', message);
+        summary.failed++;
+      }
+    }
+  }
+
+  notify();
+  return summary;
+};
+
+// One replay at a time; callers arriving meanwhile share the running one
+let replaying: Promise<ReplaySummary> | null = null;
+
+export const replayOutbox = () => {
+  if (!replaying) {
+    replaying = runReplay().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+};
@@ -9,14 +9,32 @@ export interface InventoryItem {
   size: string;
   color: string;
   price: number;
-  status: 'Available' | 'On Loan' | 'Scanned' | 'Pending';
+  status: 'Available' | 'On Loan' | 'Damaged' | 'Lost' | 'In Laundry' | 'In Repair' | 'Written Off' | 'Pending';
   receive_no: string;
   receive_date: string;
   created_at: string;
   updated_at: string;
+  last_scanned?: string | null;
+  scan_count?: number;
+  // Scanned in the running stock opname session (independent of status)
   is_scanned?: boolean;
-  scan_timestamp?: string;
+  scan_timestamp?: string | null;
   type?: string;
+  // Set by the available-items search when a reservation overlaps the requested window
+  reserved_no?: string | null;
+  reserved_for?: string | null;
+  reserved_from?: string | null;
+  reserved_until?: string | null;
+}
+
+// Page of GET /api/items/delta, synced into the local catalogue cache
+export interface ItemDelta {
+  success: boolean;
+  data: InventoryItem[];
+  deleted: string[]; // barcodes deleted since updated_since
+  has_more: boolean;
+  last_id: number;
+  next_since: string;
 }
 
 // Scan Feedback Types
@@ -39,6 +57,142 @@ export interface UploadResponse {
   details?: string[];
 }
 
+// Two-phase Excel import: { field key: header in the file }
+export type ImportMapping = Record<string, string | null | undefined>;
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+export interface ImportPreview {
+  token: string;
+  file_name: string;
+  fields: ImportField[];
+  headers: string[];
+  mapping: ImportMapping;
+  profile_id: number | null;
+  total_rows: number;
+  rows: (string | number | null)[][];
+}
+
+export interface ImportRowIssue {
+  row: number;
+  barcode: string;
+  errors: string[];
+}
+
+export interface ImportValidation {
+  total_rows: number;
+  valid: number;
+  invalid: number;
+  issues: ImportRowIssue[];
+}
+
+export interface ImportChange {
+  row: number;
+  barcode: string;
+  action: 'Added' | 'Updated';
+  fields: { field: string; from: string | number; to: string | number }[];
+}
+
+export interface ImportCommitResult {
+  success: boolean;
+  message: string;
+  batch_id: number | null;
+  dry_run: boolean;
+  stats: {
+    total: number;
+    added: number;
+    updated: number;
+    skipped: number;
+    generated: number;
+    invalid: number;
+    errors: number;
+  };
+  errors: string[];
+  changes?: ImportChange[];
+}
+
+export type ImportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ImportJob {
+  id: string;
+  file_name: string;
+  status: ImportJobStatus;
+  phase: string;
+  processed: number;
+  total: number;
+  progress: number;
+  result: ImportCommitResult | null;
+  error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+export type ImportBatchStatus = 'Running' | 'Completed' | 'Failed' | 'Rolled Back';
+
+export interface ImportBatch {
+  id: number;
+  file_name: string | null;
+  mapping: ImportMapping | null;
+  added: number;
+  updated: number;
+  skipped: number;
+  status: ImportBatchStatus;
+  created_by: string | null;
+  rolled_back_by: string | null;
+  rolled_back_at: string | null;
+  created_at: string;
+  conflicts: { loaned: string[]; in_use: string[]; later_batches: { id: number; file_name: string | null }[] } | null;
+  can_rollback: boolean;
+}
+
+export interface ImportBatchItem {
+  barcode: string;
+  action: 'Added' | 'Updated';
+  before_data: Record<string, string | number | null> | null;
+  item_name: string | null;
+  brand: string | null;
+  size: string | null;
+  color: string | null;
+  price: number | null;
+  status: string | null;
+}
+
+export interface ImportProfile {
+  id: number;
+  name: string;
+  mapping: ImportMapping;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Barcode labels (see wardrobe-server/labels.js)
+export type LabelSymbology = 'code128' | 'qrcode';
+
+export interface LabelTemplate {
+  key: string;
+  label: string;
+  per_page: number;
+}
+
+export interface LabelSettings {
+  templates: LabelTemplate[];
+  symbologies: { key: LabelSymbology; label: string }[];
+  max_copies: number;
+}
+
+export interface LabelOptions {
+  template: string;
+  symbology: LabelSymbology;
+  copies: number;
+  // Positions to leave empty on the first sheet (partly used sticker sheet)
+  skip: number;
+}
+
 // Stats Types
 export interface InventoryStats {
   total: number;
@@ -46,6 +200,11 @@ export interface InventoryStats {
   on_loan: number;
   available: number;
   total_items?: number;
+  opname_session?: {
+    id: number;
+    session_name: string;
+    status: string;
+  } | null;
 }
 
 // API Response Types
@@ -67,16 +226,216 @@ export interface LoanTransaction {
   loan_reason: string;
   due_date: string;
   status: string;
+  overdue_days?: number;
+  escalation_level?: number;
+  is_overdue?: boolean;
+  next_due_date?: string; // earliest due date among items still on loan
+  total_item_count?: number;
+  returned_item_count?: number;
+  lost_item_count?: number;
+  extended_items?: number;
   created_at: string;
   items: LoanItem[];
 }
 
+// Body of POST /api/loan
+export interface LoanRequest {
+  borrower_id: number;
+  borrower_name: string;
+  program_name: string;
+  loan_reason: string;
+  due_date: string;
+  signature_base64: string;
+  items: string[]; // barcodes
+  allow_reserved?: boolean; // lend out items reserved during the loan period
+}
+
+// Due date extension of a whole loan or some of its items
+export interface LoanExtension {
+  id: number;
+  transaction_id: number;
+  new_due_date: string;
+  reason: string;
+  whole_loan: boolean;
+  extended_by: string;
+  created_at: string;
+  items: { barcode: string; item_name: string | null; previous_due_date: string | null }[];
+}
+
+// Return inspection captured per item in ReturnSystem
+export type ReturnCondition = 'Good' | 'Dirty' | 'Damaged' | 'Lost';
+
+export interface ReturnInspection {
+  barcode: string;
+  condition: ReturnCondition;
+  notes?: string;
+  photos?: string[]; // data URLs
+}
+
+// Amount owed by a borrower for a lost item
+export type LiabilityStatus = 'Open' | 'Paid' | 'Written Off';
+
+export interface BorrowerLiability {
+  id: number;
+  borrower_id: number | null;
+  borrower_name: string;
+  borrower_nik?: string | null;
+  borrower_department?: string | null;
+  transaction_id: number | null;
+  invoice_no?: string | null;
+  loan_item_id: number | null;
+  barcode: string;
+  item_name: string;
+  amount: number;
+  status: LiabilityStatus;
+  notes: string | null;
+  resolution_notes: string | null;
+  created_by: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+// GET /api/liabilities/report (open liabilities only)
+export interface LiabilityReport {
+  total: number;
+  borrowers: {
+    borrower_id: number | null;
+    borrower_name: string;
+    nik: string | null;
+    department: string;
+    item_count: number;
+    amount: number;
+    oldest_at: string;
+  }[];
+  departments: {
+    department: string;
+    borrower_count: number;
+    item_count: number;
+    amount: number;
+  }[];
+}
+
+// Items booked for a program ahead of pickup
+export interface Reservation {
+  id: number;
+  reservation_no: string;
+  borrower_id: number;
+  borrower_name: string;
+  program_name: string;
+  start_date: string;
+  end_date: string;
+  notes: string | null;
+  status: 'Reserved' | 'Checked Out' | 'Cancelled';
+  loan_id: number | null;
+  loan_invoice_no?: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  item_count?: number;
+  items?: ReservationItem[];
+  conflicts?: ReservationConflict[];
+}
+
+export interface ReservationItem {
+  barcode: string;
+  item_name: string;
+  brand: string;
+  size: string;
+  color: string;
+  price: number;
+  status: InventoryItem['status'];
+}
+
+// Why an item is not free for a reservation window
+export interface ReservationConflict {
+  barcode: string;
+  type: 'reservation' | 'loan' | 'maintenance' | 'unavailable';
+  reference_id: number | null;
+  reference_no: string;
+  program_name: string | null;
+  start_date: string | null;
+  end_date: string | null;
+}
+
+// Laundry / repair batches (maintenance_tickets)
+export type MaintenanceType = 'Laundry' | 'Repair';
+
+// Condition an item comes back from maintenance in; only Good makes it available again
+export type ReceiveCondition = 'Good' | 'Damaged' | 'Written Off';
+
+export interface MaintenanceTicket {
+  id: number;
+  ticket_no: string;
+  type: MaintenanceType;
+  vendor: string | null;
+  cost: number;
+  expected_date: string | null;
+  notes: string | null;
+  status: 'Open' | 'Closed';
+  created_by: string;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  item_count?: number;
+  outstanding_items?: number;
+  is_late?: boolean;
+  items?: MaintenanceItem[];
+}
+
+export interface MaintenanceItem {
+  id: number;
+  ticket_id: number;
+  barcode: string;
+  previous_status: string;
+  status: 'Out' | 'Received';
+  sent_at: string;
+  received_at: string | null;
+  received_by: string | null;
+  received_condition: ReceiveCondition | null;
+  item_name: string;
+  brand: string;
+  size: string;
+  color: string;
+  price: number;
+}
+
+// Row of GET /api/loans/overdue
+export interface OverdueLoan {
+  id: number;
+  invoice_no: string;
+  borrower_id: number;
+  borrower_name: string;
+  borrower_phone: string | null;
+  borrower_department: string | null;
+  program_name: string;
+  due_date: string;
+  created_at: string;
+  status: string;
+  escalation_level: number;
+  days_overdue: number;
+  overdue_items: number;
+  overdue_value: number;
+}
+
+export interface OverdueBucket {
+  level: number;
+  label: string;
+  loans: number;
+  items: number;
+}
+
 export interface LoanItem {
   id: number;
   transaction_id: number;
   barcode: string;
   status: string;
   returned_at: string | null;
+  return_no?: string | null; // receipt number shared by items returned together
+  return_condition?: ReturnCondition | null;
+  return_notes?: string | null;
+  due_date?: string | null; // set when only this item was extended
+  is_extended?: boolean;
   item_name: string;
   brand: string;
   color: string;
@@ -91,7 +450,41 @@ export interface User {
   fullname: string;
   nik: string;
   role: 'admin' | 'staff' | 'user';
+  is_active: boolean;
+  last_login?: string | null;
   created_at: string;
+  updated_at?: string;
+}
+
+// Logged-in user as returned by POST /api/login
+// Mirrors the permission matrix in wardrobe-server/permissions.js
+export type Permission =
+  | 'upload_stock'
+  | 'print_labels'
+  | 'update_item'
+  | 'delete_item'
+  | 'create_loan'
+  | 'return_item'
+  | 'manage_loans'
+  | 'manage_borrowers'
+  | 'delete_borrower'
+  | 'block_borrower'
+  | 'manage_opname'
+  | 'scan_opname'
+  | 'manage_maintenance'
+  | 'manage_reservations'
+  | 'manage_liabilities'
+  | 'manage_numbering'
+  | 'view_logs'
+  | 'manage_users'
+  | 'clear_data';
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  fullname: string;
+  role: User['role'];
+  permissions: Permission[];
 }
 
 // Borrower Types
@@ -101,9 +494,36 @@ export interface Borrower {
   name: string;
   phone: string;
   position: string;
+  department?: string | null;
+  email?: string | null;
+  address?: string | null;
+  is_active?: boolean;
+  is_blocked?: boolean;
+  blocked_reason?: string | null;
+  blocked_at?: string | null;
+  blocked_by?: string | null;
+  active_loans?: number;
+  overdue_items?: number;
+  open_liability?: number;
   created_at: string;
 }
 
+// Row of GET /api/borrowers/:id/loans
+export interface BorrowerLoan {
+  id: number;
+  invoice_no: string;
+  program_name: string;
+  loan_reason: string;
+  due_date: string;
+  status: string;
+  inputter_name: string;
+  created_at: string;
+  item_count: number;
+  outstanding_items: number;
+  total_value: number;
+  is_overdue: boolean;
+}
+
 // Activity Log Types
 export interface ActivityLog {
   id: number;
@@ -115,6 +535,120 @@ export interface ActivityLog {
   created_at: string;
 }
 
+// Stock Opname Types
+export type OpnameSessionStatus = 'Open' | 'Paused' | 'Closed';
+
+export interface OpnameSession {
+  id: number;
+  session_name: string;
+  location: string | null;
+  notes: string | null;
+  status: OpnameSessionStatus;
+  opened_by: string;
+  closed_by: string | null;
+  total_items: number;
+  scanned_items: number;
+  scan_count?: number | string;
+  opened_at: string;
+  paused_at: string | null;
+  closed_at: string | null;
+}
+
+export interface OpnameScan {
+  id: number;
+  session_id: number;
+  barcode: string;
+  item_status: string | null;
+  scanned_by: string;
+  scanned_at: string;
+  item_name?: string;
+  brand?: string;
+}
+
+export interface OpnameComparison {
+  base: OpnameSession;
+  target: OpnameSession;
+  summary: {
+    base_total: number;
+    base_scanned: number;
+    target_total: number;
+    target_scanned: number;
+    changed_items: number;
+  };
+  differences: {
+    barcode: string;
+    item_name: string;
+    brand: string;
+    base_scanned: boolean | null;
+    target_scanned: boolean | null;
+    base_status: string | null;
+    target_status: string | null;
+  }[];
+}
+
+export interface OpnameVarianceItem {
+  barcode: string;
+  item_name: string;
+  brand: string;
+  category: string | null;
+  price: number | string;
+  item_status: string;
+  scanned: boolean;
+  scanned_by: string | null;
+  scanned_at: string | null;
+}
+
+export interface OpnameCategoryTotal {
+  category: string;
+  expected_items: number;
+  expected_value: number;
+  counted_items: number;
+  counted_value: number;
+  missing_items: number;
+  missing_value: number;
+}
+
+export interface OpnameVariance {
+  session: OpnameSession;
+  summary: {
+    total_items: number;
+    scanned_items: number;
+    missing_items: number;
+    missing_value: number;
+    unknown_barcodes: number;
+    scanned_on_loan: number;
+  };
+  missing: OpnameVarianceItem[];
+  unknown: { barcode: string; scanned_by: string; scanned_at: string }[];
+  scanned_on_loan: OpnameVarianceItem[];
+  categories: OpnameCategoryTotal[];
+}
+
+// Offline outbox (IndexedDB), replayed to the server when it is reachable again
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+interface OutboxBase {
+  id?: number;
+  label: string;
+  status: OutboxStatus;
+  attempts: number;
+  error: string | null; // server message of the last failed replay
+  created_by: string;
+  created_at: string;
+}
+
+export type OutboxEntry =
+  | OutboxBase & { kind: 'opname_scan'; payload: { session_id: number; barcode: string; scanned_at: string } }
+  | OutboxBase & { kind: 'return'; payload: ReturnInspection }
+  | OutboxBase & { kind: 'loan'; payload: LoanRequest };
+
+export type OutboxKind = OutboxEntry['kind'];
+
+// Helper function untuk cek hak akses (server tetap melakukan validasi)
+export const hasPermission = (user: AuthUser | null, permission: Permission): boolean => {
+  return !!user?.permissions?.includes(permission);
+};
+
 // Helper function untuk menghitung akurasi (jika diperlukan)
 export const calculateAccuracy = (scanned: number, total: number): number => {
   if (total === 0) return 0;
@@ -0,0 +1,155 @@
+/*** FILE: wardrobe-server/auth.js ***/
+const crypto = require('crypto');
+
+// scrypt parameters (N=2^15 is ~100ms per hash on the server)
+const SCRYPT_N = 32768;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SESSION_TTL_HOURS = parseInt(process.env.SESSION_TTL_HOURS || '12');
+const MIN_PASSWORD_LENGTH = 8;
+
+function scrypt(password, salt, N, r, p) {
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(password, salt, KEY_LENGTH, { N, r, p, maxmem: 128 * N * r * 2 }, (err, key) => {
+            if (err) reject(err);
+            else resolve(key);
+        });
+    });
+}
+
+function isHashed(stored) {
+    return typeof stored === 'string' && stored.startsWith('scrypt$');
+}
+
+// Stored format: scrypt$N$r$p$salt$hash (salt and hash base64)
+async function hashPassword(password) {
+    const salt = crypto.randomBytes(16);
+    const key = await scrypt(String(password), salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+    return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+// Returns { valid, needsRehash }. Rows that were never migrated still hold the
+// plaintext password; they are accepted once and flagged for rehashing.
+async function verifyPassword(password, stored) {
+    if (!stored) return { valid: false, needsRehash: false };
+
+    if (!isHashed(stored)) {
+        const a = Buffer.from(String(password));
+        const b = Buffer.from(String(stored));
+        const valid = a.length === b.length && crypto.timingSafeEqual(a, b);
+        return { valid, needsRehash: valid };
+    }
+
+    const [, N, r, p, salt, hash] = stored.split('$');
+    const expected = Buffer.from(hash, 'base64');
+    const key = await scrypt(String(password), Buffer.from(salt, 'base64'), parseInt(N), parseInt(r), parseInt(p));
+    const valid = key.length === expected.length && crypto.timingSafeEqual(key, expected);
+
+    return { 
+        valid, 
+        needsRehash: valid && parseInt(N) < SCRYPT_N 
+    };
+}
+
+// Hash of a random password, checked when the username does not exist so a
+// failed login takes as long whether or not the user is there
+const dummyHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+async function verifyUnknownUser(password) {
+    await verifyPassword(password, await dummyHash);
+    return { valid: false, needsRehash: false };
+}
+
+function hashToken(token) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Issue a session token. Only its SHA-256 is stored in the database.
+async function createSession(pool, user, req) {
+    const token = crypto.randomBytes(32).toString('hex');
+    const result = await pool.query(`
+        INSERT INTO user_sessions (user_id, token_hash, ip_address, user_agent, expires_at)
+        VALUES ($1, $2, $3, $4, NOW() + ($5 || ' hours')::INTERVAL)
+        RETURNING expires_at
+    `, [user.id, hashToken(token), req.ip, req.get('user-agent') || null, String(SESSION_TTL_HOURS)]);
+
+    return { token, expires_at: result.rows[0].expires_at };
+}
+
+async function revokeSession(pool, token) {
+    await pool.query(
+        "UPDATE user_sessions SET revoked_at = NOW() WHERE token_hash = $1 AND revoked_at IS NULL",
+        [hashToken(token)]
+    );
+}
+
+// Signs a user out everywhere (deactivation, password reset)
+async function revokeUserSessions(pool, userId) {
+    await pool.query(
+        "UPDATE user_sessions SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL",
+        [userId]
+    );
+}
+
+function getBearerToken(req) {
+    const header = req.get('authorization') || '';
+    const [scheme, token] = header.split(' ');
+    return scheme === 'Bearer' && token ? token : null;
+}
+
+// Express middleware: rejects requests without a valid session token and
+// exposes the caller as req.user. publicPaths are relative to the mount path.
+function requireAuth(pool, publicPaths = []) {
+    return async (req, res, next) => {
+        if (req.method === 'OPTIONS' || publicPaths.includes(req.path)) {
+            return next();
+        }
+
+        const token = getBearerToken(req);
+        if (!token) {
+            return res.status(401).json({ 
+                success: false, 
+                message: "Authentication required" 
+            });
+        }
+
+        try {
+            const result = await pool.query(`
+                UPDATE user_sessions us SET last_seen_at = NOW()
+                FROM users u
+                WHERE us.user_id = u.id 
+                  AND us.token_hash = $1 
+                  AND us.revoked_at IS NULL 
+                  AND us.expires_at > NOW()
+                  AND u.is_active
+                RETURNING u.id, u.username, u.fullname, u.role
+            `, [hashToken(token)]);
+
+            if (result.rows.length === 0) {
+                return res.status(401).json({ 
+                    success: false, 
+                    message: "Session expired. Please log in again." 
+                });
+            }
+
+            req.user = result.rows[0];
+            req.token = token;
+            next();
+        } catch (err) {
+            next(err);
+        }
+    };
+}
+
+module.exports = {
+    hashPassword,
+    verifyPassword,
+    verifyUnknownUser,
+    isHashed,
+    createSession,
+    revokeSession,
+    revokeUserSessions,
+    requireAuth,
+    MIN_PASSWORD_LENGTH
+};
@@ -20,6 +20,19 @@ CREATE TABLE IF NOT EXISTS users (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- User Sessions table (login tokens, stored as SHA-256 hashes)
+CREATE TABLE IF NOT EXISTS user_sessions (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    ip_address VARCHAR(50),
+    user_agent TEXT,
+    expires_at TIMESTAMP NOT NULL,
+    last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Borrowers table
 CREATE TABLE IF NOT EXISTS borrowers (
     id SERIAL PRIMARY KEY,
@@ -31,6 +44,10 @@ CREATE TABLE IF NOT EXISTS borrowers (
     email VARCHAR(100),
     address TEXT,
     is_active BOOLEAN DEFAULT TRUE,
+    is_blocked BOOLEAN DEFAULT FALSE,
+    blocked_reason TEXT,
+    blocked_at TIMESTAMP,
+    blocked_by VARCHAR(100),
     total_loans INTEGER DEFAULT 0,
     last_loan_date TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -78,6 +95,7 @@ CREATE TABLE IF NOT EXISTS loan_transactions (
     total_value DECIMAL(12,2) DEFAULT 0,
     returned_items INTEGER DEFAULT 0,
     overdue_days INTEGER DEFAULT 0,
+    escalation_level INTEGER DEFAULT 0,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -92,14 +110,174 @@ CREATE TABLE IF NOT EXISTS loan_items (
     price DECIMAL(12,2) DEFAULT 0,
     status VARCHAR(50) DEFAULT 'On Loan',
     returned_at TIMESTAMP,
+    return_no VARCHAR(100),
     return_condition VARCHAR(50),
     return_notes TEXT,
+    due_date DATE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Loan Extensions table (every change of a loan's or its items' due date)
+CREATE TABLE IF NOT EXISTS loan_extensions (
+    id SERIAL PRIMARY KEY,
+    transaction_id INTEGER REFERENCES loan_transactions(id) ON DELETE CASCADE,
+    new_due_date DATE NOT NULL,
+    reason TEXT NOT NULL,
+    whole_loan BOOLEAN DEFAULT TRUE,
+    extended_by VARCHAR(100),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Loan Extension Items table (items moved by an extension, with their old due date)
+CREATE TABLE IF NOT EXISTS loan_extension_items (
+    id SERIAL PRIMARY KEY,
+    extension_id INTEGER REFERENCES loan_extensions(id) ON DELETE CASCADE,
+    loan_item_id INTEGER REFERENCES loan_items(id) ON DELETE CASCADE,
+    barcode VARCHAR(100),
+    previous_due_date DATE
+);
+
+-- Loan Item Photos table (return inspection evidence, stored as data URLs)
+CREATE TABLE IF NOT EXISTS loan_item_photos (
+    id SERIAL PRIMARY KEY,
+    loan_item_id INTEGER REFERENCES loan_items(id) ON DELETE CASCADE,
+    photo_base64 TEXT NOT NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Borrower Liabilities table (amount owed for a lost loan item, valued at items.price)
+CREATE TABLE IF NOT EXISTS borrower_liabilities (
+    id SERIAL PRIMARY KEY,
+    borrower_id INTEGER REFERENCES borrowers(id),
+    borrower_name VARCHAR(255),
+    transaction_id INTEGER REFERENCES loan_transactions(id) ON DELETE SET NULL,
+    loan_item_id INTEGER UNIQUE REFERENCES loan_items(id) ON DELETE SET NULL,
+    barcode VARCHAR(100),
+    item_name VARCHAR(255),
+    amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    status VARCHAR(50) DEFAULT 'Open' CHECK (status IN ('Open', 'Paid', 'Written Off')),
+    notes TEXT,
+    resolution_notes TEXT,
+    created_by VARCHAR(100),
+    resolved_by VARCHAR(100),
+    resolved_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Reservations table (items booked for a program ahead of pickup)
+CREATE TABLE IF NOT EXISTS reservations (
+    id SERIAL PRIMARY KEY,
+    reservation_no VARCHAR(100) UNIQUE NOT NULL,
+    borrower_id INTEGER REFERENCES borrowers(id),
+    borrower_name VARCHAR(255),
+    program_name VARCHAR(255),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    notes TEXT,
+    status VARCHAR(50) DEFAULT 'Reserved',
+    loan_id INTEGER REFERENCES loan_transactions(id) ON DELETE SET NULL,
+    created_by VARCHAR(100),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_date >= start_date)
+);
+
+-- Reservation Items table
+CREATE TABLE IF NOT EXISTS reservation_items (
+    id SERIAL PRIMARY KEY,
+    reservation_id INTEGER REFERENCES reservations(id) ON DELETE CASCADE,
+    barcode VARCHAR(100) REFERENCES items(barcode) ON DELETE CASCADE,
+    UNIQUE (reservation_id, barcode)
+);
+
+-- Maintenance Tickets table (laundry / tailor batches sent to a vendor)
+CREATE TABLE IF NOT EXISTS maintenance_tickets (
+    id SERIAL PRIMARY KEY,
+    ticket_no VARCHAR(100) UNIQUE NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('Laundry', 'Repair')),
+    vendor VARCHAR(255),
+    cost DECIMAL(12,2) DEFAULT 0,
+    expected_date DATE,
+    notes TEXT,
+    status VARCHAR(50) DEFAULT 'Open',
+    created_by VARCHAR(100),
+    closed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Maintenance Items table (items of a ticket; 'Out' until received back)
+CREATE TABLE IF NOT EXISTS maintenance_items (
+    id SERIAL PRIMARY KEY,
+    ticket_id INTEGER REFERENCES maintenance_tickets(id) ON DELETE CASCADE,
+    barcode VARCHAR(100) REFERENCES items(barcode) ON DELETE CASCADE,
+    previous_status VARCHAR(50),
+    status VARCHAR(50) DEFAULT 'Out',
+    sent_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    received_at TIMESTAMP,
+    received_by VARCHAR(100)
+);
+
+-- Import Profiles table (saved Excel column mappings, e.g. per supplier)
+CREATE TABLE IF NOT EXISTS import_profiles (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) UNIQUE NOT NULL,
+    mapping JSONB NOT NULL,
+    created_by VARCHAR(100),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Import Batches table (one row per Excel import that wrote to items)
+CREATE TABLE IF NOT EXISTS import_batches (
+    id SERIAL PRIMARY KEY,
+    file_name VARCHAR(255),
+    mapping JSONB,
+    added INTEGER DEFAULT 0,
+    updated INTEGER DEFAULT 0,
+    skipped INTEGER DEFAULT 0,
+    status VARCHAR(50) DEFAULT 'Completed' CHECK (status IN ('Completed', 'Rolled Back')),
+    created_by VARCHAR(100),
+    rolled_back_by VARCHAR(100),
+    rolled_back_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Import Batch Items table (before-image of every item an import touched; NULL before_data = added)
+CREATE TABLE IF NOT EXISTS import_batch_items (
+    id SERIAL PRIMARY KEY,
+    batch_id INTEGER REFERENCES import_batches(id) ON DELETE CASCADE,
+    barcode VARCHAR(100) NOT NULL,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('Added', 'Updated')),
+    before_data JSONB,
+    UNIQUE (batch_id, barcode)
+);
+
+-- Document Sequences table (one counter per document type, see next_document_number)
+CREATE TABLE IF NOT EXISTS document_sequences (
+    doc_type VARCHAR(50) PRIMARY KEY,
+    prefix VARCHAR(20) NOT NULL,
+    reset_period VARCHAR(20) DEFAULT 'daily' CHECK (reset_period IN ('daily', 'monthly', 'never')),
+    period_key VARCHAR(8) DEFAULT '',
+    last_value INTEGER DEFAULT 0,
+    padding INTEGER DEFAULT 3,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Document Sequence Periods table (last value per type and period, so going
+-- back to an earlier reset period continues where that period stopped)
+CREATE TABLE IF NOT EXISTS document_sequence_periods (
+    doc_type VARCHAR(50) REFERENCES document_sequences(doc_type) ON DELETE CASCADE,
+    period_key VARCHAR(8) NOT NULL,
+    last_value INTEGER DEFAULT 0,
+    PRIMARY KEY (doc_type, period_key)
+);
+
 -- Activity Logs table
 CREATE TABLE IF NOT EXISTS activity_logs (
     id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
     user_name VARCHAR(100),
     action_type VARCHAR(100),
     entity VARCHAR(100),
@@ -110,6 +288,59 @@ CREATE TABLE IF NOT EXISTS activity_logs (
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Stock Opname Sessions table
+CREATE TABLE IF NOT EXISTS opname_sessions (
+    id SERIAL PRIMARY KEY,
+    session_name VARCHAR(255) NOT NULL,
+    location VARCHAR(255),
+    notes TEXT,
+    status VARCHAR(50) DEFAULT 'Open',
+    opened_by VARCHAR(100),
+    closed_by VARCHAR(100),
+    total_items INTEGER DEFAULT 0,
+    scanned_items INTEGER DEFAULT 0,
+    opened_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    paused_at TIMESTAMP,
+    closed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Stock Opname Scans table (scan ledger per session)
+CREATE TABLE IF NOT EXISTS opname_scans (
+    id SERIAL PRIMARY KEY,
+    session_id INTEGER REFERENCES opname_sessions(id) ON DELETE CASCADE,
+    barcode VARCHAR(100) NOT NULL,
+    item_found BOOLEAN DEFAULT TRUE,
+    item_status VARCHAR(50),
+    scanned_by VARCHAR(100),
+    scanned_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (session_id, barcode)
+);
+
+-- Stock Opname Results table (frozen snapshot written when a session is closed)
+CREATE TABLE IF NOT EXISTS opname_results (
+    id SERIAL PRIMARY KEY,
+    session_id INTEGER REFERENCES opname_sessions(id) ON DELETE CASCADE,
+    barcode VARCHAR(100) NOT NULL,
+    item_name VARCHAR(255),
+    brand VARCHAR(100),
+    category VARCHAR(100),
+    price DECIMAL(12,2) DEFAULT 0,
+    item_status VARCHAR(50),
+    scanned BOOLEAN DEFAULT FALSE,
+    scanned_by VARCHAR(100),
+    scanned_at TIMESTAMP,
+    UNIQUE (session_id, barcode)
+);
+
+-- Deleted Items table (tombstones, so client catalogue caches drop deleted items)
+CREATE TABLE IF NOT EXISTS deleted_items (
+    id SERIAL PRIMARY KEY,
+    barcode VARCHAR(100) NOT NULL,
+    deleted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- ==================== INDEXES ====================
 
 -- Items indexes
@@ -118,6 +349,11 @@ CREATE INDEX IF NOT EXISTS idx_items_status ON items(status);
 CREATE INDEX IF NOT EXISTS idx_items_brand ON items(brand);
 CREATE INDEX IF NOT EXISTS idx_items_category ON items(category);
 CREATE INDEX IF NOT EXISTS idx_items_updated ON items(updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_deleted_items_deleted_at ON deleted_items(deleted_at);
+
+-- User Sessions indexes
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_expires ON user_sessions(expires_at);
 
 -- Borrowers indexes
 CREATE INDEX IF NOT EXISTS idx_borrowers_nik ON borrowers(nik);
@@ -135,12 +371,39 @@ CREATE INDEX IF NOT EXISTS idx_loan_transactions_created ON loan_transactions(cr
 CREATE INDEX IF NOT EXISTS idx_loan_items_transaction ON loan_items(transaction_id);
 CREATE INDEX IF NOT EXISTS idx_loan_items_barcode ON loan_items(barcode);
 CREATE INDEX IF NOT EXISTS idx_loan_items_status ON loan_items(status);
+CREATE INDEX IF NOT EXISTS idx_loan_item_photos_item ON loan_item_photos(loan_item_id);
+CREATE INDEX IF NOT EXISTS idx_loan_extensions_transaction ON loan_extensions(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_loan_extension_items_item ON loan_extension_items(loan_item_id);
+
+-- Borrower Liabilities indexes
+CREATE INDEX IF NOT EXISTS idx_borrower_liabilities_borrower ON borrower_liabilities(borrower_id);
+CREATE INDEX IF NOT EXISTS idx_borrower_liabilities_status ON borrower_liabilities(status);
+
+-- Reservations indexes
+CREATE INDEX IF NOT EXISTS idx_reservations_status ON reservations(status);
+CREATE INDEX IF NOT EXISTS idx_reservations_dates ON reservations(start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_reservation_items_barcode ON reservation_items(barcode);
+
+-- Maintenance indexes
+CREATE INDEX IF NOT EXISTS idx_maintenance_tickets_status ON maintenance_tickets(status);
+CREATE INDEX IF NOT EXISTS idx_maintenance_items_ticket ON maintenance_items(ticket_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_maintenance_items_out ON maintenance_items(barcode) WHERE status = 'Out';
+
+-- Import Batches indexes
+CREATE INDEX IF NOT EXISTS idx_import_batches_created ON import_batches(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_import_batch_items_barcode ON import_batch_items(barcode);
 
 -- Activity Logs indexes
 CREATE INDEX IF NOT EXISTS idx_activity_logs_user ON activity_logs(user_name);
 CREATE INDEX IF NOT EXISTS idx_activity_logs_entity ON activity_logs(entity, entity_id);
 CREATE INDEX IF NOT EXISTS idx_activity_logs_created ON activity_logs(created_at DESC);
 
+-- Stock Opname indexes
+CREATE INDEX IF NOT EXISTS idx_opname_sessions_status ON opname_sessions(status);
+CREATE INDEX IF NOT EXISTS idx_opname_scans_session ON opname_scans(session_id);
+CREATE INDEX IF NOT EXISTS idx_opname_scans_barcode ON opname_scans(barcode);
+CREATE INDEX IF NOT EXISTS idx_opname_results_session ON opname_results(session_id);
+
 -- ==================== FUNCTIONS & TRIGGERS ====================
 
 -- Update timestamp function
@@ -165,6 +428,33 @@ CREATE TRIGGER update_loan_transactions_updated_at BEFORE UPDATE ON loan_transac
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_borrower_liabilities_updated_at BEFORE UPDATE ON borrower_liabilities
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_reservations_updated_at BEFORE UPDATE ON reservations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_maintenance_tickets_updated_at BEFORE UPDATE ON maintenance_tickets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_import_profiles_updated_at BEFORE UPDATE ON import_profiles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_opname_sessions_updated_at BEFORE UPDATE ON opname_sessions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Record deleted items for GET /api/items/delta
+CREATE OR REPLACE FUNCTION record_deleted_item()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO deleted_items (barcode) VALUES (OLD.barcode);
+    RETURN OLD;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER trigger_record_deleted_item AFTER DELETE ON items
+    FOR EACH ROW EXECUTE FUNCTION record_deleted_item();
+
 -- Function to update item status when loaned
 CREATE OR REPLACE FUNCTION update_item_status_on_loan()
 RETURNS TRIGGER AS $$
@@ -230,25 +520,53 @@ $$ language 'plpgsql';
 CREATE TRIGGER trigger_update_borrower_loan_stats AFTER INSERT ON loan_transactions
     FOR EACH ROW EXECUTE FUNCTION update_borrower_loan_stats();
 
--- Function to generate invoice number
+-- Next number of a document type, e.g. INV-20250101-001. The counter row is
+-- locked until the calling transaction ends, so concurrent callers queue up
+-- instead of reading the same value, and a rolled back number is reused.
+-- Every period counts on its own: daily, monthly and never keys differ in
+-- length, so switching the reset period back and forth never repeats a number.
+CREATE OR REPLACE FUNCTION next_document_number(p_doc_type VARCHAR)
+RETURNS VARCHAR AS $$
+DECLARE
+    seq document_sequences%ROWTYPE;
+    current_period VARCHAR;
+    next_value INTEGER;
+BEGIN
+    SELECT * INTO seq FROM document_sequences WHERE doc_type = p_doc_type FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown document type: %', p_doc_type;
+    END IF;
+
+    current_period := CASE seq.reset_period
+        WHEN 'daily' THEN TO_CHAR(CURRENT_DATE, 'YYYYMMDD')
+        WHEN 'monthly' THEN TO_CHAR(CURRENT_DATE, 'YYYYMM')
+        ELSE ''
+    END;
+
+    INSERT INTO document_sequence_periods (doc_type, period_key, last_value)
+    VALUES (p_doc_type, current_period, 1)
+    ON CONFLICT (doc_type, period_key) 
+    DO UPDATE SET last_value = document_sequence_periods.last_value + 1
+    RETURNING last_value INTO next_value;
+
+    UPDATE document_sequences
+    SET last_value = next_value,
+        period_key = current_period,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE doc_type = p_doc_type
+    RETURNING * INTO seq;
+
+    RETURN seq.prefix || '-' 
+        || CASE WHEN current_period <> '' THEN current_period || '-' ELSE '' END 
+        || LPAD(seq.last_value::TEXT, seq.padding, '0');
+END;
+$$ language 'plpgsql';
+
+-- Loans inserted without an invoice number (e.g. by hand) are numbered too
 CREATE OR REPLACE FUNCTION generate_invoice_number()
 RETURNS TRIGGER AS $$
-DECLARE
-    date_str VARCHAR;
-    seq_num INTEGER;
 BEGIN
-    -- Get date part (YYYYMMDD)
-    date_str := TO_CHAR(CURRENT_DATE, 'YYYYMMDD');
-    
-    -- Get sequence number for today
-    SELECT COALESCE(MAX(CAST(SUBSTRING(invoice_no FROM 10) AS INTEGER)), 0) + 1
-    INTO seq_num
-    FROM loan_transactions
-    WHERE invoice_no LIKE 'INV-' || date_str || '-%';
-    
-    -- Set invoice number
-    NEW.invoice_no := 'INV-' || date_str || '-' || LPAD(seq_num::TEXT, 3, '0');
-    
+    NEW.invoice_no := next_document_number('loan');
     RETURN NEW;
 END;
 $$ language 'plpgsql';
@@ -276,6 +594,10 @@ SELECT
     i.updated_at
 FROM items i
 WHERE i.status = 'Available'
+    AND NOT EXISTS (
+        SELECT 1 FROM maintenance_items mi 
+        WHERE mi.barcode = i.barcode AND mi.status = 'Out'
+    )
 ORDER BY i.item_name;
 
 -- View for active loans
@@ -293,50 +615,119 @@ SELECT
 FROM loan_transactions lt
 LEFT JOIN loan_items li ON lt.id = li.transaction_id
 LEFT JOIN items i ON li.barcode = i.barcode
-WHERE lt.status = 'Open' AND li.status = 'On Loan'
+WHERE lt.status IN ('Open', 'Overdue') AND li.status = 'On Loan'
 GROUP BY lt.id
 ORDER BY lt.due_date;
 
--- View for overdue loans
+-- View for overdue loans (vw_overdue_loans) is defined under DATA MIGRATIONS,
+-- after loan_items.due_date exists
+
+-- View for inventory summary
+CREATE OR REPLACE VIEW vw_inventory_summary AS
+SELECT 
+    status,
+    COUNT(*) as item_count,
+    SUM(price) as total_value,
+    ROUND(AVG(price), 2) as avg_price
+FROM items
+GROUP BY status
+ORDER BY item_count DESC;
+
+-- ==================== DATA MIGRATIONS ====================
+
+-- Stock counts used to overwrite items.status with 'Scanned'. Restore the loan
+-- state from loan_items; scan results now live in opname_scans / last_scanned.
+UPDATE items i
+SET status = CASE 
+        WHEN EXISTS (
+            SELECT 1 FROM loan_items li 
+            WHERE li.barcode = i.barcode AND li.status = 'On Loan'
+        ) THEN 'On Loan' 
+        ELSE 'Available' 
+    END,
+    last_scanned = COALESCE(i.last_scanned, i.updated_at)
+WHERE i.status = 'Scanned';
+
+-- Activity logs are now attributed to the authenticated user (id, IP, user agent)
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_activity_logs_user_id ON activity_logs(user_id);
+
+-- Borrowers can be blocked from new loans (e.g. while they have overdue items)
+ALTER TABLE borrowers ADD COLUMN IF NOT EXISTS is_blocked BOOLEAN DEFAULT FALSE;
+ALTER TABLE borrowers ADD COLUMN IF NOT EXISTS blocked_reason TEXT;
+ALTER TABLE borrowers ADD COLUMN IF NOT EXISTS blocked_at TIMESTAMP;
+ALTER TABLE borrowers ADD COLUMN IF NOT EXISTS blocked_by VARCHAR(100);
+
+-- Overdue escalation (0 = on time, 1 = 1-3 days, 2 = 4-7 days, 3 = 8+ days),
+-- recomputed daily by the server together with overdue_days / status 'Overdue'
+ALTER TABLE loan_transactions ADD COLUMN IF NOT EXISTS escalation_level INTEGER DEFAULT 0;
+
+-- Per-item due date set by partial extensions (NULL = follows loan_transactions.due_date)
+ALTER TABLE loan_items ADD COLUMN IF NOT EXISTS due_date DATE;
+
+-- View for overdue loans. An item is overdue by its own due date (after a
+-- partial extension) or the loan's; due_date is the earliest one still passed.
 CREATE OR REPLACE VIEW vw_overdue_loans AS
 SELECT 
     lt.id,
     lt.invoice_no,
     lt.borrower_name,
-    lt.due_date,
+    MIN(COALESCE(li.due_date, lt.due_date)) as due_date,
     lt.created_at,
     COUNT(li.id) as overdue_items,
-    CURRENT_DATE - lt.due_date as days_overdue
+    CURRENT_DATE - MIN(COALESCE(li.due_date, lt.due_date)) as days_overdue,
+    lt.borrower_id,
+    lt.program_name
 FROM loan_transactions lt
 JOIN loan_items li ON lt.id = li.transaction_id
-WHERE lt.status = 'Open' 
+WHERE lt.status IN ('Open', 'Overdue') 
     AND li.status = 'On Loan'
-    AND lt.due_date < CURRENT_DATE
+    AND COALESCE(li.due_date, lt.due_date) < CURRENT_DATE
 GROUP BY lt.id
 ORDER BY days_overdue DESC;
 
--- View for inventory summary
-CREATE OR REPLACE VIEW vw_inventory_summary AS
-SELECT 
-    status,
-    COUNT(*) as item_count,
-    SUM(price) as total_value,
-    ROUND(AVG(price), 2) as avg_price
-FROM items
-GROUP BY status
-ORDER BY item_count DESC;
+-- Return receipt number shared by the items returned in one operation
+ALTER TABLE loan_items ADD COLUMN IF NOT EXISTS return_no VARCHAR(100);
+
+-- Document numbers used to be derived from row counts. Continue today's
+-- numbering from the highest number already issued so nothing is reused.
+INSERT INTO document_sequences (doc_type, prefix, reset_period, period_key, last_value) VALUES
+    ('loan', 'INV', 'daily', TO_CHAR(CURRENT_DATE, 'YYYYMMDD'), (
+        SELECT COALESCE(MAX(SUBSTRING(invoice_no FROM '(\d+)$')::INTEGER), 0) FROM loan_transactions
+        WHERE invoice_no LIKE 'INV-' || TO_CHAR(CURRENT_DATE, 'YYYYMMDD') || '-%')),
+    ('return', 'RET', 'daily', TO_CHAR(CURRENT_DATE, 'YYYYMMDD'), 0),
+    ('maintenance', 'MNT', 'daily', TO_CHAR(CURRENT_DATE, 'YYYYMMDD'), (
+        SELECT COALESCE(MAX(SUBSTRING(ticket_no FROM '(\d+)$')::INTEGER), 0) FROM maintenance_tickets
+        WHERE ticket_no LIKE 'MNT-' || TO_CHAR(CURRENT_DATE, 'YYYYMMDD') || '-%')),
+    ('reservation', 'RSV', 'daily', TO_CHAR(CURRENT_DATE, 'YYYYMMDD'), (
+        SELECT COALESCE(MAX(SUBSTRING(reservation_no FROM '(\d+)$')::INTEGER), 0) FROM reservations
+        WHERE reservation_no LIKE 'RSV-' || TO_CHAR(CURRENT_DATE, 'YYYYMMDD') || '-%'))
+ON CONFLICT (doc_type) DO NOTHING;
+
+-- Counters of the current periods, from before periods were counted separately
+INSERT INTO document_sequence_periods (doc_type, period_key, last_value)
+SELECT doc_type, period_key, last_value FROM document_sequences
+ON CONFLICT (doc_type, period_key) DO NOTHING;
+
+-- Imports are written chunk by chunk: 'Running' while the job runs, 'Failed'
+-- when a chunk failed after earlier chunks were committed
+ALTER TABLE import_batches DROP CONSTRAINT IF EXISTS import_batches_status_check;
+ALTER TABLE import_batches ADD CONSTRAINT import_batches_status_check
+    CHECK (status IN ('Running', 'Completed', 'Failed', 'Rolled Back'));
+
+-- Internal barcodes for items imported without one (WRD-000001, ...)
+INSERT INTO document_sequences (doc_type, prefix, reset_period, period_key, last_value, padding)
+VALUES ('item', 'WRD', 'never', '', 0, 6)
+ON CONFLICT (doc_type) DO NOTHING;
+
+-- Condition an item came back from maintenance in (Good, Damaged, Written Off)
+ALTER TABLE maintenance_items ADD COLUMN IF NOT EXISTS received_condition VARCHAR(50);
 
 -- ==================== DEFAULT DATA ====================
 
--- Insert default admin user
-INSERT INTO users (username, password, fullname, role) 
-VALUES ('admin', 'admin123', 'Administrator', 'admin')
-ON CONFLICT (username) DO NOTHING;
-
--- Insert default staff user
-INSERT INTO users (username, password, fullname, role) 
-VALUES ('staff', 'staff123', 'Staff User', 'staff')
-ON CONFLICT (username) DO NOTHING;
+-- Users are not seeded: passwords must be hashed by the server.
+-- Create the first admin with:  npm run create-user -- admin <password> admin Administrator
+-- Rehash plaintext passwords of an existing database with:  npm run migrate:passwords
 
 -- Insert sample borrower
 INSERT INTO borrowers (nik, name, phone, position, department) 
@@ -351,11 +742,29 @@ ON CONFLICT (barcode) DO NOTHING;
 -- ==================== COMMENTS ====================
 
 COMMENT ON TABLE users IS 'System users for authentication and authorization';
+COMMENT ON TABLE user_sessions IS 'Login sessions; tokens are stored as SHA-256 hashes';
 COMMENT ON TABLE borrowers IS 'People who can borrow items from inventory';
 COMMENT ON TABLE items IS 'Inventory items with all details';
 COMMENT ON TABLE loan_transactions IS 'Header table for loan transactions';
 COMMENT ON TABLE loan_items IS 'Detail table for loaned items';
+COMMENT ON TABLE loan_extensions IS 'Due date extensions of a loan, for all or some of its items';
+COMMENT ON TABLE loan_extension_items IS 'Items moved by a loan extension with their previous due date';
+COMMENT ON TABLE loan_item_photos IS 'Photos taken during return inspection of a loaned item';
+COMMENT ON TABLE borrower_liabilities IS 'Amounts owed by borrowers for lost items; Open until paid or written off';
+COMMENT ON TABLE reservations IS 'Items booked for a program and date range, checked out as a loan at pickup';
+COMMENT ON TABLE reservation_items IS 'Items per reservation';
+COMMENT ON TABLE maintenance_tickets IS 'Laundry and repair batches sent out to a vendor';
+COMMENT ON TABLE maintenance_items IS 'Items per maintenance ticket; unavailable for loan while Out';
+COMMENT ON TABLE import_profiles IS 'Saved item import column mappings ({ field: header }) for recurring spreadsheets';
+COMMENT ON TABLE import_batches IS 'Excel imports into items; a Completed or Failed batch can be rolled back while its items were not loaned since';
+COMMENT ON TABLE import_batch_items IS 'Item values before an import batch changed them, used to roll the batch back';
+COMMENT ON TABLE document_sequences IS 'Per document type numbering (prefix, reset period, last issued value)';
+COMMENT ON TABLE document_sequence_periods IS 'Last issued value per document type and period';
 COMMENT ON TABLE activity_logs IS 'Audit trail for all system activities';
+COMMENT ON TABLE opname_sessions IS 'Named stock opname (stock count) sessions';
+COMMENT ON TABLE opname_scans IS 'Scan ledger per stock opname session';
+COMMENT ON TABLE opname_results IS 'Frozen per-item results of a closed stock opname session';
+COMMENT ON TABLE deleted_items IS 'Barcodes of deleted items, read by client catalogue caches syncing changes';
 
 -- ==================== GRANT PERMISSIONS ====================
 
@@ -0,0 +1,13 @@
+/*** FILE: wardrobe-server/db.js ***/
+const { Pool } = require('pg');
+
+// Database Configuration
+const pool = new Pool({
+  user: 'postgres',
+  host: 'localhost',
+  database: 'wardrobe_db',
+  password: 'Bohong19',
+  port: 5432,
+});
+
+module.exports = pool;
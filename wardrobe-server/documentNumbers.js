@@ -0,0 +1,35 @@
+/*** FILE: wardrobe-server/documentNumbers.js ***/
+
+// Document types numbered by next_document_number() in database.sql, with
+// their prefix / reset period stored in document_sequences. 'item' numbers
+// are internal barcodes for items delivered without one.
+const DOCUMENT_TYPES = ['loan', 'return', 'maintenance', 'reservation', 'item'];
+const RESET_PERIODS = ['daily', 'monthly', 'never'];
+const PREFIX_PATTERN = /^[A-Z0-9]{1,20}$/;
+
+// Issues the next number of a document type. Call it with the client of the
+// transaction that stores the document: the counter stays locked until that
+// transaction ends, so parallel requests never get the same number and a
+// rolled back request gives its number back.
+async function nextDocumentNumber(db, docType) {
+    const result = await db.query("SELECT next_document_number($1) as number", [docType]);
+    return result.rows[0].number;
+}
+
+// Internal barcode for a new item. Numbers that are already used as a
+// barcode (e.g. a supplier code that happens to look the same) are skipped.
+async function nextItemBarcode(db) {
+    for (;;) {
+        const barcode = await nextDocumentNumber(db, 'item');
+        const taken = await db.query("SELECT 1 FROM items WHERE barcode = $1", [barcode]);
+        if (taken.rows.length === 0) return barcode;
+    }
+}
+
+module.exports = {
+    DOCUMENT_TYPES,
+    RESET_PERIODS,
+    PREFIX_PATTERN,
+    nextDocumentNumber,
+    nextItemBarcode
+};
@@ -0,0 +1,740 @@
+/*** FILE: wardrobe-server/importer.js ***/
+const crypto = require('crypto');
+const fs = require('fs');
+const xlsx = require('xlsx');
+const ExcelJS = require('exceljs');
+const { nextItemBarcode } = require('./documentNumbers');
+
+// Item columns an Excel import can fill. Aliases are compared against whole
+// (normalised) headers first and only then as whole words inside a header, so
+// "No" or "Jenis" no longer match "Receive No" / "Jenis Kelamin" by accident.
+const IMPORT_FIELDS = [
+    { key: 'barcode',      label: 'Barcode',      required: true, aliases: ['barcode', 'kode barcode', 'kode barang', 'item code', 'code', 'kode', 'sku'] },
+    { key: 'item_name',    label: 'Item Name',    aliases: ['item name', 'nama barang', 'nama item', 'name', 'nama', 'item', 'description', 'deskripsi'] },
+    { key: 'brand',        label: 'Brand',        aliases: ['brand', 'merek', 'merk'] },
+    { key: 'size',         label: 'Size',         aliases: ['size', 'ukuran'] },
+    { key: 'color',        label: 'Color',        aliases: ['color', 'colour', 'warna'] },
+    { key: 'sex',          label: 'Sex',          aliases: ['sex', 'gender', 'jenis kelamin'] },
+    { key: 'type',         label: 'Type',         aliases: ['type', 'jenis', 'tipe'] },
+    { key: 'category',     label: 'Category',     aliases: ['category', 'kategori'] },
+    { key: 'price',        label: 'Price',        aliases: ['price', 'harga', 'harga satuan', 'unit price'] },
+    { key: 'receive_no',   label: 'Receive No',   aliases: ['receive no', 'receiving no', 'receive number', 'no penerimaan', 'no terima', 'nomor penerimaan', 'rec no'] },
+    { key: 'receive_date', label: 'Receive Date', aliases: ['receive date', 'receiving date', 'tanggal terima', 'tgl terima', 'tanggal penerimaan', 'date', 'tanggal', 'tgl'] },
+    { key: 'supplier',     label: 'Supplier',     aliases: ['supplier', 'vendor', 'pemasok'] }
+];
+
+// Uploaded files wait this long for the user to confirm the mapping
+const PENDING_IMPORT_TTL_MS = 30 * 60 * 1000;
+const pendingImports = new Map();
+
+// Rows per multi-row upsert (12 fields x 500 rows stays far below the 65535 parameter limit)
+const IMPORT_CHUNK_SIZE = 500;
+
+// Finished background imports are kept this long for the client to pick up the result
+const IMPORT_JOB_TTL_MS = 30 * 60 * 1000;
+const importJobs = new Map();
+
+function normalizeHeader(header) {
+    return String(header || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Rows between two yields to the event loop while a sheet is read
+const READ_CHUNK_SIZE = 1000;
+
+const nextTick = () => new Promise(resolve => setImmediate(resolve));
+
+const isEmptyRow = (row) => !row || !row.some(value => value !== null && value !== undefined && String(value).trim() !== '');
+
+// .xlsx files are zip archives; .xls and .csv uploads are not
+function isZipFile(filePath) {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        const signature = Buffer.alloc(4);
+        fs.readSync(fd, signature, 0, 4, 0);
+        return signature.equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+// exceljs cell values as plain values: formulas give their result, rich
+// text and hyperlinks their text
+function plainCellValue(value) {
+    if (value === null || value === undefined) return null;
+    if (typeof value !== 'object' || value instanceof Date) return value;
+    if (value.result !== undefined) return plainCellValue(value.result);
+    if (Array.isArray(value.richText)) return value.richText.map(part => part.text).join('');
+    if (value.text !== undefined) return plainCellValue(value.text);
+    if (value.error !== undefined) return null;
+    return String(value);
+}
+
+// Streams the rows of the first worksheet of an .xlsx file, yielding to the
+// event loop every READ_CHUNK_SIZE rows so progress polls are still answered
+// while a large file is read
+async function* streamXlsxRows(filePath) {
+    const workbookReader = new ExcelJS.stream.xlsx.WorkbookReader(filePath, {
+        sharedStrings: 'cache',
+        hyperlinks: 'ignore',
+        styles: 'ignore',
+        worksheets: 'emit'
+    });
+
+    for await (const worksheetReader of workbookReader) {
+        let count = 0;
+        for await (const row of worksheetReader) {
+            // row.values is 1-based
+            yield row.values.slice(1).map(plainCellValue);
+            if (++count % READ_CHUNK_SIZE === 0) await nextTick();
+        }
+        // Only the first sheet is imported
+        break;
+    }
+}
+
+// Rows of the first sheet, header row included. .xlsx files are streamed;
+// .xls and .csv files are small enough in practice to be read in one go.
+async function* sheetRows(filePath) {
+    if (isZipFile(filePath)) {
+        yield* streamXlsxRows(filePath);
+        return;
+    }
+    const workbook = xlsx.readFile(filePath, { dense: true });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    yield* xlsx.utils.sheet_to_json(worksheet, { header: 1, defval: null });
+}
+
+const toHeaders = (row) => Array.from(row || [], header => String(header || '').trim());
+
+// Reads the first sheet: the first row is the header row, empty rows are
+// dropped
+async function readSheet(filePath) {
+    const data = [];
+    for await (const row of sheetRows(filePath)) {
+        data.push(row);
+    }
+
+    if (data.length <= 1) {
+        throw new Error("Excel file is empty or has no data rows");
+    }
+
+    const headers = toHeaders(data[0]);
+    const rows = data.slice(1).filter(row => !isEmptyRow(row));
+    return { headers, rows };
+}
+
+// Reads the first sheet like readSheet, but yields its data rows
+// `chunkSize` at a time as { headers, rows, firstRow } so an import never
+// holds the whole file. firstRow is the row number of rows[0] as readSheet
+// counts them (header = row 1).
+async function* readSheetChunks(filePath, chunkSize = IMPORT_CHUNK_SIZE) {
+    let headers = null;
+    let rows = [];
+    let firstRow = 2;
+
+    for await (const row of sheetRows(filePath)) {
+        if (!headers) {
+            headers = toHeaders(row);
+        } else if (!isEmptyRow(row)) {
+            rows.push(row);
+            if (rows.length === chunkSize) {
+                yield { headers, rows, firstRow };
+                firstRow += rows.length;
+                rows = [];
+            }
+        }
+    }
+
+    if (rows.length > 0) {
+        yield { headers, rows, firstRow };
+    } else if (firstRow === 2) {
+        throw new Error("Excel file is empty or has no data rows");
+    }
+}
+
+// Suggested { field: header } mapping for a header row
+function suggestMapping(headers) {
+    const normalized = headers.map(normalizeHeader);
+    const mapping = {};
+    const used = new Set();
+
+    const assign = (field, index) => {
+        mapping[field.key] = headers[index];
+        used.add(index);
+    };
+
+    // Pass 1: whole header equals an alias
+    for (const field of IMPORT_FIELDS) {
+        const index = normalized.findIndex((header, i) => !used.has(i) && field.aliases.includes(header));
+        if (index >= 0) assign(field, index);
+    }
+
+    // Pass 2: alias appears as whole words in a header, longest (most specific) alias first
+    const candidates = IMPORT_FIELDS
+        .flatMap(field => field.aliases.map(alias => ({ field, alias })))
+        .sort((a, b) => b.alias.length - a.alias.length);
+
+    for (const { field, alias } of candidates) {
+        if (mapping[field.key]) continue;
+        const index = normalized.findIndex((header, i) => !used.has(i) && ` ${header} `.includes(` ${alias} `));
+        if (index >= 0) assign(field, index);
+    }
+
+    return mapping;
+}
+
+// Turns a { field: header } mapping into { field: columnIndex }. Headers are
+// matched case-insensitively so saved profiles survive small header edits.
+// With `generateBarcodes` the Barcode column is optional.
+// Returns { columns, errors }.
+function resolveMapping(headers, mapping = {}, { generateBarcodes = false } = {}) {
+    const normalized = headers.map(normalizeHeader);
+    const columns = {};
+    const errors = [];
+
+    for (const field of IMPORT_FIELDS) {
+        const header = mapping[field.key];
+        if (!header) continue;
+
+        const index = normalized.indexOf(normalizeHeader(header));
+        if (index < 0) {
+            errors.push(`Column "${header}" for ${field.label} is not in this file`);
+        } else {
+            columns[field.key] = index;
+        }
+    }
+
+    if (columns.barcode === undefined && !generateBarcodes) {
+        errors.push("A column must be mapped to Barcode");
+    }
+
+    return { columns, errors };
+}
+
+// "Rp 150.000", "150,000.50" and "1.250.000,00" are all read as rupiah amounts:
+// a separator followed by exactly three digits is a thousands separator
+function cleanPrice(val) {
+    if (!val) return 0;
+    if (typeof val === 'number') return val;
+    let cleaned = String(val).replace(/[^0-9.,-]/g, '');
+    const lastSeparator = Math.max(cleaned.lastIndexOf('.'), cleaned.lastIndexOf(','));
+    if (lastSeparator >= 0 && cleaned.length - lastSeparator - 1 !== 3) {
+        // Last separator is the decimal point
+        cleaned = cleaned.slice(0, lastSeparator).replace(/[.,]/g, '') + '.' + cleaned.slice(lastSeparator + 1);
+    } else {
+        cleaned = cleaned.replace(/[.,]/g, '');
+    }
+    return parseFloat(cleaned) || 0;
+}
+
+// Calendar date for day / month / year, or null when it does not exist
+// (31-04-2024, 29-02-2023, month 13)
+function calendarDate(year, month, day) {
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+const formatDate = (date) => `${String(date.getDate()).padStart(2, '0')}-${String(date.getMonth() + 1).padStart(2, '0')}-${date.getFullYear()}`;
+
+// Receive dates as Excel serials, Date cells or text in one of
+// DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY, YYYY/MM/DD, YYYY-MM-DD, MM/DD/YYYY
+// and MM-DD-YYYY (an optional time after the date is ignored). Text that is
+// a valid date both as DD/MM and as MM/DD, with different results, is
+// ambiguous and not guessed. Returns { date, error }; both are null for an
+// empty value.
+function parseDate(val) {
+    if (val === null || val === undefined || String(val).trim() === '') return { date: null, error: null };
+
+    if (val instanceof Date) {
+        return isNaN(val.getTime()) ? { date: null, error: 'is not a valid date' } : { date: val, error: null };
+    }
+
+    // Excel serial: days since 1899-12-30, which is right for every date
+    // after Excel's phantom 29-02-1900
+    if (typeof val === 'number') {
+        if (!Number.isFinite(val) || val < 1) return { date: null, error: 'is not a valid date' };
+        return { date: new Date(1899, 11, 30 + Math.floor(val)), error: null };
+    }
+
+    const text = String(val).trim().replace(/[ T]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/, '');
+
+    // YYYY/MM/DD, YYYY-MM-DD
+    let match = text.match(/^(\d{4})([/-])(\d{1,2})\2(\d{1,2})$/);
+    if (match) {
+        const date = calendarDate(Number(match[1]), Number(match[3]), Number(match[4]));
+        return date ? { date, error: null } : { date: null, error: 'is not a valid date' };
+    }
+
+    // DD.MM.YYYY
+    match = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+    if (match) {
+        const date = calendarDate(Number(match[3]), Number(match[2]), Number(match[1]));
+        return date ? { date, error: null } : { date: null, error: 'is not a valid date' };
+    }
+
+    // DD/MM/YYYY, DD-MM-YYYY, MM/DD/YYYY, MM-DD-YYYY
+    match = text.match(/^(\d{1,2})([/-])(\d{1,2})\2(\d{4})$/);
+    if (match) {
+        const [first, second, year] = [Number(match[1]), Number(match[3]), Number(match[4])];
+        const dayFirst = calendarDate(year, second, first);
+        const monthFirst = calendarDate(year, first, second);
+        if (dayFirst && monthFirst && dayFirst.getTime() !== monthFirst.getTime()) {
+            return { date: null, error: `is ambiguous (${formatDate(dayFirst)} or ${formatDate(monthFirst)}); use YYYY-MM-DD` };
+        }
+        const date = dayFirst || monthFirst;
+        return date ? { date, error: null } : { date: null, error: 'is not a valid date' };
+    }
+
+    return { date: null, error: 'is not in a supported date format' };
+}
+
+// One sheet row as an items record, only with the mapped fields
+function toRecord(row, columns) {
+    const record = {};
+    for (const [field, index] of Object.entries(columns)) {
+        const value = row[index];
+        if (field === 'price') {
+            record.price = cleanPrice(value);
+        } else if (field === 'receive_date') {
+            record.receive_date = parseDate(value).date;
+        } else {
+            record[field] = value === null || value === undefined ? '' : String(value).trim();
+        }
+    }
+    return record;
+}
+
+const isBlank = (value) => value === null || value === undefined || String(value).trim() === '';
+
+// Full validation of the mapped rows before anything is written: required
+// fields, price and date format, barcodes repeated in the file and barcodes
+// of items that are currently on loan. With `generateBarcodes` a row without
+// a barcode is a new item that gets an internal barcode on import.
+// Returns one { row, barcode, errors } per data row (row = 1-based sheet row)
+// plus valid / invalid counts.
+//
+// A file checked in chunks passes the sheet row of its first row as
+// `firstRow` and the same `seenBarcodes` map (barcode -> first row) for
+// every chunk, so a barcode repeated in a later chunk is still reported.
+async function validateRows(db, rows, columns, { generateBarcodes = false, firstRow = 2, seenBarcodes = null } = {}) {
+    const barcodeOf = (row) => isBlank(row[columns.barcode]) ? '' : String(row[columns.barcode]).trim();
+    const barcodes = [...new Set(rows.map(barcodeOf).filter(Boolean))];
+
+    const existingRes = await db.query(`
+        SELECT i.barcode, i.status, lt.invoice_no, lt.borrower_name
+        FROM items i
+        LEFT JOIN loan_items li ON li.barcode = i.barcode AND li.status = 'On Loan'
+        LEFT JOIN loan_transactions lt ON lt.id = li.transaction_id
+        WHERE i.barcode = ANY($1)
+    `, [barcodes]);
+    const existing = new Map(existingRes.rows.map(item => [item.barcode, item]));
+
+    const rowsByBarcode = new Map();
+    rows.forEach((row, i) => {
+        const barcode = barcodeOf(row);
+        if (barcode) rowsByBarcode.set(barcode, [...(rowsByBarcode.get(barcode) || []), firstRow + i]);
+    });
+
+    const results = rows.map((row, i) => {
+        const barcode = barcodeOf(row);
+        const errors = [];
+
+        if (!barcode) {
+            if (!generateBarcodes) {
+                errors.push("Barcode is required");
+            } else if (columns.item_name === undefined || isBlank(row[columns.item_name])) {
+                errors.push("Item name is required for new items");
+            }
+        } else {
+            const sameBarcode = rowsByBarcode.get(barcode);
+            const earlierRow = seenBarcodes && seenBarcodes.get(barcode);
+            if (earlierRow) {
+                errors.push(`Duplicate barcode in file (first on row ${earlierRow})`);
+            } else if (sameBarcode.length > 1) {
+                errors.push(`Duplicate barcode in file (rows ${sameBarcode.join(', ')})`);
+            }
+
+            const item = existing.get(barcode);
+            if (item && item.status === 'On Loan') {
+                errors.push(`Item is on loan${item.invoice_no ? ` (${item.invoice_no}, ${item.borrower_name})` : ''}; import it after it is returned`);
+            }
+            if (!item && (columns.item_name === undefined || isBlank(row[columns.item_name]))) {
+                errors.push("Item name is required for new items");
+            }
+        }
+
+        if (columns.price !== undefined && !isBlank(row[columns.price])) {
+            const raw = row[columns.price];
+            if (typeof raw !== 'number' && !/\d/.test(String(raw))) {
+                errors.push(`Price "${raw}" is not a number`);
+            } else if (cleanPrice(raw) < 0) {
+                errors.push(`Price "${raw}" is negative`);
+            }
+        }
+
+        if (columns.receive_date !== undefined && !isBlank(row[columns.receive_date])) {
+            const { error } = parseDate(row[columns.receive_date]);
+            if (error) {
+                errors.push(`Receive date "${row[columns.receive_date]}" ${error}`);
+            }
+        }
+
+        return { row: firstRow + i, barcode, errors };
+    });
+
+    if (seenBarcodes) {
+        for (const [barcode, rowNumbers] of rowsByBarcode) {
+            if (!seenBarcodes.has(barcode)) seenBarcodes.set(barcode, rowNumbers[0]);
+        }
+    }
+
+    const invalid = results.filter(result => result.errors.length > 0).length;
+    return { results, valid: results.length - invalid, invalid };
+}
+
+// The uploaded sheet with an "Import Errors" column, for fixing and re-uploading
+function buildErrorReport(headers, rows, results) {
+    const aoa = [
+        [...headers, 'Import Errors'],
+        ...rows.map((row, i) => [
+            ...headers.map((_, column) => (row[column] === undefined ? null : row[column])),
+            results[i].errors.join('; ')
+        ])
+    ];
+    const worksheet = xlsx.utils.aoa_to_sheet(aoa);
+    const workbook = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(workbook, worksheet, 'Import Check');
+    return xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+// Item values in a comparable form: prices as numbers, dates as YYYY-MM-DD
+function comparableValue(field, value) {
+    if (value === null || value === undefined || value === '') return '';
+    if (field === 'price') return Number(value);
+    if (field === 'receive_date') {
+        if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+        const date = value instanceof Date ? value : new Date(value);
+        if (isNaN(date.getTime())) return '';
+        const pad = (n) => String(n).padStart(2, '0');
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+    return String(value);
+}
+
+// Upserts the sheet rows into items, skipping the rows listed in
+// `invalidRows` (sheet row numbers). Only mapped fields are written, so
+// columns missing from the file keep their current values. Rows are written
+// IMPORT_CHUNK_SIZE at a time with one multi-row upsert; a chunk that fails
+// is retried row by row so only the bad rows are reported.
+//
+// With `batchId` the values each row overwrites are kept in
+// import_batch_items so the batch can be rolled back. With `dryRun` nothing
+// is written and `changes` lists what the import would add or change.
+// With `generateBarcodes` rows without a barcode are added under the next
+// internal barcode (document type 'item') instead of being skipped.
+// `firstRow` is the sheet row of rows[0] when a file is imported in chunks.
+// `onProgress(rowsDone)` is called after every chunk.
+// Must run inside an open transaction unless `dryRun` is set.
+// Returns { added, updated, skipped, generated, errors, changes }.
+async function importRecords(client, rows, columns, { invalidRows = new Set(), batchId = null, dryRun = false, generateBarcodes = false, firstRow = 2, onProgress = null } = {}) {
+    const fields = Object.keys(columns).filter(field => field !== 'barcode' && field !== 'item_name');
+    const writtenFields = [...fields, ...(columns.item_name !== undefined ? ['item_name'] : [])];
+    const updates = writtenFields.map(field => `${field} = EXCLUDED.${field}`);
+    const rowColumns = 2 + fields.length;
+
+    // Before-image of the fields this import writes (field names come from IMPORT_FIELDS)
+    const beforeQuery = `
+        SELECT barcode, jsonb_build_object(${writtenFields.map(field => `'${field}', ${field}`).join(', ')}) as before_data
+        FROM items WHERE barcode = ANY($1)${dryRun ? '' : ' FOR UPDATE'}
+    `;
+
+    const stats = { added: 0, updated: 0, skipped: 0, generated: 0, errors: [], changes: [] };
+    // Dry run: barcodes "added" by earlier rows of the same file
+    const plannedAdds = new Set();
+
+    const loadBefore = async (entries) => {
+        const beforeRes = await client.query(beforeQuery, [entries.map(entry => entry.record.barcode)]);
+        return new Map(beforeRes.rows.map(row => [row.barcode, row.before_data]));
+    };
+
+    const planChunk = async (entries) => {
+        const before = await loadBefore(entries);
+        for (const { rowNumber, record } of entries) {
+            const current = before.get(record.barcode);
+            if (!current && !plannedAdds.has(record.barcode)) {
+                plannedAdds.add(record.barcode);
+                stats.added++;
+                stats.changes.push({ row: rowNumber, barcode: record.barcode, action: 'Added', fields: [] });
+                continue;
+            }
+
+            stats.updated++;
+            const changed = current ? writtenFields
+                .map(field => ({
+                    field,
+                    from: comparableValue(field, current[field]),
+                    to: comparableValue(field, record[field])
+                }))
+                .filter(change => change.from !== change.to) : [];
+            if (changed.length > 0) {
+                stats.changes.push({ row: rowNumber, barcode: record.barcode, action: 'Updated', fields: changed });
+            }
+        }
+    };
+
+    const writeChunk = async (entries) => {
+        try {
+            // Savepoint so one bad chunk does not abort the whole import
+            await client.query('SAVEPOINT import_chunk');
+            const before = await loadBefore(entries);
+
+            const params = [];
+            const values = entries.map(({ record }) => {
+                params.push(record.barcode, record.item_name || `Item ${record.barcode}`, ...fields.map(field => record[field]));
+                const offset = params.length - rowColumns;
+                return `(${Array.from({ length: rowColumns }, (_, i) => `$${offset + i + 1}`).join(', ')}, 'Available', NOW())`;
+            });
+
+            const result = await client.query(`
+                INSERT INTO items (barcode, item_name${fields.map(field => `, ${field}`).join('')}, status, updated_at)
+                VALUES ${values.join(',\n                       ')}
+                ON CONFLICT (barcode) DO UPDATE SET
+                    ${[...updates, 'updated_at = NOW()'].join(',\n                    ')}
+                RETURNING barcode, (xmax = 0) as inserted
+            `, params);
+
+            if (batchId) {
+                // A barcode repeated in the file keeps the image from before its first row
+                await client.query(`
+                    INSERT INTO import_batch_items (batch_id, barcode, action, before_data)
+                    SELECT $1, barcode, action, before_data
+                    FROM unnest($2::varchar[], $3::varchar[], $4::jsonb[]) AS t(barcode, action, before_data)
+                    ON CONFLICT (batch_id, barcode) DO NOTHING
+                `, [
+                    batchId,
+                    result.rows.map(row => row.barcode),
+                    result.rows.map(row => (row.inserted ? 'Added' : 'Updated')),
+                    result.rows.map(row => (row.inserted ? null : JSON.stringify(before.get(row.barcode))))
+                ]);
+            }
+            await client.query('RELEASE SAVEPOINT import_chunk');
+
+            const inserted = result.rows.filter(row => row.inserted).length;
+            stats.added += inserted;
+            stats.updated += result.rows.length - inserted;
+        } catch (chunkError) {
+            await client.query('ROLLBACK TO SAVEPOINT import_chunk');
+            if (entries.length === 1) {
+                stats.errors.push(`Row ${entries[0].rowNumber}: ${chunkError.message}`);
+                return;
+            }
+            for (const entry of entries) {
+                await writeChunk([entry]);
+            }
+        }
+    };
+
+    let chunk = [];
+    let chunkBarcodes = new Set();
+    let done = 0;
+    const flush = async () => {
+        if (chunk.length > 0) {
+            await (dryRun ? planChunk(chunk) : writeChunk(chunk));
+        }
+        chunk = [];
+        chunkBarcodes = new Set();
+        if (onProgress) onProgress(done);
+    };
+
+    for (const [i, row] of rows.entries()) {
+        const record = toRecord(row, columns);
+        const rowNumber = firstRow + i;
+        const missingBarcode = !record.barcode || record.barcode === 'undefined' || record.barcode === 'null';
+
+        if (invalidRows.has(rowNumber) || (missingBarcode && !generateBarcodes)) {
+            stats.skipped++;
+        } else if (missingBarcode && dryRun) {
+            // Internal barcodes are only issued by a real import
+            stats.added++;
+            stats.generated++;
+            stats.changes.push({ row: rowNumber, barcode: '', action: 'Added', fields: [] });
+        } else {
+            if (missingBarcode) {
+                record.barcode = await nextItemBarcode(client);
+                stats.generated++;
+            }
+            // One upsert cannot touch the same barcode twice
+            if (chunkBarcodes.has(record.barcode)) await flush();
+            chunk.push({ rowNumber, record });
+            chunkBarcodes.add(record.barcode);
+        }
+
+        done = i + 1;
+        if (chunk.length >= IMPORT_CHUNK_SIZE) await flush();
+    }
+    await flush();
+
+    // Rows with a generated barcode are planned before the chunk they sit in
+    stats.changes.sort((a, b) => a.row - b.row);
+    return stats;
+}
+
+// Why a batch cannot be rolled back: its items that were loaned after the
+// import, items it added that reservations or maintenance tickets now refer
+// to (removing them would delete those lines with them), and later imports
+// that changed the same items again and were not rolled back
+async function findRollbackConflicts(db, batch) {
+    const loanedRes = await db.query(`
+        SELECT DISTINCT li.barcode
+        FROM import_batch_items bi
+        JOIN loan_items li ON li.barcode = bi.barcode
+        WHERE bi.batch_id = $1 AND (li.created_at >= $2 OR bi.action = 'Added')
+        ORDER BY li.barcode
+    `, [batch.id, batch.created_at]);
+
+    const inUseRes = await db.query(`
+        SELECT bi.barcode
+        FROM import_batch_items bi
+        WHERE bi.batch_id = $1 AND bi.action = 'Added'
+          AND (EXISTS (SELECT 1 FROM reservation_items ri WHERE ri.barcode = bi.barcode)
+               OR EXISTS (SELECT 1 FROM maintenance_items mi WHERE mi.barcode = bi.barcode))
+        ORDER BY bi.barcode
+    `, [batch.id]);
+
+    const laterRes = await db.query(`
+        SELECT DISTINCT b.id, b.file_name
+        FROM import_batch_items bi
+        JOIN import_batch_items later ON later.barcode = bi.barcode AND later.batch_id > bi.batch_id
+        JOIN import_batches b ON b.id = later.batch_id AND b.status <> 'Rolled Back'
+        WHERE bi.batch_id = $1
+        ORDER BY b.id
+    `, [batch.id]);
+
+    return {
+        loaned: loanedRes.rows.map(row => row.barcode),
+        in_use: inUseRes.rows.map(row => row.barcode),
+        later_batches: laterRes.rows
+    };
+}
+
+// Restores the before-image of every item a batch updated and removes the
+// items it added. Runs inside an open transaction; conflicts are checked by
+// the caller with findRollbackConflicts. Returns { restored, removed }.
+async function rollbackImportBatch(client, batchId) {
+    const fields = IMPORT_FIELDS.map(field => field.key).filter(field => field !== 'barcode');
+
+    const restoreRes = await client.query(`
+        UPDATE items i SET
+            ${fields.map(field => `${field} = CASE WHEN bi.before_data ? '${field}' THEN prev.${field} ELSE i.${field} END`).join(',\n            ')},
+            updated_at = NOW()
+        FROM import_batch_items bi
+        CROSS JOIN LATERAL jsonb_populate_record(NULL::items, bi.before_data) prev
+        WHERE bi.batch_id = $1 AND bi.action = 'Updated' AND i.barcode = bi.barcode
+    `, [batchId]);
+
+    const removeRes = await client.query(`
+        DELETE FROM items
+        WHERE barcode IN (SELECT barcode FROM import_batch_items WHERE batch_id = $1 AND action = 'Added')
+    `, [batchId]);
+
+    return { restored: restoreRes.rowCount, removed: removeRes.rowCount };
+}
+
+function removeFile(filePath) {
+    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+}
+
+function sweepPendingImports() {
+    const now = Date.now();
+    for (const [token, pending] of pendingImports) {
+        if (pending.expiresAt < now) {
+            removeFile(pending.path);
+            pendingImports.delete(token);
+        }
+    }
+}
+
+// Keeps an uploaded file until the mapping is confirmed; returns its token.
+// `totalRows` from the preview lets the import job report its progress.
+function createPendingImport(file, username, totalRows = 0) {
+    sweepPendingImports();
+    const token = crypto.randomBytes(16).toString('hex');
+    pendingImports.set(token, {
+        path: file.path,
+        fileName: file.originalname,
+        username,
+        totalRows,
+        expiresAt: Date.now() + PENDING_IMPORT_TTL_MS
+    });
+    return token;
+}
+
+// Pending imports can only be used by the user who uploaded them
+function getPendingImport(token, username) {
+    sweepPendingImports();
+    const pending = pendingImports.get(token);
+    return pending && pending.username === username ? pending : null;
+}
+
+function discardPendingImport(token) {
+    const pending = pendingImports.get(token);
+    if (!pending) return;
+    removeFile(pending.path);
+    pendingImports.delete(token);
+}
+
+function sweepImportJobs() {
+    const now = Date.now();
+    for (const [id, job] of importJobs) {
+        if (job.finished_at && job.finished_at.getTime() + IMPORT_JOB_TTL_MS < now) {
+            importJobs.delete(id);
+        }
+    }
+}
+
+// Registers a background import; the caller runs it and updates status,
+// phase, processed / total (0 while the row count is unknown) and finally
+// result or error
+function createImportJob(username, fileName) {
+    sweepImportJobs();
+    const job = {
+        id: crypto.randomBytes(8).toString('hex'),
+        username,
+        file_name: fileName,
+        status: 'queued',
+        phase: 'Waiting to start',
+        processed: 0,
+        total: 0,
+        result: null,
+        error: null,
+        created_at: new Date(),
+        finished_at: null
+    };
+    importJobs.set(job.id, job);
+    return job;
+}
+
+// Jobs can only be followed by the user who started them
+function getImportJob(id, username) {
+    sweepImportJobs();
+    const job = importJobs.get(id);
+    return job && job.username === username ? job : null;
+}
+
+module.exports = {
+    IMPORT_FIELDS,
+    readSheet,
+    readSheetChunks,
+    suggestMapping,
+    resolveMapping,
+    validateRows,
+    buildErrorReport,
+    importRecords,
+    findRollbackConflicts,
+    rollbackImportBatch,
+    createPendingImport,
+    getPendingImport,
+    discardPendingImport,
+    createImportJob,
+    getImportJob
+};
@@ -1,16 +1,32 @@
 /*** FILE: wardrobe-server/index.js ***/
 const express = require('express');
-const { Pool } = require('pg');
 const cors = require('cors');
 const multer = require('multer');
-const xlsx = require('xlsx');
 const fs = require('fs');
 const path = require('path');
+const pool = require('./db');
+const { hashPassword, verifyPassword, verifyUnknownUser, createSession, revokeSession, revokeUserSessions, requireAuth, MIN_PASSWORD_LENGTH } = require('./auth');
+const { ROLES, permissionsFor, requirePermission } = require('./permissions');
+const { OVERDUE_BUCKETS, ITEM_DUE_DATE_SQL, refreshOverdueLoans, scheduleDaily } = require('./overdue');
+const { getLoanDocument, isValidSignature, renderLoanHtml, renderLoanPdf } = require('./loanDocument');
+const { RESERVATION_STATUSES, findReservationConflicts, findReservedForLoan } = require('./reservations');
+const { DOCUMENT_TYPES, RESET_PERIODS, PREFIX_PATTERN, nextDocumentNumber } = require('./documentNumbers');
+const { insertLoan } = require('./loans');
+const { IMPORT_FIELDS, readSheet, readSheetChunks, suggestMapping, resolveMapping, validateRows, buildErrorReport, importRecords, findRollbackConflicts, rollbackImportBatch, createPendingImport, getPendingImport, discardPendingImport, createImportJob, getImportJob } = require('./importer');
+const { INVENTORY_FILTERS, writeInventoryWorkbook, writeLoanHistoryWorkbook, writeActiveLoansWorkbook, writeActivityLogWorkbook, sendAsXlsx } = require('./spreadsheetExport');
+const { LABEL_TEMPLATES, LABEL_SYMBOLOGIES, MAX_COPIES, MAX_LABELS, getLabelItems, renderLabels } = require('./labels');
+const { MONTH_PATTERN, renderOpnameReport, getMonthlyLoanReport, renderMonthlyLoanReport, getOverdueReport, renderOverdueReport } = require('./pdfReports');
 
 const app = express();
 const PORT = 5000;
 const HOST = '0.0.0.0';
 
+// Behind nginx / a load balancer set TRUST_PROXY (e.g. "loopback") so
+// req.ip in the audit log is the client address, not the proxy's
+if (process.env.TRUST_PROXY) {
+    app.set('trust proxy', process.env.TRUST_PROXY);
+}
+
 // Middleware
 app.use(cors({
   origin: '*',
@@ -20,15 +36,6 @@ app.use(cors({
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
-// Database Configuration
-const pool = new Pool({
-  user: 'postgres',
-  host: 'localhost',
-  database: 'wardrobe_db',
-  password: 'Bohong19',
-  port: 5432,
-});
-
 // Test database connection
 pool.connect((err, client, release) => {
   if (err) {
@@ -58,55 +65,336 @@ const upload = multer({
 });
 
 // --- HELPER FUNCTIONS ---
-async function logActivity(user, action, entity, id, details) {
+
+// Loan lifecycle states an item can be in. Stock count results are tracked
+// separately in opname_scans / items.last_scanned, never in items.status.
+const ITEM_STATUSES = ['Available', 'On Loan', 'Damaged', 'Lost', 'In Laundry', 'In Repair', 'Written Off'];
+
+// Maintenance ticket type -> item status while the item is with the vendor.
+// Items are set by the maintenance routes and by dirty returns only, and come
+// back with the status of their RECEIVE_CONDITIONS entry.
+const MAINTENANCE_TYPES = {
+    Laundry: 'In Laundry',
+    Repair:  'In Repair'
+};
+const MAINTENANCE_SENDABLE_STATUSES = ['Available', 'Damaged'];
+
+// Condition an item comes back from maintenance in -> resulting item status.
+// Only items that came back fine return to the loanable pool.
+const RECEIVE_CONDITIONS = {
+    Good:          { itemStatus: 'Available' },
+    Damaged:       { itemStatus: 'Damaged' },
+    'Written Off': { itemStatus: 'Written Off' }
+};
+
+// Return inspection outcome -> resulting item status. Dirty pieces go to
+// laundry on a maintenance ticket; damaged and lost pieces must not go back
+// into the loanable pool.
+const RETURN_CONDITIONS = {
+    Good:    { itemStatus: 'Available', loanItemStatus: 'Returned' },
+    Dirty:   { itemStatus: MAINTENANCE_TYPES.Laundry, loanItemStatus: 'Returned' },
+    Damaged: { itemStatus: 'Damaged',   loanItemStatus: 'Returned' },
+    Lost:    { itemStatus: 'Lost',      loanItemStatus: 'Lost' }
+};
+const MAX_RETURN_PHOTOS = 5;
+
+// Outcomes of a borrower liability; 'Open' until one of these is recorded
+const LIABILITY_RESOLUTIONS = ['Paid', 'Written Off'];
+
+// Id of the open or paused stock opname session, used to flag scanned items
+const ACTIVE_OPNAME_SESSION_SQL = `(
+    SELECT id FROM opname_sessions 
+    WHERE status IN ('Open', 'Paused') 
+    ORDER BY opened_at DESC LIMIT 1
+)`;
+
+// Borrower row plus open-loan and overdue-item counts
+const BORROWER_SUMMARY_SQL = `
+    SELECT b.*, 
+           COALESCE(s.active_loans, 0)::int as active_loans,
+           COALESCE(s.overdue_items, 0)::int as overdue_items,
+           COALESCE(l.open_liability, 0) as open_liability
+    FROM borrowers b
+    LEFT JOIN (
+        SELECT lt.borrower_id,
+               COUNT(DISTINCT lt.id) FILTER (WHERE li.status = 'On Loan') as active_loans,
+               COUNT(li.id) FILTER (WHERE li.status = 'On Loan' AND ${ITEM_DUE_DATE_SQL} < CURRENT_DATE) as overdue_items
+        FROM loan_transactions lt
+        JOIN loan_items li ON li.transaction_id = lt.id
+        GROUP BY lt.borrower_id
+    ) s ON s.borrower_id = b.id
+    LEFT JOIN (
+        SELECT borrower_id, SUM(amount) as open_liability
+        FROM borrower_liabilities
+        WHERE status = 'Open'
+        GROUP BY borrower_id
+    ) l ON l.borrower_id = b.id
+`;
+
+// Audit entries are attributed to the authenticated user of the request,
+// never to a name sent in the request body. `actor` is only passed by login;
+// scheduled jobs pass req = null and are logged as 'System'.
+async function logActivity(req, action, entity, id, details, actor = req ? req.user : null) {
     try {
-        const query = `INSERT INTO activity_logs (user_name, action_type, entity, entity_id, details) VALUES ($1, $2, $3, $4, $5)`;
-        await pool.query(query, [user || 'System', action, entity, id, details]);
+        const query = `
+            INSERT INTO activity_logs (user_id, user_name, action_type, entity, entity_id, details, ip_address, user_agent) 
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `;
+        await pool.query(query, [
+            actor ? actor.id : null, 
+            actor ? actor.username : 'System', 
+            action, entity, id, details, 
+            req ? req.ip : null, 
+            req ? req.get('user-agent') || null : null
+        ]);
     } catch (err) {
         console.error("Log Error:", err.message);
     }
 }
 
-function cleanPrice(val) {
-    if (!val) return 0;
-    if (typeof val === 'number') return val;
-    const cleaned = String(val).replace(/[^0-9.,]/g, '').replace(',', '.');
-    return parseFloat(cleaned) || 0;
+// Marks overdue loans and logs every escalation to the next aging bucket
+async function runOverdueCheck(req = null) {
+    const result = await refreshOverdueLoans(pool);
+    for (const loan of result.escalated) {
+        await logActivity(req, 'ESCALATE_OVERDUE', 'LOAN', String(loan.id), 
+            `${loan.invoice_no} (${loan.borrower_name}) overdue ${loan.overdue_days} days, escalation level ${loan.escalation_level}`);
+    }
+    console.log(`⏰ Overdue check: ${result.overdue} overdue, ${result.escalated.length} escalated, ${result.cleared} cleared`);
+    return result;
+}
+
+// Checks a return inspection ({ condition, notes, photos }); returns an error message or null
+function validateInspection(inspection) {
+    const { condition = 'Good', photos = [] } = inspection;
+    if (!RETURN_CONDITIONS[condition]) {
+        return `Invalid condition. Use one of: ${Object.keys(RETURN_CONDITIONS).join(', ')}`;
+    }
+    if (!Array.isArray(photos) || photos.length > MAX_RETURN_PHOTOS) {
+        return `Up to ${MAX_RETURN_PHOTOS} photos can be attached per item`;
+    }
+    if (photos.some(photo => !/^data:image\/(png|jpe?g|webp);base64,/.test(photo))) {
+        return "Photos must be PNG, JPEG or WEBP images";
+    }
+    return null;
 }
 
-function parseDate(val) {
-    if (!val) return null;
-    if (val instanceof Date) return val;
-    
-    // Handle Excel serial date
-    if (typeof val === 'number') {
-        const excelEpoch = new Date(1899, 11, 30);
-        const days = val - 1;
-        return new Date(excelEpoch.getTime() + days * 86400000);
+// Returns one item of an active loan inside an open transaction: stores the
+// inspection on loan_items, updates the item's condition / status, records a
+// liability for lost items and closes the transaction once nothing is on loan.
+// Returns null if not on loan.
+async function returnLoanItem(client, barcode, inspection = {}, actor = null) {
+    const { condition = 'Good', notes = null, photos = [] } = inspection;
+    const outcome = RETURN_CONDITIONS[condition];
+
+    const findItem = await client.query(`
+        SELECT li.id, li.transaction_id, lt.invoice_no, lt.borrower_id, lt.borrower_name, i.item_name, i.price 
+        FROM loan_items li 
+        JOIN loan_transactions lt ON li.transaction_id = lt.id
+        JOIN items i ON li.barcode = i.barcode
+        WHERE li.barcode = $1 AND li.status = 'On Loan'
+        LIMIT 1
+        FOR UPDATE OF li
+    `, [barcode]);
+
+    if (findItem.rows.length === 0) return null;
+
+    const itemData = findItem.rows[0];
+
+    await client.query(`
+        UPDATE loan_items 
+        SET status = $1, returned_at = NOW(), return_condition = $2, return_notes = $3 
+        WHERE id = $4
+    `, [outcome.loanItemStatus, condition, notes || null, itemData.id]);
+
+    for (const photo of photos) {
+        await client.query(
+            "INSERT INTO loan_item_photos (loan_item_id, photo_base64) VALUES ($1, $2)",
+            [itemData.id, photo]
+        );
+    }
+
+    await client.query(
+        "UPDATE items SET status = $1, condition = $2, updated_at = NOW() WHERE barcode = $3", 
+        [outcome.itemStatus, condition, barcode]
+    );
+
+    let liability = null;
+    if (outcome.loanItemStatus === 'Lost') {
+        const liabilityRes = await client.query(`
+            INSERT INTO borrower_liabilities 
+                (borrower_id, borrower_name, transaction_id, loan_item_id, barcode, item_name, amount, notes, created_by)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            RETURNING *
+        `, [itemData.borrower_id, itemData.borrower_name, itemData.transaction_id, itemData.id, 
+            barcode, itemData.item_name, itemData.price || 0, notes || null, actor]);
+        liability = liabilityRes.rows[0];
     }
+
+    const check = await client.query(
+        "SELECT COUNT(*) FROM loan_items WHERE transaction_id = $1 AND status = 'On Loan'", 
+        [itemData.transaction_id]
+    );
     
-    // Handle string date formats
-    if (typeof val === 'string') {
-        // Try multiple date formats
-        const dateFormats = [
-            'DD/MM/YYYY', 'DD-MM-YYYY', 'DD.MM.YYYY',
-            'YYYY/MM/DD', 'YYYY-MM-DD',
-            'MM/DD/YYYY', 'MM-DD-YYYY'
-        ];
-        
-        for (const format of dateFormats) {
-            const date = new Date(val.replace(/(\d{2})\/(\d{2})\/(\d{4})/, '$3-$2-$1'));
-            if (!isNaN(date.getTime())) {
-                return date;
+    if (parseInt(check.rows[0].count) === 0) {
+        await client.query(
+            "UPDATE loan_transactions SET status = 'Completed' WHERE id = $1", 
+            [itemData.transaction_id]
+        );
+    }
+
+    return { ...itemData, condition, item_status: outcome.itemStatus, liability };
+}
+
+// Gives the loan items returned by one operation a shared return receipt number
+async function assignReturnNo(client, loanItemIds) {
+    const returnNo = await nextDocumentNumber(client, 'return');
+    await client.query(
+        "UPDATE loan_items SET return_no = $1 WHERE id = ANY($2)",
+        [returnNo, loanItemIds]
+    );
+    return returnNo;
+}
+
+// Puts the items a return operation found dirty on a new laundry ticket.
+// Vendor, cost and expected date are filled in on the ticket afterwards.
+async function sendReturnsToLaundry(client, barcodes, returnNo, actor) {
+    const ticketNo = await nextDocumentNumber(client, 'maintenance');
+    const ticketRes = await client.query(`
+        INSERT INTO maintenance_tickets (ticket_no, type, notes, status, created_by)
+        VALUES ($1, 'Laundry', $2, 'Open', $3) RETURNING *
+    `, [ticketNo, `Returned dirty (${returnNo})`, actor]);
+    const ticket = ticketRes.rows[0];
+
+    await client.query(`
+        INSERT INTO maintenance_items (ticket_id, barcode, previous_status)
+        SELECT $1, barcode, 'Available' FROM unnest($2::varchar[]) AS barcode
+    `, [ticket.id, barcodes]);
+    return ticket;
+}
+
+// Returns { status, message } if the borrower may not take new loans, otherwise null
+async function checkBorrowerCanLoan(db, borrowerId) {
+    const borrowerRes = await db.query(
+        "SELECT name, is_active, is_blocked, blocked_reason FROM borrowers WHERE id = $1",
+        [borrowerId]
+    );
+    const borrower = borrowerRes.rows[0];
+
+    if (!borrower || !borrower.is_active) {
+        return { status: 400, message: "Borrower not found or inactive" };
+    }
+
+    if (borrower.is_blocked) {
+        return { 
+            status: 403, 
+            message: `${borrower.name} is blocked from new loans${borrower.blocked_reason ? `: ${borrower.blocked_reason}` : ''}` 
+        };
+    }
+
+    return null;
+}
+
+// Items of a loan request that cannot be loaned right now, with the loan
+// currently holding them if any
+async function findUnavailableItems(db, barcodes) {
+    const result = await db.query(`
+        SELECT wanted.barcode, i.item_name, i.status, lt.invoice_no, lt.borrower_name
+        FROM unnest($1::varchar[]) AS wanted(barcode)
+        LEFT JOIN items i ON i.barcode = wanted.barcode
+        LEFT JOIN loan_items li ON li.barcode = wanted.barcode AND li.status = 'On Loan'
+        LEFT JOIN loan_transactions lt ON lt.id = li.transaction_id
+        WHERE i.barcode IS NULL OR i.status <> 'Available'
+    `, [barcodes]);
+    return result.rows;
+}
+
+function describeUnavailable(item) {
+    if (!item.status) return 'not found';
+    if (item.invoice_no) return `${item.status}, ${item.invoice_no} to ${item.borrower_name}`;
+    return item.status;
+}
+
+// Reconcile a stock opname session against the item master data.
+// Closed sessions are read from the frozen results, open ones from live items.
+async function buildOpnameVariance(session) {
+    const source = session.status === 'Closed'
+        ? `SELECT r.barcode, r.item_name, r.brand, r.category, r.price, r.item_status,
+                  r.scanned, r.scanned_by, r.scanned_at, s.item_status as scan_status
+           FROM opname_results r
+           LEFT JOIN opname_scans s ON s.session_id = r.session_id AND s.barcode = r.barcode
+           WHERE r.session_id = $1`
+        : `SELECT i.barcode, i.item_name, i.brand, i.category, i.price, i.status as item_status,
+                  (s.id IS NOT NULL) as scanned, s.scanned_by, s.scanned_at, s.item_status as scan_status
+           FROM items i
+           LEFT JOIN opname_scans s ON s.session_id = $1 AND s.barcode = i.barcode AND s.item_found`;
+
+    const rows = (await pool.query(source + " ORDER BY 1 ASC", [session.id])).rows;
+    const unknown = await pool.query(`
+        SELECT barcode, scanned_by, scanned_at 
+        FROM opname_scans 
+        WHERE session_id = $1 AND item_found = FALSE
+        ORDER BY scanned_at ASC
+    `, [session.id]);
+
+    const missing = [];
+    const scannedOnLoan = [];
+    const categories = {};
+
+    for (const row of rows) {
+        const price = parseFloat(row.price || 0);
+        const category = row.category || 'Uncategorized';
+        const onLoan = (row.scanned ? row.scan_status : row.item_status) === 'On Loan';
+
+        if (!categories[category]) {
+            categories[category] = {
+                category,
+                expected_items: 0, expected_value: 0,
+                counted_items: 0, counted_value: 0,
+                missing_items: 0, missing_value: 0
+            };
+        }
+        const totals = categories[category];
+
+        if (row.scanned) {
+            totals.counted_items++;
+            totals.counted_value += price;
+            if (onLoan) scannedOnLoan.push(row);
+        }
+
+        // Items on loan are expected to be away from the shelf
+        if (!onLoan) {
+            totals.expected_items++;
+            totals.expected_value += price;
+            if (!row.scanned) {
+                totals.missing_items++;
+                totals.missing_value += price;
+                missing.push(row);
             }
         }
     }
-    
-    return new Date(val);
+
+    return {
+        session,
+        summary: {
+            total_items: rows.length,
+            scanned_items: rows.filter(r => r.scanned).length,
+            missing_items: missing.length,
+            missing_value: missing.reduce((sum, r) => sum + parseFloat(r.price || 0), 0),
+            unknown_barcodes: unknown.rows.length,
+            scanned_on_loan: scannedOnLoan.length
+        },
+        missing,
+        unknown: unknown.rows,
+        scanned_on_loan: scannedOnLoan,
+        categories: Object.values(categories).sort((a, b) => a.category.localeCompare(b.category))
+    };
 }
 
 // --- API ROUTES ---
 
+// Every /api route needs a session token, except health check and login
+app.use('/api', requireAuth(pool, ['/health', '/login']));
+
 // 1. TEST ENDPOINT
 app.get('/api/test', (req, res) => {
     res.json({ 
@@ -118,6 +406,7 @@ app.get('/api/test', (req, res) => {
             '/api/history',
             '/api/stats',
             '/api/items',
+            '/api/items/delta',
             '/api/borrowers',
             '/api/users',
             '/api/login',
@@ -125,13 +414,188 @@ app.get('/api/test', (req, res) => {
             '/api/return',
             '/api/logs',
             '/api/loans/active',
-            '/api/return/bulk'
+            '/api/return/bulk',
+            '/api/opname/sessions',
+            '/api/maintenance',
+            '/api/reservations',
+            '/api/loans/:id/extend',
+            '/api/liabilities',
+            '/api/document-sequences',
+            '/api/import/preview',
+            '/api/import/validate',
+            '/api/import/batches',
+            '/api/export/inventory',
+            '/api/reports/overdue/pdf',
+            '/api/labels/templates'
         ]
     });
 });
 
+// "Row N: ..." lines for every row that failed import validation
+const validationMessages = (results) => results
+    .filter(result => result.errors.length > 0)
+    .map(result => `Row ${result.row}${result.barcode ? ` (${result.barcode})` : ''}: ${result.errors.join('; ')}`);
+
+// Validates a sheet and reports what importing it would add and change,
+// without writing. `generateBarcodes` gives rows without a barcode an
+// internal one.
+const dryRunSheet = async (client, { rows, columns, generateBarcodes = false }) => {
+    const validation = await validateRows(client, rows, columns, { generateBarcodes });
+    const invalidRows = new Set(validation.results.filter(r => r.errors.length > 0).map(r => r.row));
+
+    const { added, updated, skipped, generated, errors, changes } = await importRecords(client, rows, columns, { invalidRows, dryRun: true, generateBarcodes });
+
+    return {
+        batch_id: null,
+        dry_run: true,
+        stats: { 
+            total: added + updated + skipped,
+            added, 
+            updated, 
+            skipped,
+            generated,
+            invalid: validation.invalid,
+            errors: validation.invalid + errors.length 
+        },
+        errors: [...validationMessages(validation.results), ...errors],
+        changes
+    };
+};
+
+// Runs a real import as a background job (see createImportJob) so large files
+// do not hold the request open. The client follows it through route 79.
+// A missing mapping means a one-shot upload: the suggested mapping is used.
+//
+// The file is streamed and every IMPORT_CHUNK_SIZE rows are validated and
+// written in their own transaction, so memory use does not grow with the
+// file. The batch is recorded first as 'Running'; when a chunk fails, the
+// chunks before it stay imported and the batch becomes 'Failed', which can
+// still be rolled back from the import history.
+const runImportJob = async (job, req, { filePath, mapping = null, generateBarcodes = false, totalRows = 0, onFinished = null }) => {
+    let client;
+    let inTransaction = false;
+    let batchId = null;
+    const stats = { added: 0, updated: 0, skipped: 0, generated: 0, invalid: 0 };
+    const errors = [];
+    try {
+        job.status = 'running';
+        job.phase = 'Reading file';
+        job.total = totalRows;
+        client = await pool.connect();
+
+        let columns = null;
+        // Barcodes of earlier chunks, for duplicates across the whole file
+        const seenBarcodes = new Map();
+
+        for await (const chunk of readSheetChunks(filePath)) {
+            if (!columns) {
+                const jobMapping = mapping || suggestMapping(chunk.headers);
+                const resolved = resolveMapping(chunk.headers, jobMapping, { generateBarcodes });
+                if (resolved.errors.length > 0) {
+                    throw new Error(resolved.errors.join('; '));
+                }
+                columns = resolved.columns;
+
+                const batchRes = await client.query(`
+                    INSERT INTO import_batches (file_name, mapping, status, created_by)
+                    VALUES ($1, $2, 'Running', $3)
+                    RETURNING id
+                `, [job.file_name, jobMapping, job.username]);
+                batchId = batchRes.rows[0].id;
+                job.phase = 'Importing rows';
+            }
+
+            await client.query('BEGIN');
+            inTransaction = true;
+
+            const validation = await validateRows(client, chunk.rows, columns, { generateBarcodes, firstRow: chunk.firstRow, seenBarcodes });
+            const invalidRows = new Set(validation.results.filter(r => r.errors.length > 0).map(r => r.row));
+            const result = await importRecords(client, chunk.rows, columns, {
+                invalidRows,
+                batchId,
+                generateBarcodes,
+                firstRow: chunk.firstRow,
+                onProgress: (done) => {
+                    job.processed = chunk.firstRow - 2 + done;
+                }
+            });
+
+            await client.query(
+                "UPDATE import_batches SET added = added + $1, updated = updated + $2, skipped = skipped + $3 WHERE id = $4",
+                [result.added, result.updated, result.skipped, batchId]
+            );
+            await client.query('COMMIT');
+            inTransaction = false;
+
+            stats.added += result.added;
+            stats.updated += result.updated;
+            stats.skipped += result.skipped;
+            stats.generated += result.generated;
+            stats.invalid += validation.invalid;
+            errors.push(...validationMessages(validation.results), ...result.errors);
+        }
+
+        job.phase = 'Saving';
+        await client.query("UPDATE import_batches SET status = 'Completed' WHERE id = $1", [batchId]);
+
+        const { added, updated, skipped, generated } = stats;
+        const barcodeNote = generated > 0 ? ` (${generated} with an internal barcode)` : '';
+        await logActivity(req, 'UPLOAD_STOCK', 'IMPORT_BATCH', String(batchId), 
+            `Excel Import ${job.file_name}: ${added} New${barcodeNote}, ${updated} Updated, ${skipped} Skipped`);
+
+        job.result = {
+            success: true,
+            message: `Import completed: ${added} added${barcodeNote}, ${updated} updated, ${skipped} skipped`,
+            batch_id: batchId,
+            dry_run: false,
+            stats: { 
+                total: added + updated + skipped,
+                added, 
+                updated, 
+                skipped,
+                generated,
+                invalid: stats.invalid,
+                errors: errors.length 
+            },
+            errors
+        };
+        job.status = 'completed';
+        job.phase = 'Completed';
+        console.log(`✅ Import job ${job.id} completed:`, job.result.message);
+    } catch (err) {
+        if (inTransaction) {
+            try {
+                await client.query('ROLLBACK');
+            } catch (rollbackErr) {
+                console.error(`❌ Import job ${job.id} rollback failed:`, rollbackErr);
+            }
+        }
+        console.error(`❌ Import job ${job.id} failed:`, err);
+        job.status = 'failed';
+        job.phase = 'Failed';
+        job.error = err.message;
+
+        if (batchId) {
+            try {
+                await client.query("UPDATE import_batches SET status = 'Failed' WHERE id = $1", [batchId]);
+                if (stats.added + stats.updated > 0) {
+                    job.error += `. ${stats.added} added and ${stats.updated} updated rows before the error stay imported as import #${batchId}, which can be rolled back from the import history.`;
+                    await logActivity(req, 'UPLOAD_STOCK', 'IMPORT_BATCH', String(batchId), 
+                        `Excel Import ${job.file_name} failed after ${stats.added} New, ${stats.updated} Updated: ${err.message}`);
+                }
+            } catch (markErr) {
+                console.error(`❌ Import job ${job.id} could not be marked as failed:`, markErr);
+            }
+        }
+    } finally {
+        if (client) client.release();
+        job.finished_at = new Date();
+        if (onFinished) onFinished();
+    }
+};
+
 // 2. UPLOAD EXCEL - ENHANCED VERSION
-app.post('/api/upload-excel', upload.single('file'), async (req, res) => {
+app.post('/api/upload-excel', requirePermission('upload_stock'), upload.single('file'), async (req, res) => {
     console.log("📤 Upload request received");
     
     if (!req.file) {
@@ -142,191 +606,55 @@ app.post('/api/upload-excel', upload.single('file'), async (req, res) => {
         });
     }
 
+    // ?dry_run=1 reports the adds and updates without writing
+    const dryRun = ['1', 'true'].includes(String(req.query.dry_run));
+
+    // A real upload runs in the background; poll /api/import/jobs/:id for progress
+    if (!dryRun) {
+        const job = createImportJob(req.user.username, req.file.originalname);
+        runImportJob(job, req, {
+            filePath: req.file.path,
+            onFinished: () => {
+                if (fs.existsSync(req.file.path)) fs.unlinkSync(req.file.path);
+            }
+        }).catch(err => console.error(`❌ Import job ${job.id} crashed:`, err));
+        console.log(`📥 Import job ${job.id} started for ${req.file.originalname}`);
+        return res.status(202).json({ 
+            success: true,
+            job_id: job.id,
+            message: `Import of ${req.file.originalname} started`
+        });
+    }
+
     const client = await pool.connect();
     
     try {
         console.log(`📖 Reading file: ${req.file.path} (${req.file.size} bytes)`);
         
-        // Read Excel file
-        const workbook = xlsx.readFile(req.file.path);
-        console.log("Sheet names:", workbook.SheetNames);
-        
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        const data = xlsx.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        console.log(`📊 Found ${data.length} rows in Excel`);
-        
-        if (data.length <= 1) {
-            throw new Error("Excel file is empty or has no data rows");
-        }
-
-        // Get headers (first row)
-        const headers = data[0].map(h => String(h || '').trim().toLowerCase());
+        const { headers, rows } = await readSheet(req.file.path);
+        console.log(`📊 Found ${rows.length} rows in Excel`);
         console.log("Headers found:", headers);
         
-        // Map header indices
-        const headerMap = {
-            barcode: headers.findIndex(h => 
-                h.includes('barcode') || h.includes('kode') || h.includes('code')
-            ),
-            name: headers.findIndex(h => 
-                h.includes('name') || h.includes('nama') || h.includes('item')
-            ),
-            brand: headers.findIndex(h => 
-                h.includes('brand') || h.includes('merek')
-            ),
-            size: headers.findIndex(h => 
-                h.includes('size') || h.includes('ukuran')
-            ),
-            color: headers.findIndex(h => 
-                h.includes('color') || h.includes('warna')
-            ),
-            sex: headers.findIndex(h => 
-                h.includes('sex') || h.includes('gender') || h.includes('jenis')
-            ),
-            price: headers.findIndex(h => 
-                h.includes('price') || h.includes('harga')
-            ),
-            recNo: headers.findIndex(h => 
-                h.includes('receive') || h.includes('terima') || h.includes('no')
-            ),
-            recDate: headers.findIndex(h => 
-                h.includes('date') || h.includes('tanggal') || h.includes('tgl')
-            )
-        };
-
-        console.log("Header mapping:", headerMap);
-
-        await client.query('BEGIN');
-        
-        let added = 0;
-        let updated = 0;
-        let skipped = 0;
-        let errors = [];
-
-        // Process data rows (skip header row)
-        for (let i = 1; i < data.length; i++) {
-            const row = data[i];
-            if (!row || row.length === 0) continue;
-
-            try {
-                // Extract data using header mapping
-                const barcode = headerMap.barcode >= 0 && row[headerMap.barcode] 
-                    ? String(row[headerMap.barcode]).trim() 
-                    : '';
-                
-                if (!barcode || barcode === 'undefined' || barcode === 'null') {
-                    skipped++;
-                    continue;
-                }
-
-                const name = headerMap.name >= 0 && row[headerMap.name] 
-                    ? String(row[headerMap.name]).trim() 
-                    : `Item ${barcode}`;
-                
-                const brand = headerMap.brand >= 0 && row[headerMap.brand] 
-                    ? String(row[headerMap.brand]).trim() 
-                    : '';
-                
-                const size = headerMap.size >= 0 && row[headerMap.size] 
-                    ? String(row[headerMap.size]).trim() 
-                    : '';
-                
-                const color = headerMap.color >= 0 && row[headerMap.color] 
-                    ? String(row[headerMap.color]).trim() 
-                    : '';
-                
-                const sex = headerMap.sex >= 0 && row[headerMap.sex] 
-                    ? String(row[headerMap.sex]).trim() 
-                    : '';
-                
-                const price = headerMap.price >= 0 && row[headerMap.price] 
-                    ? cleanPrice(row[headerMap.price]) 
-                    : 0;
-                
-                const recNo = headerMap.recNo >= 0 && row[headerMap.recNo] 
-                    ? String(row[headerMap.recNo]).trim() 
-                    : '';
-                
-                const recDate = headerMap.recDate >= 0 && row[headerMap.recDate] 
-                    ? parseDate(row[headerMap.recDate]) 
-                    : null;
-
-                // Check if item exists
-                const check = await client.query(
-                    "SELECT barcode FROM items WHERE barcode = $1", 
-                    [barcode]
-                );
-                
-                // UPSERT query
-                const query = `
-                    INSERT INTO items (barcode, item_name, brand, size, color, sex, price, receive_no, receive_date, status, updated_at)
-                    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'Available', NOW())
-                    ON CONFLICT (barcode) DO UPDATE SET
-                        item_name = EXCLUDED.item_name,
-                        brand = EXCLUDED.brand,
-                        size = EXCLUDED.size,
-                        color = EXCLUDED.color,
-                        sex = EXCLUDED.sex,
-                        price = EXCLUDED.price,
-                        receive_no = EXCLUDED.receive_no,
-                        receive_date = EXCLUDED.receive_date,
-                        updated_at = NOW()
-                    RETURNING barcode;
-                `;
-
-                await client.query(query, [
-                    barcode, 
-                    name, 
-                    brand, 
-                    size, 
-                    color, 
-                    sex, 
-                    price, 
-                    recNo, 
-                    recDate
-                ]);
-
-                if (check.rows.length > 0) {
-                    updated++;
-                } else {
-                    added++;
-                }
+        // One-shot upload: use the suggested mapping as is. The import dialog
+        // goes through /api/import/preview so the user can adjust it first.
+        const mapping = suggestMapping(headers);
+        console.log("Header mapping:", mapping);
 
-            } catch (rowError) {
-                errors.push(`Row ${i + 1}: ${rowError.message}`);
-                console.error(`Error processing row ${i + 1}:`, rowError);
-            }
+        const { columns, errors: mappingErrors } = resolveMapping(headers, mapping);
+        if (mappingErrors.length > 0) {
+            throw new Error(mappingErrors.join('; '));
         }
 
-        await client.query('COMMIT');
+        const result = await dryRunSheet(client, { rows, columns });
+        const { added, updated, skipped } = result.stats;
         
-        const user = req.body.user || 'System';
-        await logActivity(user, 'UPLOAD_STOCK', 'ITEMS', 'BATCH', 
-            `Excel Upload: ${added} New, ${updated} Updated, ${skipped} Skipped`);
-        
-        const response = {
+        res.json({ 
             success: true,
-            message: `✅ Upload Successful! 
-                      Added: ${added} new items
-                      Updated: ${updated} existing items
-                      Skipped: ${skipped} rows (no barcode)`,
-            stats: { 
-                total: added + updated + skipped,
-                added, 
-                updated, 
-                skipped,
-                errors: errors.length 
-            },
-            errors: errors.length > 0 ? errors.slice(0, 5) : []
-        };
-        
-        console.log("✅ Upload completed:", response.message);
-        res.json(response);
+            message: `Dry run: ${added} would be added, ${updated} updated, ${skipped} skipped`,
+            ...result
+        });
 
     } catch (err) {
-        await client.query('ROLLBACK');
         console.error("❌ Upload Error:", err);
         res.status(500).json({ 
             success: false, 
@@ -347,17 +675,23 @@ app.post('/api/upload-excel', upload.single('file'), async (req, res) => {
 app.get('/api/items', async (req, res) => {
     try {
         const { search, limit = 200 } = req.query;
-        let query = "SELECT * FROM items WHERE 1=1";
+        let query = `
+            SELECT i.*, (s.id IS NOT NULL) as is_scanned, s.scanned_at as scan_timestamp
+            FROM items i
+            LEFT JOIN opname_scans s 
+                ON s.barcode = i.barcode AND s.item_found AND s.session_id = ${ACTIVE_OPNAME_SESSION_SQL}
+            WHERE 1=1
+        `;
         let params = [];
         let paramCount = 1;
         
         if (search) {
-            query += ` AND (item_name ILIKE $${paramCount} OR barcode ILIKE $${paramCount} OR brand ILIKE $${paramCount})`;
+            query += ` AND (i.item_name ILIKE $${paramCount} OR i.barcode ILIKE $${paramCount} OR i.brand ILIKE $${paramCount})`;
             params.push(`%${search}%`);
             paramCount++;
         }
         
-        query += " ORDER BY updated_at DESC";
+        query += " ORDER BY i.updated_at DESC";
         
         if (limit) {
             query += ` LIMIT $${paramCount}`;
@@ -378,13 +712,84 @@ app.get('/api/items', async (req, res) => {
     }
 });
 
+// 3a. ITEM CATALOGUE DELTA (client cache sync: ?updated_since=&after_id=&limit=)
+// Without updated_since the whole catalogue is returned, paged by id. Pass the
+// next_since of the first page as updated_since of the next sync.
+app.get('/api/items/delta', async (req, res) => {
+    try {
+        const { updated_since } = req.query;
+        const afterId = parseInt(req.query.after_id) || 0;
+        const limit = Math.min(parseInt(req.query.limit) || 1000, 5000);
+
+        if (updated_since && !/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d+)?$/.test(updated_since)) {
+            return res.status(400).json({
+                success: false,
+                message: "updated_since must be a timestamp returned as next_since"
+            });
+        }
+        const since = updated_since || null;
+
+        // updated_at is the writing transaction's start time, so rows committed
+        // later can carry an older timestamp. Start the next sync no later than
+        // the oldest transaction still running.
+        const cursorRes = await pool.query(`
+            SELECT LEAST(
+                LOCALTIMESTAMP,
+                (SELECT MIN(xact_start)::timestamp FROM pg_stat_activity
+                 WHERE datname = current_database() AND backend_type = 'client backend'
+                    AND pid <> pg_backend_pid())
+            )::text as next_since
+        `);
+
+        const result = await pool.query(`
+            SELECT * FROM items
+            WHERE ($1::timestamp IS NULL OR updated_at >= $1::timestamp) AND id > $2
+            ORDER BY id ASC
+            LIMIT $3
+        `, [since, afterId, limit + 1]);
+
+        const hasMore = result.rows.length > limit;
+        const items = hasMore ? result.rows.slice(0, limit) : result.rows;
+
+        // Deletions are sent with the first page; barcodes re-created since are left out
+        let deleted = [];
+        if (since && afterId === 0) {
+            const deletedRes = await pool.query(`
+                SELECT DISTINCT d.barcode
+                FROM deleted_items d
+                WHERE d.deleted_at >= $1::timestamp
+                    AND NOT EXISTS (SELECT 1 FROM items i WHERE i.barcode = d.barcode)
+            `, [since]);
+            deleted = deletedRes.rows.map(row => row.barcode);
+        }
+
+        res.json({
+            success: true,
+            data: items,
+            deleted,
+            has_more: hasMore,
+            last_id: items.length > 0 ? items[items.length - 1].id : afterId,
+            next_since: cursorRes.rows[0].next_since
+        });
+    } catch (err) {
+        console.error("Item delta error:", err);
+        res.status(500).json({
+            success: false,
+            error: err.message
+        });
+    }
+});
+
 // 4. GET ITEM BY BARCODE
 app.get('/api/items/:barcode', async (req, res) => {
     try {
-        const result = await pool.query(
-            "SELECT * FROM items WHERE barcode = $1", 
-            [req.params.barcode]
-        );
+        const result = await pool.query(`
+            SELECT i.*, (s.id IS NOT NULL) as is_scanned, s.scanned_at as scan_timestamp
+            FROM items i
+            LEFT JOIN opname_scans s 
+                ON s.barcode = i.barcode AND s.item_found AND s.session_id = ${ACTIVE_OPNAME_SESSION_SQL}
+            WHERE i.barcode = $1
+        `, [req.params.barcode]);
         
         if (result.rows.length > 0) {
             res.json({ 
@@ -407,21 +812,42 @@ app.get('/api/items/:barcode', async (req, res) => {
     }
 });
 
-// 5. SEARCH AVAILABLE ITEMS FOR LOAN
+// 5. SEARCH AVAILABLE ITEMS FOR LOAN (excludes items out for laundry / repair)
+// Items reserved between start_date and end_date (default: today) are flagged
+// with the reservation, or left out with ?hide_reserved=1
 app.get('/api/items/available/search', async (req, res) => {
     try {
-        const { search, limit = 100 } = req.query;
-        let query = "SELECT * FROM items WHERE status = 'Available'";
-        let params = [];
-        let paramCount = 1;
+        const { search, limit = 100, start_date, end_date, hide_reserved } = req.query;
+        let query = `
+            SELECT a.*, r.reservation_no as reserved_no, r.program_name as reserved_for,
+                   r.start_date as reserved_from, r.end_date as reserved_until
+            FROM vw_available_items a
+            LEFT JOIN LATERAL (
+                SELECT r.reservation_no, r.program_name, r.start_date, r.end_date
+                FROM reservation_items ri
+                JOIN reservations r ON r.id = ri.reservation_id
+                WHERE ri.barcode = a.barcode AND r.status = 'Reserved'
+                  AND r.start_date <= COALESCE($2::date, $1::date, CURRENT_DATE)
+                  AND r.end_date >= COALESCE($1::date, CURRENT_DATE)
+                ORDER BY r.start_date
+                LIMIT 1
+            ) r ON TRUE
+            WHERE TRUE
+        `;
+        let params = [start_date || null, end_date || null];
+        let paramCount = 3;
         
         if (search) {
-            query += ` AND (item_name ILIKE $${paramCount} OR barcode ILIKE $${paramCount} OR brand ILIKE $${paramCount})`;
+            query += ` AND (a.item_name ILIKE $${paramCount} OR a.barcode ILIKE $${paramCount} OR a.brand ILIKE $${paramCount})`;
             params.push(`%${search}%`);
             paramCount++;
         }
+
+        if (hide_reserved === '1' || hide_reserved === 'true') {
+            query += " AND r.reservation_no IS NULL";
+        }
         
-        query += " ORDER BY item_name ASC";
+        query += " ORDER BY a.item_name ASC";
         
         if (limit) {
             query += ` LIMIT $${paramCount}`;
@@ -459,10 +885,36 @@ app.get('/api/items/count/available', async (req, res) => {
 });
 
 // 7. UPDATE ITEM STATUS
-app.put('/api/items/:barcode/status', async (req, res) => {
+app.put('/api/items/:barcode/status', requirePermission('update_item'), async (req, res) => {
     try {
         const { barcode } = req.params;
-        const { status, user } = req.body;
+        const { status } = req.body;
+
+        if (!ITEM_STATUSES.includes(status)) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `Invalid status. Allowed: ${ITEM_STATUSES.join(', ')}` 
+            });
+        }
+
+        if (Object.values(MAINTENANCE_TYPES).includes(status)) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Send items to laundry or repair through a maintenance ticket" 
+            });
+        }
+
+        const maintenance = await pool.query(
+            "SELECT 1 FROM maintenance_items WHERE barcode = $1 AND status = 'Out'",
+            [barcode]
+        );
+
+        if (maintenance.rows.length > 0) {
+            return res.status(409).json({ 
+                success: false, 
+                message: "Item is out for maintenance. Receive it back first." 
+            });
+        }
         
         const result = await pool.query(
             "UPDATE items SET status = $1, updated_at = NOW() WHERE barcode = $2 RETURNING *",
@@ -470,7 +922,7 @@ app.put('/api/items/:barcode/status', async (req, res) => {
         );
         
         if (result.rows.length > 0) {
-            await logActivity(user, 'UPDATE_ITEM_STATUS', 'ITEM', barcode, `Status changed to ${status}`);
+            await logActivity(req, 'UPDATE_ITEM_STATUS', 'ITEM', barcode, `Status changed to ${status}`);
             res.json({ 
                 success: true, 
                 data: result.rows[0]
@@ -534,7 +986,17 @@ app.get('/api/stats', async (req, res) => {
         const total = await pool.query("SELECT COUNT(*) as count FROM items");
         const loan = await pool.query("SELECT COUNT(*) as count FROM items WHERE status='On Loan'");
         const avail = await pool.query("SELECT COUNT(*) as count FROM items WHERE status='Available'");
-        const scanned = await pool.query("SELECT COUNT(*) as count FROM items WHERE status='Scanned'");
+        
+        // Count dimension: items scanned in the running opname session
+        const session = await pool.query(`
+            SELECT os.id, os.session_name, os.status,
+                   COUNT(DISTINCT s.barcode) FILTER (WHERE s.item_found) as scanned
+            FROM opname_sessions os
+            LEFT JOIN opname_scans s ON s.session_id = os.id
+            WHERE os.id = ${ACTIVE_OPNAME_SESSION_SQL}
+            GROUP BY os.id
+        `);
+        const activeSession = session.rows[0] || null;
         
         res.json({ 
             success: true,
@@ -542,8 +1004,13 @@ app.get('/api/stats', async (req, res) => {
                 total: parseInt(total.rows[0].count), 
                 on_loan: parseInt(loan.rows[0].count), 
                 available: parseInt(avail.rows[0].count),
-                scanned: parseInt(scanned.rows[0].count) || 0,
-                total_items: parseInt(total.rows[0].count)
+                scanned: activeSession ? parseInt(activeSession.scanned) || 0 : 0,
+                total_items: parseInt(total.rows[0].count),
+                opname_session: activeSession ? {
+                    id: activeSession.id,
+                    session_name: activeSession.session_name,
+                    status: activeSession.status
+                } : null
             }
         });
     } catch (error) {
@@ -560,28 +1027,40 @@ app.post('/api/login', async (req, res) => {
     try {
         const { username, password } = req.body;
         const result = await pool.query(
-            "SELECT * FROM users WHERE username = $1 AND password = $2", 
-            [username, password]
+            "SELECT * FROM users WHERE username = $1 AND is_active = TRUE", 
+            [username]
         );
         
-        if (result.rows.length > 0) {
-            const user = result.rows[0];
-            await logActivity(user.username, 'LOGIN', 'AUTH', String(user.id), 'User logged in');
-            res.json({ 
-                success: true, 
-                user: {
-                    id: user.id,
-                    username: user.username,
-                    fullname: user.fullname,
-                    role: user.role
-                }
-            });
-        } else {
-            res.status(401).json({ 
+        const user = result.rows[0];
+        const check = user ? await verifyPassword(password, user.password) : await verifyUnknownUser(password);
+
+        if (!check.valid) {
+            return res.status(401).json({ 
                 success: false, 
                 message: "Username atau Password Salah" 
             });
         }
+
+        // Upgrade legacy plaintext / weaker hashes on successful login
+        if (check.needsRehash) {
+            await pool.query("UPDATE users SET password = $1 WHERE id = $2", [await hashPassword(password), user.id]);
+        }
+
+        const session = await createSession(pool, user, req);
+        await pool.query("UPDATE users SET last_login = NOW() WHERE id = $1", [user.id]);
+        await logActivity(req, 'LOGIN', 'AUTH', String(user.id), 'User logged in', user);
+        res.json({ 
+            success: true, 
+            token: session.token,
+            expires_at: session.expires_at,
+            user: {
+                id: user.id,
+                username: user.username,
+                fullname: user.fullname,
+                role: user.role,
+                permissions: permissionsFor(user.role)
+            }
+        });
     } catch (err) {
         console.error(err);
         res.status(500).json({ 
@@ -591,10 +1070,53 @@ app.post('/api/login', async (req, res) => {
     }
 });
 
+// 10a. LOGOUT
+app.post('/api/logout', async (req, res) => {
+    try {
+        await revokeSession(pool, req.token);
+        await logActivity(req, 'LOGOUT', 'AUTH', String(req.user.id), 'User logged out');
+        res.json({ 
+            success: true, 
+            message: "Logged out" 
+        });
+    } catch (err) {
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 10b. CURRENT USER
+app.get('/api/auth/me', (req, res) => {
+    res.json({ 
+        success: true, 
+        user: { ...req.user, permissions: permissionsFor(req.user.role) }
+    });
+});
+
 // 11. BORROWERS
 app.get('/api/borrowers', async (req, res) => {
     try {
-        const result = await pool.query("SELECT * FROM borrowers ORDER BY name ASC");
+        const { search, active } = req.query;
+        let query = `SELECT * FROM (${BORROWER_SUMMARY_SQL}) b WHERE 1=1`;
+        const params = [];
+
+        if (search) {
+            params.push(`%${search}%`);
+            query += ` AND (b.name ILIKE $${params.length} OR b.nik ILIKE $${params.length} 
+                        OR b.department ILIKE $${params.length} OR b.email ILIKE $${params.length})`;
+        }
+
+        if (active === 'true') {
+            query += " AND b.is_active = TRUE";
+        } else if (active === 'false') {
+            query += " AND b.is_active = FALSE";
+        }
+
+        query += " ORDER BY b.name ASC";
+
+        const result = await pool.query(query, params);
         res.json({ 
             success: true,
             count: result.rows.length,
@@ -612,7 +1134,7 @@ app.get('/api/borrowers', async (req, res) => {
 app.get('/api/borrowers/:id', async (req, res) => {
     try {
         const { id } = req.params;
-        const result = await pool.query("SELECT * FROM borrowers WHERE id = $1", [id]);
+        const result = await pool.query(`${BORROWER_SUMMARY_SQL} WHERE b.id = $1`, [id]);
         
         if (result.rows.length > 0) {
             res.json({ 
@@ -634,22 +1156,36 @@ app.get('/api/borrowers/:id', async (req, res) => {
 });
 
 // 13. CREATE/UPDATE BORROWER
-app.post('/api/borrowers', async (req, res) => {
+app.post('/api/borrowers', requirePermission('manage_borrowers'), async (req, res) => {
     try {
-        const { nik, name, phone, position, current_user } = req.body;
+        const { nik, name, phone, position, department, email, address } = req.body;
+
+        if (!nik || !name) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "NIK and name are required" 
+            });
+        }
         
+        // Fields not sent (e.g. quick add from the loan screen) keep their value
         const query = `
-            INSERT INTO borrowers (nik, name, phone, position) 
-            VALUES ($1, $2, $3, $4)
+            INSERT INTO borrowers (nik, name, phone, position, department, email, address) 
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
             ON CONFLICT (nik) DO UPDATE SET 
                 name = EXCLUDED.name, 
                 phone = EXCLUDED.phone, 
-                position = EXCLUDED.position
+                position = EXCLUDED.position,
+                department = COALESCE(EXCLUDED.department, borrowers.department),
+                email = COALESCE(EXCLUDED.email, borrowers.email),
+                address = COALESCE(EXCLUDED.address, borrowers.address)
             RETURNING *
         `;
         
-        const result = await pool.query(query, [nik, name, phone, position]);
-        await logActivity(current_user || 'System', 'UPSERT_BORROWER', 'BORROWER', nik, `Saved borrower: ${name}`);
+        const result = await pool.query(query, [
+            nik, name, phone, position, 
+            department ?? null, email ?? null, address ?? null
+        ]);
+        await logActivity(req, 'UPSERT_BORROWER', 'BORROWER', nik, `Saved borrower: ${name}`);
         
         res.json({ 
             success: true, 
@@ -664,15 +1200,14 @@ app.post('/api/borrowers', async (req, res) => {
 });
 
 // 14. DELETE BORROWER
-app.delete('/api/borrowers/:id', async (req, res) => {
+app.delete('/api/borrowers/:id', requirePermission('delete_borrower'), async (req, res) => {
     try {
         const { id } = req.params;
-        const { user } = req.body;
         
         const result = await pool.query("DELETE FROM borrowers WHERE id = $1 RETURNING *", [id]);
         
         if (result.rows.length > 0) {
-            await logActivity(user, 'DELETE_BORROWER', 'BORROWER', id, `Deleted borrower: ${result.rows[0].name}`);
+            await logActivity(req, 'DELETE_BORROWER', 'BORROWER', id, `Deleted borrower: ${result.rows[0].name}`);
             res.json({ 
                 success: true,
                 message: "Borrower deleted successfully"
@@ -684,6 +1219,12 @@ app.delete('/api/borrowers/:id', async (req, res) => {
             });
         }
     } catch (err) { 
+        if (err.code === '23503') {
+            return res.status(409).json({ 
+                success: false, 
+                message: "Borrower has loan history and cannot be deleted. Deactivate instead." 
+            });
+        }
         res.status(500).json({ 
             success: false,
             error: err.message 
@@ -692,10 +1233,10 @@ app.delete('/api/borrowers/:id', async (req, res) => {
 });
 
 // 15. USERS
-app.get('/api/users', async (req, res) => {
+app.get('/api/users', requirePermission('manage_users'), async (req, res) => {
     try {
         const result = await pool.query(
-            "SELECT id, username, fullname, nik, role, created_at FROM users ORDER BY created_at DESC"
+            "SELECT id, username, fullname, nik, role, is_active, last_login, created_at, updated_at FROM users ORDER BY created_at DESC"
         );
         res.json({ 
             success: true,
@@ -711,21 +1252,50 @@ app.get('/api/users', async (req, res) => {
 });
 
 // 16. CREATE USER
-app.post('/api/users', async (req, res) => {
+app.post('/api/users', requirePermission('manage_users'), async (req, res) => {
     try {
-        const { username, password, fullname, nik, role, current_user } = req.body;
+        const { username, password, fullname, nik, role } = req.body;
+        
+        if (!username || !password) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Username and password are required" 
+            });
+        }
+
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` 
+            });
+        }
+
+        if (role && !ROLES.includes(role)) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `Invalid role. Use one of: ${ROLES.join(', ')}` 
+            });
+        }
         
-        await pool.query(
-            "INSERT INTO users (username, password, fullname, nik, role) VALUES ($1, $2, $3, $4, $5)",
-            [username, password, fullname, nik, role || 'staff']
+        const result = await pool.query(
+            `INSERT INTO users (username, password, fullname, nik, role) VALUES ($1, $2, $3, $4, $5)
+             RETURNING id, username, fullname, nik, role, is_active, last_login, created_at, updated_at`,
+            [username, await hashPassword(password), fullname, nik || null, role || 'staff']
         );
         
-        await logActivity(current_user, 'CREATE_USER', 'USER', username, `Created user: ${fullname} (${role})`);
+        await logActivity(req, 'CREATE_USER', 'USER', username, `Created user: ${fullname} (${role || 'staff'})`);
         res.json({ 
             success: true, 
-            message: "User created successfully" 
+            message: "User created successfully",
+            data: result.rows[0]
         });
     } catch (err) { 
+        if (err.code === '23505') {
+            return res.status(409).json({ 
+                success: false, 
+                message: "Username or NIK is already in use" 
+            });
+        }
         res.status(500).json({ 
             success: false, 
             error: err.message 
@@ -734,7 +1304,7 @@ app.post('/api/users', async (req, res) => {
 });
 
 // 17. LOGS
-app.get('/api/logs', async (req, res) => {
+app.get('/api/logs', requirePermission('view_logs'), async (req, res) => {
     try {
         const result = await pool.query(
             "SELECT * FROM activity_logs ORDER BY created_at DESC LIMIT 100"
@@ -753,10 +1323,11 @@ app.get('/api/logs', async (req, res) => {
 });
 
 // 18. LOAN - CREATE TRANSACTION
-app.post('/api/loan', async (req, res) => {
+app.post('/api/loan', requirePermission('create_loan'), async (req, res) => {
     const client = await pool.connect();
     try {
-        const { borrower_id, borrower_name, inputter_name, program_name, loan_reason, due_date, signature_base64, items } = req.body;
+        const { borrower_id, borrower_name, program_name, loan_reason, due_date, signature_base64, items, allow_reserved } = req.body;
+        const inputter_name = req.user.fullname || req.user.username;
         
         if (!items || items.length === 0) {
             return res.status(400).json({ 
@@ -764,49 +1335,55 @@ app.post('/api/loan', async (req, res) => {
                 message: "No items selected for loan" 
             });
         }
+
+        if (!isValidSignature(signature_base64)) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "signature_base64 must be a PNG or JPEG data URL" 
+            });
+        }
+
+        const refused = await checkBorrowerCanLoan(client, borrower_id);
+        if (refused) {
+            return res.status(refused.status).json({ 
+                success: false, 
+                message: refused.message 
+            });
+        }
+
+        // Loan drafts replayed from an offline device may pick items loaned out since
+        const unavailable = await findUnavailableItems(client, items);
+        if (unavailable.length > 0) {
+            return res.status(409).json({ 
+                success: false, 
+                message: `${unavailable.length} item(s) no longer available: ` +
+                    unavailable.map(item => `${item.barcode} (${describeUnavailable(item)})`).join(', '),
+                unavailable
+            });
+        }
+
+        // Items reserved for someone else during the loan are only lent out
+        // once the client has confirmed it and resent with allow_reserved
+        const reserved = await findReservedForLoan(client, items, due_date);
+        if (reserved.length > 0 && !allow_reserved) {
+            return res.status(409).json({ 
+                success: false, 
+                message: `${reserved.length} item(s) are reserved during the loan period: ` +
+                    reserved.map(item => `${item.barcode} (${item.reservation_no}, ${item.program_name})`).join(', '),
+                reserved
+            });
+        }
         
         await client.query('BEGIN');
         
-        // Generate Invoice Number
-        const dateStr = new Date().toISOString().slice(0,10).replace(/-/g, '');
-        const countRes = await client.query("SELECT COUNT(*) FROM loan_transactions");
-        const count = parseInt(countRes.rows[0].count) + 1;
-        const invoice = `INV-${dateStr}-${String(count).padStart(3,'0')}`;
-
-        // Insert Header
-        const insertTx = `
-            INSERT INTO loan_transactions (invoice_no, borrower_id, borrower_name, inputter_name, program_name, loan_reason, due_date, signature_base64, status)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'Open') RETURNING id
-        `;
-        const txRes = await client.query(insertTx, [
-            invoice, borrower_id, borrower_name, inputter_name, 
-            program_name, loan_reason, due_date, signature_base64
-        ]);
-        const txId = txRes.rows[0].id;
-
-        // Insert Details & Update Item Status
-        for (const barcode of items) {
-            // Check if item exists and is available
-            const itemCheck = await client.query(
-                "SELECT * FROM items WHERE barcode = $1 AND status = 'Available'",
-                [barcode]
-            );
-            
-            if (itemCheck.rows.length === 0) {
-                throw new Error(`Item ${barcode} is not available or not found`);
-            }
-            
-            await client.query(
-                "INSERT INTO loan_items (transaction_id, barcode, status) VALUES ($1, $2, 'On Loan')", 
-                [txId, barcode]
-            );
-            await client.query(
-                "UPDATE items SET status = 'On Loan', updated_at = NOW() WHERE barcode = $1", 
-                [barcode]
-            );
-        }
+        const { id: txId, invoice_no: invoice } = await insertLoan(client, {
+            borrower_id, borrower_name, inputter_name, program_name, loan_reason, due_date, signature_base64, items
+        });
 
-        await logActivity(inputter_name, 'LOAN', 'TRANSACTION', invoice, `Loan created with ${items.length} items.`);
+        const reservedNote = reserved.length > 0 
+            ? ` Lent out despite reservation: ${reserved.map(item => `${item.barcode} (${item.reservation_no})`).join(', ')}.` 
+            : '';
+        await logActivity(req, 'LOAN', 'TRANSACTION', invoice, `Loan created with ${items.length} items.${reservedNote}`);
         await client.query('COMMIT');
         
         res.json({ 
@@ -829,10 +1406,10 @@ app.post('/api/loan', async (req, res) => {
 });
 
 // 19. RETURN ITEM
-app.post('/api/return', async (req, res) => {
+app.post('/api/return', requirePermission('return_item'), async (req, res) => {
     const client = await pool.connect();
     try {
-        const { barcode, user } = req.body;
+        const { barcode, condition, notes, photos } = req.body;
         
         if (!barcode) {
             return res.status(400).json({ 
@@ -840,57 +1417,48 @@ app.post('/api/return', async (req, res) => {
                 message: "Barcode is required" 
             });
         }
-        
-        await client.query('BEGIN');
 
-        // Find the active loan for this item
-        const findItem = await client.query(`
-            SELECT li.id, li.transaction_id, lt.invoice_no, i.item_name 
-            FROM loan_items li 
-            JOIN loan_transactions lt ON li.transaction_id = lt.id
-            JOIN items i ON li.barcode = i.barcode
-            WHERE li.barcode = $1 AND li.status = 'On Loan'
-            LIMIT 1
-        `, [barcode]);
-
-        if (findItem.rows.length === 0) {
-            throw new Error("Item not found on active loan or barcode incorrect.");
+        const inspection = { condition, notes, photos };
+        const invalid = validateInspection(inspection);
+        if (invalid) {
+            return res.status(400).json({ 
+                success: false, 
+                message: invalid 
+            });
         }
         
-        const itemData = findItem.rows[0];
+        await client.query('BEGIN');
 
-        // Update Loan Item Status
-        await client.query(
-            "UPDATE loan_items SET status = 'Returned', returned_at = NOW() WHERE id = $1", 
-            [itemData.id]
-        );
-        
-        // Update Inventory Item Status
-        await client.query(
-            "UPDATE items SET status = 'Available', updated_at = NOW() WHERE barcode = $1", 
-            [barcode]
-        );
+        const itemData = await returnLoanItem(client, barcode, inspection, req.user.username);
 
-        // Check if transaction is fully completed
-        const check = await client.query(
-            "SELECT COUNT(*) FROM loan_items WHERE transaction_id = $1 AND status = 'On Loan'", 
-            [itemData.transaction_id]
-        );
-        
-        if (parseInt(check.rows[0].count) === 0) {
-            await client.query(
-                "UPDATE loan_transactions SET status = 'Completed' WHERE id = $1", 
-                [itemData.transaction_id]
-            );
+        // Already returned (e.g. from another device) or never loaned
+        if (!itemData) {
+            await client.query('ROLLBACK');
+            return res.status(409).json({ 
+                success: false, 
+                message: `Item ${barcode} is not on an active loan (already returned or barcode incorrect)` 
+            });
         }
 
-        await logActivity(user, 'RETURN', 'ITEM', barcode, `Returned: ${itemData.item_name} (Inv: ${itemData.invoice_no})`);
+        const returnNo = await assignReturnNo(client, [itemData.id]);
+        const laundryTicket = itemData.item_status === MAINTENANCE_TYPES.Laundry
+            ? await sendReturnsToLaundry(client, [barcode], returnNo, req.user.username)
+            : null;
+
+        await logActivity(req, 'RETURN', 'ITEM', barcode, 
+            `Returned: ${itemData.item_name} (Inv: ${itemData.invoice_no}, ${returnNo}), condition ${itemData.condition}${laundryTicket ? `, laundry ${laundryTicket.ticket_no}` : ''}${notes ? ` - ${notes}` : ''}`);
         await client.query('COMMIT');
 
         res.json({ 
             success: true, 
-            data: itemData,
-            message: `Item ${barcode} returned successfully`
+            data: { ...itemData, return_no: returnNo, maintenance_ticket_no: laundryTicket ? laundryTicket.ticket_no : null },
+            message: itemData.item_status === 'Available'
+                ? `Item ${barcode} returned successfully (${returnNo})`
+                : itemData.liability
+                    ? `Item ${barcode} marked lost, liability recorded for ${itemData.borrower_name}`
+                    : laundryTicket
+                        ? `Item ${barcode} returned dirty and sent to laundry on ${laundryTicket.ticket_no}`
+                        : `Item ${barcode} returned as ${itemData.condition} and set to ${itemData.item_status}`
         });
 
     } catch (err) {
@@ -906,90 +1474,91 @@ app.post('/api/return', async (req, res) => {
 });
 
 // 20. BULK RETURN ITEMS
-app.post('/api/return/bulk', async (req, res) => {
+app.post('/api/return/bulk', requirePermission('return_item'), async (req, res) => {
     const client = await pool.connect();
     try {
-        const { barcodes, user } = req.body;
+        // Either `items` with an inspection per barcode, or plain `barcodes` (returned as Good)
+        const { barcodes, items } = req.body;
+        const inspections = Array.isArray(items) 
+            ? items 
+            : (Array.isArray(barcodes) ? barcodes.map(barcode => ({ barcode })) : []);
         
-        if (!Array.isArray(barcodes) || barcodes.length === 0) {
+        if (inspections.length === 0) {
             return res.status(400).json({ 
                 success: false, 
                 message: "No barcodes provided" 
             });
         }
+
+        for (const inspection of inspections) {
+            const invalid = validateInspection(inspection);
+            if (invalid) {
+                return res.status(400).json({ 
+                    success: false, 
+                    message: `Item ${inspection.barcode}: ${invalid}` 
+                });
+            }
+        }
         
         await client.query('BEGIN');
         
         let returned = 0;
         let not_found = [];
         let errors = [];
+        const conditions = {};
+        const returnedIds = [];
+        const dirtyBarcodes = [];
         
-        for (const barcode of barcodes) {
+        for (const inspection of inspections) {
+            const { barcode } = inspection;
             try {
-                // Find active loan for this item
-                const findItem = await client.query(`
-                    SELECT li.id, li.transaction_id, lt.invoice_no, i.item_name 
-                    FROM loan_items li 
-                    JOIN loan_transactions lt ON li.transaction_id = lt.id
-                    JOIN items i ON li.barcode = i.barcode
-                    WHERE li.barcode = $1 AND li.status = 'On Loan'
-                    LIMIT 1
-                `, [barcode]);
+                // Savepoint so one failing item does not abort the whole batch
+                await client.query('SAVEPOINT return_item');
+                const itemData = await returnLoanItem(client, barcode, inspection, req.user.username);
+                await client.query('RELEASE SAVEPOINT return_item');
                 
-                if (findItem.rows.length === 0) {
+                if (!itemData) {
                     not_found.push(barcode);
                     continue;
                 }
                 
-                const itemData = findItem.rows[0];
-                
-                // Update Loan Item Status
-                await client.query(
-                    "UPDATE loan_items SET status = 'Returned', returned_at = NOW() WHERE id = $1", 
-                    [itemData.id]
-                );
-                
-                // Update Inventory Item Status
-                await client.query(
-                    "UPDATE items SET status = 'Available', updated_at = NOW() WHERE barcode = $1", 
-                    [barcode]
-                );
-                
                 returned++;
-                
-                // Check if transaction is fully completed
-                const check = await client.query(
-                    "SELECT COUNT(*) FROM loan_items WHERE transaction_id = $1 AND status = 'On Loan'", 
-                    [itemData.transaction_id]
-                );
-                
-                if (parseInt(check.rows[0].count) === 0) {
-                    await client.query(
-                        "UPDATE loan_transactions SET status = 'Completed' WHERE id = $1", 
-                        [itemData.transaction_id]
-                    );
-                }
+                returnedIds.push(itemData.id);
+                if (itemData.item_status === MAINTENANCE_TYPES.Laundry) dirtyBarcodes.push(barcode);
+                conditions[itemData.condition] = (conditions[itemData.condition] || 0) + 1;
                 
             } catch (itemError) {
+                await client.query('ROLLBACK TO SAVEPOINT return_item');
                 errors.push(`Item ${barcode}: ${itemError.message}`);
             }
         }
         
-        await logActivity(user, 'BULK_RETURN', 'ITEMS', 'BATCH', `Bulk return: ${returned} returned, ${not_found.length} not found`);
+        // Numbered only when something came back, so failed batches do not use up numbers
+        const returnNo = returnedIds.length > 0 ? await assignReturnNo(client, returnedIds) : null;
+        const laundryTicket = dirtyBarcodes.length > 0
+            ? await sendReturnsToLaundry(client, dirtyBarcodes, returnNo, req.user.username)
+            : null;
+
+        const conditionSummary = Object.entries(conditions).map(([condition, count]) => `${count} ${condition}`).join(', ');
+        await logActivity(req, 'BULK_RETURN', 'ITEMS', returnNo || 'BATCH', 
+            `Bulk return: ${returned} returned${conditionSummary ? ` (${conditionSummary})` : ''}, ${not_found.length} not found${laundryTicket ? `, laundry ${laundryTicket.ticket_no}` : ''}`);
         await client.query('COMMIT');
         
         res.json({ 
             success: true,
+            return_no: returnNo,
+            maintenance_ticket_no: laundryTicket ? laundryTicket.ticket_no : null,
             stats: {
                 returned,
                 not_found: not_found.length,
-                errors: errors.length
+                errors: errors.length,
+                conditions
             },
             details: {
                 not_found_barcodes: not_found,
                 errors: errors
             },
-            message: `Bulk return completed: ${returned} items returned successfully`
+            message: `Bulk return completed: ${returned} items returned successfully${laundryTicket ? `, ${dirtyBarcodes.length} sent to laundry on ${laundryTicket.ticket_no}` : ''}`
         });
         
     } catch (error) {
@@ -1010,11 +1579,18 @@ app.get('/api/loans/active', async (req, res) => {
         const result = await pool.query(`
             SELECT lt.*, 
                    COUNT(li.id) as item_count,
-                   ARRAY_AGG(i.item_name) as item_names
+                   ARRAY_AGG(i.item_name) as item_names,
+                   MIN(${ITEM_DUE_DATE_SQL}) as next_due_date,
+                   (MIN(${ITEM_DUE_DATE_SQL}) < CURRENT_DATE) as is_overdue,
+                   COUNT(ext.loan_item_id)::int as extended_items,
+                   (SELECT COUNT(*) FROM loan_items x WHERE x.transaction_id = lt.id)::int as total_item_count,
+                   (SELECT COUNT(*) FROM loan_items x WHERE x.transaction_id = lt.id AND x.status = 'Returned')::int as returned_item_count,
+                   (SELECT COUNT(*) FROM loan_items x WHERE x.transaction_id = lt.id AND x.status = 'Lost')::int as lost_item_count
             FROM loan_transactions lt
             LEFT JOIN loan_items li ON lt.id = li.transaction_id
             LEFT JOIN items i ON li.barcode = i.barcode
-            WHERE lt.status = 'Open' AND li.status = 'On Loan'
+            LEFT JOIN (SELECT DISTINCT loan_item_id FROM loan_extension_items) ext ON ext.loan_item_id = li.id
+            WHERE lt.status IN ('Open', 'Overdue') AND li.status = 'On Loan'
             GROUP BY lt.id
             ORDER BY lt.created_at DESC
         `);
@@ -1023,7 +1599,8 @@ app.get('/api/loans/active', async (req, res) => {
         const loans = result.rows;
         for (let loan of loans) {
             const items = await pool.query(`
-                SELECT li.*, i.item_name, i.barcode, i.brand, i.color, i.size, i.price
+                SELECT li.*, i.item_name, i.barcode, i.brand, i.color, i.size, i.price,
+                       EXISTS (SELECT 1 FROM loan_extension_items lei WHERE lei.loan_item_id = li.id) as is_extended
                 FROM loan_items li
                 LEFT JOIN items i ON li.barcode = i.barcode
                 WHERE li.transaction_id = $1 AND li.status = 'On Loan'
@@ -1045,6 +1622,72 @@ app.get('/api/loans/active', async (req, res) => {
     }
 });
 
+// 21a. GET OVERDUE LOANS (aging buckets 1-3 / 4-7 / 8+ days)
+app.get('/api/loans/overdue', async (req, res) => {
+    try {
+        // Days are computed live so the list is right even before the daily run;
+        // only items past their own (possibly extended) due date count
+        const result = await pool.query(`
+            SELECT lt.id, lt.invoice_no, lt.borrower_id, lt.borrower_name, lt.program_name,
+                   MIN(${ITEM_DUE_DATE_SQL}) as due_date, lt.created_at, lt.status, lt.escalation_level,
+                   b.phone as borrower_phone, b.department as borrower_department,
+                   CURRENT_DATE - MIN(${ITEM_DUE_DATE_SQL}) as days_overdue,
+                   COUNT(li.id)::int as overdue_items,
+                   COALESCE(SUM(COALESCE(i.price, li.price)), 0) as overdue_value
+            FROM loan_transactions lt
+            JOIN loan_items li ON li.transaction_id = lt.id AND li.status = 'On Loan'
+            LEFT JOIN items i ON i.barcode = li.barcode
+            LEFT JOIN borrowers b ON b.id = lt.borrower_id
+            WHERE lt.status IN ('Open', 'Overdue') AND ${ITEM_DUE_DATE_SQL} < CURRENT_DATE
+            GROUP BY lt.id, b.phone, b.department
+            ORDER BY days_overdue DESC, due_date ASC
+        `);
+
+        const buckets = OVERDUE_BUCKETS.map(bucket => {
+            const loans = result.rows.filter(loan => 
+                loan.days_overdue >= bucket.min && (bucket.max === null || loan.days_overdue <= bucket.max)
+            );
+            return {
+                level: bucket.level,
+                label: bucket.label,
+                loans: loans.length,
+                items: loans.reduce((sum, loan) => sum + loan.overdue_items, 0)
+            };
+        });
+
+        res.json({ 
+            success: true, 
+            count: result.rows.length,
+            buckets,
+            data: result.rows 
+        });
+    } catch (error) {
+        console.error("Overdue loans error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
+});
+
+// 21b. RECOMPUTE OVERDUE STATUS NOW (normally done by the daily scheduler)
+app.post('/api/loans/overdue/refresh', requirePermission('manage_loans'), async (req, res) => {
+    try {
+        const result = await runOverdueCheck(req);
+        res.json({ 
+            success: true, 
+            data: result,
+            message: `${result.overdue} overdue loans, ${result.escalated.length} escalated`
+        });
+    } catch (error) {
+        console.error("Overdue refresh error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
+});
+
 // 22. GET LOAN DETAILS
 app.get('/api/loans/:id', async (req, res) => {
     try {
@@ -1067,7 +1710,8 @@ app.get('/api/loans/:id', async (req, res) => {
         
         // Get loan items
         const itemsResult = await pool.query(`
-            SELECT li.*, i.item_name, i.barcode, i.brand, i.color, i.size, i.price
+            SELECT li.*, i.item_name, i.barcode, i.brand, i.color, i.size, i.price,
+                   EXISTS (SELECT 1 FROM loan_extension_items lei WHERE lei.loan_item_id = li.id) as is_extended
             FROM loan_items li
             LEFT JOIN items i ON li.barcode = i.barcode
             WHERE li.transaction_id = $1
@@ -1089,12 +1733,40 @@ app.get('/api/loans/:id', async (req, res) => {
     }
 });
 
+// 22a. LOAN HANDOVER DOCUMENT (?format=pdf for PDF, ?print=1 to auto-print HTML)
+app.get('/api/loans/:id/document', async (req, res) => {
+    try {
+        const loan = await getLoanDocument(pool, req.params.id);
+        
+        if (!loan) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Loan not found" 
+            });
+        }
+
+        if (req.query.format === 'pdf') {
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `inline; filename="${loan.invoice_no}.pdf"`);
+            return renderLoanPdf(loan, res);
+        }
+
+        res.type('html').send(renderLoanHtml(loan, { autoPrint: req.query.print === '1' }));
+    } catch (error) {
+        console.error("Loan document error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
+});
+
 // 23. UPDATE LOAN STATUS
-app.put('/api/loans/:id/status', async (req, res) => {
+app.put('/api/loans/:id/status', requirePermission('manage_loans'), async (req, res) => {
     const client = await pool.connect();
     try {
         const { id } = req.params;
-        const { status, user } = req.body;
+        const { status } = req.body;
         
         if (!['Open', 'Completed', 'Cancelled'].includes(status)) {
             return res.status(400).json({ 
@@ -1118,7 +1790,7 @@ app.put('/api/loans/:id/status', async (req, res) => {
             });
         }
         
-        await logActivity(user || 'System', 'UPDATE_LOAN_STATUS', 'LOAN', id, `Status changed to ${status}`);
+        await logActivity(req, 'UPDATE_LOAN_STATUS', 'LOAN', id, `Status changed to ${status}`);
         await client.query('COMMIT');
         
         res.json({ 
@@ -1180,9 +1852,19 @@ app.get('/api/dashboard/stats', async (req, res) => {
             [today]
         );
         
-        // Get total values
-        const totalValue = await pool.query("SELECT SUM(price) as total FROM items WHERE status = 'Available'");
-        const loanValue = await pool.query("SELECT SUM(price) as total FROM items WHERE status = 'On Loan'");
+        // Lost and written-off items are out of stock value; what lost items
+        // are worth is tracked as borrower liabilities instead
+        const values = await pool.query(`
+            SELECT COALESCE(SUM(price) FILTER (WHERE status NOT IN ('Lost', 'Written Off')), 0) as total,
+                   COALESCE(SUM(price) FILTER (WHERE status = 'On Loan'), 0) as on_loan,
+                   COALESCE(SUM(price) FILTER (WHERE status = 'Available'), 0) as available,
+                   COALESCE(SUM(price) FILTER (WHERE status = 'Lost'), 0) as lost,
+                   COALESCE(SUM(price) FILTER (WHERE status = 'Written Off'), 0) as written_off
+            FROM items
+        `);
+        const liabilities = await pool.query(
+            "SELECT COALESCE(SUM(amount), 0) as total FROM borrower_liabilities WHERE status = 'Open'"
+        );
         
         res.json({ 
             success: true,
@@ -1193,9 +1875,12 @@ app.get('/api/dashboard/stats', async (req, res) => {
                     uploads: parseInt(todayUploads.rows[0].count || 0)
                 },
                 values: {
-                    total: parseFloat(totalValue.rows[0].total || 0),
-                    on_loan: parseFloat(loanValue.rows[0].total || 0),
-                    available: parseFloat(totalValue.rows[0].total || 0) - parseFloat(loanValue.rows[0].total || 0)
+                    total: parseFloat(values.rows[0].total),
+                    on_loan: parseFloat(values.rows[0].on_loan),
+                    available: parseFloat(values.rows[0].available),
+                    lost: parseFloat(values.rows[0].lost),
+                    written_off: parseFloat(values.rows[0].written_off),
+                    open_liabilities: parseFloat(liabilities.rows[0].total)
                 }
             }
         });
@@ -1272,10 +1957,9 @@ app.get('/api/search', async (req, res) => {
 });
 
 // 27. DELETE ITEM
-app.delete('/api/items/:barcode', async (req, res) => {
+app.delete('/api/items/:barcode', requirePermission('delete_item'), async (req, res) => {
     try {
         const { barcode } = req.params;
-        const { user } = req.body;
         
         // Check if item is on loan
         const loanCheck = await pool.query(
@@ -1289,11 +1973,23 @@ app.delete('/api/items/:barcode', async (req, res) => {
                 message: "Cannot delete item that is currently on loan" 
             });
         }
+
+        const maintenanceCheck = await pool.query(
+            "SELECT 1 FROM maintenance_items WHERE barcode = $1 AND status = 'Out'",
+            [barcode]
+        );
+
+        if (maintenanceCheck.rows.length > 0) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Cannot delete item that is out for maintenance" 
+            });
+        }
         
         const result = await pool.query("DELETE FROM items WHERE barcode = $1 RETURNING *", [barcode]);
         
         if (result.rows.length > 0) {
-            await logActivity(user, 'DELETE_ITEM', 'ITEM', barcode, `Deleted item: ${result.rows[0].item_name}`);
+            await logActivity(req, 'DELETE_ITEM', 'ITEM', barcode, `Deleted item: ${result.rows[0].item_name}`);
             res.json({ 
                 success: true,
                 message: "Item deleted successfully"
@@ -1313,86 +2009,2946 @@ app.delete('/api/items/:barcode', async (req, res) => {
 });
 
 // 28. CLEAR ALL DATA (DANGEROUS - USE WITH CAUTION)
-app.delete('/api/clear/all', async (req, res) => {
+app.delete('/api/clear/all', requirePermission('clear_data'), async (req, res) => {
+    const client = await pool.connect();
     try {
-        const { password, user } = req.body;
+        const { password } = req.body;
         
         // Simple password protection
         if (password !== 'DELETE_CONFIRM') {
-            return res.status(401).json({ 
+            return res.status(400).json({ 
                 success: false, 
                 message: "Invalid confirmation password" 
             });
         }
         
-        await pool.query('BEGIN');
+        await client.query('BEGIN');
         
         // Clear data in correct order (respect foreign keys)
-        await pool.query("DELETE FROM loan_items");
-        await pool.query("DELETE FROM loan_transactions");
-        await pool.query("DELETE FROM items");
-        await pool.query("DELETE FROM borrowers WHERE id > 1"); // Keep admin borrower if exists
-        await pool.query("DELETE FROM activity_logs");
+        await client.query("DELETE FROM opname_sessions");
+        await client.query("DELETE FROM borrower_liabilities");
+        await client.query("DELETE FROM reservations");
+        await client.query("DELETE FROM loan_extensions");
+        await client.query("DELETE FROM loan_items");
+        await client.query("DELETE FROM loan_transactions");
+        await client.query("DELETE FROM maintenance_items");
+        await client.query("DELETE FROM maintenance_tickets");
+        await client.query("DELETE FROM import_batches");
+        await client.query("DELETE FROM import_profiles");
+        await client.query("DELETE FROM items");
+        await client.query("DELETE FROM borrowers WHERE id > 1"); // Keep admin borrower if exists
+        await client.query("DELETE FROM activity_logs");
+        await client.query("DELETE FROM document_sequence_periods");
+        await client.query("UPDATE document_sequences SET period_key = '', last_value = 0");
         
-        await logActivity(user, 'CLEAR_ALL_DATA', 'SYSTEM', 'ALL', 'All data cleared from system');
-        await pool.query('COMMIT');
+        await logActivity(req, 'CLEAR_ALL_DATA', 'SYSTEM', 'ALL', 'All data cleared from system');
+        await client.query('COMMIT');
         
         res.json({ 
             success: true,
             message: "All data cleared successfully"
         });
     } catch (error) {
-        await pool.query('ROLLBACK');
+        await client.query('ROLLBACK');
         console.error("Clear all error:", error);
         res.status(500).json({ 
             success: false,
             error: error.message 
         });
+    } finally {
+        client.release();
     }
 });
 
-// Error handling middleware
-app.use((err, req, res, next) => {
-    console.error('❌ Server Error:', err);
-    res.status(500).json({
-        success: false,
-        message: 'Internal server error',
-        error: process.env.NODE_ENV === 'development' ? err.message : undefined
-    });
+// 29. STOCK OPNAME - LIST SESSIONS
+app.get('/api/opname/sessions', async (req, res) => {
+    try {
+        const { status, limit = 50 } = req.query;
+        let query = `
+            SELECT os.*, COUNT(osc.id) as scan_count
+            FROM opname_sessions os
+            LEFT JOIN opname_scans osc ON os.id = osc.session_id
+            WHERE 1=1
+        `;
+        let params = [];
+        let paramCount = 1;
+
+        if (status) {
+            query += ` AND os.status = $${paramCount}`;
+            params.push(status);
+            paramCount++;
+        }
+
+        query += ` GROUP BY os.id ORDER BY os.opened_at DESC LIMIT $${paramCount}`;
+        params.push(parseInt(limit));
+
+        const result = await pool.query(query, params);
+        res.json({ 
+            success: true, 
+            count: result.rows.length,
+            data: result.rows 
+        });
+    } catch (error) {
+        console.error("Opname sessions error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
 });
 
-// 404 handler
-app.use('*', (req, res) => {
-    res.status(404).json({
-        success: false,
-        message: `Endpoint ${req.originalUrl} not found`
-    });
+// 30. STOCK OPNAME - GET ACTIVE (OPEN OR PAUSED) SESSION
+app.get('/api/opname/sessions/active', async (req, res) => {
+    try {
+        const result = await pool.query(`
+            SELECT os.*, COUNT(osc.id) as scan_count
+            FROM opname_sessions os
+            LEFT JOIN opname_scans osc ON os.id = osc.session_id
+            WHERE os.status IN ('Open', 'Paused')
+            GROUP BY os.id
+            ORDER BY os.opened_at DESC
+            LIMIT 1
+        `);
+
+        res.json({ 
+            success: true, 
+            data: result.rows[0] || null 
+        });
+    } catch (error) {
+        console.error("Active opname session error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
 });
 
-// Start Server
-const server = app.listen(PORT, HOST, () => {
-    console.log(`
-=========================================
-🚀 Wardrobe Server v2.0
-✅ Running on: http://${HOST}:${PORT}
-✅ Health check: http://${HOST}:${PORT}/api/health
-✅ Test endpoint: http://${HOST}:${PORT}/api/test
-📊 API Endpoints: 
-   • POST /api/upload-excel
-   • GET  /api/items
-   • GET  /api/history
-   • GET  /api/stats
-   • POST /api/login
-   • POST /api/loan
-   • POST /api/return
-   • GET  /api/loans/active
-=========================================
-    `);
+// 31. STOCK OPNAME - COMPARE TWO CLOSED SESSIONS
+app.get('/api/opname/compare', async (req, res) => {
+    try {
+        const { base, target } = req.query;
+
+        if (!base || !target) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Both base and target session ids are required" 
+            });
+        }
+
+        const sessions = await pool.query(
+            "SELECT * FROM opname_sessions WHERE id = ANY($1::int[])",
+            [[parseInt(base), parseInt(target)]]
+        );
+        const baseSession = sessions.rows.find(s => s.id === parseInt(base));
+        const targetSession = sessions.rows.find(s => s.id === parseInt(target));
+
+        if (!baseSession || !targetSession) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Session not found" 
+            });
+        }
+
+        if (baseSession.status !== 'Closed' || targetSession.status !== 'Closed') {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Only closed sessions can be compared" 
+            });
+        }
+
+        // Items whose scanned/status result differs between the two counts
+        const diff = await pool.query(`
+            SELECT COALESCE(t.barcode, b.barcode) as barcode,
+                   COALESCE(t.item_name, b.item_name) as item_name,
+                   COALESCE(t.brand, b.brand) as brand,
+                   b.scanned as base_scanned,
+                   t.scanned as target_scanned,
+                   b.item_status as base_status,
+                   t.item_status as target_status
+            FROM (SELECT * FROM opname_results WHERE session_id = $1) b
+            FULL OUTER JOIN (SELECT * FROM opname_results WHERE session_id = $2) t
+                ON b.barcode = t.barcode
+            WHERE b.barcode IS NULL 
+               OR t.barcode IS NULL
+               OR b.scanned IS DISTINCT FROM t.scanned
+               OR b.item_status IS DISTINCT FROM t.item_status
+            ORDER BY 1 ASC
+        `, [baseSession.id, targetSession.id]);
+
+        res.json({ 
+            success: true,
+            data: {
+                base: baseSession,
+                target: targetSession,
+                summary: {
+                    base_total: baseSession.total_items,
+                    base_scanned: baseSession.scanned_items,
+                    target_total: targetSession.total_items,
+                    target_scanned: targetSession.scanned_items,
+                    changed_items: diff.rows.length
+                },
+                differences: diff.rows
+            }
+        });
+    } catch (error) {
+        console.error("Opname compare error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
 });
 
+// 32. STOCK OPNAME - GET SESSION DETAILS
+app.get('/api/opname/sessions/:id', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const result = await pool.query(`
+            SELECT os.*, COUNT(osc.id) as scan_count
+            FROM opname_sessions os
+            LEFT JOIN opname_scans osc ON os.id = osc.session_id
+            WHERE os.id = $1
+            GROUP BY os.id
+        `, [id]);
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Opname session not found" 
+            });
+        }
+
+        res.json({ 
+            success: true, 
+            data: result.rows[0] 
+        });
+    } catch (error) {
+        console.error("Get opname session error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
+});
+
+// 33. STOCK OPNAME - OPEN NEW SESSION
+app.post('/api/opname/sessions', requirePermission('manage_opname'), async (req, res) => {
+    try {
+        const { session_name, location, notes } = req.body;
+
+        if (!session_name || !session_name.trim()) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Session name is required" 
+            });
+        }
+
+        // Only one count may run at a time
+        const active = await pool.query(
+            "SELECT id, session_name FROM opname_sessions WHERE status IN ('Open', 'Paused') LIMIT 1"
+        );
+
+        if (active.rows.length > 0) {
+            return res.status(409).json({ 
+                success: false, 
+                message: `Session "${active.rows[0].session_name}" is still active. Close it first.` 
+            });
+        }
+
+        const result = await pool.query(`
+            INSERT INTO opname_sessions (session_name, location, notes, status, opened_by)
+            VALUES ($1, $2, $3, 'Open', $4) RETURNING *
+        `, [session_name.trim(), location || null, notes || null, req.user.username]);
+
+        const session = result.rows[0];
+        await logActivity(req, 'OPEN_OPNAME', 'OPNAME_SESSION', String(session.id), `Opened stock opname: ${session.session_name}`);
+
+        res.json({ 
+            success: true, 
+            data: session,
+            message: "Opname session opened"
+        });
+    } catch (error) {
+        console.error("Open opname session error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
+});
+
+// 34. STOCK OPNAME - PAUSE / RESUME SESSION
+app.put('/api/opname/sessions/:id/:action(pause|resume)', requirePermission('manage_opname'), async (req, res) => {
+    try {
+        const { id, action } = req.params;
+        const fromStatus = action === 'pause' ? 'Open' : 'Paused';
+        const toStatus = action === 'pause' ? 'Paused' : 'Open';
+
+        const result = await pool.query(`
+            UPDATE opname_sessions 
+            SET status = $1, paused_at = ${action === 'pause' ? 'NOW()' : 'NULL'}
+            WHERE id = $2 AND status = $3 
+            RETURNING *
+        `, [toStatus, id, fromStatus]);
+
+        if (result.rows.length === 0) {
+            return res.status(409).json({ 
+                success: false, 
+                message: `Only ${fromStatus.toLowerCase()} sessions can be ${action}d` 
+            });
+        }
+
+        await logActivity(req, action === 'pause' ? 'PAUSE_OPNAME' : 'RESUME_OPNAME', 'OPNAME_SESSION', id, `Session ${toStatus.toLowerCase()}`);
+
+        res.json({ 
+            success: true, 
+            data: result.rows[0],
+            message: `Opname session ${action}d`
+        });
+    } catch (error) {
+        console.error("Pause/resume opname error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
+});
+
+// 35. STOCK OPNAME - CLOSE SESSION (FREEZE RESULTS)
+app.put('/api/opname/sessions/:id/close', requirePermission('manage_opname'), async (req, res) => {
+    const client = await pool.connect();
+    try {
+        const { id } = req.params;
+
+        await client.query('BEGIN');
+
+        const sessionRes = await client.query(
+            "SELECT * FROM opname_sessions WHERE id = $1 FOR UPDATE",
+            [id]
+        );
+
+        if (sessionRes.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ 
+                success: false, 
+                message: "Opname session not found" 
+            });
+        }
+
+        if (sessionRes.rows[0].status === 'Closed') {
+            await client.query('ROLLBACK');
+            return res.status(409).json({ 
+                success: false, 
+                message: "Opname session is already closed" 
+            });
+        }
+
+        // Snapshot every item together with its scan result for this session
+        await client.query(`
+            INSERT INTO opname_results (session_id, barcode, item_name, brand, category, price, item_status, scanned, scanned_by, scanned_at)
+            SELECT $1, i.barcode, i.item_name, i.brand, i.category, i.price, i.status,
+                   (s.id IS NOT NULL), s.scanned_by, s.scanned_at
+            FROM items i
+            LEFT JOIN opname_scans s ON s.session_id = $1 AND s.barcode = i.barcode
+            ON CONFLICT (session_id, barcode) DO NOTHING
+        `, [id]);
+
+        const totals = await client.query(`
+            SELECT COUNT(*) as total, COUNT(*) FILTER (WHERE scanned) as scanned
+            FROM opname_results WHERE session_id = $1
+        `, [id]);
+
+        const result = await client.query(`
+            UPDATE opname_sessions 
+            SET status = 'Closed', closed_at = NOW(), closed_by = $1, paused_at = NULL,
+                total_items = $2, scanned_items = $3
+            WHERE id = $4 
+            RETURNING *
+        `, [req.user.username, parseInt(totals.rows[0].total), parseInt(totals.rows[0].scanned), id]);
+
+        await logActivity(req, 'CLOSE_OPNAME', 'OPNAME_SESSION', id, 
+            `Closed stock opname: ${totals.rows[0].scanned}/${totals.rows[0].total} items scanned`);
+        await client.query('COMMIT');
+
+        res.json({ 
+            success: true, 
+            data: result.rows[0],
+            message: "Opname session closed and results frozen"
+        });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error("Close opname session error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    } finally {
+        client.release();
+    }
+});
+
+// 36. STOCK OPNAME - RECORD SCAN
+app.post('/api/opname/sessions/:id/scans', requirePermission('scan_opname'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { barcode, scanned_at } = req.body;
+
+        if (!barcode || !String(barcode).trim()) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Barcode is required" 
+            });
+        }
+
+        // Scans queued on a device while offline keep the time they were made
+        let scannedAt = null;
+        if (scanned_at) {
+            scannedAt = new Date(scanned_at);
+            if (isNaN(scannedAt.getTime())) {
+                return res.status(400).json({ 
+                    success: false, 
+                    message: "scanned_at must be a valid timestamp" 
+                });
+            }
+            if (scannedAt > new Date()) scannedAt = new Date();
+        }
+
+        const code = String(barcode).trim();
+
+        const sessionRes = await pool.query("SELECT * FROM opname_sessions WHERE id = $1", [id]);
+        if (sessionRes.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Opname session not found" 
+            });
+        }
+
+        if (sessionRes.rows[0].status !== 'Open') {
+            return res.status(409).json({ 
+                success: false, 
+                message: `Opname session is ${sessionRes.rows[0].status.toLowerCase()}` 
+            });
+        }
+
+        const itemRes = await pool.query("SELECT * FROM items WHERE barcode = $1", [code]);
+        if (itemRes.rows.length === 0) {
+            // Keep unknown barcodes in the ledger for the variance report
+            const unknown = await pool.query(`
+                INSERT INTO opname_scans (session_id, barcode, item_found, scanned_by, scanned_at)
+                VALUES ($1, $2, FALSE, $3, COALESCE($4, CURRENT_TIMESTAMP))
+                ON CONFLICT (session_id, barcode) DO NOTHING
+                RETURNING *
+            `, [id, code, req.user.username, scannedAt]);
+
+            if (unknown.rows.length > 0) {
+                await logActivity(req, 'OPNAME_UNKNOWN_BARCODE', 'ITEM', code, `Unknown barcode in opname session #${id}`);
+            }
+
+            return res.json({ 
+                success: true, 
+                found: false, 
+                duplicate: unknown.rows.length === 0,
+                message: "Item not found" 
+            });
+        }
+
+        const item = itemRes.rows[0];
+        const insert = await pool.query(`
+            INSERT INTO opname_scans (session_id, barcode, item_status, scanned_by, scanned_at)
+            VALUES ($1, $2, $3, $4, COALESCE($5, CURRENT_TIMESTAMP))
+            ON CONFLICT (session_id, barcode) DO NOTHING
+            RETURNING *
+        `, [id, code, item.status, req.user.username, scannedAt]);
+
+        if (insert.rows.length === 0) {
+            const existing = await pool.query(
+                "SELECT * FROM opname_scans WHERE session_id = $1 AND barcode = $2",
+                [id, code]
+            );
+            return res.json({ 
+                success: true, 
+                found: true, 
+                duplicate: true,
+                data: { ...item, is_scanned: true, scan_timestamp: existing.rows[0].scanned_at },
+                scan: existing.rows[0]
+            });
+        }
+
+        // Scan results live next to the loan status, never in it
+        const scannedItem = await pool.query(`
+            UPDATE items SET last_scanned = $1, scan_count = COALESCE(scan_count, 0) + 1 
+            WHERE barcode = $2 
+            RETURNING *
+        `, [insert.rows[0].scanned_at, code]);
+
+        await logActivity(req, 'OPNAME_SCAN', 'ITEM', code, 
+            `Scanned in opname session #${id}${scannedAt ? ' (synced from offline queue)' : ''}`);
+
+        res.json({ 
+            success: true, 
+            found: true, 
+            duplicate: false,
+            data: { ...scannedItem.rows[0], is_scanned: true, scan_timestamp: insert.rows[0].scanned_at },
+            scan: insert.rows[0]
+        });
+    } catch (error) {
+        console.error("Opname scan error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
+});
+
+// 37. STOCK OPNAME - SCAN LEDGER
+app.get('/api/opname/sessions/:id/scans', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { limit = 500 } = req.query;
+
+        const result = await pool.query(`
+            SELECT osc.*, i.item_name, i.brand, i.size, i.color, i.price
+            FROM opname_scans osc
+            LEFT JOIN items i ON osc.barcode = i.barcode
+            WHERE osc.session_id = $1
+            ORDER BY osc.scanned_at DESC
+            LIMIT $2
+        `, [id, parseInt(limit)]);
+
+        res.json({ 
+            success: true, 
+            count: result.rows.length,
+            data: result.rows 
+        });
+    } catch (error) {
+        console.error("Opname scans error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
+});
+
+// 38. STOCK OPNAME - VARIANCE REPORT
+app.get('/api/opname/sessions/:id/variance', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const sessionRes = await pool.query("SELECT * FROM opname_sessions WHERE id = $1", [id]);
+
+        if (sessionRes.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Opname session not found" 
+            });
+        }
+
+        const variance = await buildOpnameVariance(sessionRes.rows[0]);
+        res.json({ 
+            success: true, 
+            data: variance 
+        });
+    } catch (error) {
+        console.error("Opname variance error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
+});
+
+// 39. STOCK OPNAME - FROZEN RESULTS OF A CLOSED SESSION
+app.get('/api/opname/sessions/:id/results', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { scanned } = req.query;
+        let query = "SELECT * FROM opname_results WHERE session_id = $1";
+
+        if (scanned === 'true') {
+            query += " AND scanned = TRUE";
+        } else if (scanned === 'false') {
+            query += " AND scanned = FALSE";
+        }
+
+        query += " ORDER BY barcode ASC";
+
+        const result = await pool.query(query, [id]);
+        res.json({ 
+            success: true, 
+            count: result.rows.length,
+            data: result.rows 
+        });
+    } catch (error) {
+        console.error("Opname results error:", error);
+        res.status(500).json({ 
+            success: false, 
+            error: error.message 
+        });
+    }
+});
+
+// 40. UPDATE USER
+app.put('/api/users/:id', requirePermission('manage_users'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { username, fullname, nik, role } = req.body;
+
+        if (role && !ROLES.includes(role)) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `Invalid role. Use one of: ${ROLES.join(', ')}` 
+            });
+        }
+
+        // Admins cannot demote themselves and lock everyone out of this screen
+        if (role && parseInt(id) === req.user.id && role !== req.user.role) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "You cannot change your own role" 
+            });
+        }
+
+        // A missing nik leaves it as is; an empty one (or null) clears it
+        const result = await pool.query(`
+            UPDATE users 
+            SET username = COALESCE($1, username),
+                fullname = COALESCE($2, fullname),
+                nik = CASE WHEN $6 THEN $3 ELSE nik END,
+                role = COALESCE($4, role)
+            WHERE id = $5
+            RETURNING id, username, fullname, nik, role, is_active, last_login, created_at, updated_at
+        `, [username || null, fullname ?? null, String(nik ?? '').trim() || null, role || null, id, nik !== undefined]);
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "User not found" 
+            });
+        }
+
+        const user = result.rows[0];
+        await logActivity(req, 'UPDATE_USER', 'USER', user.username, `Updated user: ${user.fullname} (${user.role})`);
+        res.json({ 
+            success: true, 
+            message: "User updated successfully",
+            data: user
+        });
+    } catch (err) {
+        if (err.code === '23505') {
+            return res.status(409).json({ 
+                success: false, 
+                message: "Username or NIK is already in use" 
+            });
+        }
+        console.error("Update user error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 41. ACTIVATE / DEACTIVATE USER
+app.put('/api/users/:id/:action(activate|deactivate)', requirePermission('manage_users'), async (req, res) => {
+    try {
+        const { id, action } = req.params;
+        const isActive = action === 'activate';
+
+        if (!isActive && parseInt(id) === req.user.id) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "You cannot deactivate your own account" 
+            });
+        }
+
+        const result = await pool.query(`
+            UPDATE users SET is_active = $1 WHERE id = $2
+            RETURNING id, username, fullname, nik, role, is_active, last_login, created_at, updated_at
+        `, [isActive, id]);
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "User not found" 
+            });
+        }
+
+        // Sign the user out of every device
+        if (!isActive) {
+            await revokeUserSessions(pool, id);
+        }
+
+        const user = result.rows[0];
+        await logActivity(req, isActive ? 'ACTIVATE_USER' : 'DEACTIVATE_USER', 'USER', user.username, 
+            `User ${isActive ? 'activated' : 'deactivated'}: ${user.fullname || user.username}`);
+        res.json({ 
+            success: true, 
+            message: `User ${isActive ? 'activated' : 'deactivated'}`,
+            data: user
+        });
+    } catch (err) {
+        console.error("User activation error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 42. RESET USER PASSWORD
+app.put('/api/users/:id/password', requirePermission('manage_users'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { password } = req.body;
+
+        if (!password || password.length < MIN_PASSWORD_LENGTH) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` 
+            });
+        }
+
+        const result = await pool.query(
+            "UPDATE users SET password = $1 WHERE id = $2 RETURNING username",
+            [await hashPassword(password), id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "User not found" 
+            });
+        }
+
+        // Existing sessions were opened with the old password
+        await revokeUserSessions(pool, id);
+
+        await logActivity(req, 'RESET_PASSWORD', 'USER', result.rows[0].username, 'Password reset by administrator');
+        res.json({ 
+            success: true, 
+            message: "Password reset successfully. The user has been signed out of all devices."
+        });
+    } catch (err) {
+        console.error("Reset password error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 43. DELETE USER
+app.delete('/api/users/:id', requirePermission('manage_users'), async (req, res) => {
+    try {
+        const { id } = req.params;
+
+        if (parseInt(id) === req.user.id) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "You cannot delete your own account" 
+            });
+        }
+
+        const result = await pool.query(
+            "DELETE FROM users WHERE id = $1 RETURNING username, fullname",
+            [id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "User not found" 
+            });
+        }
+
+        await logActivity(req, 'DELETE_USER', 'USER', result.rows[0].username, 
+            `Deleted user: ${result.rows[0].fullname || result.rows[0].username}`);
+        res.json({ 
+            success: true, 
+            message: "User deleted successfully" 
+        });
+    } catch (err) {
+        console.error("Delete user error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 44. UPDATE BORROWER
+app.put('/api/borrowers/:id', requirePermission('manage_borrowers'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { nik, name, phone, position, department, email, address } = req.body;
+
+        if (!nik || !name) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "NIK and name are required" 
+            });
+        }
+
+        const result = await pool.query(`
+            UPDATE borrowers 
+            SET nik = $1, name = $2, phone = $3, position = $4, 
+                department = $5, email = $6, address = $7
+            WHERE id = $8
+            RETURNING *
+        `, [nik, name, phone || null, position || null, department || null, email || null, address || null, id]);
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Borrower not found" 
+            });
+        }
+
+        await logActivity(req, 'UPDATE_BORROWER', 'BORROWER', id, `Updated borrower: ${name}`);
+        res.json({ 
+            success: true, 
+            data: result.rows[0] 
+        });
+    } catch (err) {
+        if (err.code === '23505') {
+            return res.status(409).json({ 
+                success: false, 
+                message: "Another borrower already uses this NIK" 
+            });
+        }
+        console.error("Update borrower error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 45. ACTIVATE / DEACTIVATE BORROWER
+app.put('/api/borrowers/:id/:action(activate|deactivate)', requirePermission('manage_borrowers'), async (req, res) => {
+    try {
+        const { id, action } = req.params;
+        const isActive = action === 'activate';
+
+        const result = await pool.query(
+            "UPDATE borrowers SET is_active = $1 WHERE id = $2 RETURNING *",
+            [isActive, id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Borrower not found" 
+            });
+        }
+
+        await logActivity(req, isActive ? 'ACTIVATE_BORROWER' : 'DEACTIVATE_BORROWER', 'BORROWER', id, 
+            `Borrower ${isActive ? 'activated' : 'deactivated'}: ${result.rows[0].name}`);
+        res.json({ 
+            success: true, 
+            data: result.rows[0] 
+        });
+    } catch (err) {
+        console.error("Borrower activation error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 46. BLOCK / UNBLOCK BORROWER FROM NEW LOANS
+app.put('/api/borrowers/:id/:action(block|unblock)', requirePermission('block_borrower'), async (req, res) => {
+    try {
+        const { id, action } = req.params;
+        const { reason } = req.body;
+        const isBlocked = action === 'block';
+
+        if (isBlocked && !reason) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "A reason is required to block a borrower" 
+            });
+        }
+
+        const result = await pool.query(`
+            UPDATE borrowers 
+            SET is_blocked = $1,
+                blocked_reason = $2,
+                blocked_at = CASE WHEN $1 THEN NOW() ELSE NULL END,
+                blocked_by = CASE WHEN $1 THEN $3 ELSE NULL END
+            WHERE id = $4
+            RETURNING *
+        `, [isBlocked, isBlocked ? reason : null, req.user.username, id]);
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Borrower not found" 
+            });
+        }
+
+        await logActivity(req, isBlocked ? 'BLOCK_BORROWER' : 'UNBLOCK_BORROWER', 'BORROWER', id, 
+            isBlocked ? `Blocked ${result.rows[0].name}: ${reason}` : `Unblocked ${result.rows[0].name}`);
+        res.json({ 
+            success: true, 
+            data: result.rows[0] 
+        });
+    } catch (err) {
+        console.error("Borrower block error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 47. BORROWER LOAN HISTORY
+app.get('/api/borrowers/:id/loans', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const result = await pool.query(`
+            SELECT lt.id, lt.invoice_no, lt.program_name, lt.loan_reason, lt.due_date, 
+                   lt.status, lt.inputter_name, lt.created_at,
+                   COUNT(li.id)::int as item_count,
+                   COUNT(li.id) FILTER (WHERE li.status = 'On Loan')::int as outstanding_items,
+                   COALESCE(SUM(COALESCE(i.price, li.price)), 0) as total_value,
+                   (COUNT(li.id) FILTER (WHERE li.status = 'On Loan' AND ${ITEM_DUE_DATE_SQL} < CURRENT_DATE) > 0) as is_overdue
+            FROM loan_transactions lt
+            LEFT JOIN loan_items li ON li.transaction_id = lt.id
+            LEFT JOIN items i ON i.barcode = li.barcode
+            WHERE lt.borrower_id = $1
+            GROUP BY lt.id
+            ORDER BY lt.created_at DESC
+        `, [id]);
+
+        res.json({ 
+            success: true, 
+            count: result.rows.length,
+            data: result.rows 
+        });
+    } catch (err) {
+        console.error("Borrower history error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 48. RETURN INSPECTION PHOTOS OF A LOAN ITEM
+app.get('/api/loan-items/:id/photos', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const result = await pool.query(
+            "SELECT id, photo_base64, created_at FROM loan_item_photos WHERE loan_item_id = $1 ORDER BY id ASC",
+            [id]
+        );
+        res.json({ 
+            success: true, 
+            count: result.rows.length,
+            data: result.rows 
+        });
+    } catch (err) {
+        console.error("Return photos error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 49. MAINTENANCE - LIST TICKETS
+app.get('/api/maintenance', async (req, res) => {
+    try {
+        const { status, type } = req.query;
+        const params = [];
+        const conditions = [];
+
+        if (status) {
+            params.push(status);
+            conditions.push(`mt.status = $${params.length}`);
+        }
+        if (type) {
+            params.push(type);
+            conditions.push(`mt.type = $${params.length}`);
+        }
+
+        const result = await pool.query(`
+            SELECT mt.*, 
+                   COUNT(mi.id)::int as item_count,
+                   COUNT(mi.id) FILTER (WHERE mi.status = 'Out')::int as outstanding_items,
+                   (mt.status = 'Open' AND mt.expected_date < CURRENT_DATE) as is_late
+            FROM maintenance_tickets mt
+            LEFT JOIN maintenance_items mi ON mi.ticket_id = mt.id
+            ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+            GROUP BY mt.id
+            ORDER BY mt.status = 'Open' DESC, mt.created_at DESC
+            LIMIT 200
+        `, params);
+
+        res.json({ 
+            success: true, 
+            count: result.rows.length,
+            data: result.rows 
+        });
+    } catch (err) {
+        console.error("List maintenance error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 50. MAINTENANCE - RECEIVE ITEMS BACK (by barcode, from whichever ticket they are on)
+app.post('/api/maintenance/receive', requirePermission('manage_maintenance'), async (req, res) => {
+    const client = await pool.connect();
+    try {
+        // Either `items` with the condition each came back in, or plain `barcodes` (received as Good)
+        const { barcodes, items } = req.body;
+        const entries = Array.isArray(items) 
+            ? items 
+            : (Array.isArray(barcodes) ? barcodes.map(barcode => ({ barcode })) : []);
+
+        const conditionByBarcode = new Map();
+        for (const entry of entries) {
+            const barcode = String(entry.barcode || '').trim();
+            const condition = entry.condition || 'Good';
+            if (!barcode) continue;
+
+            if (!RECEIVE_CONDITIONS[condition]) {
+                return res.status(400).json({ 
+                    success: false, 
+                    message: `Item ${barcode}: invalid condition. Use one of: ${Object.keys(RECEIVE_CONDITIONS).join(', ')}` 
+                });
+            }
+            conditionByBarcode.set(barcode, condition);
+        }
+
+        if (conditionByBarcode.size === 0) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "No barcodes provided" 
+            });
+        }
+
+        await client.query('BEGIN');
+
+        const received = await client.query(`
+            UPDATE maintenance_items mi
+            SET status = 'Received', received_at = NOW(), received_by = $3, received_condition = t.condition
+            FROM unnest($1::varchar[], $2::varchar[]) AS t(barcode, condition)
+            WHERE mi.barcode = t.barcode AND mi.status = 'Out'
+            RETURNING mi.barcode, mi.ticket_id, mi.received_condition
+        `, [[...conditionByBarcode.keys()], [...conditionByBarcode.values()], req.user.username]);
+
+        const receivedBarcodes = received.rows.map(row => row.barcode);
+        const ticketIds = [...new Set(received.rows.map(row => row.ticket_id))];
+
+        await client.query(`
+            UPDATE items i
+            SET status = t.status, condition = t.condition, updated_at = NOW()
+            FROM unnest($1::varchar[], $2::varchar[], $3::varchar[]) AS t(barcode, condition, status)
+            WHERE i.barcode = t.barcode
+        `, [
+            receivedBarcodes,
+            received.rows.map(row => row.received_condition),
+            received.rows.map(row => RECEIVE_CONDITIONS[row.received_condition].itemStatus)
+        ]);
+
+        // Tickets with nothing left at the vendor are done
+        const closed = await client.query(`
+            UPDATE maintenance_tickets mt 
+            SET status = 'Closed', closed_at = NOW()
+            WHERE mt.id = ANY($1) AND NOT EXISTS (
+                SELECT 1 FROM maintenance_items mi WHERE mi.ticket_id = mt.id AND mi.status = 'Out'
+            )
+            RETURNING ticket_no
+        `, [ticketIds]);
+
+        const notOut = [...conditionByBarcode.keys()].filter(barcode => !receivedBarcodes.includes(barcode));
+        const closedTickets = closed.rows.map(row => row.ticket_no);
+        const conditions = {};
+        received.rows.forEach(row => {
+            conditions[row.received_condition] = (conditions[row.received_condition] || 0) + 1;
+        });
+        const available = conditions.Good || 0;
+
+        const conditionSummary = Object.entries(conditions).map(([condition, count]) => `${count} ${condition}`).join(', ');
+        await logActivity(req, 'RECEIVE_MAINTENANCE', 'MAINTENANCE', 'BATCH', 
+            `Received ${receivedBarcodes.length} items back${conditionSummary ? ` (${conditionSummary})` : ''}${closedTickets.length ? `, closed ${closedTickets.join(', ')}` : ''}`);
+        await client.query('COMMIT');
+
+        res.json({ 
+            success: true,
+            stats: {
+                received: receivedBarcodes.length,
+                not_out: notOut.length,
+                conditions
+            },
+            details: {
+                not_out_barcodes: notOut,
+                closed_tickets: closedTickets
+            },
+            message: `${receivedBarcodes.length} items received back, ${available} available for loan`
+        });
+    } catch (err) {
+        await client.query('ROLLBACK');
+        console.error("Receive maintenance error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    } finally {
+        client.release();
+    }
+});
+
+// 51. MAINTENANCE - SEND ITEMS OUT (creates the ticket)
+app.post('/api/maintenance', requirePermission('manage_maintenance'), async (req, res) => {
+    const client = await pool.connect();
+    try {
+        const { type, vendor, cost, expected_date, notes } = req.body;
+        const barcodes = [...new Set((req.body.barcodes || []).map(b => String(b).trim()).filter(Boolean))];
+
+        if (!MAINTENANCE_TYPES[type]) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `Invalid type. Use one of: ${Object.keys(MAINTENANCE_TYPES).join(', ')}` 
+            });
+        }
+
+        if (barcodes.length === 0) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "No barcodes provided" 
+            });
+        }
+
+        await client.query('BEGIN');
+
+        const itemsRes = await client.query(
+            "SELECT barcode, status FROM items WHERE barcode = ANY($1) FOR UPDATE",
+            [barcodes]
+        );
+        const statusByBarcode = new Map(itemsRes.rows.map(row => [row.barcode, row.status]));
+
+        const rejected = barcodes
+            .filter(barcode => !MAINTENANCE_SENDABLE_STATUSES.includes(statusByBarcode.get(barcode)))
+            .map(barcode => `${barcode}: ${statusByBarcode.get(barcode) || 'not found'}`);
+
+        if (rejected.length > 0) {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ 
+                success: false, 
+                message: `${rejected.length} items cannot be sent out (only ${MAINTENANCE_SENDABLE_STATUSES.join(' or ')} items)`,
+                rejected
+            });
+        }
+
+        const ticketNo = await nextDocumentNumber(client, 'maintenance');
+
+        const ticketRes = await client.query(`
+            INSERT INTO maintenance_tickets (ticket_no, type, vendor, cost, expected_date, notes, status, created_by)
+            VALUES ($1, $2, $3, $4, $5, $6, 'Open', $7) RETURNING *
+        `, [ticketNo, type, vendor || null, cost || 0, expected_date || null, notes || null, req.user.username]);
+        const ticket = ticketRes.rows[0];
+
+        await client.query(`
+            INSERT INTO maintenance_items (ticket_id, barcode, previous_status)
+            SELECT $1, barcode, status FROM items WHERE barcode = ANY($2)
+        `, [ticket.id, barcodes]);
+
+        await client.query(
+            "UPDATE items SET status = $1, updated_at = NOW() WHERE barcode = ANY($2)",
+            [MAINTENANCE_TYPES[type], barcodes]
+        );
+
+        await logActivity(req, 'SEND_MAINTENANCE', 'MAINTENANCE', String(ticket.id), 
+            `${ticket.ticket_no}: ${barcodes.length} items sent to ${type.toLowerCase()}${vendor ? ` (${vendor})` : ''}`);
+        await client.query('COMMIT');
+
+        res.json({ 
+            success: true, 
+            data: { ...ticket, item_count: barcodes.length },
+            message: `${barcodes.length} items sent to ${type.toLowerCase()} on ${ticket.ticket_no}`
+        });
+    } catch (err) {
+        await client.query('ROLLBACK');
+        console.error("Send maintenance error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    } finally {
+        client.release();
+    }
+});
+
+// 52. MAINTENANCE - TICKET DETAILS
+app.get('/api/maintenance/:id', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const ticketRes = await pool.query("SELECT * FROM maintenance_tickets WHERE id = $1", [id]);
+
+        if (ticketRes.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Maintenance ticket not found" 
+            });
+        }
+
+        const itemsRes = await pool.query(`
+            SELECT mi.*, i.item_name, i.brand, i.size, i.color, i.price
+            FROM maintenance_items mi
+            LEFT JOIN items i ON i.barcode = mi.barcode
+            WHERE mi.ticket_id = $1
+            ORDER BY mi.id ASC
+        `, [id]);
+
+        res.json({ 
+            success: true, 
+            data: { ...ticketRes.rows[0], items: itemsRes.rows }
+        });
+    } catch (err) {
+        console.error("Maintenance details error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 53. MAINTENANCE - UPDATE VENDOR / COST / EXPECTED DATE
+app.put('/api/maintenance/:id', requirePermission('manage_maintenance'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { vendor, cost, expected_date, notes } = req.body;
+
+        const result = await pool.query(`
+            UPDATE maintenance_tickets 
+            SET vendor = COALESCE($1, vendor), 
+                cost = COALESCE($2, cost), 
+                expected_date = COALESCE($3, expected_date), 
+                notes = COALESCE($4, notes)
+            WHERE id = $5 
+            RETURNING *
+        `, [vendor ?? null, cost ?? null, expected_date || null, notes ?? null, id]);
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Maintenance ticket not found" 
+            });
+        }
+
+        await logActivity(req, 'UPDATE_MAINTENANCE', 'MAINTENANCE', id, `Updated ${result.rows[0].ticket_no}`);
+
+        res.json({ 
+            success: true, 
+            data: result.rows[0],
+            message: "Maintenance ticket updated"
+        });
+    } catch (err) {
+        console.error("Update maintenance error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 54. RESERVATIONS - LIST
+app.get('/api/reservations', async (req, res) => {
+    try {
+        const { status, from, to } = req.query;
+        const params = [];
+        const conditions = [];
+
+        if (status) {
+            if (!RESERVATION_STATUSES.includes(status)) {
+                return res.status(400).json({ 
+                    success: false, 
+                    message: `Invalid status. Allowed: ${RESERVATION_STATUSES.join(', ')}` 
+                });
+            }
+            params.push(status);
+            conditions.push(`r.status = $${params.length}`);
+        }
+        if (from) {
+            params.push(from);
+            conditions.push(`r.end_date >= $${params.length}`);
+        }
+        if (to) {
+            params.push(to);
+            conditions.push(`r.start_date <= $${params.length}`);
+        }
+
+        const result = await pool.query(`
+            SELECT r.*, lt.invoice_no as loan_invoice_no, COUNT(ri.id)::int as item_count
+            FROM reservations r
+            LEFT JOIN reservation_items ri ON ri.reservation_id = r.id
+            LEFT JOIN loan_transactions lt ON lt.id = r.loan_id
+            ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+            GROUP BY r.id, lt.invoice_no
+            ORDER BY r.start_date ASC, r.id ASC
+            LIMIT 200
+        `, params);
+
+        res.json({ 
+            success: true, 
+            count: result.rows.length,
+            data: result.rows 
+        });
+    } catch (err) {
+        console.error("List reservations error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 55. RESERVATIONS - CHECK CONFLICTS FOR BARCODES AND A DATE RANGE
+app.post('/api/reservations/conflicts', async (req, res) => {
+    try {
+        const { start_date, end_date, exclude_id } = req.body;
+        const barcodes = [...new Set((req.body.barcodes || []).map(b => String(b).trim()).filter(Boolean))];
+
+        if (!start_date || !end_date || end_date < start_date) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "A valid start and end date are required" 
+            });
+        }
+
+        const conflicts = barcodes.length > 0
+            ? await findReservationConflicts(pool, barcodes, start_date, end_date, exclude_id || null)
+            : [];
+
+        res.json({ 
+            success: true, 
+            count: conflicts.length,
+            data: conflicts 
+        });
+    } catch (err) {
+        console.error("Reservation conflicts error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 56. RESERVATIONS - CREATE
+app.post('/api/reservations', requirePermission('manage_reservations'), async (req, res) => {
+    const client = await pool.connect();
+    try {
+        const { borrower_id, program_name, start_date, end_date, notes } = req.body;
+        const barcodes = [...new Set((req.body.barcodes || []).map(b => String(b).trim()).filter(Boolean))];
+
+        if (!program_name || !program_name.trim()) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Program name is required" 
+            });
+        }
+
+        if (!start_date || !end_date || end_date < start_date) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "A valid start and end date are required" 
+            });
+        }
+
+        if (barcodes.length === 0) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "No items selected for reservation" 
+            });
+        }
+
+        const refused = await checkBorrowerCanLoan(client, borrower_id);
+        if (refused) {
+            return res.status(refused.status).json({ 
+                success: false, 
+                message: refused.message 
+            });
+        }
+
+        await client.query('BEGIN');
+
+        // Serialise reservations of the same items so two bookings cannot both pass the check
+        const itemsRes = await client.query(
+            "SELECT barcode FROM items WHERE barcode = ANY($1) ORDER BY barcode FOR UPDATE",
+            [barcodes]
+        );
+        const missing = barcodes.filter(barcode => !itemsRes.rows.some(row => row.barcode === barcode));
+
+        if (missing.length > 0) {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ 
+                success: false, 
+                message: `Items not found: ${missing.join(', ')}` 
+            });
+        }
+
+        const conflicts = await findReservationConflicts(client, barcodes, start_date, end_date);
+        if (conflicts.length > 0) {
+            await client.query('ROLLBACK');
+            return res.status(409).json({ 
+                success: false, 
+                message: `${new Set(conflicts.map(c => c.barcode)).size} items are not free in this period`,
+                conflicts
+            });
+        }
+
+        const borrowerRes = await client.query("SELECT name FROM borrowers WHERE id = $1", [borrower_id]);
+
+        const reservationNo = await nextDocumentNumber(client, 'reservation');
+
+        const result = await client.query(`
+            INSERT INTO reservations (reservation_no, borrower_id, borrower_name, program_name, start_date, end_date, notes, status, created_by)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, 'Reserved', $8) RETURNING *
+        `, [reservationNo, borrower_id, borrowerRes.rows[0].name, program_name.trim(), start_date, end_date, notes || null, req.user.username]);
+        const reservation = result.rows[0];
+
+        await client.query(
+            "INSERT INTO reservation_items (reservation_id, barcode) SELECT $1, UNNEST($2::varchar[])",
+            [reservation.id, barcodes]
+        );
+
+        await logActivity(req, 'CREATE_RESERVATION', 'RESERVATION', String(reservation.id), 
+            `${reservation.reservation_no}: ${barcodes.length} items for ${reservation.program_name} (${start_date} - ${end_date})`);
+        await client.query('COMMIT');
+
+        res.json({ 
+            success: true, 
+            data: { ...reservation, item_count: barcodes.length },
+            message: `Reservation ${reservation.reservation_no} created for ${barcodes.length} items`
+        });
+    } catch (err) {
+        await client.query('ROLLBACK');
+        console.error("Create reservation error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    } finally {
+        client.release();
+    }
+});
+
+// 57. RESERVATIONS - DETAILS (items with their current status and conflicts)
+app.get('/api/reservations/:id', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const reservationRes = await pool.query(`
+            SELECT r.*, lt.invoice_no as loan_invoice_no
+            FROM reservations r
+            LEFT JOIN loan_transactions lt ON lt.id = r.loan_id
+            WHERE r.id = $1
+        `, [id]);
+
+        if (reservationRes.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Reservation not found" 
+            });
+        }
+
+        const reservation = reservationRes.rows[0];
+        const itemsRes = await pool.query(`
+            SELECT ri.barcode, i.item_name, i.brand, i.size, i.color, i.price, i.status
+            FROM reservation_items ri
+            LEFT JOIN items i ON i.barcode = ri.barcode
+            WHERE ri.reservation_id = $1
+            ORDER BY ri.id ASC
+        `, [id]);
+
+        const conflicts = reservation.status === 'Reserved'
+            ? await findReservationConflicts(pool, itemsRes.rows.map(item => item.barcode), 
+                reservation.start_date, reservation.end_date, reservation.id)
+            : [];
+
+        res.json({ 
+            success: true, 
+            data: { ...reservation, items: itemsRes.rows, conflicts }
+        });
+    } catch (err) {
+        console.error("Reservation details error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 58. RESERVATIONS - CANCEL
+app.put('/api/reservations/:id/cancel', requirePermission('manage_reservations'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        const result = await pool.query(
+            "UPDATE reservations SET status = 'Cancelled' WHERE id = $1 AND status = 'Reserved' RETURNING *",
+            [id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(409).json({ 
+                success: false, 
+                message: "Only open reservations can be cancelled" 
+            });
+        }
+
+        await logActivity(req, 'CANCEL_RESERVATION', 'RESERVATION', id, `Cancelled ${result.rows[0].reservation_no}`);
+
+        res.json({ 
+            success: true, 
+            data: result.rows[0],
+            message: "Reservation cancelled"
+        });
+    } catch (err) {
+        console.error("Cancel reservation error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 59. RESERVATIONS - CHECK OUT AS A LOAN AT PICKUP
+app.post('/api/reservations/:id/checkout', requirePermission('create_loan'), async (req, res) => {
+    const client = await pool.connect();
+    try {
+        const { id } = req.params;
+        const { due_date, loan_reason, signature_base64 } = req.body;
+
+        if (!isValidSignature(signature_base64)) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "signature_base64 must be a PNG or JPEG data URL" 
+            });
+        }
+
+        await client.query('BEGIN');
+
+        const reservationRes = await client.query(
+            "SELECT * FROM reservations WHERE id = $1 FOR UPDATE",
+            [id]
+        );
+        const reservation = reservationRes.rows[0];
+
+        if (!reservation) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ 
+                success: false, 
+                message: "Reservation not found" 
+            });
+        }
+
+        if (reservation.status !== 'Reserved') {
+            await client.query('ROLLBACK');
+            return res.status(409).json({ 
+                success: false, 
+                message: `Reservation is already ${reservation.status.toLowerCase()}` 
+            });
+        }
+
+        const refused = await checkBorrowerCanLoan(client, reservation.borrower_id);
+        if (refused) {
+            await client.query('ROLLBACK');
+            return res.status(refused.status).json({ 
+                success: false, 
+                message: refused.message 
+            });
+        }
+
+        const itemsRes = await client.query(
+            "SELECT barcode FROM reservation_items WHERE reservation_id = $1 ORDER BY id ASC",
+            [id]
+        );
+        const items = itemsRes.rows.map(row => row.barcode);
+
+        // Reserved items can still have been lost, written off or kept out
+        // since the reservation was made
+        const unavailable = await findUnavailableItems(client, items);
+        if (unavailable.length > 0) {
+            await client.query('ROLLBACK');
+            return res.status(409).json({ 
+                success: false, 
+                message: `${unavailable.length} item(s) no longer available: ` +
+                    unavailable.map(item => `${item.barcode} (${describeUnavailable(item)})`).join(', '),
+                unavailable
+            });
+        }
+
+        const loan = await insertLoan(client, {
+            borrower_id: reservation.borrower_id,
+            borrower_name: reservation.borrower_name,
+            inputter_name: req.user.fullname || req.user.username,
+            program_name: reservation.program_name,
+            loan_reason: loan_reason || `Reservation ${reservation.reservation_no}`,
+            due_date: due_date || reservation.end_date,
+            signature_base64,
+            items
+        });
+
+        await client.query(
+            "UPDATE reservations SET status = 'Checked Out', loan_id = $1 WHERE id = $2",
+            [loan.id, id]
+        );
+
+        await logActivity(req, 'LOAN', 'TRANSACTION', loan.invoice_no, 
+            `Loan created with ${items.length} items from reservation ${reservation.reservation_no}.`);
+        await client.query('COMMIT');
+
+        res.json({ 
+            success: true, 
+            invoice_no: loan.invoice_no,
+            transaction_id: loan.id,
+            message: `Reservation ${reservation.reservation_no} checked out as ${loan.invoice_no}`
+        });
+    } catch (err) {
+        await client.query('ROLLBACK');
+        console.error("Reservation checkout error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    } finally {
+        client.release();
+    }
+});
+
+// 60. EXTEND A LOAN (whole loan, or only the given barcodes)
+app.post('/api/loans/:id/extend', requirePermission('manage_loans'), async (req, res) => {
+    const client = await pool.connect();
+    try {
+        const { id } = req.params;
+        const { new_due_date, reason } = req.body;
+        const barcodes = [...new Set((req.body.barcodes || []).map(b => String(b).trim()).filter(Boolean))];
+        const wholeLoan = barcodes.length === 0;
+
+        if (!reason || !reason.trim()) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "A reason for the extension is required" 
+            });
+        }
+
+        if (!new_due_date || isNaN(new Date(new_due_date).getTime())) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "A valid new due date is required" 
+            });
+        }
+
+        await client.query('BEGIN');
+
+        const loanRes = await client.query(
+            `SELECT *, ($1::date < CURRENT_DATE) as is_past, ($1::date <= due_date) as not_later,
+                    TO_CHAR(due_date, 'YYYY-MM-DD') as current_due_date
+             FROM loan_transactions WHERE id = $2 FOR UPDATE`,
+            [new_due_date, id]
+        );
+        const loan = loanRes.rows[0];
+
+        if (!loan) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ 
+                success: false, 
+                message: "Loan not found" 
+            });
+        }
+
+        if (!['Open', 'Overdue'].includes(loan.status)) {
+            await client.query('ROLLBACK');
+            return res.status(409).json({ 
+                success: false, 
+                message: `Loan is already ${loan.status.toLowerCase()}` 
+            });
+        }
+
+        if (loan.is_past) {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ 
+                success: false, 
+                message: "New due date cannot be in the past" 
+            });
+        }
+
+        if (wholeLoan && loan.not_later) {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ 
+                success: false, 
+                message: `New due date must be after the current due date (${loan.current_due_date})` 
+            });
+        }
+
+        const itemsRes = await client.query(`
+            SELECT li.id, li.barcode, ${ITEM_DUE_DATE_SQL} as due_date,
+                   ($3::date <= ${ITEM_DUE_DATE_SQL}) as not_later
+            FROM loan_items li
+            JOIN loan_transactions lt ON lt.id = li.transaction_id
+            WHERE li.transaction_id = $1 AND li.status = 'On Loan'
+              AND ($2::text[] IS NULL OR li.barcode = ANY($2))
+        `, [id, wholeLoan ? null : barcodes, new_due_date]);
+
+        const notOnLoan = barcodes.filter(barcode => !itemsRes.rows.some(row => row.barcode === barcode));
+        if (notOnLoan.length > 0) {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ 
+                success: false, 
+                message: `Not on loan under ${loan.invoice_no}: ${notOnLoan.join(', ')}` 
+            });
+        }
+
+        if (itemsRes.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(409).json({ 
+                success: false, 
+                message: "This loan has no items left on loan" 
+            });
+        }
+
+        const notLater = itemsRes.rows.filter(item => item.not_later).map(item => item.barcode);
+        if (!wholeLoan && notLater.length > 0) {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ 
+                success: false, 
+                message: `New due date must be after the current due date of: ${notLater.join(', ')}` 
+            });
+        }
+
+        // A whole-loan extension leaves items already due later as they are
+        const extended = itemsRes.rows.filter(item => !item.not_later);
+
+        const extensionRes = await client.query(`
+            INSERT INTO loan_extensions (transaction_id, new_due_date, reason, whole_loan, extended_by)
+            VALUES ($1, $2, $3, $4, $5)
+            RETURNING *
+        `, [id, new_due_date, reason.trim(), wholeLoan, req.user.username]);
+        const extension = extensionRes.rows[0];
+
+        for (const item of extended) {
+            await client.query(`
+                INSERT INTO loan_extension_items (extension_id, loan_item_id, barcode, previous_due_date)
+                VALUES ($1, $2, $3, $4)
+            `, [extension.id, item.id, item.barcode, item.due_date]);
+        }
+
+        if (wholeLoan) {
+            // The loan's own due date moves; earlier per-item overrides fold
+            // back into it, later ones are kept
+            await client.query(
+                "UPDATE loan_transactions SET due_date = $1 WHERE id = $2",
+                [new_due_date, id]
+            );
+            await client.query(
+                "UPDATE loan_items SET due_date = NULL WHERE transaction_id = $1 AND status = 'On Loan' AND due_date <= $2::date",
+                [id, new_due_date]
+            );
+        } else {
+            await client.query(
+                "UPDATE loan_items SET due_date = $1 WHERE id = ANY($2)",
+                [new_due_date, extended.map(item => item.id)]
+            );
+        }
+
+        await logActivity(req, 'EXTEND_LOAN', 'LOAN', String(id), 
+            `${loan.invoice_no} extended to ${new_due_date} (${wholeLoan ? 'whole loan' : `${extended.length} items`}): ${reason.trim()}`);
+        await client.query('COMMIT');
+
+        // Overdue status and escalation depend on the due dates just changed.
+        // The extension is committed either way; the daily check catches up.
+        await runOverdueCheck(req).catch(err => console.error("Overdue check after extension failed:", err));
+
+        res.json({ 
+            success: true, 
+            data: { ...extension, item_count: extended.length },
+            message: `${loan.invoice_no} extended to ${new_due_date}`
+        });
+    } catch (err) {
+        await client.query('ROLLBACK');
+        console.error("Extend loan error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    } finally {
+        client.release();
+    }
+});
+
+// 61. LOAN EXTENSION HISTORY
+app.get('/api/loans/:id/extensions', async (req, res) => {
+    try {
+        const { id } = req.params;
+
+        const result = await pool.query(`
+            SELECT le.*,
+                   COALESCE(
+                       JSON_AGG(JSON_BUILD_OBJECT(
+                           'barcode', lei.barcode,
+                           'item_name', i.item_name,
+                           'previous_due_date', lei.previous_due_date
+                       ) ORDER BY lei.barcode) FILTER (WHERE lei.id IS NOT NULL),
+                       '[]'
+                   ) as items
+            FROM loan_extensions le
+            LEFT JOIN loan_extension_items lei ON lei.extension_id = le.id
+            LEFT JOIN items i ON i.barcode = lei.barcode
+            WHERE le.transaction_id = $1
+            GROUP BY le.id
+            ORDER BY le.created_at DESC
+        `, [id]);
+
+        res.json({ 
+            success: true, 
+            data: result.rows 
+        });
+    } catch (err) {
+        console.error("Get loan extensions error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 62. MARK A LOAN ITEM AS LOST (item becomes 'Lost', liability recorded against the borrower)
+app.post('/api/loan-items/:id/lost', requirePermission('manage_loans'), async (req, res) => {
+    const client = await pool.connect();
+    try {
+        const { id } = req.params;
+        const { notes } = req.body;
+
+        if (!notes || !notes.trim()) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Please describe how the item was lost" 
+            });
+        }
+
+        await client.query('BEGIN');
+
+        const loanItemRes = await client.query(
+            "SELECT barcode, status FROM loan_items WHERE id = $1 FOR UPDATE",
+            [id]
+        );
+        const loanItem = loanItemRes.rows[0];
+
+        if (!loanItem) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ 
+                success: false, 
+                message: "Loan item not found" 
+            });
+        }
+
+        if (loanItem.status !== 'On Loan') {
+            await client.query('ROLLBACK');
+            return res.status(409).json({ 
+                success: false, 
+                message: `Item ${loanItem.barcode} is already ${loanItem.status.toLowerCase()}` 
+            });
+        }
+
+        const itemData = await returnLoanItem(client, loanItem.barcode, { condition: 'Lost', notes: notes.trim() }, req.user.username);
+
+        await logActivity(req, 'MARK_LOST', 'ITEM', loanItem.barcode, 
+            `Lost: ${itemData.item_name} (Inv: ${itemData.invoice_no}), liability ${itemData.liability.amount} for ${itemData.borrower_name} - ${notes.trim()}`);
+        await client.query('COMMIT');
+
+        res.json({ 
+            success: true, 
+            data: itemData,
+            message: `Item ${loanItem.barcode} marked lost, liability recorded for ${itemData.borrower_name}`
+        });
+    } catch (err) {
+        await client.query('ROLLBACK');
+        console.error("Mark lost error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    } finally {
+        client.release();
+    }
+});
+
+// 63. LIABILITIES - LIST (filter by status / borrower)
+app.get('/api/liabilities', async (req, res) => {
+    try {
+        const { status, borrower_id } = req.query;
+        const params = [];
+        const conditions = [];
+
+        if (status) {
+            if (status !== 'Open' && !LIABILITY_RESOLUTIONS.includes(status)) {
+                return res.status(400).json({ 
+                    success: false, 
+                    message: `Invalid status. Use one of: Open, ${LIABILITY_RESOLUTIONS.join(', ')}` 
+                });
+            }
+            params.push(status);
+            conditions.push(`bl.status = $${params.length}`);
+        }
+
+        if (borrower_id) {
+            params.push(borrower_id);
+            conditions.push(`bl.borrower_id = $${params.length}`);
+        }
+
+        const result = await pool.query(`
+            SELECT bl.*, lt.invoice_no, b.nik as borrower_nik, b.department as borrower_department
+            FROM borrower_liabilities bl
+            LEFT JOIN loan_transactions lt ON lt.id = bl.transaction_id
+            LEFT JOIN borrowers b ON b.id = bl.borrower_id
+            ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+            ORDER BY bl.created_at DESC
+        `, params);
+
+        res.json({ 
+            success: true, 
+            count: result.rows.length,
+            data: result.rows 
+        });
+    } catch (err) {
+        console.error("Get liabilities error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 64. LIABILITIES - OPEN AMOUNTS PER BORROWER AND PER DEPARTMENT
+app.get('/api/liabilities/report', async (req, res) => {
+    try {
+        const borrowers = await pool.query(`
+            SELECT bl.borrower_id, COALESCE(b.name, bl.borrower_name) as borrower_name, 
+                   b.nik, COALESCE(b.department, '-') as department,
+                   COUNT(*)::int as item_count,
+                   SUM(bl.amount) as amount,
+                   MIN(bl.created_at) as oldest_at
+            FROM borrower_liabilities bl
+            LEFT JOIN borrowers b ON b.id = bl.borrower_id
+            WHERE bl.status = 'Open'
+            GROUP BY bl.borrower_id, b.name, bl.borrower_name, b.nik, b.department
+            ORDER BY amount DESC
+        `);
+
+        const departments = await pool.query(`
+            SELECT COALESCE(b.department, '-') as department,
+                   COUNT(DISTINCT bl.borrower_id)::int as borrower_count,
+                   COUNT(*)::int as item_count,
+                   SUM(bl.amount) as amount
+            FROM borrower_liabilities bl
+            LEFT JOIN borrowers b ON b.id = bl.borrower_id
+            WHERE bl.status = 'Open'
+            GROUP BY COALESCE(b.department, '-')
+            ORDER BY amount DESC
+        `);
+
+        const total = borrowers.rows.reduce((sum, row) => sum + parseFloat(row.amount), 0);
+
+        res.json({ 
+            success: true, 
+            data: {
+                total,
+                borrowers: borrowers.rows,
+                departments: departments.rows
+            }
+        });
+    } catch (err) {
+        console.error("Liability report error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 65. LIABILITIES - RESOLVE (paid by the borrower or written off)
+app.put('/api/liabilities/:id/resolve', requirePermission('manage_liabilities'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { status, resolution_notes } = req.body;
+
+        if (!LIABILITY_RESOLUTIONS.includes(status)) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `Invalid status. Use one of: ${LIABILITY_RESOLUTIONS.join(', ')}` 
+            });
+        }
+
+        if (status === 'Written Off' && (!resolution_notes || !resolution_notes.trim())) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "A reason is required to write off a liability" 
+            });
+        }
+
+        const result = await pool.query(`
+            UPDATE borrower_liabilities
+            SET status = $1, resolution_notes = $2, resolved_by = $3, resolved_at = NOW()
+            WHERE id = $4 AND status = 'Open'
+            RETURNING *
+        `, [status, resolution_notes ? resolution_notes.trim() : null, req.user.username, id]);
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Open liability not found" 
+            });
+        }
+
+        const liability = result.rows[0];
+        await logActivity(req, 'RESOLVE_LIABILITY', 'LIABILITY', id, 
+            `${liability.barcode} (${liability.borrower_name}) ${status.toLowerCase()}: ${liability.amount}${resolution_notes ? ` - ${resolution_notes.trim()}` : ''}`);
+
+        res.json({ 
+            success: true, 
+            data: liability,
+            message: `Liability marked as ${status}`
+        });
+    } catch (err) {
+        console.error("Resolve liability error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 66. DOCUMENT NUMBERING - LIST (prefix, reset period and last number per type)
+app.get('/api/document-sequences', requirePermission('manage_numbering'), async (req, res) => {
+    try {
+        const result = await pool.query(
+            "SELECT * FROM document_sequences WHERE doc_type = ANY($1) ORDER BY doc_type",
+            [DOCUMENT_TYPES]
+        );
+
+        res.json({ 
+            success: true, 
+            data: result.rows 
+        });
+    } catch (err) {
+        console.error("Get document sequences error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 67. DOCUMENT NUMBERING - CHANGE PREFIX / RESET PERIOD OF A TYPE
+app.put('/api/document-sequences/:type', requirePermission('manage_numbering'), async (req, res) => {
+    try {
+        const { type } = req.params;
+        const prefix = req.body.prefix ? String(req.body.prefix).trim().toUpperCase() : null;
+        const { reset_period } = req.body;
+
+        if (!DOCUMENT_TYPES.includes(type)) {
+            return res.status(404).json({ 
+                success: false, 
+                message: `Unknown document type. Use one of: ${DOCUMENT_TYPES.join(', ')}` 
+            });
+        }
+
+        if (prefix && !PREFIX_PATTERN.test(prefix)) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Prefix must be 1-20 letters or digits" 
+            });
+        }
+
+        if (reset_period && !RESET_PERIODS.includes(reset_period)) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `Invalid reset period. Use one of: ${RESET_PERIODS.join(', ')}` 
+            });
+        }
+
+        if (prefix) {
+            const taken = await pool.query(
+                "SELECT doc_type FROM document_sequences WHERE prefix = $1 AND doc_type <> $2",
+                [prefix, type]
+            );
+            if (taken.rows.length > 0) {
+                return res.status(409).json({ 
+                    success: false, 
+                    message: `Prefix ${prefix} is already used for ${taken.rows[0].doc_type} documents` 
+                });
+            }
+        }
+
+        const result = await pool.query(`
+            UPDATE document_sequences
+            SET prefix = COALESCE($1, prefix),
+                reset_period = COALESCE($2, reset_period),
+                updated_at = NOW()
+            WHERE doc_type = $3
+            RETURNING *
+        `, [prefix, reset_period || null, type]);
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Document sequence not found. Run the database.sql migrations." 
+            });
+        }
+
+        const sequence = result.rows[0];
+        await logActivity(req, 'UPDATE_NUMBERING', 'DOCUMENT_SEQUENCE', type, 
+            `${type} numbers: prefix ${sequence.prefix}, reset ${sequence.reset_period}`);
+
+        res.json({ 
+            success: true, 
+            data: sequence,
+            message: `Numbering for ${type} documents updated`
+        });
+    } catch (err) {
+        console.error("Update document sequence error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 68. IMPORT - UPLOAD AND PREVIEW (detected headers, suggested mapping, first rows)
+app.post('/api/import/preview', requirePermission('upload_stock'), upload.single('file'), async (req, res) => {
+    if (!req.file) {
+        return res.status(400).json({ 
+            success: false, 
+            message: "No file uploaded. Please select an Excel file." 
+        });
+    }
+
+    try {
+        const limit = Math.min(parseInt(req.body.rows) || 10, 50);
+        const { headers, rows } = await readSheet(req.file.path);
+
+        // A chosen profile wins over the guessed mapping
+        let mapping = suggestMapping(headers);
+        let profile = null;
+        if (req.body.profile_id) {
+            const profileRes = await pool.query("SELECT * FROM import_profiles WHERE id = $1", [req.body.profile_id]);
+            profile = profileRes.rows[0] || null;
+            if (profile) mapping = profile.mapping;
+        }
+
+        const token = createPendingImport(req.file, req.user.username, rows.length);
+
+        res.json({ 
+            success: true, 
+            data: {
+                token,
+                file_name: req.file.originalname,
+                fields: IMPORT_FIELDS.map(({ key, label, required }) => ({ key, label, required: !!required })),
+                headers,
+                mapping,
+                profile_id: profile ? profile.id : null,
+                total_rows: rows.length,
+                rows: rows.slice(0, limit)
+            }
+        });
+    } catch (err) {
+        if (fs.existsSync(req.file.path)) fs.unlinkSync(req.file.path);
+        console.error("Import preview error:", err);
+        res.status(400).json({ 
+            success: false, 
+            message: "Cannot read file: " + err.message 
+        });
+    }
+});
+
+// 69. IMPORT - COMMIT WITH THE CONFIRMED MAPPING
+app.post('/api/import/commit', requirePermission('upload_stock'), async (req, res) => {
+    const { token, mapping, dry_run } = req.body;
+    const generateBarcodes = !!req.body.generate_barcodes;
+    const pending = getPendingImport(token, req.user.username);
+
+    if (!pending) {
+        return res.status(404).json({ 
+            success: false, 
+            message: "Import preview expired or not found. Please upload the file again." 
+        });
+    }
+
+    if (pending.jobId) {
+        return res.status(409).json({ 
+            success: false, 
+            job_id: pending.jobId,
+            message: "This file is already being imported" 
+        });
+    }
+
+    // The import itself runs in the background; poll /api/import/jobs/:id for progress
+    if (!dry_run) {
+        const job = createImportJob(req.user.username, pending.fileName);
+        pending.jobId = job.id;
+        runImportJob(job, req, {
+            filePath: pending.path,
+            mapping,
+            generateBarcodes,
+            totalRows: pending.totalRows,
+            onFinished: () => discardPendingImport(token)
+        }).catch(err => console.error(`❌ Import job ${job.id} crashed:`, err));
+        return res.status(202).json({ 
+            success: true,
+            job_id: job.id,
+            message: `Import of ${pending.fileName} started`
+        });
+    }
+
+    // A dry run keeps the upload so it can still be imported
+    const client = await pool.connect();
+    try {
+        const { headers, rows } = await readSheet(pending.path);
+        const { columns, errors: mappingErrors } = resolveMapping(headers, mapping, { generateBarcodes });
+        if (mappingErrors.length > 0) {
+            return res.status(400).json({ 
+                success: false, 
+                message: mappingErrors.join('; ') 
+            });
+        }
+
+        const result = await dryRunSheet(client, { rows, columns, generateBarcodes });
+        const { added, updated, skipped } = result.stats;
+
+        res.json({ 
+            success: true,
+            message: `Dry run: ${added} would be added, ${updated} updated, ${skipped} skipped`,
+            ...result
+        });
+    } catch (err) {
+        console.error("Import commit error:", err);
+        res.status(500).json({ 
+            success: false, 
+            message: "Import Failed: " + err.message 
+        });
+    } finally {
+        client.release();
+    }
+});
+
+// 70. IMPORT - DISCARD AN UNCONFIRMED UPLOAD
+app.delete('/api/import/:token', requirePermission('upload_stock'), (req, res) => {
+    const pending = getPendingImport(req.params.token, req.user.username);
+    // A file that is being imported is removed by its job
+    if (pending && !pending.jobId) {
+        discardPendingImport(req.params.token);
+    }
+    res.json({ 
+        success: true, 
+        message: "Import discarded" 
+    });
+});
+
+// 71. IMPORT PROFILES - LIST
+app.get('/api/import/profiles', requirePermission('upload_stock'), async (req, res) => {
+    try {
+        const result = await pool.query("SELECT * FROM import_profiles ORDER BY name ASC");
+        res.json({ 
+            success: true, 
+            data: result.rows 
+        });
+    } catch (err) {
+        console.error("Get import profiles error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 72. IMPORT PROFILES - SAVE (same name overwrites)
+app.post('/api/import/profiles', requirePermission('upload_stock'), async (req, res) => {
+    try {
+        const { name, mapping } = req.body;
+        const fieldKeys = IMPORT_FIELDS.map(field => field.key);
+
+        if (!name || !name.trim()) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Profile name is required" 
+            });
+        }
+
+        if (!mapping || typeof mapping !== 'object' || !mapping.barcode) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Mapping must include the Barcode column" 
+            });
+        }
+
+        // Keep only known fields with a header
+        const cleanMapping = {};
+        for (const [field, header] of Object.entries(mapping)) {
+            if (fieldKeys.includes(field) && header) cleanMapping[field] = String(header);
+        }
+
+        const result = await pool.query(`
+            INSERT INTO import_profiles (name, mapping, created_by)
+            VALUES ($1, $2, $3)
+            ON CONFLICT (name) DO UPDATE SET mapping = EXCLUDED.mapping
+            RETURNING *
+        `, [name.trim(), cleanMapping, req.user.username]);
+
+        await logActivity(req, 'SAVE_IMPORT_PROFILE', 'IMPORT_PROFILE', String(result.rows[0].id), `Saved import profile ${name.trim()}`);
+
+        res.json({ 
+            success: true, 
+            data: result.rows[0],
+            message: `Profile "${name.trim()}" saved`
+        });
+    } catch (err) {
+        console.error("Save import profile error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 73. IMPORT PROFILES - DELETE
+app.delete('/api/import/profiles/:id', requirePermission('upload_stock'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        const result = await pool.query("DELETE FROM import_profiles WHERE id = $1 RETURNING name", [id]);
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Profile not found" 
+            });
+        }
+
+        await logActivity(req, 'DELETE_IMPORT_PROFILE', 'IMPORT_PROFILE', id, `Deleted import profile ${result.rows[0].name}`);
+
+        res.json({ 
+            success: true, 
+            message: "Profile deleted" 
+        });
+    } catch (err) {
+        console.error("Delete import profile error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// Loads a pending import and resolves its mapping for routes 74 / 75;
+// sends the error response itself and returns null when it cannot
+const loadPendingImport = async (req, res) => {
+    const { token, mapping } = req.body;
+    const generateBarcodes = !!req.body.generate_barcodes;
+    const pending = getPendingImport(token, req.user.username);
+
+    if (!pending) {
+        res.status(404).json({ 
+            success: false, 
+            message: "Import preview expired or not found. Please upload the file again." 
+        });
+        return null;
+    }
+
+    const { headers, rows } = await readSheet(pending.path);
+    const { columns, errors } = resolveMapping(headers, mapping, { generateBarcodes });
+    if (errors.length > 0) {
+        res.status(400).json({ 
+            success: false, 
+            message: errors.join('; ') 
+        });
+        return null;
+    }
+
+    return { pending, headers, rows, columns, generateBarcodes };
+};
+
+// 74. IMPORT - VALIDATE EVERY ROW WITHOUT IMPORTING
+app.post('/api/import/validate', requirePermission('upload_stock'), async (req, res) => {
+    try {
+        const sheet = await loadPendingImport(req, res);
+        if (!sheet) return;
+
+        const { results, valid, invalid } = await validateRows(pool, sheet.rows, sheet.columns, { generateBarcodes: sheet.generateBarcodes });
+
+        res.json({ 
+            success: true, 
+            data: {
+                total_rows: results.length,
+                valid,
+                invalid,
+                issues: results.filter(result => result.errors.length > 0)
+            }
+        });
+    } catch (err) {
+        console.error("Import validation error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 75. IMPORT - DOWNLOAD THE FILE WITH AN ERROR COLUMN PER ROW
+app.post('/api/import/report', requirePermission('upload_stock'), async (req, res) => {
+    try {
+        const sheet = await loadPendingImport(req, res);
+        if (!sheet) return;
+
+        const { results } = await validateRows(pool, sheet.rows, sheet.columns, { generateBarcodes: sheet.generateBarcodes });
+        const buffer = buildErrorReport(sheet.headers, sheet.rows, results);
+        const baseName = path.parse(sheet.pending.fileName || 'import').name;
+
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename="${baseName}-errors.xlsx"`);
+        res.send(buffer);
+    } catch (err) {
+        console.error("Import report error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 76. IMPORT BATCHES - LIST (with whether each can still be rolled back)
+app.get('/api/import/batches', requirePermission('upload_stock'), async (req, res) => {
+    try {
+        const { limit = 50 } = req.query;
+        const result = await pool.query(`
+            SELECT * FROM import_batches
+            ORDER BY created_at DESC
+            LIMIT $1
+        `, [Math.min(parseInt(limit) || 50, 200)]);
+
+        const batches = [];
+        for (const batch of result.rows) {
+            const conflicts = ['Completed', 'Failed'].includes(batch.status) ? await findRollbackConflicts(pool, batch) : null;
+            batches.push({
+                ...batch,
+                conflicts,
+                can_rollback: !!conflicts && conflicts.loaned.length === 0 && conflicts.in_use.length === 0 && conflicts.later_batches.length === 0
+            });
+        }
+
+        res.json({ 
+            success: true, 
+            data: batches 
+        });
+    } catch (err) {
+        console.error("Get import batches error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 77. IMPORT BATCHES - DETAIL (before-image next to the current values)
+app.get('/api/import/batches/:id', requirePermission('upload_stock'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        const batchRes = await pool.query("SELECT * FROM import_batches WHERE id = $1", [id]);
+
+        if (batchRes.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Import batch not found" 
+            });
+        }
+
+        const itemsRes = await pool.query(`
+            SELECT bi.barcode, bi.action, bi.before_data,
+                   i.item_name, i.brand, i.size, i.color, i.price, i.status
+            FROM import_batch_items bi
+            LEFT JOIN items i ON i.barcode = bi.barcode
+            WHERE bi.batch_id = $1
+            ORDER BY bi.id ASC
+        `, [id]);
+
+        res.json({ 
+            success: true, 
+            data: {
+                ...batchRes.rows[0],
+                items: itemsRes.rows
+            }
+        });
+    } catch (err) {
+        console.error("Get import batch error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    }
+});
+
+// 78. IMPORT BATCHES - ROLLBACK (restore previous values, remove added items)
+app.post('/api/import/batches/:id/rollback', requirePermission('upload_stock'), async (req, res) => {
+    const client = await pool.connect();
+    try {
+        const { id } = req.params;
+        await client.query('BEGIN');
+
+        const batchRes = await client.query("SELECT * FROM import_batches WHERE id = $1 FOR UPDATE", [id]);
+        if (batchRes.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ 
+                success: false, 
+                message: "Import batch not found" 
+            });
+        }
+
+        // A running import is still writing chunks; a failed one keeps the
+        // chunks it wrote before the error and is rolled back like a completed one
+        const batch = batchRes.rows[0];
+        if (batch.status === 'Running') {
+            await client.query('ROLLBACK');
+            return res.status(409).json({ 
+                success: false, 
+                message: "Import batch is still running" 
+            });
+        }
+        if (batch.status === 'Rolled Back') {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ 
+                success: false, 
+                message: "Import batch is already rolled back" 
+            });
+        }
+
+        const conflicts = await findRollbackConflicts(client, batch);
+        if (conflicts.loaned.length > 0 || conflicts.in_use.length > 0 || conflicts.later_batches.length > 0) {
+            await client.query('ROLLBACK');
+            const reasons = [];
+            if (conflicts.loaned.length > 0) {
+                reasons.push(`items loaned since the import: ${conflicts.loaned.join(', ')}`);
+            }
+            if (conflicts.in_use.length > 0) {
+                reasons.push(`added items now reserved or in maintenance: ${conflicts.in_use.join(', ')}`);
+            }
+            if (conflicts.later_batches.length > 0) {
+                reasons.push(`changed again by later imports: ${conflicts.later_batches.map(b => `#${b.id} ${b.file_name || ''}`.trim()).join(', ')}`);
+            }
+            return res.status(409).json({ 
+                success: false, 
+                message: `Cannot roll back this import (${reasons.join('; ')})`,
+                conflicts
+            });
+        }
+
+        const { restored, removed } = await rollbackImportBatch(client, batch.id);
+        await client.query(`
+            UPDATE import_batches 
+            SET status = 'Rolled Back', rolled_back_by = $1, rolled_back_at = NOW()
+            WHERE id = $2
+        `, [req.user.username, batch.id]);
+
+        await client.query('COMMIT');
+
+        await logActivity(req, 'ROLLBACK_IMPORT', 'IMPORT_BATCH', String(batch.id), 
+            `Rolled back import ${batch.file_name}: ${restored} restored, ${removed} removed`);
+
+        res.json({ 
+            success: true, 
+            data: { restored, removed },
+            message: `Import rolled back: ${restored} items restored, ${removed} added items removed`
+        });
+    } catch (err) {
+        await client.query('ROLLBACK');
+        console.error("Rollback import error:", err);
+        res.status(500).json({ 
+            success: false, 
+            error: err.message 
+        });
+    } finally {
+        client.release();
+    }
+});
+
+// 79. IMPORT JOBS - PROGRESS AND RESULT OF A BACKGROUND IMPORT
+app.get('/api/import/jobs/:id', requirePermission('upload_stock'), (req, res) => {
+    const job = getImportJob(req.params.id, req.user.username);
+
+    if (!job) {
+        return res.status(404).json({ 
+            success: false, 
+            message: "Import job not found" 
+        });
+    }
+
+    res.json({ 
+        success: true, 
+        data: {
+            id: job.id,
+            file_name: job.file_name,
+            status: job.status,
+            phase: job.phase,
+            processed: job.processed,
+            total: job.total,
+            progress: job.total > 0 ? Math.min(100, Math.round((job.processed / job.total) * 100)) : 0,
+            result: job.result,
+            error: job.error,
+            created_at: job.created_at,
+            finished_at: job.finished_at
+        }
+    });
+});
+
+// Optional ?from=YYYY-MM-DD&to=YYYY-MM-DD filter on a created_at column,
+// appended to `conditions` / `params` of an export query
+const addDateRange = (query, column, conditions, params) => {
+    if (query.from) {
+        params.push(query.from);
+        conditions.push(`${column} >= $${params.length}::date`);
+    }
+    if (query.to) {
+        params.push(query.to);
+        conditions.push(`${column} < $${params.length}::date + 1`);
+    }
+};
+
+// Exports and reports are streamed into the response, so a failure after the first
+// bytes can only abort the download
+const handleExportError = (res, label, err) => {
+    console.error(`${label} export error:`, err);
+    if (res.headersSent) {
+        return res.destroy(err);
+    }
+    res.status(500).json({ 
+        success: false, 
+        error: err.message 
+    });
+};
+
+const exportDate = () => new Date().toISOString().split('T')[0];
+
+// 80. EXPORT - INVENTORY XLSX (summary + one sheet per filter; ?filter= opens that sheet)
+app.get('/api/export/inventory', async (req, res) => {
+    try {
+        const filter = String(req.query.filter || 'ALL').toUpperCase();
+        if (!INVENTORY_FILTERS[filter]) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `Filter must be one of: ${Object.keys(INVENTORY_FILTERS).join(', ')}` 
+            });
+        }
+
+        const result = await pool.query(`
+            SELECT i.*, (s.id IS NOT NULL) as is_scanned
+            FROM items i
+            LEFT JOIN opname_scans s 
+                ON s.barcode = i.barcode AND s.item_found AND s.session_id = ${ACTIVE_OPNAME_SESSION_SQL}
+            ORDER BY i.barcode ASC
+        `);
+
+        sendAsXlsx(res, `Inventory_${filter}_${exportDate()}.xlsx`);
+        await writeInventoryWorkbook(res, { items: result.rows, filter, generatedBy: req.user.username });
+    } catch (err) {
+        handleExportError(res, 'Inventory', err);
+    }
+});
+
+// 81. EXPORT - LOAN HISTORY XLSX (loans and loaned items, optional ?from=&to=)
+app.get('/api/export/loan-history', async (req, res) => {
+    try {
+        const conditions = [];
+        const params = [];
+        addDateRange(req.query, 'lt.created_at', conditions, params);
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const loansRes = await pool.query(`
+            SELECT lt.*, b.department as borrower_department
+            FROM loan_transactions lt
+            LEFT JOIN borrowers b ON b.id = lt.borrower_id
+            ${where}
+            ORDER BY lt.created_at DESC
+        `, params);
+
+        const itemsRes = await pool.query(`
+            SELECT li.*, COALESCE(i.item_name, li.item_name) as item_name, COALESCE(i.brand, li.brand) as brand,
+                   lt.invoice_no, lt.borrower_name, lt.created_at as loan_date,
+                   ${ITEM_DUE_DATE_SQL} as due_date,
+                   b.department as borrower_department
+            FROM loan_items li
+            JOIN loan_transactions lt ON lt.id = li.transaction_id
+            LEFT JOIN items i ON i.barcode = li.barcode
+            LEFT JOIN borrowers b ON b.id = lt.borrower_id
+            ${where}
+            ORDER BY lt.created_at DESC, li.id ASC
+        `, params);
+
+        sendAsXlsx(res, `Loan_History_${exportDate()}.xlsx`);
+        await writeLoanHistoryWorkbook(res, { loans: loansRes.rows, items: itemsRes.rows, generatedBy: req.user.username });
+    } catch (err) {
+        handleExportError(res, 'Loan history', err);
+    }
+});
+
+// 82. EXPORT - ACTIVE LOANS XLSX (every item still on loan, with days overdue)
+app.get('/api/export/active-loans', async (req, res) => {
+    try {
+        const result = await pool.query(`
+            SELECT li.barcode, COALESCE(i.item_name, li.item_name) as item_name, COALESCE(i.brand, li.brand) as brand,
+                   COALESCE(i.price, li.price) as price,
+                   lt.invoice_no, lt.borrower_name, lt.program_name, lt.created_at as loan_date,
+                   ${ITEM_DUE_DATE_SQL} as due_date,
+                   GREATEST(CURRENT_DATE - ${ITEM_DUE_DATE_SQL}, 0) as days_overdue,
+                   b.department as borrower_department, b.phone as borrower_phone
+            FROM loan_items li
+            JOIN loan_transactions lt ON lt.id = li.transaction_id
+            LEFT JOIN items i ON i.barcode = li.barcode
+            LEFT JOIN borrowers b ON b.id = lt.borrower_id
+            WHERE li.status = 'On Loan'
+            ORDER BY ${ITEM_DUE_DATE_SQL} ASC, lt.invoice_no ASC
+        `);
+
+        sendAsXlsx(res, `Active_Loans_${exportDate()}.xlsx`);
+        await writeActiveLoansWorkbook(res, { items: result.rows, generatedBy: req.user.username });
+    } catch (err) {
+        handleExportError(res, 'Active loans', err);
+    }
+});
+
+// 83. EXPORT - ACTIVITY LOG XLSX (optional ?from=&to=)
+app.get('/api/export/activity-logs', requirePermission('view_logs'), async (req, res) => {
+    try {
+        const conditions = [];
+        const params = [];
+        addDateRange(req.query, 'created_at', conditions, params);
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const result = await pool.query(`
+            SELECT * FROM activity_logs
+            ${where}
+            ORDER BY created_at DESC
+        `, params);
+
+        sendAsXlsx(res, `Activity_Log_${exportDate()}.xlsx`);
+        await writeActivityLogWorkbook(res, { logs: result.rows, generatedBy: req.user.username });
+    } catch (err) {
+        handleExportError(res, 'Activity log', err);
+    }
+});
+
+// Header/footer meta of a signed-off PDF report; ?supervisor= prints the approver's name
+const reportMeta = (req) => ({
+    generatedBy: req.user.fullname || req.user.username,
+    supervisor: req.query.supervisor ? String(req.query.supervisor).trim() : null
+});
+
+const sendAsPdf = (res, fileName) => {
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${fileName}"`);
+};
+
+// 84. REPORT - STOCK OPNAME PDF (totals, accuracy, per category and missing items)
+app.get('/api/reports/opname/:id/pdf', requirePermission('manage_opname'), async (req, res) => {
+    try {
+        const sessionRes = await pool.query("SELECT * FROM opname_sessions WHERE id = $1", [req.params.id]);
+
+        if (sessionRes.rows.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "Opname session not found" 
+            });
+        }
+
+        const variance = await buildOpnameVariance(sessionRes.rows[0]);
+        sendAsPdf(res, `Opname_Report_${req.params.id}_${exportDate()}.pdf`);
+        renderOpnameReport(variance, res, reportMeta(req));
+    } catch (err) {
+        handleExportError(res, 'Opname report', err);
+    }
+});
+
+// 85. REPORT - MONTHLY LOANS PDF (?month=YYYY-MM, per program and per borrower)
+app.get('/api/reports/loans/monthly/pdf', requirePermission('manage_loans'), async (req, res) => {
+    try {
+        const month = String(req.query.month || exportDate().slice(0, 7));
+        if (!MONTH_PATTERN.test(month)) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Month must be in YYYY-MM format" 
+            });
+        }
+
+        const data = await getMonthlyLoanReport(pool, month);
+        sendAsPdf(res, `Loan_Report_${month}.pdf`);
+        renderMonthlyLoanReport(data, res, reportMeta(req));
+    } catch (err) {
+        handleExportError(res, 'Monthly loan report', err);
+    }
+});
+
+// 86. REPORT - OVERDUE LOANS PDF (vw_overdue_loans, grouped by escalation level)
+app.get('/api/reports/overdue/pdf', requirePermission('manage_loans'), async (req, res) => {
+    try {
+        const loans = await getOverdueReport(pool);
+        sendAsPdf(res, `Overdue_Report_${exportDate()}.pdf`);
+        renderOverdueReport(loans, res, reportMeta(req));
+    } catch (err) {
+        handleExportError(res, 'Overdue report', err);
+    }
+});
+
+// 87. LABELS - TEMPLATES AND BARCODE SYMBOLOGIES
+app.get('/api/labels/templates', requirePermission('print_labels'), (req, res) => {
+    res.json({ 
+        success: true, 
+        data: {
+            templates: Object.entries(LABEL_TEMPLATES).map(([key, template]) => ({
+                key,
+                label: template.label,
+                per_page: template.columns * template.rows
+            })),
+            symbologies: Object.entries(LABEL_SYMBOLOGIES).map(([key, label]) => ({ key, label })),
+            max_copies: MAX_COPIES
+        }
+    });
+});
+
+// 88. LABELS - PRINTABLE PDF FOR SELECTED ITEMS OR AN IMPORT BATCH
+app.post('/api/labels/pdf', requirePermission('print_labels'), async (req, res) => {
+    try {
+        const { batch_id, template = 'a4_3x8', symbology = 'code128' } = req.body;
+        const barcodes = Array.isArray(req.body.barcodes) 
+            ? [...new Set(req.body.barcodes.map(barcode => String(barcode).trim()).filter(Boolean))] 
+            : [];
+        const copies = parseInt(req.body.copies) || 1;
+        const skip = parseInt(req.body.skip) || 0;
+
+        if (!LABEL_TEMPLATES[template]) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `Unknown template. Use one of: ${Object.keys(LABEL_TEMPLATES).join(', ')}` 
+            });
+        }
+
+        if (!LABEL_SYMBOLOGIES[symbology]) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `Unknown barcode type. Use one of: ${Object.keys(LABEL_SYMBOLOGIES).join(', ')}` 
+            });
+        }
+
+        if (copies < 1 || copies > MAX_COPIES) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `Copies must be between 1 and ${MAX_COPIES}` 
+            });
+        }
+
+        if (!batch_id && barcodes.length === 0) {
+            return res.status(400).json({ 
+                success: false, 
+                message: "Select items or an import batch to print labels for" 
+            });
+        }
+
+        const items = await getLabelItems(pool, { barcodes, batchId: batch_id || null });
+        if (items.length === 0) {
+            return res.status(404).json({ 
+                success: false, 
+                message: "None of the selected items exist" 
+            });
+        }
+
+        if (items.length * copies > MAX_LABELS) {
+            return res.status(400).json({ 
+                success: false, 
+                message: `At most ${MAX_LABELS} labels per print (${items.length} items x ${copies} copies)` 
+            });
+        }
+
+        sendAsPdf(res, `Labels_${batch_id ? `Import_${batch_id}` : exportDate()}.pdf`);
+        await renderLabels(items, res, { template, symbology, copies, skip });
+    } catch (err) {
+        handleExportError(res, 'Labels', err);
+    }
+});
+
+// Error handling middleware
+app.use((err, req, res, next) => {
+    console.error('❌ Server Error:', err);
+    res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: process.env.NODE_ENV === 'development' ? err.message : undefined
+    });
+});
+
+// 404 handler
+app.use('*', (req, res) => {
+    res.status(404).json({
+        success: false,
+        message: `Endpoint ${req.originalUrl} not found`
+    });
+});
+
+// Start Server
+const server = app.listen(PORT, HOST, () => {
+    console.log(`
+=========================================
+🚀 Wardrobe Server v2.0
+✅ Running on: http://${HOST}:${PORT}
+✅ Health check: http://${HOST}:${PORT}/api/health
+✅ Test endpoint: http://${HOST}:${PORT}/api/test
+📊 API Endpoints: 
+   • POST /api/upload-excel
+   • POST /api/import/preview
+   • POST /api/import/commit
+   • POST /api/import/validate
+   • POST /api/import/report
+   • GET  /api/import/batches
+   • GET  /api/import/jobs/:id
+   • GET  /api/export/inventory
+   • GET  /api/export/loan-history
+   • GET  /api/export/active-loans
+   • GET  /api/export/activity-logs
+   • GET  /api/reports/opname/:id/pdf
+   • GET  /api/reports/loans/monthly/pdf
+   • GET  /api/reports/overdue/pdf
+   • GET  /api/labels/templates
+   • POST /api/labels/pdf
+   • POST /api/import/batches/:id/rollback
+   • GET  /api/items
+   • GET  /api/items/delta
+   • GET  /api/history
+   • GET  /api/stats
+   • POST /api/login
+   • POST /api/logout
+   • POST /api/loan
+   • POST /api/return
+   • GET  /api/loans/active
+   • GET  /api/loans/overdue
+   • POST /api/loans/:id/extend
+   • GET  /api/liabilities/report
+   • POST /api/opname/sessions
+   • POST /api/maintenance
+   • POST /api/reservations
+=========================================
+    `);
+});
+
+// Imports cut off by a restart keep the chunks they committed; mark them
+// failed so they can be rolled back
+pool.query("UPDATE import_batches SET status = 'Failed' WHERE status = 'Running'")
+    .catch(err => console.error("❌ Marking interrupted imports failed:", err.message));
+
+// Daily overdue recomputation (runs once at startup, then after midnight)
+const stopOverdueScheduler = scheduleDaily(() => runOverdueCheck());
+
 // Handle graceful shutdown
 process.on('SIGTERM', () => {
     console.log('SIGTERM signal received: closing HTTP server');
+    stopOverdueScheduler();
     server.close(() => {
         console.log('HTTP server closed');
         pool.end(() => {
@@ -0,0 +1,159 @@
+/*** FILE: wardrobe-server/labels.js ***/
+const PDFDocument = require('pdfkit');
+const bwipjs = require('bwip-js');
+
+const MM = 72 / 25.4;
+
+// Label stock, sizes in mm. Sheet templates place `columns` x `rows` labels
+// on an A4 page; thermal templates print one label per page of the label's size.
+const LABEL_TEMPLATES = {
+    a4_3x8: {
+        label: 'A4 sticker sheet 3 x 8 (70 x 37 mm)',
+        page: [210, 297], columns: 3, rows: 8,
+        width: 70, height: 37, top: 0.5, left: 0, gapX: 0, gapY: 0, padding: 3
+    },
+    a4_4x10: {
+        label: 'A4 sticker sheet 4 x 10 (48.5 x 25.4 mm)',
+        page: [210, 297], columns: 4, rows: 10,
+        width: 48.5, height: 25.4, top: 21.5, left: 8, gapX: 0, gapY: 0, padding: 2
+    },
+    thermal_58x40: {
+        label: 'Thermal roll 58 x 40 mm',
+        page: [58, 40], columns: 1, rows: 1,
+        width: 58, height: 40, top: 0, left: 0, gapX: 0, gapY: 0, padding: 2.5
+    },
+    thermal_58x30: {
+        label: 'Thermal roll 58 x 30 mm',
+        page: [58, 30], columns: 1, rows: 1,
+        width: 58, height: 30, top: 0, left: 0, gapX: 0, gapY: 0, padding: 2
+    }
+};
+
+// Symbologies the CameraScanner can read back (CODE_128 / QR_CODE)
+const LABEL_SYMBOLOGIES = {
+    code128: 'CODE_128',
+    qrcode: 'QR'
+};
+
+const MAX_COPIES = 50;
+const MAX_LABELS = 5000;
+
+// Items to label, either by barcode (in the given order) or every item an
+// import batch added or updated that still exists
+async function getLabelItems(pool, { barcodes = [], batchId = null }) {
+    if (batchId) {
+        const result = await pool.query(`
+            SELECT i.barcode, i.item_name, i.brand, i.size, i.color
+            FROM import_batch_items bi
+            JOIN items i ON i.barcode = bi.barcode
+            WHERE bi.batch_id = $1
+            ORDER BY bi.id ASC
+        `, [batchId]);
+        return result.rows;
+    }
+
+    const result = await pool.query(`
+        SELECT i.barcode, i.item_name, i.brand, i.size, i.color
+        FROM unnest($1::varchar[]) WITH ORDINALITY AS wanted(barcode, position)
+        JOIN items i ON i.barcode = wanted.barcode
+        ORDER BY wanted.position ASC
+    `, [barcodes]);
+    return result.rows;
+}
+
+// PNG of the barcode symbol, or null when the text cannot be encoded
+// (e.g. non-ASCII characters in CODE_128)
+async function barcodeImage(text, symbology) {
+    try {
+        return symbology === 'qrcode'
+            ? await bwipjs.toBuffer({ bcid: 'qrcode', text, scale: 4, eclevel: 'M' })
+            : await bwipjs.toBuffer({ bcid: 'code128', text, scale: 3, height: 8, includetext: true, textxalign: 'center', textsize: 9 });
+    } catch (err) {
+        console.error(`Barcode image error (${text}):`, err.message);
+        return null;
+    }
+}
+
+function drawText(doc, text, x, y, width, { bold = false, size }) {
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(size).fillColor('#000')
+        .text(text, x, y, { width, height: size * 1.2, lineBreak: false, ellipsis: true });
+    return y + size * 1.25;
+}
+
+function drawLabel(doc, item, image, symbology, box) {
+    const { x, y, width, height, padding } = box;
+    const innerX = x + padding;
+    const innerY = y + padding;
+    const innerWidth = width - padding * 2;
+    const innerHeight = height - padding * 2;
+    const size = Math.max(5.5, Math.min(10, height / 10));
+    const details = [item.brand, item.size, item.color].filter(Boolean).join(' • ');
+
+    if (symbology === 'qrcode') {
+        const side = innerHeight;
+        if (image) doc.image(image, innerX, innerY, { fit: [side, side] });
+        const textX = innerX + side + padding;
+        const textWidth = innerWidth - side - padding;
+        let textY = innerY;
+        textY = drawText(doc, item.barcode, textX, textY, textWidth, { bold: true, size });
+        textY = drawText(doc, item.item_name || '-', textX, textY, textWidth, { size });
+        if (details) drawText(doc, details, textX, textY, textWidth, { size: size * 0.85 });
+        return;
+    }
+
+    const textHeight = size * 2.6;
+    const imageHeight = innerHeight - textHeight;
+    if (image) {
+        doc.image(image, innerX, innerY, { fit: [innerWidth, imageHeight], align: 'center', valign: 'center' });
+    } else {
+        drawText(doc, item.barcode, innerX, innerY, innerWidth, { bold: true, size });
+    }
+    let textY = innerY + imageHeight + size * 0.2;
+    textY = drawText(doc, item.item_name || '-', innerX, textY, innerWidth, { bold: true, size });
+    if (details) drawText(doc, details, innerX, textY, innerWidth, { size: size * 0.85 });
+}
+
+// Streams a PDF with `copies` labels per item. On sheet templates `skip`
+// leaves the first positions of the first sheet empty, so a partly used
+// sticker sheet can be fed again.
+async function renderLabels(items, stream, { template = 'a4_3x8', symbology = 'code128', copies = 1, skip = 0 } = {}) {
+    const stock = LABEL_TEMPLATES[template];
+    const perPage = stock.columns * stock.rows;
+    const offset = perPage > 1 ? Math.min(Math.max(skip, 0), perPage - 1) : 0;
+
+    const images = new Map();
+    for (const item of items) {
+        if (!images.has(item.barcode)) images.set(item.barcode, await barcodeImage(item.barcode, symbology));
+    }
+
+    const doc = new PDFDocument({ size: stock.page.map(mm => mm * MM), margin: 0, autoFirstPage: false });
+    doc.pipe(stream);
+
+    const labels = items.flatMap(item => Array(copies).fill(item));
+    labels.forEach((item, index) => {
+        const slot = offset + index;
+        const position = slot % perPage;
+        if (index === 0 || position === 0) doc.addPage();
+
+        const column = position % stock.columns;
+        const row = Math.floor(position / stock.columns);
+        drawLabel(doc, item, images.get(item.barcode), symbology, {
+            x: (stock.left + column * (stock.width + stock.gapX)) * MM,
+            y: (stock.top + row * (stock.height + stock.gapY)) * MM,
+            width: stock.width * MM,
+            height: stock.height * MM,
+            padding: stock.padding * MM
+        });
+    });
+
+    doc.end();
+}
+
+module.exports = {
+    LABEL_TEMPLATES,
+    LABEL_SYMBOLOGIES,
+    MAX_COPIES,
+    MAX_LABELS,
+    getLabelItems,
+    renderLabels
+};
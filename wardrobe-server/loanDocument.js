@@ -0,0 +1,243 @@
+/*** FILE: wardrobe-server/loanDocument.js ***/
+const PDFDocument = require('pdfkit');
+
+const APP_NAME = 'Wardrobe Inventory Pro';
+
+// Loan header, borrower details and item lines for the handover document
+async function getLoanDocument(pool, id) {
+    const loanResult = await pool.query(`
+        SELECT lt.*, b.nik as borrower_nik, b.department as borrower_department,
+               b.phone as borrower_phone, b.position as borrower_position
+        FROM loan_transactions lt
+        LEFT JOIN borrowers b ON b.id = lt.borrower_id
+        WHERE lt.id = $1
+    `, [id]);
+
+    if (loanResult.rows.length === 0) return null;
+
+    const itemsResult = await pool.query(`
+        SELECT li.barcode, COALESCE(li.item_name, i.item_name) as item_name,
+               COALESCE(li.brand, i.brand) as brand, i.size, i.color,
+               COALESCE(i.price, li.price, 0) as price, li.status
+        FROM loan_items li
+        LEFT JOIN items i ON i.barcode = li.barcode
+        WHERE li.transaction_id = $1
+        ORDER BY li.id ASC
+    `, [id]);
+
+    const loan = loanResult.rows[0];
+    loan.items = itemsResult.rows;
+    loan.total_value = loan.items.reduce((sum, item) => sum + Number(item.price || 0), 0);
+    return loan;
+}
+
+function formatRupiah(value) {
+    return 'Rp ' + new Intl.NumberFormat('id-ID').format(Number(value || 0));
+}
+
+function formatDay(value) {
+    if (!value) return '-';
+    return new Intl.DateTimeFormat('id-ID', { day: '2-digit', month: 'long', year: 'numeric' }).format(new Date(value));
+}
+
+function escapeHtml(value) {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+// Only inline PNG/JPEG data URLs with a plain base64 payload are embedded;
+// anything else is dropped
+const SIGNATURE_PATTERN = /^data:image\/(png|jpe?g);base64,([A-Za-z0-9+/]+={0,2})$/;
+
+function parseSignature(signature) {
+    const match = SIGNATURE_PATTERN.exec(signature || '');
+    return match ? { dataUrl: signature, buffer: Buffer.from(match[2], 'base64') } : null;
+}
+
+// Empty (no signature) or an embeddable data URL
+function isValidSignature(signature) {
+    return !signature || SIGNATURE_PATTERN.test(signature);
+}
+
+function documentFields(loan) {
+    return [
+        ['Invoice No', loan.invoice_no],
+        ['Loan Date', formatDay(loan.created_at)],
+        ['Due Date', formatDay(loan.due_date)],
+        ['Borrower', loan.borrower_name],
+        ['NIK', loan.borrower_nik || '-'],
+        ['Department', loan.borrower_department || loan.borrower_position || '-'],
+        ['Program', loan.program_name || '-'],
+        ['Reason', loan.loan_reason || '-']
+    ];
+}
+
+function renderLoanHtml(loan, { autoPrint = false } = {}) {
+    const signature = parseSignature(loan.signature_base64);
+
+    const fields = documentFields(loan).map(([label, value]) =>
+        `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`
+    ).join('');
+
+    const rows = loan.items.map((item, index) => `
+        <tr>
+            <td class="num">${index + 1}</td>
+            <td>${escapeHtml(item.barcode)}</td>
+            <td>${escapeHtml(item.item_name)}</td>
+            <td>${escapeHtml(item.brand || '-')}</td>
+            <td>${escapeHtml(item.size || '-')}</td>
+            <td class="num">${formatRupiah(item.price)}</td>
+        </tr>
+    `).join('');
+
+    return `<!DOCTYPE html>
+<html lang="id">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(loan.invoice_no)} - Loan Handover</title>
+<style>
+    body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 32px; font-size: 13px; }
+    h1 { font-size: 20px; margin: 0; }
+    .subtitle { color: #555; margin: 2px 0 20px; }
+    .fields th { text-align: left; width: 120px; color: #555; font-weight: normal; padding: 2px 8px 2px 0; }
+    .items { width: 100%; border-collapse: collapse; margin-top: 20px; }
+    .items th, .items td { border: 1px solid #999; padding: 6px; }
+    .items th { background: #eee; text-align: left; }
+    .num { text-align: right; }
+    .total td { font-weight: bold; }
+    .signatures { display: flex; justify-content: space-between; margin-top: 40px; }
+    .signature { width: 45%; text-align: center; }
+    .signature .box { height: 90px; display: flex; align-items: flex-end; justify-content: center; border-bottom: 1px solid #111; }
+    .signature img { max-height: 90px; max-width: 100%; }
+    @media print { body { margin: 12mm; } }
+</style>
+</head>
+<body>
+    <h1>${APP_NAME}</h1>
+    <p class="subtitle">Loan Handover Document / Bukti Serah Terima Peminjaman</p>
+
+    <table class="fields">${fields}</table>
+
+    <table class="items">
+        <thead>
+            <tr><th>No</th><th>Barcode</th><th>Item</th><th>Brand</th><th>Size</th><th class="num">Price</th></tr>
+        </thead>
+        <tbody>
+            ${rows}
+            <tr class="total"><td colspan="5">Total (${loan.items.length} items)</td><td class="num">${formatRupiah(loan.total_value)}</td></tr>
+        </tbody>
+    </table>
+
+    <div class="signatures">
+        <div class="signature">
+            <p>Handed over by</p>
+            <div class="box"></div>
+            <p>${escapeHtml(loan.inputter_name || '-')}</p>
+        </div>
+        <div class="signature">
+            <p>Received by</p>
+            <div class="box">${signature ? `<img src="${escapeHtml(signature.dataUrl)}" alt="Signature">` : ''}</div>
+            <p>${escapeHtml(loan.borrower_name)}</p>
+        </div>
+    </div>
+    ${autoPrint ? '<script>window.addEventListener("load", function () { window.print(); });</script>' : ''}
+</body>
+</html>`;
+}
+
+// Streams an A4 PDF of the document into `stream` (e.g. the HTTP response)
+function renderLoanPdf(loan, stream) {
+    const doc = new PDFDocument({ size: 'A4', margin: 40 });
+    doc.pipe(stream);
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    doc.font('Helvetica-Bold').fontSize(16).text(APP_NAME);
+    doc.font('Helvetica').fontSize(10).fillColor('#555')
+        .text('Loan Handover Document / Bukti Serah Terima Peminjaman')
+        .fillColor('#000')
+        .moveDown();
+
+    for (const [label, value] of documentFields(loan)) {
+        const y = doc.y;
+        doc.fillColor('#555').text(label, left, y, { width: 100 });
+        doc.fillColor('#000').text(String(value), left + 100, y, { width: width - 100 });
+    }
+    doc.moveDown();
+
+    // Item table
+    const columns = [
+        { title: 'No', width: 30, align: 'right' },
+        { title: 'Barcode', width: 95 },
+        { title: 'Item', width: 160 },
+        { title: 'Brand', width: 80 },
+        { title: 'Size', width: 50 },
+        { title: 'Price', width: width - 415, align: 'right' }
+    ];
+
+    const drawRow = (values, bold = false) => {
+        if (doc.y > doc.page.height - doc.page.margins.bottom - 40) doc.addPage();
+        const y = doc.y;
+        let x = left;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+        const heights = values.map((value, i) =>
+            doc.heightOfString(String(value), { width: columns[i].width - 6 })
+        );
+        const rowHeight = Math.max(...heights) + 6;
+        values.forEach((value, i) => {
+            doc.rect(x, y, columns[i].width, rowHeight).stroke('#999');
+            doc.fillColor('#000').text(String(value), x + 3, y + 3, {
+                width: columns[i].width - 6,
+                align: columns[i].align || 'left'
+            });
+            x += columns[i].width;
+        });
+        doc.x = left;
+        doc.y = y + rowHeight;
+    };
+
+    drawRow(columns.map(column => column.title), true);
+    loan.items.forEach((item, index) => drawRow([
+        index + 1, item.barcode, item.item_name || '-', item.brand || '-', item.size || '-', formatRupiah(item.price)
+    ]));
+    drawRow(['', '', `Total (${loan.items.length} items)`, '', '', formatRupiah(loan.total_value)], true);
+
+    // Signature blocks
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 160) doc.addPage();
+    const top = doc.y + 30;
+    const boxWidth = width / 2 - 20;
+    const signature = parseSignature(loan.signature_base64);
+
+    doc.font('Helvetica').fontSize(10);
+    doc.text('Handed over by', left, top, { width: boxWidth, align: 'center' });
+    doc.text('Received by', left + width - boxWidth, top, { width: boxWidth, align: 'center' });
+
+    if (signature) {
+        try {
+            doc.image(signature.buffer, left + width - boxWidth, top + 15, { fit: [boxWidth, 80], align: 'center' });
+        } catch (err) {
+            console.error("Signature image error:", err.message);
+        }
+    }
+
+    doc.moveTo(left, top + 100).lineTo(left + boxWidth, top + 100).stroke('#000');
+    doc.moveTo(left + width - boxWidth, top + 100).lineTo(left + width, top + 100).stroke('#000');
+    doc.text(loan.inputter_name || '-', left, top + 105, { width: boxWidth, align: 'center' });
+    doc.text(loan.borrower_name || '-', left + width - boxWidth, top + 105, { width: boxWidth, align: 'center' });
+
+    doc.end();
+}
+
+module.exports = {
+    formatRupiah,
+    formatDay,
+    getLoanDocument,
+    isValidSignature,
+    renderLoanHtml,
+    renderLoanPdf
+};
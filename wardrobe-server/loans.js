@@ -0,0 +1,51 @@
+/*** FILE: wardrobe-server/loans.js ***/
+const { nextDocumentNumber } = require('./documentNumbers');
+
+// Inserts a loan header and its items inside an open transaction and marks the
+// items 'On Loan'. Throws if an item is not available. Returns { id, invoice_no }.
+async function insertLoan(client, loan) {
+    const { borrower_id, borrower_name, inputter_name, program_name, loan_reason, due_date, signature_base64, items } = loan;
+
+    const invoice = await nextDocumentNumber(client, 'loan');
+
+    // Insert Header
+    const insertTx = `
+        INSERT INTO loan_transactions (invoice_no, borrower_id, borrower_name, inputter_name, program_name, loan_reason, due_date, signature_base64, status)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'Open') RETURNING id
+    `;
+    const txRes = await client.query(insertTx, [
+        invoice, borrower_id, borrower_name, inputter_name, 
+        program_name, loan_reason, due_date, signature_base64
+    ]);
+    const txId = txRes.rows[0].id;
+
+    // Insert Details & Update Item Status
+    for (const barcode of items) {
+        // Check if item exists and is available
+        const itemCheck = await client.query(
+            "SELECT * FROM items WHERE barcode = $1 AND status = 'Available'",
+            [barcode]
+        );
+        
+        if (itemCheck.rows.length === 0) {
+            throw new Error(`Item ${barcode} is not available or not found`);
+        }
+        
+        // Name, brand and price as they were when the item went out
+        const item = itemCheck.rows[0];
+        await client.query(`
+            INSERT INTO loan_items (transaction_id, barcode, item_name, brand, price, status) 
+            VALUES ($1, $2, $3, $4, $5, 'On Loan')
+        `, [txId, barcode, item.item_name, item.brand, item.price || 0]);
+        await client.query(
+            "UPDATE items SET status = 'On Loan', updated_at = NOW() WHERE barcode = $1", 
+            [barcode]
+        );
+    }
+
+    return { id: txId, invoice_no: invoice };
+}
+
+module.exports = {
+    insertLoan
+};
@@ -0,0 +1,109 @@
+/*** FILE: wardrobe-server/overdue.js ***/
+
+// Aging buckets used for escalation: level 1 = 1-3 days, 2 = 4-7 days, 3 = 8+ days
+const OVERDUE_BUCKETS = [
+    { level: 1, label: '1-3', min: 1, max: 3 },
+    { level: 2, label: '4-7', min: 4, max: 7 },
+    { level: 3, label: '8+', min: 8, max: null }
+];
+
+// Due date of a loaned item: its own (after a partial extension) or the loan's.
+// Expects loan_items aliased `li` and loan_transactions aliased `lt`.
+const ITEM_DUE_DATE_SQL = 'COALESCE(li.due_date, lt.due_date)';
+
+const ESCALATION_LEVEL_SQL = `
+    CASE
+        WHEN CURRENT_DATE - due.earliest_due >= 8 THEN 3
+        WHEN CURRENT_DATE - due.earliest_due >= 4 THEN 2
+        ELSE 1
+    END
+`;
+
+// Recomputes overdue_days / escalation_level from the earliest due date of the
+// items still on loan and moves transactions between 'Open' and 'Overdue'.
+// Returns the loans whose escalation level went up.
+async function refreshOverdueLoans(pool) {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+
+        const escalated = await client.query(`
+            WITH due AS (
+                SELECT lt.id, lt.escalation_level as previous_level,
+                       MIN(${ITEM_DUE_DATE_SQL}) as earliest_due
+                FROM loan_transactions lt
+                JOIN loan_items li ON li.transaction_id = lt.id AND li.status = 'On Loan'
+                WHERE lt.status IN ('Open', 'Overdue')
+                GROUP BY lt.id
+                HAVING MIN(${ITEM_DUE_DATE_SQL}) < CURRENT_DATE
+            )
+            UPDATE loan_transactions lt
+            SET status = 'Overdue',
+                overdue_days = CURRENT_DATE - due.earliest_due,
+                escalation_level = ${ESCALATION_LEVEL_SQL}
+            FROM due
+            WHERE lt.id = due.id
+            RETURNING lt.id, lt.invoice_no, lt.borrower_name, lt.overdue_days,
+                      lt.escalation_level, due.previous_level
+        `);
+
+        // Due date moved forward (extension) or never passed: back to 'Open'
+        const cleared = await client.query(`
+            UPDATE loan_transactions lt
+            SET status = 'Open', overdue_days = 0, escalation_level = 0
+            WHERE lt.status = 'Overdue' AND NOT EXISTS (
+                SELECT 1 FROM loan_items li
+                WHERE li.transaction_id = lt.id AND li.status = 'On Loan'
+                  AND ${ITEM_DUE_DATE_SQL} < CURRENT_DATE
+            )
+            RETURNING id
+        `);
+
+        await client.query('COMMIT');
+
+        return {
+            overdue: escalated.rows.length,
+            cleared: cleared.rows.length,
+            escalated: escalated.rows.filter(loan => loan.escalation_level > (loan.previous_level || 0))
+        };
+    } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+// Runs `task` now, then every day shortly after midnight (server local time).
+// Returns a function that stops the schedule.
+function scheduleDaily(task, { hour = 0, minute = 5 } = {}) {
+    let timer = null;
+
+    const run = () => {
+        Promise.resolve(task()).catch(err => console.error("Scheduled task error:", err.message));
+    };
+
+    const scheduleNext = () => {
+        const now = new Date();
+        const next = new Date(now);
+        next.setHours(hour, minute, 0, 0);
+        if (next <= now) next.setDate(next.getDate() + 1);
+
+        timer = setTimeout(() => {
+            run();
+            scheduleNext();
+        }, next - now);
+    };
+
+    run();
+    scheduleNext();
+
+    return () => clearTimeout(timer);
+}
+
+module.exports = {
+    OVERDUE_BUCKETS,
+    ITEM_DUE_DATE_SQL,
+    refreshOverdueLoans,
+    scheduleDaily
+};
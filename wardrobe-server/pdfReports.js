@@ -0,0 +1,467 @@
+/*** FILE: wardrobe-server/pdfReports.js ***/
+const PDFDocument = require('pdfkit');
+const { OVERDUE_BUCKETS, ITEM_DUE_DATE_SQL } = require('./overdue');
+const { formatRupiah, formatDay } = require('./loanDocument');
+
+const APP_NAME = 'Wardrobe Inventory Pro';
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Header and footer are drawn inside the top/bottom margins of every page
+const MARGINS = { top: 85, bottom: 60, left: 40, right: 40 };
+
+// Same formula as calculateAccuracy in src/types/index.ts
+function calculateAccuracy(scanned, total) {
+    if (total === 0) return 0;
+    return Math.round((scanned / total) * 100);
+}
+
+function formatNumber(value) {
+    return new Intl.NumberFormat('id-ID').format(Number(value || 0));
+}
+
+function formatDateTime(value) {
+    return new Intl.DateTimeFormat('id-ID', {
+        day: '2-digit', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit'
+    }).format(value ? new Date(value) : new Date());
+}
+
+function formatMonth(month) {
+    const [year, mon] = month.split('-').map(Number);
+    return new Intl.DateTimeFormat('id-ID', { month: 'long', year: 'numeric' }).format(new Date(year, mon - 1, 1));
+}
+
+// --- Layout ---
+
+// `meta`: { title, subtitle, generatedBy, supervisor }. Pages are buffered so
+// the header and "Page X of Y" footer can be stamped once the total is known.
+function createReport(stream, meta) {
+    const doc = new PDFDocument({
+        size: 'A4',
+        margins: MARGINS,
+        bufferPages: true,
+        info: { Title: meta.title, Author: APP_NAME }
+    });
+    doc.pipe(stream);
+    meta.generatedAt = new Date();
+    return doc;
+}
+
+function contentWidth(doc) {
+    return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+}
+
+function ensureSpace(doc, height) {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) doc.addPage();
+}
+
+function drawHeader(doc, meta) {
+    const left = MARGINS.left;
+    const width = contentWidth(doc);
+
+    doc.font('Helvetica-Bold').fontSize(14).fillColor('#000')
+        .text(APP_NAME, left, 30, { width, lineBreak: false });
+    doc.font('Helvetica-Bold').fontSize(12)
+        .text(meta.title, left, 32, { width, align: 'right', lineBreak: false });
+    if (meta.subtitle) {
+        doc.font('Helvetica').fontSize(9).fillColor('#555')
+            .text(meta.subtitle, left, 50, { width, align: 'right', lineBreak: false });
+    }
+    doc.moveTo(left, 68).lineTo(left + width, 68).lineWidth(1).stroke('#000');
+    doc.fillColor('#000');
+}
+
+function drawFooter(doc, meta, pageNumber, pageCount) {
+    const left = MARGINS.left;
+    const width = contentWidth(doc);
+    const y = doc.page.height - 45;
+
+    doc.moveTo(left, y - 5).lineTo(left + width, y - 5).lineWidth(0.5).stroke('#999');
+    doc.font('Helvetica').fontSize(8).fillColor('#555')
+        .text(`Generated ${formatDateTime(meta.generatedAt)} by ${meta.generatedBy || '-'}`, left, y, { width, lineBreak: false });
+    doc.text(`Page ${pageNumber} of ${pageCount}`, left, y, { width, align: 'right', lineBreak: false });
+    doc.fillColor('#000');
+}
+
+// Prepared by (the user generating the report) and approved by the supervisor.
+// Without a supervisor name the line is left blank to be filled in by hand.
+function drawSignatureBlock(doc, meta) {
+    ensureSpace(doc, 150);
+    const left = MARGINS.left;
+    const width = contentWidth(doc);
+    const boxWidth = width / 2 - 20;
+    const right = left + width - boxWidth;
+    const top = doc.y + 30;
+
+    doc.font('Helvetica').fontSize(10).fillColor('#000');
+    doc.text('Prepared by', left, top, { width: boxWidth, align: 'center' });
+    doc.text('Approved by', right, top, { width: boxWidth, align: 'center' });
+
+    doc.moveTo(left, top + 80).lineTo(left + boxWidth, top + 80).lineWidth(1).stroke('#000');
+    doc.moveTo(right, top + 80).lineTo(right + boxWidth, top + 80).stroke('#000');
+    doc.text(meta.generatedBy || '-', left, top + 85, { width: boxWidth, align: 'center' });
+    doc.text(meta.supervisor || ' ', right, top + 85, { width: boxWidth, align: 'center' });
+
+    doc.fontSize(8).fillColor('#555');
+    doc.text(`Date: ${formatDay(meta.generatedAt)}`, left, top + 100, { width: boxWidth, align: 'center' });
+    doc.text('Supervisor  •  Date: ________________', right, top + 100, { width: boxWidth, align: 'center' });
+    doc.fillColor('#000');
+    doc.x = left;
+}
+
+function finishReport(doc, meta) {
+    drawSignatureBlock(doc, meta);
+
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        // Writing inside the bottom margin would otherwise start a new page
+        const bottom = doc.page.margins.bottom;
+        doc.page.margins.bottom = 0;
+        drawHeader(doc, meta);
+        drawFooter(doc, meta, i - range.start + 1, range.count);
+        doc.page.margins.bottom = bottom;
+    }
+
+    doc.flushPages();
+    doc.end();
+}
+
+function heading(doc, text) {
+    ensureSpace(doc, 60);
+    doc.moveDown(0.5);
+    doc.font('Helvetica-Bold').fontSize(11).fillColor('#000')
+        .text(text, MARGINS.left, doc.y);
+    doc.moveDown(0.3);
+}
+
+function note(doc, text) {
+    doc.font('Helvetica-Oblique').fontSize(9).fillColor('#555')
+        .text(text, MARGINS.left, doc.y)
+        .fillColor('#000');
+    doc.moveDown(0.5);
+}
+
+function keyValues(doc, pairs) {
+    const left = MARGINS.left;
+    const width = contentWidth(doc);
+    doc.font('Helvetica').fontSize(10);
+    for (const [label, value] of pairs) {
+        ensureSpace(doc, 14);
+        const y = doc.y;
+        doc.fillColor('#555').text(label, left, y, { width: 150 });
+        doc.fillColor('#000').text(String(value), left + 150, y, { width: width - 150 });
+    }
+    doc.x = left;
+    doc.moveDown(0.5);
+}
+
+// Bordered table; the header row is repeated on every page the table spans.
+// Columns without a width share the remaining space. `totals` is a bold last row.
+function table(doc, columns, rows, { totals = null } = {}) {
+    const left = MARGINS.left;
+    const fixed = columns.reduce((sum, column) => sum + (column.width || 0), 0);
+    const flexible = columns.filter(column => !column.width).length;
+    const widths = columns.map(column => column.width || (contentWidth(doc) - fixed) / flexible);
+
+    const drawRow = (values, bold = false) => {
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8.5);
+        const heights = values.map((value, i) =>
+            doc.heightOfString(String(value ?? ''), { width: widths[i] - 6 })
+        );
+        const rowHeight = Math.max(...heights) + 6;
+        if (doc.y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+            doc.addPage();
+            if (values !== titles) drawRow(titles, true);
+            doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8.5);
+        }
+        const y = doc.y;
+        let x = left;
+        values.forEach((value, i) => {
+            if (values === titles) doc.rect(x, y, widths[i], rowHeight).fill('#eee');
+            doc.rect(x, y, widths[i], rowHeight).lineWidth(0.5).stroke('#999');
+            doc.fillColor('#000').text(String(value ?? ''), x + 3, y + 3, {
+                width: widths[i] - 6,
+                align: columns[i].align || 'left'
+            });
+            x += widths[i];
+        });
+        doc.x = left;
+        doc.y = y + rowHeight;
+    };
+
+    const titles = columns.map(column => column.title);
+    ensureSpace(doc, 40);
+    drawRow(titles, true);
+    rows.forEach(values => drawRow(values));
+    if (totals) drawRow(totals, true);
+    doc.moveDown(0.5);
+}
+
+// --- Stock opname ---
+
+// `variance` is the result of buildOpnameVariance for the session
+function renderOpnameReport(variance, stream, meta) {
+    const { session, summary } = variance;
+    const report = {
+        ...meta,
+        title: 'Stock Opname Report',
+        subtitle: [session.session_name, session.location].filter(Boolean).join(' • ')
+    };
+    const doc = createReport(stream, report);
+
+    keyValues(doc, [
+        ['Session', session.session_name],
+        ['Location', session.location || '-'],
+        ['Status', session.status],
+        ['Opened', `${formatDateTime(session.opened_at)} by ${session.opened_by || '-'}`],
+        ['Closed', session.closed_at ? `${formatDateTime(session.closed_at)} by ${session.closed_by || '-'}` : 'Still open']
+    ]);
+
+    heading(doc, 'Summary');
+    keyValues(doc, [
+        ['Total items', formatNumber(summary.total_items)],
+        ['Scanned items', formatNumber(summary.scanned_items)],
+        ['Accuracy', `${calculateAccuracy(summary.scanned_items, summary.total_items)}%`],
+        ['Missing items', `${formatNumber(summary.missing_items)} (${formatRupiah(summary.missing_value)})`],
+        ['Scanned while on loan', formatNumber(summary.scanned_on_loan)],
+        ['Unknown barcodes', formatNumber(summary.unknown_barcodes)]
+    ]);
+
+    heading(doc, 'Per Category');
+    const sum = field => variance.categories.reduce((total, c) => total + c[field], 0);
+    table(doc, [
+        { title: 'Category' },
+        { title: 'Expected', width: 60, align: 'right' },
+        { title: 'Counted', width: 60, align: 'right' },
+        { title: 'Missing', width: 60, align: 'right' },
+        { title: 'Missing Value', width: 100, align: 'right' }
+    ], variance.categories.map(c => [
+        c.category, formatNumber(c.expected_items), formatNumber(c.counted_items),
+        formatNumber(c.missing_items), formatRupiah(c.missing_value)
+    ]), {
+        totals: ['Total', formatNumber(sum('expected_items')), formatNumber(sum('counted_items')),
+            formatNumber(sum('missing_items')), formatRupiah(sum('missing_value'))]
+    });
+
+    heading(doc, `Missing Items (${variance.missing.length})`);
+    if (variance.missing.length === 0) {
+        note(doc, 'Every expected item was scanned.');
+    } else {
+        table(doc, [
+            { title: 'No', width: 30, align: 'right' },
+            { title: 'Barcode', width: 95 },
+            { title: 'Item' },
+            { title: 'Brand', width: 80 },
+            { title: 'Category', width: 80 },
+            { title: 'Price', width: 80, align: 'right' }
+        ], variance.missing.map((item, index) => [
+            index + 1, item.barcode, item.item_name || '-', item.brand || '-',
+            item.category || '-', formatRupiah(item.price)
+        ]), {
+            totals: ['', '', `Total (${variance.missing.length} items)`, '', '', formatRupiah(summary.missing_value)]
+        });
+    }
+
+    if (variance.unknown.length > 0) {
+        heading(doc, `Unknown Barcodes (${variance.unknown.length})`);
+        table(doc, [
+            { title: 'Barcode' },
+            { title: 'Scanned By', width: 140 },
+            { title: 'Scanned At', width: 160 }
+        ], variance.unknown.map(scan => [scan.barcode, scan.scanned_by || '-', formatDateTime(scan.scanned_at)]));
+    }
+
+    finishReport(doc, report);
+}
+
+// --- Monthly loans ---
+
+// Loans created in `month` (YYYY-MM), grouped per program and per borrower
+async function getMonthlyLoanReport(pool, month) {
+    const groupTotals = `
+        COUNT(DISTINCT lt.id)::int as loans,
+        COUNT(li.id)::int as items,
+        COUNT(li.id) FILTER (WHERE li.status = 'Returned')::int as returned,
+        COUNT(li.id) FILTER (WHERE li.status = 'Lost')::int as lost,
+        COUNT(li.id) FILTER (WHERE li.status = 'On Loan')::int as on_loan,
+        COALESCE(SUM(COALESCE(i.price, li.price, 0)), 0) as total_value
+    `;
+    const from = `
+        FROM loan_transactions lt
+        LEFT JOIN loan_items li ON li.transaction_id = lt.id
+        LEFT JOIN items i ON i.barcode = li.barcode
+        LEFT JOIN borrowers b ON b.id = lt.borrower_id
+        WHERE lt.created_at >= $1::date AND lt.created_at < $1::date + INTERVAL '1 month'
+    `;
+    const params = [`${month}-01`];
+
+    const [totals, programs, borrowers] = await Promise.all([
+        pool.query(`SELECT ${groupTotals} ${from}`, params),
+        pool.query(`
+            SELECT COALESCE(NULLIF(lt.program_name, ''), '(No program)') as program_name, ${groupTotals}
+            ${from}
+            GROUP BY 1
+            ORDER BY items DESC, 1 ASC
+        `, params),
+        pool.query(`
+            SELECT lt.borrower_name, b.department, ${groupTotals}
+            ${from}
+            GROUP BY lt.borrower_name, b.department
+            ORDER BY items DESC, lt.borrower_name ASC
+        `, params)
+    ]);
+
+    return {
+        month,
+        totals: totals.rows[0],
+        programs: programs.rows,
+        borrowers: borrowers.rows
+    };
+}
+
+function renderMonthlyLoanReport(data, stream, meta) {
+    const report = { ...meta, title: 'Monthly Loan Report', subtitle: formatMonth(data.month) };
+    const doc = createReport(stream, report);
+    const { totals } = data;
+
+    heading(doc, 'Summary');
+    keyValues(doc, [
+        ['Period', formatMonth(data.month)],
+        ['Loans', formatNumber(totals.loans)],
+        ['Items loaned', formatNumber(totals.items)],
+        ['Returned', formatNumber(totals.returned)],
+        ['Lost', formatNumber(totals.lost)],
+        ['Still on loan', formatNumber(totals.on_loan)],
+        ['Total value', formatRupiah(totals.total_value)]
+    ]);
+
+    const countColumns = [
+        { title: 'Loans', width: 45, align: 'right' },
+        { title: 'Items', width: 45, align: 'right' },
+        { title: 'Returned', width: 55, align: 'right' },
+        { title: 'Lost', width: 40, align: 'right' },
+        { title: 'On Loan', width: 50, align: 'right' },
+        { title: 'Value', width: 85, align: 'right' }
+    ];
+    const counts = row => [
+        formatNumber(row.loans), formatNumber(row.items), formatNumber(row.returned),
+        formatNumber(row.lost), formatNumber(row.on_loan), formatRupiah(row.total_value)
+    ];
+
+    heading(doc, 'Per Program');
+    if (data.programs.length === 0) {
+        note(doc, 'No loans in this period.');
+    } else {
+        table(doc, [{ title: 'Program' }, ...countColumns],
+            data.programs.map(row => [row.program_name, ...counts(row)]),
+            { totals: ['Total', ...counts(totals)] });
+    }
+
+    heading(doc, 'Per Borrower');
+    if (data.borrowers.length === 0) {
+        note(doc, 'No loans in this period.');
+    } else {
+        table(doc, [{ title: 'Borrower' }, { title: 'Department', width: 90 }, ...countColumns],
+            data.borrowers.map(row => [row.borrower_name || '-', row.department || '-', ...counts(row)]),
+            { totals: ['Total', '', ...counts(totals)] });
+    }
+
+    finishReport(doc, report);
+}
+
+// --- Overdue loans ---
+
+// Loans from vw_overdue_loans with their overdue items
+async function getOverdueReport(pool) {
+    const loans = await pool.query(`
+        SELECT v.*, b.department as borrower_department, b.phone as borrower_phone
+        FROM vw_overdue_loans v
+        LEFT JOIN borrowers b ON b.id = v.borrower_id
+        ORDER BY v.days_overdue DESC, v.invoice_no ASC
+    `);
+
+    const items = await pool.query(`
+        SELECT li.transaction_id, li.barcode, COALESCE(i.item_name, li.item_name) as item_name,
+               COALESCE(i.price, li.price, 0) as price,
+               ${ITEM_DUE_DATE_SQL} as due_date,
+               CURRENT_DATE - ${ITEM_DUE_DATE_SQL} as days_overdue
+        FROM loan_items li
+        JOIN loan_transactions lt ON lt.id = li.transaction_id
+        LEFT JOIN items i ON i.barcode = li.barcode
+        WHERE li.status = 'On Loan' AND lt.status IN ('Open', 'Overdue')
+          AND ${ITEM_DUE_DATE_SQL} < CURRENT_DATE
+        ORDER BY li.transaction_id, li.id ASC
+    `);
+
+    return loans.rows.map(loan => ({
+        ...loan,
+        items: items.rows.filter(item => item.transaction_id === loan.id)
+    }));
+}
+
+function overdueBucket(days) {
+    return OVERDUE_BUCKETS.find(b => days >= b.min && (b.max === null || days <= b.max)) || OVERDUE_BUCKETS[0];
+}
+
+function renderOverdueReport(loans, stream, meta) {
+    const report = { ...meta, title: 'Overdue Loan Report', subtitle: `Status per ${formatDay(new Date())}` };
+    const doc = createReport(stream, report);
+
+    const totalItems = loans.reduce((sum, loan) => sum + Number(loan.overdue_items), 0);
+    const totalValue = loans.reduce((sum, loan) =>
+        sum + loan.items.reduce((s, item) => s + Number(item.price || 0), 0), 0);
+
+    heading(doc, 'Summary');
+    keyValues(doc, [
+        ['Overdue loans', formatNumber(loans.length)],
+        ['Overdue items', formatNumber(totalItems)],
+        ['Value of overdue items', formatRupiah(totalValue)]
+    ]);
+
+    heading(doc, 'Aging');
+    table(doc, [
+        { title: 'Level', width: 50, align: 'right' },
+        { title: 'Days Overdue' },
+        { title: 'Loans', width: 80, align: 'right' },
+        { title: 'Items', width: 80, align: 'right' }
+    ], OVERDUE_BUCKETS.map(bucket => {
+        const inBucket = loans.filter(loan => overdueBucket(loan.days_overdue).level === bucket.level);
+        return [
+            bucket.level, `${bucket.label} days`, formatNumber(inBucket.length),
+            formatNumber(inBucket.reduce((sum, loan) => sum + Number(loan.overdue_items), 0))
+        ];
+    }), { totals: ['', 'Total', formatNumber(loans.length), formatNumber(totalItems)] });
+
+    heading(doc, 'Overdue Loans');
+    if (loans.length === 0) {
+        note(doc, 'No loans are overdue.');
+    } else {
+        table(doc, [
+            { title: 'Invoice', width: 105 },
+            { title: 'Borrower' },
+            { title: 'Program', width: 100 },
+            { title: 'Due Date', width: 75 },
+            { title: 'Days', width: 40, align: 'right' },
+            { title: 'Items' }
+        ], loans.map(loan => [
+            loan.invoice_no,
+            [loan.borrower_name, loan.borrower_department, loan.borrower_phone].filter(Boolean).join('\n'),
+            loan.program_name || '-',
+            formatDay(loan.due_date),
+            loan.days_overdue,
+            loan.items.map(item => `${item.barcode} ${item.item_name || ''}`.trim()).join('\n')
+        ]));
+    }
+
+    finishReport(doc, report);
+}
+
+module.exports = {
+    MONTH_PATTERN,
+    calculateAccuracy,
+    renderOpnameReport,
+    getMonthlyLoanReport,
+    renderMonthlyLoanReport,
+    getOverdueReport,
+    renderOverdueReport
+};
@@ -0,0 +1,57 @@
+/*** FILE: wardrobe-server/permissions.js ***/
+
+const ROLES = ['admin', 'staff', 'user'];
+
+// Permission matrix: which roles may perform each action.
+// The client receives the resolved list at login to hide menu entries,
+// but the middleware below is what actually enforces it.
+const PERMISSIONS = {
+    upload_stock:     ['admin', 'staff'],
+    print_labels:     ['admin', 'staff'],
+    update_item:      ['admin', 'staff'],
+    delete_item:      ['admin'],
+    create_loan:      ['admin', 'staff'],
+    return_item:      ['admin', 'staff'],
+    manage_loans:     ['admin', 'staff'],
+    manage_borrowers: ['admin', 'staff'],
+    delete_borrower:  ['admin'],
+    block_borrower:   ['admin'],
+    manage_opname:    ['admin', 'staff'],
+    scan_opname:      ['admin', 'staff', 'user'],
+    manage_maintenance: ['admin', 'staff'],
+    manage_reservations: ['admin', 'staff'],
+    manage_liabilities: ['admin'],
+    manage_numbering: ['admin'],
+    view_logs:        ['admin'],
+    manage_users:     ['admin'],
+    clear_data:       ['admin']
+};
+
+function hasPermission(role, action) {
+    return (PERMISSIONS[action] || []).includes(role);
+}
+
+function permissionsFor(role) {
+    return Object.keys(PERMISSIONS).filter(action => hasPermission(role, action));
+}
+
+// Express middleware; must run after requireAuth so req.user is set
+function requirePermission(action) {
+    return (req, res, next) => {
+        if (!req.user || !hasPermission(req.user.role, action)) {
+            return res.status(403).json({ 
+                success: false, 
+                message: `Your role (${req.user ? req.user.role : 'guest'}) is not allowed to ${action.replace(/_/g, ' ')}` 
+            });
+        }
+        next();
+    };
+}
+
+module.exports = {
+    ROLES,
+    PERMISSIONS,
+    hasPermission,
+    permissionsFor,
+    requirePermission
+};
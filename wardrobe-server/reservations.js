@@ -0,0 +1,69 @@
+/*** FILE: wardrobe-server/reservations.js ***/
+const { ITEM_DUE_DATE_SQL } = require('./overdue');
+
+const RESERVATION_STATUSES = ['Reserved', 'Checked Out', 'Cancelled'];
+
+// Everything that keeps `barcodes` from being picked up between startDate and
+// endDate: other open reservations overlapping the window, loans not due back
+// before it starts (overdue loans always count, their return date is unknown),
+// laundry / repair not expected back in time, and items out of circulation
+// (damaged, lost, written off).
+async function findReservationConflicts(db, barcodes, startDate, endDate, excludeReservationId = null) {
+    const result = await db.query(`
+        SELECT ri.barcode, 'reservation' as type, r.id as reference_id, r.reservation_no as reference_no,
+               r.program_name, r.start_date, r.end_date
+        FROM reservation_items ri
+        JOIN reservations r ON r.id = ri.reservation_id
+        WHERE ri.barcode = ANY($1) AND r.status = 'Reserved'
+          AND r.start_date <= $3 AND r.end_date >= $2
+          AND r.id IS DISTINCT FROM $4
+
+        UNION ALL
+
+        SELECT li.barcode, 'loan', lt.id, lt.invoice_no, lt.program_name, lt.created_at::date, ${ITEM_DUE_DATE_SQL}
+        FROM loan_items li
+        JOIN loan_transactions lt ON lt.id = li.transaction_id
+        WHERE li.barcode = ANY($1) AND li.status = 'On Loan'
+          AND (${ITEM_DUE_DATE_SQL} IS NULL OR ${ITEM_DUE_DATE_SQL} >= $2 OR ${ITEM_DUE_DATE_SQL} < CURRENT_DATE)
+
+        UNION ALL
+
+        SELECT mi.barcode, 'maintenance', mt.id, mt.ticket_no, mt.type, mt.created_at::date, mt.expected_date
+        FROM maintenance_items mi
+        JOIN maintenance_tickets mt ON mt.id = mi.ticket_id
+        WHERE mi.barcode = ANY($1) AND mi.status = 'Out'
+          AND (mt.expected_date IS NULL OR mt.expected_date >= $2)
+
+        UNION ALL
+
+        SELECT i.barcode, 'unavailable', NULL, i.status, NULL, NULL, NULL
+        FROM items i
+        WHERE i.barcode = ANY($1) AND i.status NOT IN ('Available', 'On Loan', 'In Laundry', 'In Repair')
+
+        ORDER BY barcode, start_date
+    `, [barcodes, startDate, endDate, excludeReservationId]);
+
+    return result.rows;
+}
+
+// Open reservations of `barcodes` that overlap a loan running from today
+// until dueDate (no due date: every reservation not yet over)
+async function findReservedForLoan(db, barcodes, dueDate) {
+    const result = await db.query(`
+        SELECT ri.barcode, r.id as reservation_id, r.reservation_no, r.program_name, r.start_date, r.end_date
+        FROM reservation_items ri
+        JOIN reservations r ON r.id = ri.reservation_id
+        WHERE ri.barcode = ANY($1) AND r.status = 'Reserved'
+          AND r.end_date >= CURRENT_DATE
+          AND ($2::date IS NULL OR r.start_date <= $2)
+        ORDER BY ri.barcode, r.start_date
+    `, [barcodes, dueDate || null]);
+
+    return result.rows;
+}
+
+module.exports = {
+    RESERVATION_STATUSES,
+    findReservationConflicts,
+    findReservedForLoan
+};
@@ -0,0 +1,33 @@
+/*** FILE: wardrobe-server/scripts/create-user.js ***/
+// Create (or reset) a user with a hashed password.
+// Usage: npm run create-user -- <username> <password> [role] [fullname]
+const pool = require('../db');
+const { hashPassword } = require('../auth');
+
+async function main() {
+    const [username, password, role = 'admin', ...name] = process.argv.slice(2);
+
+    if (!username || !password) {
+        console.error('Usage: npm run create-user -- <username> <password> [role] [fullname]');
+        process.exitCode = 1;
+        return;
+    }
+
+    const hashed = await hashPassword(password);
+    await pool.query(`
+        INSERT INTO users (username, password, fullname, role)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (username) DO UPDATE SET 
+            password = EXCLUDED.password,
+            role = EXCLUDED.role
+    `, [username, hashed, name.join(' ') || username, role]);
+
+    console.log(`✅ User ${username} (${role}) saved`);
+}
+
+main()
+    .catch(err => {
+        console.error('❌ Create user failed:', err.message);
+        process.exitCode = 1;
+    })
+    .finally(() => pool.end());
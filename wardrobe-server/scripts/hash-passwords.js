@@ -0,0 +1,28 @@
+/*** FILE: wardrobe-server/scripts/hash-passwords.js ***/
+// One-off migration: rehash every plaintext password in the users table.
+// Usage: npm run migrate:passwords
+const pool = require('../db');
+const { hashPassword, isHashed } = require('../auth');
+
+async function main() {
+    const result = await pool.query("SELECT id, username, password FROM users ORDER BY id ASC");
+    let migrated = 0;
+
+    for (const user of result.rows) {
+        if (isHashed(user.password)) continue;
+
+        const hashed = await hashPassword(user.password);
+        await pool.query("UPDATE users SET password = $1 WHERE id = $2", [hashed, user.id]);
+        console.log(`🔒 Rehashed password for ${user.username}`);
+        migrated++;
+    }
+
+    console.log(`✅ ${migrated} of ${result.rows.length} users migrated`);
+}
+
+main()
+    .catch(err => {
+        console.error('❌ Password migration failed:', err.message);
+        process.exitCode = 1;
+    })
+    .finally(() => pool.end());
@@ -0,0 +1,301 @@
+/*** FILE: wardrobe-server/spreadsheetExport.js ***/
+const ExcelJS = require('exceljs');
+
+// Excel number formats per column type; rupiah amounts have no decimals
+const FORMATS = {
+    date: 'dd/mm/yyyy',
+    datetime: 'dd/mm/yyyy hh:mm',
+    currency: '"Rp" #,##0',
+    number: '#,##0'
+};
+
+const DEFAULT_WIDTHS = { date: 12, datetime: 17, currency: 15, number: 10, boolean: 9, text: 18 };
+
+// Inventory export filters (same as the dashboard download menu) and their sheets
+const INVENTORY_FILTERS = {
+    ALL:     { sheet: 'All Items', match: () => true },
+    SCANNED: { sheet: 'Scanned',   match: item => item.is_scanned },
+    PENDING: { sheet: 'Available', match: item => item.status === 'Available' },
+    ON_LOAN: { sheet: 'On Loan',   match: item => item.status === 'On Loan' }
+};
+
+const ITEM_COLUMNS = [
+    { header: 'Barcode',       key: 'barcode',      width: 16 },
+    { header: 'Item Name',     key: 'item_name',    width: 32 },
+    { header: 'Brand',         key: 'brand' },
+    { header: 'Size',          key: 'size',         width: 8 },
+    { header: 'Color',         key: 'color',        width: 12 },
+    { header: 'Category',      key: 'category' },
+    { header: 'Price',         key: 'price',        type: 'currency' },
+    { header: 'Status',        key: 'status',       width: 12 },
+    { header: 'Scanned',       key: 'is_scanned',   type: 'boolean' },
+    { header: 'Last Scanned',  key: 'last_scanned', type: 'datetime' },
+    { header: 'Receive No',    key: 'receive_no' },
+    { header: 'Receive Date',  key: 'receive_date', type: 'date' },
+    { header: 'Supplier',      key: 'supplier' },
+    { header: 'Last Updated',  key: 'updated_at',   type: 'datetime' }
+];
+
+// pg returns DATE / TIMESTAMP values as local times while ExcelJS writes
+// Dates as UTC, so the local wall-clock parts are moved to UTC first
+function toExcelDate(value) {
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) return null;
+    return new Date(Date.UTC(
+        date.getFullYear(), date.getMonth(), date.getDate(),
+        date.getHours(), date.getMinutes(), date.getSeconds()
+    ));
+}
+
+function cellValue(type, value) {
+    if (type === 'boolean') return value ? 'Yes' : 'No';
+    if (value === null || value === undefined || value === '') return null;
+    if (type === 'date' || type === 'datetime') return toExcelDate(value);
+    if (type === 'currency' || type === 'number') {
+        const number = Number(value);
+        return isNaN(number) ? null : number;
+    }
+    return String(value);
+}
+
+// Workbook written straight into `stream` (e.g. the HTTP response) as rows are added
+function createWorkbook(stream) {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream, useStyles: true });
+    workbook.creator = 'Wardrobe System';
+    workbook.created = new Date();
+    return workbook;
+}
+
+function styleHeaderRow(row) {
+    row.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    row.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF1E40AF' } };
+    row.alignment = { vertical: 'middle' };
+}
+
+// A sheet with a frozen, filterable header row. `columns` are
+// { header, key, type, width }; `rows` are objects keyed by column key.
+function addTableSheet(workbook, name, columns, rows) {
+    const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+    sheet.columns = columns.map(column => ({
+        header: column.header,
+        key: column.key,
+        width: column.width || DEFAULT_WIDTHS[column.type || 'text'],
+        style: FORMATS[column.type] ? { numFmt: FORMATS[column.type] } : {}
+    }));
+    styleHeaderRow(sheet.getRow(1));
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+
+    for (const row of rows) {
+        const values = {};
+        for (const column of columns) {
+            values[column.key] = cellValue(column.type, row[column.key]);
+        }
+        sheet.addRow(values).commit();
+    }
+    sheet.commit();
+}
+
+// Count and value (sum of price) per group, largest value first
+function totalsBy(items, keyOf) {
+    const groups = new Map();
+    for (const item of items) {
+        const key = keyOf(item) || '(none)';
+        const group = groups.get(key) || { name: key, count: 0, value: 0 };
+        group.count++;
+        group.value += Number(item.price) || 0;
+        groups.set(key, group);
+    }
+    return [...groups.values()].sort((a, b) => b.value - a.value || b.count - a.count);
+}
+
+// Stacked small tables: [{ title, columns, rows: [{ name, count, value }] }];
+// with two column headers the value column is left out
+function addSummarySheet(workbook, title, generatedBy, sections) {
+    const sheet = workbook.addWorksheet('Summary');
+    sheet.columns = [{ width: 28 }, { width: 12 }, { width: 18 }];
+
+    const titleRow = sheet.addRow([title]);
+    titleRow.font = { bold: true, size: 14 };
+    titleRow.commit();
+    sheet.addRow([`Generated ${new Date().toLocaleString('id-ID')}${generatedBy ? ` by ${generatedBy}` : ''}`]).commit();
+
+    for (const section of sections) {
+        sheet.addRow([]).commit();
+        const sectionRow = sheet.addRow([section.title]);
+        sectionRow.font = { bold: true };
+        sectionRow.commit();
+
+        const headerRow = sheet.addRow(section.columns);
+        styleHeaderRow(headerRow);
+        headerRow.commit();
+
+        const withValue = section.columns.length > 2;
+        const addLine = (values, bold = false) => {
+            const row = sheet.addRow(withValue ? values : values.slice(0, 2));
+            row.getCell(2).numFmt = FORMATS.number;
+            if (withValue) row.getCell(3).numFmt = FORMATS.currency;
+            if (bold) row.font = { bold: true };
+            row.commit();
+        };
+
+        for (const group of section.rows) {
+            addLine([group.name, group.count, group.value]);
+        }
+        addLine([
+            'Total',
+            section.rows.reduce((sum, group) => sum + group.count, 0),
+            section.rows.reduce((sum, group) => sum + group.value, 0)
+        ], true);
+    }
+
+    sheet.commit();
+}
+
+// Summary (per status and brand) followed by one sheet per filter; the
+// requested filter's sheet is the one that opens first
+async function writeInventoryWorkbook(stream, { items, filter = 'ALL', generatedBy }) {
+    const workbook = createWorkbook(stream);
+    const filters = Object.keys(INVENTORY_FILTERS);
+
+    addSummarySheet(workbook, 'Inventory Report', generatedBy, [
+        { title: 'Items per status', columns: ['Status', 'Items', 'Value'], rows: totalsBy(items, item => item.status) },
+        { title: 'Items per brand', columns: ['Brand', 'Items', 'Value'], rows: totalsBy(items, item => item.brand) }
+    ]);
+
+    for (const key of filters) {
+        const { sheet, match } = INVENTORY_FILTERS[key];
+        addTableSheet(workbook, sheet, ITEM_COLUMNS, items.filter(match));
+    }
+
+    // Tab 0 is the summary
+    workbook.views = [{ activeTab: filters.indexOf(filter) + 1 }];
+    await workbook.commit();
+}
+
+// One row per loan and one row per loaned item
+async function writeLoanHistoryWorkbook(stream, { loans, items, generatedBy }) {
+    const workbook = createWorkbook(stream);
+
+    addSummarySheet(workbook, 'Loan History', generatedBy, [
+        {
+            title: 'Loaned items per status',
+            columns: ['Status', 'Items', 'Value'],
+            rows: totalsBy(items, item => item.status)
+        },
+        {
+            title: 'Loaned items per department',
+            columns: ['Department', 'Items', 'Value'],
+            rows: totalsBy(items, item => item.borrower_department)
+        }
+    ]);
+
+    addTableSheet(workbook, 'Loans', [
+        { header: 'Invoice No',   key: 'invoice_no',    width: 20 },
+        { header: 'Borrower',     key: 'borrower_name', width: 24 },
+        { header: 'Department',   key: 'borrower_department' },
+        { header: 'Program',      key: 'program_name',  width: 24 },
+        { header: 'Loan Date',    key: 'created_at',    type: 'datetime' },
+        { header: 'Due Date',     key: 'due_date',      type: 'date' },
+        { header: 'Status',       key: 'status',        width: 12 },
+        { header: 'Items',        key: 'total_items',   type: 'number' },
+        { header: 'Returned',     key: 'returned_items', type: 'number' },
+        { header: 'Total Value',  key: 'total_value',   type: 'currency' },
+        { header: 'Handled By',   key: 'inputter_name' }
+    ], loans);
+
+    addTableSheet(workbook, 'Items', [
+        { header: 'Invoice No',   key: 'invoice_no',    width: 20 },
+        { header: 'Borrower',     key: 'borrower_name', width: 24 },
+        { header: 'Barcode',      key: 'barcode',       width: 16 },
+        { header: 'Item Name',    key: 'item_name',     width: 32 },
+        { header: 'Brand',        key: 'brand' },
+        { header: 'Price',        key: 'price',         type: 'currency' },
+        { header: 'Loan Date',    key: 'loan_date',     type: 'datetime' },
+        { header: 'Due Date',     key: 'due_date',      type: 'date' },
+        { header: 'Status',       key: 'status',        width: 12 },
+        { header: 'Returned At',  key: 'returned_at',   type: 'datetime' },
+        { header: 'Return No',    key: 'return_no',     width: 20 },
+        { header: 'Condition',    key: 'return_condition' }
+    ], items);
+
+    await workbook.commit();
+}
+
+// Items currently out, with their effective due date and days overdue
+async function writeActiveLoansWorkbook(stream, { items, generatedBy }) {
+    const workbook = createWorkbook(stream);
+
+    addSummarySheet(workbook, 'Active Loans', generatedBy, [
+        {
+            title: 'Items on loan per borrower',
+            columns: ['Borrower', 'Items', 'Value'],
+            rows: totalsBy(items, item => item.borrower_name)
+        },
+        {
+            title: 'Items on loan per brand',
+            columns: ['Brand', 'Items', 'Value'],
+            rows: totalsBy(items, item => item.brand)
+        }
+    ]);
+
+    addTableSheet(workbook, 'On Loan', [
+        { header: 'Invoice No',   key: 'invoice_no',    width: 20 },
+        { header: 'Borrower',     key: 'borrower_name', width: 24 },
+        { header: 'Department',   key: 'borrower_department' },
+        { header: 'Phone',        key: 'borrower_phone' },
+        { header: 'Program',      key: 'program_name',  width: 24 },
+        { header: 'Barcode',      key: 'barcode',       width: 16 },
+        { header: 'Item Name',    key: 'item_name',     width: 32 },
+        { header: 'Brand',        key: 'brand' },
+        { header: 'Price',        key: 'price',         type: 'currency' },
+        { header: 'Loan Date',    key: 'loan_date',     type: 'datetime' },
+        { header: 'Due Date',     key: 'due_date',      type: 'date' },
+        { header: 'Days Overdue', key: 'days_overdue',  type: 'number' }
+    ], items);
+
+    await workbook.commit();
+}
+
+async function writeActivityLogWorkbook(stream, { logs, generatedBy }) {
+    const workbook = createWorkbook(stream);
+
+    addSummarySheet(workbook, 'Activity Log', generatedBy, [
+        {
+            title: 'Entries per action',
+            columns: ['Action', 'Entries'],
+            rows: totalsBy(logs, log => log.action_type)
+        },
+        {
+            title: 'Entries per user',
+            columns: ['User', 'Entries'],
+            rows: totalsBy(logs, log => log.user_name)
+        }
+    ]);
+
+    addTableSheet(workbook, 'Activity', [
+        { header: 'Time',       key: 'created_at', type: 'datetime' },
+        { header: 'User',       key: 'user_name' },
+        { header: 'Action',     key: 'action_type', width: 22 },
+        { header: 'Entity',     key: 'entity' },
+        { header: 'Entity ID',  key: 'entity_id' },
+        { header: 'Details',    key: 'details',    width: 60 },
+        { header: 'IP Address', key: 'ip_address', width: 16 }
+    ], logs);
+
+    await workbook.commit();
+}
+
+// Sets the download headers for an .xlsx response
+function sendAsXlsx(res, fileName) {
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+}
+
+module.exports = {
+    INVENTORY_FILTERS,
+    writeInventoryWorkbook,
+    writeLoanHistoryWorkbook,
+    writeActiveLoansWorkbook,
+    writeActivityLogWorkbook,
+    sendAsXlsx
+};
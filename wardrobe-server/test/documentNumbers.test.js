@@ -0,0 +1,185 @@
+/*** FILE: wardrobe-server/test/documentNumbers.test.js ***/
+// Parallel loan creation against a throwaway database on the server from
+// db.js: database.sql is loaded into it and the database is dropped again
+// afterwards, so the real tables are never touched. Without a reachable
+// PostgreSQL server the tests are skipped.
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { Pool } = require('pg');
+const { options } = require('../db');
+const { nextDocumentNumber } = require('../documentNumbers');
+const { insertLoan } = require('../loans');
+
+const TEST_DATABASE = `wardrobe_test_${process.pid}_${Date.now()}`;
+
+// pg-pool keeps the password out of the enumerable options
+const connectTo = (database, max) => new Pool({ ...options, password: options.password, database, max });
+
+// CREATE / DROP DATABASE run from the maintenance database
+const adminPool = connectTo('postgres', 1);
+let pool;
+let skipReason = null;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Number part of INV-YYYYMMDD-001
+const sequenceOf = (invoiceNo) => parseInt(invoiceNo.split('-').pop());
+
+// Runs fn(client) in a transaction: commits, or rolls back when asked to or
+// when fn throws. Returns what fn returned, or null when rolled back.
+async function inTransaction(fn, { rollback = false } = {}) {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const result = await fn(client);
+        if (rollback) {
+            await client.query('ROLLBACK');
+            return null;
+        }
+        await client.query('COMMIT');
+        return result;
+    } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+// One loan header: take a number (or leave it to the trigger), insert it and
+// hold the transaction open for a moment like a loan with several items.
+// Returns the committed invoice number or null.
+function createLoan(index, { rollback = false, numberedBy = 'server' } = {}) {
+    return inTransaction(async (client) => {
+        const invoiceNo = numberedBy === 'server' ? await nextDocumentNumber(client, 'loan') : null;
+        const result = await client.query(
+            "INSERT INTO loan_transactions (invoice_no, borrower_name, program_name, status) VALUES ($1, $2, 'TEST', 'Open') RETURNING invoice_no",
+            [invoiceNo, `Borrower ${index}`]
+        );
+        await sleep(Math.random() * 50);
+        return result.rows[0].invoice_no;
+    }, { rollback });
+}
+
+before(async () => {
+    try {
+        await adminPool.query(`CREATE DATABASE ${TEST_DATABASE}`);
+    } catch (err) {
+        skipReason = `PostgreSQL not available (${err.code || err.message})`;
+        return;
+    }
+    pool = connectTo(TEST_DATABASE, 20);
+    await pool.query(fs.readFileSync(path.join(__dirname, '..', 'database.sql'), 'utf8'));
+});
+
+// Every test starts without loans, with every item available and with the
+// loan counter at zero
+async function resetLoans() {
+    await pool.query("DELETE FROM loan_transactions");
+    await pool.query("UPDATE items SET status = 'Available'");
+    await pool.query("DELETE FROM document_sequence_periods WHERE doc_type = 'loan'");
+    await pool.query("UPDATE document_sequences SET reset_period = 'daily', period_key = '', last_value = 0 WHERE doc_type = 'loan'");
+}
+
+after(async () => {
+    if (pool) {
+        await pool.end();
+        await adminPool.query(`DROP DATABASE IF EXISTS ${TEST_DATABASE}`);
+    }
+    await adminPool.end();
+});
+
+test('parallel loans get unique, gapless invoice numbers when some roll back', async (t) => {
+    if (skipReason) return t.skip(skipReason);
+    await resetLoans();
+
+    const results = await Promise.all(
+        Array.from({ length: 20 }, (_, i) => createLoan(i + 1, { rollback: (i + 1) % 4 === 0 }))
+    );
+    const numbers = results.filter(Boolean);
+
+    assert.equal(numbers.length, 15);
+    assert.equal(new Set(numbers).size, numbers.length, `Duplicate numbers: ${numbers.join(', ')}`);
+    assert.deepEqual(
+        numbers.map(sequenceOf).sort((a, b) => a - b),
+        Array.from({ length: numbers.length }, (_, i) => i + 1)
+    );
+});
+
+test('loans inserted without an invoice number share the same sequence', async (t) => {
+    if (skipReason) return t.skip(skipReason);
+    await resetLoans();
+
+    const results = await Promise.all(
+        Array.from({ length: 20 }, (_, i) => createLoan(i + 1, { numberedBy: i % 2 === 0 ? 'server' : 'trigger' }))
+    );
+
+    assert.equal(new Set(results).size, results.length, `Duplicate numbers: ${results.join(', ')}`);
+    assert.deepEqual(
+        results.map(sequenceOf).sort((a, b) => a - b),
+        Array.from({ length: results.length }, (_, i) => i + 1)
+    );
+});
+
+test('parallel insertLoan calls number loans uniquely and lend each item once', async (t) => {
+    if (skipReason) return t.skip(skipReason);
+    await resetLoans();
+
+    const barcodes = Array.from({ length: 12 }, (_, i) => `TEST-${String(i + 1).padStart(3, '0')}`);
+    await pool.query(`
+        INSERT INTO items (barcode, item_name, brand, price, status)
+        SELECT barcode, 'Test item', 'Test', 100000, 'Available' FROM unnest($1::varchar[]) AS barcode
+        ON CONFLICT (barcode) DO NOTHING
+    `, [barcodes]);
+
+    // Loans 1-12 take one item each, loans 13-16 ask for items 1-4 again;
+    // every third loan is rolled back
+    const loans = Array.from({ length: 16 }, (_, i) => ({
+        borrower_name: `Borrower ${i + 1}`,
+        inputter_name: 'test',
+        program_name: 'TEST',
+        items: [barcodes[i % barcodes.length]]
+    }));
+    const results = await Promise.allSettled(loans.map((loan, i) =>
+        inTransaction(client => insertLoan(client, loan), { rollback: (i + 1) % 3 === 0 })
+    ));
+
+    const numbers = results
+        .filter(result => result.status === 'fulfilled' && result.value)
+        .map(result => result.value.invoice_no);
+    const refused = results.filter(result => result.status === 'rejected');
+    refused.forEach(result => assert.match(result.reason.message, /is not available/));
+
+    assert.equal(new Set(numbers).size, numbers.length, `Duplicate numbers: ${numbers.join(', ')}`);
+    assert.deepEqual(
+        numbers.map(sequenceOf).sort((a, b) => a - b),
+        Array.from({ length: numbers.length }, (_, i) => i + 1)
+    );
+
+    const onLoan = await pool.query(`
+        SELECT li.barcode, COUNT(*)::int as loans, MIN(i.status) as item_status
+        FROM loan_items li JOIN items i ON i.barcode = li.barcode
+        GROUP BY li.barcode
+    `);
+    assert.equal(onLoan.rows.length, numbers.length);
+    onLoan.rows.forEach(row => {
+        assert.equal(row.loans, 1, `${row.barcode} was lent out ${row.loans} times`);
+        assert.equal(row.item_status, 'On Loan');
+    });
+});
+
+test('switching the reset period back continues the earlier period', async (t) => {
+    if (skipReason) return t.skip(skipReason);
+    await resetLoans();
+
+    const issued = [];
+    for (const resetPeriod of ['monthly', 'daily', 'monthly', 'never', 'daily', 'never']) {
+        await pool.query("UPDATE document_sequences SET reset_period = $1 WHERE doc_type = 'loan'", [resetPeriod]);
+        issued.push(await createLoan(issued.length + 1));
+    }
+
+    assert.equal(new Set(issued).size, issued.length, `Duplicate numbers: ${issued.join(', ')}`);
+    assert.deepEqual(issued.map(sequenceOf), [1, 1, 2, 1, 2, 2]);
+});